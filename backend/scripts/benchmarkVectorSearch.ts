@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import pool from '../src/config/database';
+import { EMBEDDING_MODEL_ID } from '../src/config/providers';
+import { EmbeddingRepository } from '../src/repositories/embeddingRepository';
+import { QueryService } from '../src/services/queryService';
+import { VectorSearchTuning, ensureVectorIndex, getVectorIndexState } from '../src/services/vectorIndexService';
+
+/**
+ * Latency and recall of ANN vector search against exact search, on a tenant's own chunks as queries (the query's
+ * own chunk is left out of both result lists). Each --ef-search (HNSW) or --probes (IVFFlat) value is measured
+ * separately and applied as given, so a list sweeps the setting; without either, the service defaults apply.
+ *
+ *   npx ts-node scripts/benchmarkVectorSearch.ts --admin 1
+ *   npx ts-node scripts/benchmarkVectorSearch.ts --admin 1 --queries 200 --k 20 --ef-search 40,100,200
+ *   VECTOR_INDEX=ivfflat npx ts-node scripts/benchmarkVectorSearch.ts --admin 1 --build --probes 1,10,30 --out ./ann.json
+ */
+const USAGE =
+  'Usage: npx ts-node scripts/benchmarkVectorSearch.ts --admin <adminId> [--queries <n>] [--k <n>] ' +
+  '[--ef-search <n,...>] [--probes <n,...>] [--build] [--out <file.json>]';
+
+interface LatencySummary {
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+interface SettingResult {
+  tuning: VectorSearchTuning;
+  recall: number;
+  latency: LatencySummary;
+}
+
+const numberList = (value: string) => value.split(',').map((v) => parseInt(v, 10)).filter((v) => v > 0);
+
+function parseArgs(argv: string[]) {
+  let adminId = NaN;
+  let queries = 50;
+  let k = 10;
+  let build = false;
+  let out: string | undefined;
+  const tunings: VectorSearchTuning[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--admin') adminId = parseInt(argv[++i], 10);
+    else if (arg === '--queries') queries = parseInt(argv[++i], 10);
+    else if (arg === '--k') k = parseInt(argv[++i], 10);
+    else if (arg === '--ef-search') tunings.push(...numberList(argv[++i]).map((efSearch) => ({ efSearch })));
+    else if (arg === '--probes') tunings.push(...numberList(argv[++i]).map((probes) => ({ probes })));
+    else if (arg === '--build') build = true;
+    else if (arg === '--out') out = argv[++i];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!Number.isInteger(adminId)) throw new Error('--admin is required');
+  if (!(queries > 0) || !(k > 0)) throw new Error('--queries and --k must be positive');
+  return { adminId, queries, k, build, out, tunings: tunings.length > 0 ? tunings : [{}] };
+}
+
+function summarize(latencies: number[]): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    meanMs: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50Ms: at(0.5),
+    p95Ms: at(0.95),
+  };
+}
+
+const chunkKey = (chunk: { document_id?: string; chunk_index?: number }) => `${chunk.document_id}-${chunk.chunk_index}`;
+
+const formatLatency = (l: LatencySummary) =>
+  `mean ${l.meanMs.toFixed(1)} ms  p50 ${l.p50Ms.toFixed(1)} ms  p95 ${l.p95Ms.toFixed(1)} ms`;
+
+const run = async () => {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (args.build) await ensureVectorIndex();
+  const index = await getVectorIndexState();
+  const sweepsEfSearch = args.tunings.some((tuning) => tuning.efSearch !== undefined);
+  const sweepsProbes = args.tunings.some((tuning) => tuning.probes !== undefined);
+  if ((sweepsEfSearch || sweepsProbes) && !index) {
+    throw new Error('--ef-search and --probes need a valid ANN index (build one with --build)');
+  }
+  if (sweepsProbes && index?.method !== 'ivfflat') throw new Error(`--probes applies to IVFFlat indexes, not ${index?.method}`);
+  if (sweepsEfSearch && index?.method !== 'hnsw') throw new Error(`--ef-search applies to HNSW indexes, not ${index?.method}`);
+  if (!index) console.warn('No valid ANN index: "ANN" below is the same ordered scan as exact search\n');
+  else console.log(`Index: ${index.spec ?? index.method} (pgvector ${index.extensionVersion}, iterative scan ${index.iterativeScan ? 'on' : 'off'})`);
+
+  const samples = await EmbeddingRepository.sampleChunkEmbeddings(args.adminId, EMBEDDING_MODEL_ID, args.queries);
+  if (samples.length === 0) throw new Error(`Tenant ${args.adminId} has no chunks embedded with ${EMBEDDING_MODEL_ID}`);
+  console.log(`${samples.length} query vector(s), k=${args.k}\n`);
+
+  const service = new QueryService();
+  const timed = async <T>(fn: () => Promise<T>): Promise<{ value: T; ms: number }> => {
+    const started = process.hrtime.bigint();
+    const value = await fn();
+    return { value, ms: Number(process.hrtime.bigint() - started) / 1e6 };
+  };
+
+  // One extra result stands in for the query's own chunk, which would otherwise be a free hit for both searches
+  const neighbours = <T extends { document_id?: string; chunk_index?: number }>(results: T[], sample: (typeof samples)[number]) =>
+    results.filter((chunk) => chunkKey(chunk) !== chunkKey(sample)).slice(0, args.k);
+
+  // Warm the cache and connections so the first measured query is not an outlier
+  await service.vectorSearch(samples[0].embedding, args.k + 1, args.adminId, undefined, { strategy: 'exact' });
+
+  const exactLatencies: number[] = [];
+  const truth: Set<string>[] = [];
+  for (const sample of samples) {
+    const { value, ms } = await timed(() =>
+      service.vectorSearch(sample.embedding, args.k + 1, args.adminId, undefined, { strategy: 'exact' })
+    );
+    exactLatencies.push(ms);
+    truth.push(new Set(neighbours(value, sample).map(chunkKey)));
+  }
+  const exact = summarize(exactLatencies);
+  console.log(`exact                 ${formatLatency(exact)}`);
+
+  const results: SettingResult[] = [];
+  for (const tuning of args.tunings) {
+    const latencies: number[] = [];
+    let recallSum = 0;
+    for (const [i, sample] of samples.entries()) {
+      const { value, ms } = await timed(() =>
+        service.vectorSearch(sample.embedding, args.k + 1, args.adminId, undefined, { strategy: 'ann', tuning })
+      );
+      latencies.push(ms);
+      const found = neighbours(value, sample).filter((chunk) => truth[i].has(chunkKey(chunk))).length;
+      recallSum += truth[i].size > 0 ? found / truth[i].size : 1;
+    }
+    const result = { tuning, recall: recallSum / samples.length, latency: summarize(latencies) };
+    results.push(result);
+    const label = tuning.efSearch ? `ef_search=${tuning.efSearch}` : tuning.probes ? `probes=${tuning.probes}` : 'default';
+    console.log(`ann ${label.padEnd(18)}${formatLatency(result.latency)}  recall@${args.k} ${result.recall.toFixed(3)}`);
+  }
+
+  if (args.out) {
+    const outPath = path.resolve(args.out);
+    const report = { index, adminId: args.adminId, queries: samples.length, k: args.k, exact, ann: results };
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`\nReport saved to: ${outPath}`);
+  }
+  await pool.end();
+};
+
+run().catch(async (error) => {
+  console.error(error);
+  await pool.end().catch(() => {});
+  process.exit(1);
+});
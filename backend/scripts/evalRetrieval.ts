@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import pool from '../src/config/database';
+import { EvaluationService, EvalRunOptions } from '../src/services/evaluationService';
+
+/**
+ * Score the RAG pipeline on a tenant's golden questions (same as POST /api/eval/runs, but waits for the result).
+ *
+ *   npx ts-node scripts/evalRetrieval.ts --admin 1 --label baseline
+ *   npx ts-node scripts/evalRetrieval.ts --admin 1 --config '{"vectorWeight":0.5,"keywordWeight":0.5}' --baseline <runId>
+ *   npx ts-node scripts/evalRetrieval.ts --admin 1 --tag constitution --k 10 --no-answers --out ./eval_report.json
+ *   npx ts-node scripts/evalRetrieval.ts --admin 1 --config '{"crossEncoder":true}' --baseline <runId>
+ */
+const USAGE =
+  'Usage: npx ts-node scripts/evalRetrieval.ts --admin <adminId> [--label <text>] [--k <n>] [--tag <tag>] ' +
+  "[--config '<json>'] [--no-answers] [--baseline <runId>] [--out <file.json>]";
+
+function parseArgs(argv: string[]) {
+  let adminId = NaN;
+  let baseline: string | undefined;
+  let out: string | undefined;
+  const options: EvalRunOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--admin') adminId = parseInt(argv[++i], 10);
+    else if (arg === '--label') options.label = argv[++i];
+    else if (arg === '--k') options.k = parseInt(argv[++i], 10);
+    else if (arg === '--tag') options.tag = argv[++i];
+    else if (arg === '--config') options.config = JSON.parse(argv[++i]);
+    else if (arg === '--no-answers') options.generateAnswers = false;
+    else if (arg === '--baseline') baseline = argv[++i];
+    else if (arg === '--out') out = argv[++i];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!Number.isInteger(adminId)) throw new Error('--admin is required');
+  return { adminId, options, baseline, out };
+}
+
+const format = (value: number | null | undefined, metric = '') =>
+  typeof value !== 'number' ? '  n/a' : metric.endsWith('_ms') ? `${value.toFixed(0)} ms` : value.toFixed(3);
+
+const run = async () => {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const service = new EvaluationService();
+  const { run: started, completion } = await service.startRun(args.adminId, args.options);
+  console.log(`Evaluation run ${started.id}: ${started.question_count} question(s), k=${started.k}\n`);
+
+  const finished = await completion;
+  if (!finished || finished.status !== 'completed') {
+    throw new Error(`Evaluation run failed: ${finished?.error || 'unknown error'}`);
+  }
+
+  const comparison = args.baseline
+    ? await service.getRun(args.baseline, args.adminId).then((b) => (b ? service.compareRuns(finished, b) : null))
+    : null;
+  if (args.baseline && !comparison) console.warn(`Baseline run ${args.baseline} not found`);
+
+  for (const [metric, value] of Object.entries(finished.metrics || {})) {
+    const delta = comparison?.deltas[metric];
+    const deltaText = typeof delta === 'number' ? `  (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})` : '';
+    console.log(`${metric.padEnd(20)} ${format(value, metric)}${deltaText}`);
+  }
+  if (comparison && !comparison.comparable) console.warn('\nBaseline used a different k; recall@k and nDCG@k are not comparable');
+
+  if (args.out) {
+    const outPath = path.resolve(args.out);
+    fs.writeFileSync(outPath, JSON.stringify({ run: finished, comparison }, null, 2), 'utf-8');
+    console.log(`\nReport saved to: ${outPath}`);
+  }
+  await pool.end();
+};
+
+run().catch(async (error) => {
+  console.error(error);
+  await pool.end().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+import pool from '../src/config/database';
+import { ReindexService, ReindexSelection } from '../src/services/reindexService';
+import { UploadService } from '../src/services/uploadService';
+import { IngestionJobRepository } from '../src/repositories/ingestionJobRepository';
+
+/**
+ * Re-chunk and re-embed stored documents (same as POST /api/documents/reindex, but runs the jobs in this process).
+ *
+ *   npx ts-node scripts/reindex.ts --admin 1 --all
+ *   npx ts-node scripts/reindex.ts --admin 1 --document <id> [--document <id> ...]
+ *   npx ts-node scripts/reindex.ts --admin 1 --category "Federal Legislation / Acts"
+ */
+const USAGE =
+  'Usage: npx ts-node scripts/reindex.ts --admin <adminId> (--all | --document <id>... | --category <name>...)';
+
+function parseArgs(argv: string[]): { adminId: number; selection: ReindexSelection } {
+  let adminId = NaN;
+  const selection: ReindexSelection = { documentIds: [], categories: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--all') selection.all = true;
+    else if (arg === '--admin') adminId = parseInt(argv[++i], 10);
+    else if (arg === '--document') selection.documentIds!.push(argv[++i]);
+    else if (arg === '--category') selection.categories!.push(argv[++i]);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!Number.isInteger(adminId)) throw new Error('--admin is required');
+  if (!selection.all && !selection.documentIds!.length && !selection.categories!.length) {
+    throw new Error('Select --all, --document or --category');
+  }
+  return { adminId, selection };
+}
+
+const run = async () => {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const { jobs, skipped } = await new ReindexService().createReindexJobs(args.adminId, args.selection);
+  skipped.forEach((s) => console.log(`Skipped ${s.filename} (${s.document_id}): ${s.reason}`));
+  console.log(`Reindexing ${jobs.length} document(s)\n`);
+
+  const uploadService = new UploadService();
+  let failed = 0;
+  for (const [i, job] of jobs.entries()) {
+    try {
+      await uploadService.runIngestionJob(job.id);
+      console.log(`[${i + 1}/${jobs.length}] ${job.filename}: done`);
+    } catch (error) {
+      failed++;
+      const message = error instanceof Error ? error.message : 'Reindex failed';
+      await IngestionJobRepository.markFailed(job.id, message);
+      console.error(`[${i + 1}/${jobs.length}] ${job.filename}: ${message} (retry with POST /api/ingestion-jobs/${job.id}/retry)`);
+    }
+  }
+
+  console.log(`\nReindexed: ${jobs.length - failed}, failed: ${failed}, skipped: ${skipped.length}`);
+  await pool.end();
+  process.exitCode = failed > 0 ? 1 : 0;
+};
+
+run().catch(async (error) => {
+  console.error(error);
+  await pool.end().catch(() => {});
+  process.exit(1);
+});
@@ -1,5 +1,9 @@
 import pool from './database';
 import logger from '../utils/logger';
+import { FULL_TEXT_CONFIG } from '../utils/language';
+import { LEGACY_EMBEDDING_MODEL_ID } from './providers';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { AnalysisRunRepository } from '../repositories/analysisRunRepository';
 
 export async function initializeAuthTables() {
   const client = await pool.connect();
@@ -89,6 +93,14 @@ export async function initializeAuthTables() {
       ADD COLUMN IF NOT EXISTS upload_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     `);
 
+    // Effective window of a version (commencement → repeal); NULL effective_from falls back to the upload date,
+    // and a version without effective_to stays in force until the next version of its family commences
+    await client.query(`
+      ALTER TABLE documents
+      ADD COLUMN IF NOT EXISTS effective_from DATE,
+      ADD COLUMN IF NOT EXISTS effective_to DATE
+    `);
+
     // Drop type column if it exists (migration from old schema)
     await client.query(`
       ALTER TABLE documents
@@ -108,6 +120,43 @@ export async function initializeAuthTables() {
       ADD COLUMN IF NOT EXISTS filepath VARCHAR(512)
     `);
 
+    // Document families: a named document (e.g. "Companies Act 2017") whose uploads are its versions
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS document_families (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        category VARCHAR(100),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Add family_id column to documents (migration)
+    await client.query(`
+      ALTER TABLE documents
+      ADD COLUMN IF NOT EXISTS family_id VARCHAR(36) REFERENCES document_families(id) ON DELETE SET NULL
+    `);
+
+    // Backfill: versions used to be chained per category, so existing documents get one family per category
+    await client.query(`
+      WITH groups AS (
+        SELECT admin_id, category, COALESCE(category, filename) AS name, gen_random_uuid()::text AS id
+        FROM documents
+        WHERE family_id IS NULL
+        GROUP BY admin_id, category, COALESCE(category, filename)
+      ), inserted AS (
+        INSERT INTO document_families (id, admin_id, name, category)
+        SELECT id, admin_id, name, category FROM groups
+      )
+      UPDATE documents d SET family_id = g.id
+      FROM groups g
+      WHERE d.family_id IS NULL
+        AND d.admin_id = g.admin_id
+        AND d.category IS NOT DISTINCT FROM g.category
+        AND COALESCE(d.category, d.filename) = g.name
+    `);
+
     // Create conversations table for chat history
     await client.query(`
       CREATE TABLE IF NOT EXISTS conversations (
@@ -158,6 +207,8 @@ export async function initializeAuthTables() {
       CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
       CREATE INDEX IF NOT EXISTS idx_documents_admin_id ON documents(admin_id);
       CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at);
+      CREATE INDEX IF NOT EXISTS idx_documents_family_id ON documents(family_id);
+      CREATE INDEX IF NOT EXISTS idx_document_families_admin_id ON document_families(admin_id);
       CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
       CREATE INDEX IF NOT EXISTS idx_conversations_created_at ON conversations(created_at);
       CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id);
@@ -236,6 +287,374 @@ export async function initializeAuthTables() {
       CREATE INDEX IF NOT EXISTS idx_custom_categories_admin_id ON custom_categories(admin_id);
     `);
 
+    // ===== Ingestion jobs: uploads are processed in the background in resumable stages =====
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ingestion_jobs (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        document_id VARCHAR(36) REFERENCES documents(id) ON DELETE SET NULL,
+        filename VARCHAR(255) NOT NULL,
+        filepath VARCHAR(512) NOT NULL,
+        file_type VARCHAR(20) NOT NULL,
+        category VARCHAR(100),
+        status VARCHAR(20) NOT NULL DEFAULT 'queued',
+        progress INTEGER NOT NULL DEFAULT 0,
+        current_page INTEGER,
+        total_pages INTEGER,
+        chunks_total INTEGER,
+        chunks_embedded INTEGER NOT NULL DEFAULT 0,
+        parsed_metadata JSONB,
+        parsed_at TIMESTAMP,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP
+      )
+    `);
+    // Staging area for parsed chunks; embeddings are filled in batches so a failed job resumes where it stopped
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ingestion_job_chunks (
+        id VARCHAR(36) PRIMARY KEY,
+        job_id VARCHAR(36) NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        section_name TEXT,
+        page_number INTEGER,
+        embedding vector,
+        UNIQUE(job_id, chunk_index)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_admin_id ON ingestion_jobs(admin_id);
+      CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_ingestion_job_chunks_job_id ON ingestion_job_chunks(job_id);
+    `);
+
+    // Target document family of an upload: family_id = new version of an existing family,
+    // otherwise a new family is created (named family_name, or the filename)
+    await client.query(`
+      ALTER TABLE ingestion_jobs
+      ADD COLUMN IF NOT EXISTS family_id VARCHAR(36) REFERENCES document_families(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS family_name VARCHAR(255)
+    `);
+
+    // Reindex jobs re-parse a stored document from its original file and swap its chunks in place
+    // (same document row: version and activation state are unchanged)
+    await client.query(`
+      ALTER TABLE ingestion_jobs
+      ADD COLUMN IF NOT EXISTS reindex_document_id VARCHAR(36) REFERENCES documents(id) ON DELETE CASCADE
+    `);
+
+    // Effective dates given at upload, copied to the document when it is stored
+    await client.query(`
+      ALTER TABLE ingestion_jobs
+      ADD COLUMN IF NOT EXISTS effective_from DATE,
+      ADD COLUMN IF NOT EXISTS effective_to DATE
+    `);
+
+    // Citations found in a staged chunk during parsing (moved into citation_edges when the document is stored)
+    await client.query(`
+      ALTER TABLE ingestion_job_chunks
+      ADD COLUMN IF NOT EXISTS citations JSONB
+    `);
+
+    // Structural path of statute chunks (e.g. ["Part II", "Chapter 1", "Art. 25(2)"]); section_name holds it joined with " > "
+    await client.query(`
+      ALTER TABLE ingestion_job_chunks
+      ADD COLUMN IF NOT EXISTS hierarchy JSONB
+    `);
+    await client.query(`
+      ALTER TABLE IF EXISTS chunks
+      ADD COLUMN IF NOT EXISTS hierarchy JSONB
+    `);
+
+    // Language tag per chunk ('en', 'ur' or 'mixed'), detected at parse time
+    await client.query(`
+      ALTER TABLE ingestion_job_chunks
+      ADD COLUMN IF NOT EXISTS language VARCHAR(10)
+    `);
+    await client.query(`
+      ALTER TABLE IF EXISTS chunks
+      ADD COLUMN IF NOT EXISTS language VARCHAR(10)
+    `);
+
+    // Embedding model that produced each vector ("provider:model:dimensions", see config/providers).
+    // Rows embedded before the column existed came from the original OpenAI model.
+    await client.query(`
+      ALTER TABLE ingestion_job_chunks
+      ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255)
+    `);
+    await client.query(`
+      ALTER TABLE IF EXISTS chunks
+      ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255)
+    `);
+    await client.query(`
+      DO $$
+      BEGIN
+        IF to_regclass('chunks') IS NOT NULL THEN
+          UPDATE chunks SET embedding_model = '${LEGACY_EMBEDDING_MODEL_ID}'
+          WHERE embedding_model IS NULL AND embedding IS NOT NULL;
+        END IF;
+      END
+      $$;
+    `);
+    await client.query(
+      `UPDATE ingestion_job_chunks SET embedding_model = $1 WHERE embedding_model IS NULL AND embedding IS NOT NULL`,
+      [LEGACY_EMBEDDING_MODEL_ID]
+    );
+
+    // Bilingual full-text config: English stemming for ASCII words; non-ASCII words (Urdu script) are
+    // only lower-cased by the simple dictionary instead of going through english_stem
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${FULL_TEXT_CONFIG}') THEN
+          CREATE TEXT SEARCH CONFIGURATION ${FULL_TEXT_CONFIG} (COPY = english);
+          ALTER TEXT SEARCH CONFIGURATION ${FULL_TEXT_CONFIG}
+            ALTER MAPPING FOR word, hword, hword_part WITH simple;
+        END IF;
+      END
+      $$;
+    `);
+
+    // Keyword search index: each chunk's tsvector and its length in tokens are stored (generated from content)
+    // and the vectors GIN-indexed, so BM25 neither re-parses chunks per query nor scans them
+    await client.query(`
+      CREATE OR REPLACE FUNCTION tsvector_token_count(v tsvector) RETURNS integer
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE
+      AS $$ SELECT COALESCE(SUM(COALESCE(array_length(positions, 1), 1)), 0)::integer FROM unnest(v) $$
+    `);
+    await client.query(`
+      ALTER TABLE IF EXISTS chunks
+      ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (to_tsvector('${FULL_TEXT_CONFIG}'::regconfig, content)) STORED,
+      ADD COLUMN IF NOT EXISTS search_length INTEGER
+        GENERATED ALWAYS AS (tsvector_token_count(to_tsvector('${FULL_TEXT_CONFIG}'::regconfig, content))) STORED
+    `);
+    await client.query(`
+      DO $$
+      BEGIN
+        IF to_regclass('chunks') IS NOT NULL THEN
+          CREATE INDEX IF NOT EXISTS idx_chunks_search_vector ON chunks USING GIN (search_vector);
+          -- Exact vector search and per-document work read a tenant's chunks through their documents
+          CREATE INDEX IF NOT EXISTS idx_chunks_document_id ON chunks(document_id);
+        END IF;
+      END
+      $$;
+    `);
+
+    // BM25 statistics per tenant: chunks containing each term, and chunk count / total length for the mean length
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS search_term_stats (
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        term TEXT NOT NULL,
+        doc_freq INTEGER NOT NULL,
+        PRIMARY KEY (admin_id, term)
+      )
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS search_corpus_stats (
+        admin_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        total_length BIGINT NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    // First start with the index: count the chunks already stored
+    const statsMissing = await client.query(
+      `SELECT to_regclass('chunks') IS NOT NULL AND NOT EXISTS (SELECT 1 FROM search_corpus_stats) AS missing`
+    );
+    if (statsMissing.rows[0]?.missing) {
+      try {
+        await client.query('BEGIN');
+        await SearchIndexRepository.rebuild(client);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      logger.info('Keyword search statistics built from existing chunks');
+    }
+
+    // Citation graph: one edge per normalized reference found in a document chunk.
+    // target_family_id links the edge to the cited document (judgment by report citation, statute/Constitution by title) once known.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS citation_edges (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        source_document_id VARCHAR(36) NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        source_chunk_id VARCHAR(36),
+        citation_type VARCHAR(30) NOT NULL,
+        normalized VARCHAR(255) NOT NULL,
+        raw_text TEXT,
+        target_key VARCHAR(255),
+        target_family_id VARCHAR(36) REFERENCES document_families(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_citation_edges_admin_normalized ON citation_edges(admin_id, normalized);
+      CREATE INDEX IF NOT EXISTS idx_citation_edges_source_document ON citation_edges(source_document_id);
+      CREATE INDEX IF NOT EXISTS idx_citation_edges_target_family ON citation_edges(target_family_id);
+    `);
+
+    // ===== Retrieval evaluation: golden questions per tenant and scored runs of the RAG pipeline =====
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS eval_questions (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        question TEXT NOT NULL,
+        expected_answer TEXT,
+        expected_sources JSONB NOT NULL DEFAULT '[]',
+        tags JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    // config: pipeline parameters used; metrics: averages over questions; results: per-question scores
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS eval_runs (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        label VARCHAR(255),
+        status VARCHAR(20) NOT NULL DEFAULT 'running',
+        k INTEGER NOT NULL,
+        config JSONB NOT NULL,
+        metrics JSONB,
+        results JSONB,
+        question_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_eval_questions_admin_id ON eval_questions(admin_id);
+      CREATE INDEX IF NOT EXISTS idx_eval_runs_admin_id ON eval_runs(admin_id, created_at);
+    `);
+
+    // ===== Amendment consolidation: a base statute with amending Acts applied, with per-provision provenance =====
+    // result: consolidated provisions, applied / unapplied instructions; job_id: ingestion job of the new version, if created
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS consolidations (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        base_document_id VARCHAR(36) REFERENCES documents(id) ON DELETE SET NULL,
+        amendment_document_ids JSONB NOT NULL DEFAULT '[]',
+        title VARCHAR(255) NOT NULL,
+        statistics JSONB NOT NULL,
+        result JSONB NOT NULL,
+        job_id VARCHAR(36) REFERENCES ingestion_jobs(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_consolidations_admin_id ON consolidations(admin_id, created_at);
+    `);
+
+    // ===== Analysis runs: stored conflict / gap / version analyses (rendered as PDF / DOCX compliance reports) =====
+    // subject_key: normalised request, groups re-runs of the same analysis; documents: the stored versions analysed;
+    // findings: normalised findings (utils/analysisFindings); finding_changes: new / resolved since previous_run_id
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_runs (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        analysis_type VARCHAR(20) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        subject_key VARCHAR(500) NOT NULL,
+        request JSONB NOT NULL,
+        documents JSONB NOT NULL DEFAULT '[]',
+        findings JSONB NOT NULL DEFAULT '[]',
+        finding_changes JSONB,
+        previous_run_id VARCHAR(36) REFERENCES analysis_runs(id) ON DELETE SET NULL,
+        result JSONB NOT NULL,
+        model VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_analysis_runs_admin_id ON analysis_runs(admin_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_analysis_runs_subject ON analysis_runs(admin_id, subject_key, created_at);
+    `);
+    // Reports of the earlier reports table become analysis runs (same ids); the table is dropped once copied
+    const reportsTable = await client.query(`SELECT to_regclass('reports') IS NOT NULL AS present`);
+    if (reportsTable.rows[0]?.present) {
+      try {
+        await client.query('BEGIN');
+        const copied = await AnalysisRunRepository.importLegacyReports(client);
+        await client.query('DROP TABLE reports');
+        await client.query('COMMIT');
+        logger.info('Reports migrated to analysis runs', { copied });
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    // Conflict findings: detected conflicts tracked across runs (triage status, assignee, justification)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conflict_findings (
+        id VARCHAR(36) PRIMARY KEY,
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        fingerprint VARCHAR(64) NOT NULL,
+        excerpt_hash VARCHAR(64) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'acknowledged', 'assigned', 'resolved', 'dismissed')),
+        severity VARCHAR(20) NOT NULL,
+        conflict_type VARCHAR(100) NOT NULL,
+        description TEXT NOT NULL,
+        recommendation TEXT,
+        document_a JSONB NOT NULL,
+        document_b JSONB NOT NULL,
+        assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        resolution_note TEXT,
+        first_run_id VARCHAR(36) REFERENCES analysis_runs(id) ON DELETE SET NULL,
+        last_run_id VARCHAR(36) REFERENCES analysis_runs(id) ON DELETE SET NULL,
+        detection_count INTEGER NOT NULL DEFAULT 1,
+        last_detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        status_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        status_changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (admin_id, fingerprint)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conflict_findings_status ON conflict_findings(admin_id, status, last_detected_at);
+      CREATE INDEX IF NOT EXISTS idx_conflict_findings_assigned_to ON conflict_findings(assigned_to);
+    `);
+
+    // Comment thread of a conflict finding
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conflict_finding_comments (
+        id SERIAL PRIMARY KEY,
+        finding_id VARCHAR(36) NOT NULL REFERENCES conflict_findings(id) ON DELETE CASCADE,
+        author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conflict_finding_comments_finding_id ON conflict_finding_comments(finding_id, created_at);
+    `);
+
+    // Cached verdicts of clause-pair conflict checks (hash of both clauses and the model), so re-runs only check new text
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conflict_pair_checks (
+        admin_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        pair_hash VARCHAR(64) NOT NULL,
+        model VARCHAR(255) NOT NULL,
+        verdict JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (admin_id, pair_hash)
+      )
+    `);
+
     // Seed default_categories (idempotent: insert only if not exists)
     const defaultCategoryNames = [
       'Constitution of Pakistan',
@@ -0,0 +1,111 @@
+import { OpenAIEmbeddings, ChatOpenAI } from '@langchain/openai';
+import type { AIMessage, AIMessageChunk } from 'langchain';
+import dotenv from 'dotenv';
+import { StubChatModel, StubEmbeddings } from './stubModels';
+
+dotenv.config();
+
+/**
+ * LLM and embedding providers, selected by configuration:
+ * - openai:            OpenAI API (default)
+ * - openai-compatible: any server speaking the OpenAI API (llama.cpp server, Ollama, vLLM, LM Studio); with both
+ *                      providers set to this, no document text leaves the deployment
+ * - stub:              deterministic, offline models for tests and local development
+ */
+export type ProviderName = 'openai' | 'openai-compatible' | 'stub';
+
+type ChatInput = string | any[];
+type ChatCallOptions = { tools?: any[]; tool_choice?: any };
+
+/** Chat model surface used by the services (ChatOpenAI and StubChatModel both satisfy it) */
+export interface ChatModel {
+  invoke(input: ChatInput, options?: ChatCallOptions): Promise<AIMessage | AIMessageChunk>;
+  stream(input: ChatInput, options?: ChatCallOptions): Promise<AsyncIterable<AIMessageChunk>>;
+}
+
+/** Embedding model surface used by the services */
+export interface EmbeddingModel {
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+const PROVIDERS: ProviderName[] = ['openai', 'openai-compatible', 'stub'];
+
+function readProvider(name: string, fallback: ProviderName): ProviderName {
+  const value = (process.env[name] || fallback).trim().toLowerCase() as ProviderName;
+  if (!PROVIDERS.includes(value)) {
+    throw new Error(`${name} must be one of ${PROVIDERS.join(', ')} (got "${value}")`);
+  }
+  return value;
+}
+
+function requireEnv(name: string, reason: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required ${reason}`);
+  }
+  return value;
+}
+
+export const LLM_PROVIDER = readProvider('LLM_PROVIDER', 'openai');
+export const EMBEDDING_PROVIDER = readProvider('EMBEDDING_PROVIDER', LLM_PROVIDER);
+
+const LLM_MODEL = process.env.LLM_MODEL || (LLM_PROVIDER === 'openai' ? 'gpt-4o-mini' : LLM_PROVIDER);
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || (EMBEDDING_PROVIDER === 'openai' ? 'text-embedding-3-small' : EMBEDDING_PROVIDER);
+
+/** Embedding size of the configured model; chunks.embedding is migrated to it on startup (see services/embeddingModelService). */
+export const EMBEDDING_DIMENSIONS = parseInt(process.env.EMBEDDING_DIMENSIONS || '1536', 10);
+
+/** Identifies the chat model that produced a stored analysis, e.g. "openai:gpt-4o-mini" */
+export const LLM_MODEL_ID = `${LLM_PROVIDER}:${LLM_MODEL}`;
+
+/** Identifies the model that produced a stored embedding, e.g. "openai:text-embedding-3-small:1536" */
+export const EMBEDDING_MODEL_ID = `${EMBEDDING_PROVIDER}:${EMBEDDING_MODEL}:${EMBEDDING_DIMENSIONS}`;
+
+/** Model of embeddings stored before embedding_model was tracked */
+export const LEGACY_EMBEDDING_MODEL_ID = 'openai:text-embedding-3-small:1536';
+
+function createChatModel(): ChatModel {
+  switch (LLM_PROVIDER) {
+    case 'stub':
+      return new StubChatModel();
+    case 'openai-compatible':
+      return new ChatOpenAI({
+        model: LLM_MODEL,
+        temperature: 0,
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        configuration: { baseURL: requireEnv('LLM_BASE_URL', 'when LLM_PROVIDER=openai-compatible') },
+      });
+    default:
+      return new ChatOpenAI({
+        modelName: LLM_MODEL,
+        temperature: 0,
+      });
+  }
+}
+
+function createEmbeddingModel(): EmbeddingModel {
+  switch (EMBEDDING_PROVIDER) {
+    case 'stub':
+      return new StubEmbeddings(EMBEDDING_DIMENSIONS);
+    case 'openai-compatible':
+      // Local servers return the model's native size; EMBEDDING_DIMENSIONS must match it
+      return new OpenAIEmbeddings({
+        model: EMBEDDING_MODEL,
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.LLM_API_KEY || 'not-needed',
+        configuration: {
+          baseURL: process.env.EMBEDDING_BASE_URL
+            || requireEnv('LLM_BASE_URL', 'when EMBEDDING_PROVIDER=openai-compatible and EMBEDDING_BASE_URL is not set'),
+        },
+      });
+    default:
+      return new OpenAIEmbeddings({
+        modelName: EMBEDDING_MODEL,
+        model: EMBEDDING_MODEL, // some LangChain versions use this
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+  }
+}
+
+export const llm: ChatModel = createChatModel();
+export const embeddings: EmbeddingModel = createEmbeddingModel();
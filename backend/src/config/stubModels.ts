@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { AIMessage, AIMessageChunk } from 'langchain';
+
+/**
+ * Deterministic offline models (LLM_PROVIDER=stub / EMBEDDING_PROVIDER=stub).
+ * No network access: the same input always yields the same output, so the pipeline can run in CI
+ * and on air-gapped machines. Answers are placeholders, not legal analysis.
+ */
+
+function messageText(message: any): string {
+  if (typeof message === 'string') return message;
+  const content = message?.content ?? message?.kwargs?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.map((part: any) => (typeof part === 'string' ? part : part?.text || '')).join(' ');
+  return '';
+}
+
+function lastUserText(input: string | any[]): string {
+  if (typeof input === 'string') return input;
+  for (let i = input.length - 1; i >= 0; i--) {
+    const message = input[i];
+    const role = message?.role ?? (typeof message?._getType === 'function' ? message._getType() : undefined);
+    if (role === 'user' || role === 'human') return messageText(message);
+  }
+  return messageText(input[input.length - 1]);
+}
+
+/**
+ * Echoes a short digest of the prompt. Never calls tools, so the agent answers in one turn.
+ */
+export class StubChatModel {
+  private respond(input: string | any[]): string {
+    const prompt = lastUserText(input).replace(/\s+/g, ' ').trim();
+    const digest = createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+    return `[stub ${digest}] ${prompt.slice(0, 200)}`;
+  }
+
+  async invoke(input: string | any[], _options?: unknown): Promise<AIMessage> {
+    return new AIMessage(this.respond(input));
+  }
+
+  async stream(input: string | any[], _options?: unknown): Promise<AsyncIterable<AIMessageChunk>> {
+    const words = this.respond(input).split(/(?<=\s)/);
+    return (async function* () {
+      for (const word of words) {
+        yield new AIMessageChunk(word);
+      }
+    })();
+  }
+}
+
+/**
+ * Hashed bag-of-words vectors (L2-normalised): texts sharing words get a positive cosine similarity,
+ * which keeps vector search meaningful enough for tests.
+ */
+export class StubEmbeddings {
+  constructor(private readonly dimensions: number) {}
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    for (const token of tokens) {
+      const hash = createHash('md5').update(token).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+}
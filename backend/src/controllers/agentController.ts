@@ -5,12 +5,13 @@ import { getAdminIdForUser } from '../utils/adminIdUtils';
 import { AuthenticatedRequest } from '../types';
 import * as conversationService from '../services/conversationService';
 import logger from '../utils/logger';
+import { normalizeSearchFilters } from '../utils/searchFilters';
 
 const agent = new LegalComplianceAgent();
 
 /**
  * POST /api/query
- * Body: { query: "string" }
+ * Body: { query: "string", filters?: { categories, familyIds, documentIds, version, asOfDate, pageFrom, pageTo, courts, judges, parties, dispositions, decidedFrom, decidedTo } }
  * 
  * Main entry point - Agent decides which tools to use
  * Validation handled by middleware, errors caught by asyncHandler
@@ -18,22 +19,24 @@ const agent = new LegalComplianceAgent();
  */
 export const agentQuery = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const { query } = req.body;
+  const filters = normalizeSearchFilters(req.body.filters);
   
   const adminId = getAdminIdForUser(req.user);
   if (!adminId) {
     throw new AppError('User role not properly configured', 500);
   }
 
-  const result = await agent.processQuery(query, adminId);
+  const result = await agent.processQuery(query, adminId, 5, undefined, undefined, undefined, filters);
   return res.status(200).json({ success: true, data: result });
 });
 
 /**
  * POST /api/query/agent-stream
- * Body: { query: "string" }
+ * Body: { query: "string", conversationHistory?, conversationId?, filters? } (filters as for /api/query)
  * 
  * SSE streaming version of the agent pipeline.
- * Streams log events during tool execution and the final answer.
+ * Streams log events during tool execution, `delta` events with answer tokens as they are generated,
+ * a `citations` event once citations are resolved, then the final answer.
  */
 export const agentQueryStream = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -43,6 +46,8 @@ export const agentQueryStream = async (req: AuthenticatedRequest, res: Response)
       conversationId?: number | string;
     };
 
+    const filters = normalizeSearchFilters(req.body.filters);
+
     if (!query) {
       return res.status(400).json({ success: false, message: 'Query is required' });
     }
@@ -88,9 +93,17 @@ export const agentQueryStream = async (req: AuthenticatedRequest, res: Response)
       res.write(`data: ${JSON.stringify({ type: 'log', log: logEntry })}\n\n`);
     };
 
+    const sendDelta = (delta: string) => {
+      res.write(`data: ${JSON.stringify({ type: 'delta', delta })}\n\n`);
+    };
+
     try {
-      const result = await agent.processQuery(query, adminId, 5, sendLog, history);
+      const result = await agent.processQuery(query, adminId, 5, sendLog, history, sendDelta, filters);
 
+      // Citations are only known once the full answer exists (they are filtered against it)
+      if (result.citations?.length) {
+        res.write(`data: ${JSON.stringify({ type: 'citations', citations: result.citations })}\n\n`);
+      }
       res.write(`data: ${JSON.stringify({ type: 'answer', answer: result })}\n\n`);
       res.write(`data: ${JSON.stringify({ type: 'complete' })}\n\n`);
       res.end();
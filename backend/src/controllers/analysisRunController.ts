@@ -0,0 +1,106 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+import { AnalysisRunService, ReportFormat } from '../services/analysisRunService';
+import { ReportType } from '../utils/reportBuilder';
+
+const analysisRunService = new AnalysisRunService();
+
+/**
+ * Run a conflict detection, gap analysis or version comparison and store it
+ * POST /analysis-runs  { type: 'conflicts', documents | categories, topic? } | { type: 'gaps', documentA, documentB, focusArea? }
+ *                    | { type: 'versions', document, fromVersion?, toVersion? }
+ */
+export const createAnalysisRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  let run;
+  try {
+    run = await analysisRunService.run(adminId, req.body, req.user?.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(201).json({ success: true, message: 'Analysis completed', data: { run } });
+});
+
+/**
+ * List runs (without their analysis results), optionally of one type or one analysis
+ * GET /analysis-runs?type=conflicts|gaps|versions&subject=<subject_key>
+ */
+export const listAnalysisRuns = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const runs = await analysisRunService.listRuns(adminId, {
+    analysisType: req.query.type as ReportType | undefined,
+    subjectKey: req.query.subject as string | undefined,
+  });
+  return res.status(200).json({ success: true, data: { runs } });
+});
+
+/**
+ * Get a run with its analysis result, and the history of the same analysis (earlier and later runs)
+ * GET /analysis-runs/:id
+ */
+export const getAnalysisRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const run = await analysisRunService.getRun(id as string, adminId);
+  if (!run) {
+    throw new AppError('Analysis run not found', 404);
+  }
+  const history = await analysisRunService.listRuns(adminId, { subjectKey: run.subject_key });
+  return res.status(200).json({ success: true, data: { run, history } });
+});
+
+/**
+ * Run an analysis again with the same inputs (against the current versions of its documents)
+ * POST /analysis-runs/:id/rerun
+ */
+export const rerunAnalysisRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  let run;
+  try {
+    run = await analysisRunService.rerun(id as string, adminId, req.user?.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(201).json({ success: true, message: 'Analysis completed', data: { run } });
+});
+
+/**
+ * Download a run as a compliance report
+ * GET /analysis-runs/:id/report?format=pdf|docx
+ */
+export const downloadAnalysisReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const format = (req.query.format as ReportFormat | undefined) ?? 'pdf';
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const run = await analysisRunService.getRun(id as string, adminId);
+  if (!run) {
+    throw new AppError('Analysis run not found', 404);
+  }
+  const { buffer, contentType, filename } = await analysisRunService.renderReport(run, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+  );
+  return res.send(buffer);
+});
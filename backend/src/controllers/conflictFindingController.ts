@@ -0,0 +1,98 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest, ConflictFindingStatus } from '../types';
+import { ConflictFindingChangedError, ConflictTriageService } from '../services/conflictTriageService';
+
+const triageService = new ConflictTriageService();
+
+/**
+ * List tracked conflict findings with the number of findings per status
+ * GET /conflict-findings?status=open,acknowledged&assignee=me|<userId>
+ */
+export const listConflictFindings = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const assignee = req.query.assignee as string | undefined;
+  const result = await triageService.listFindings(adminId, {
+    statuses: (req.query.status as string | undefined)?.split(',') as ConflictFindingStatus[] | undefined,
+    assignedTo: assignee === 'me' ? req.user?.id : assignee ? Number(assignee) : undefined,
+  });
+  return res.status(200).json({ success: true, data: result });
+});
+
+/**
+ * Users a finding can be assigned to (the admin and active employees)
+ * GET /conflict-findings/assignees
+ */
+export const listConflictAssignees = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const assignees = await triageService.listAssignees(adminId);
+  return res.status(200).json({ success: true, data: { assignees } });
+});
+
+/**
+ * Get a finding with its comments and audit trail
+ * GET /conflict-findings/:id
+ */
+export const getConflictFinding = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const result = await triageService.getFinding(id as string, adminId);
+  if (!result) {
+    throw new AppError('Conflict finding not found', 404);
+  }
+  return res.status(200).json({ success: true, data: result });
+});
+
+/**
+ * Acknowledge, assign, resolve, dismiss or re-open a finding
+ * POST /conflict-findings/:id/transition  { status, assigneeId?, justification? }
+ */
+export const transitionConflictFinding = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  let finding;
+  try {
+    finding = await triageService.transition(id as string, adminId, req.user?.id, req.body, {
+      ipAddress: (req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || 'unknown',
+      userAgent: req.headers['user-agent'] || 'unknown',
+    });
+  } catch (error) {
+    if (error instanceof ConflictFindingChangedError) throw new AppError(error.message, 409);
+    const message = error instanceof Error ? error.message : 'Could not update the finding';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(200).json({ success: true, message: 'Finding updated', data: { finding } });
+});
+
+/**
+ * Add a comment to a finding
+ * POST /conflict-findings/:id/comments  { body }
+ */
+export const addConflictFindingComment = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  let comment;
+  try {
+    comment = await triageService.addComment(id as string, adminId, req.user?.id, req.body.body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Could not add the comment';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(201).json({ success: true, data: { comment } });
+});
@@ -0,0 +1,84 @@
+import path from 'path';
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+import { ConsolidationService } from '../services/consolidationService';
+import { enqueueIngestionJob } from '../services/ingestionQueue';
+
+const consolidationService = new ConsolidationService();
+
+/**
+ * Apply amending Acts / Ordinances to a base statute; optionally ingest the result as a new version
+ * POST /consolidations  { baseDocumentId, amendmentDocumentIds, createVersion?, effectiveFrom? }
+ */
+export const createConsolidation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const { baseDocumentId, amendmentDocumentIds, createVersion, effectiveFrom } = req.body;
+  let consolidation;
+  try {
+    consolidation = await consolidationService.consolidate(
+      adminId,
+      { baseDocumentId, amendmentDocumentIds, createVersion, effectiveFrom },
+      req.user?.id
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to consolidate';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  if (consolidation.job_id) enqueueIngestionJob(consolidation.job_id);
+  return res.status(201).json({ success: true, message: 'Consolidation created', data: { consolidation } });
+});
+
+/**
+ * List consolidations (without the consolidated text)
+ * GET /consolidations
+ */
+export const listConsolidations = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const consolidations = await consolidationService.listConsolidations(adminId);
+  return res.status(200).json({ success: true, data: { consolidations } });
+});
+
+/**
+ * Get a consolidation: consolidated provisions with provenance and the instructions that were not applied
+ * GET /consolidations/:id
+ */
+export const getConsolidation = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const consolidation = await consolidationService.getConsolidation(id as string, adminId);
+  if (!consolidation) {
+    throw new AppError('Consolidation not found', 404);
+  }
+  return res.status(200).json({ success: true, data: { consolidation } });
+});
+
+/**
+ * Download the consolidated statute as plain text
+ * GET /consolidations/:id/text
+ */
+export const downloadConsolidationText = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const consolidation = await consolidationService.getConsolidation(id as string, adminId);
+  if (!consolidation) {
+    throw new AppError('Consolidation not found', 404);
+  }
+  const filename = `${path.parse(consolidation.result?.base?.filename || 'statute').name} (consolidated).txt`.replace(/"/g, '');
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(consolidationService.renderText(consolidation));
+});
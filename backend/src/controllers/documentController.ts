@@ -6,6 +6,7 @@ import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { getAdminIdForUser } from '../utils/adminIdUtils';
 import { AuthenticatedRequest } from '../types';
 import { isSupabaseFilepath, downloadFromSupabase } from '../services/supabaseStorage';
+import { Disposition } from '../utils/judgmentMetadata';
 
 const documentService = new DocumentService();
 
@@ -15,7 +16,15 @@ export const listDocuments = asyncHandler(async (req: AuthenticatedRequest, res:
     throw new AppError('User role not properly configured', 500);
   }
   
-  const listResult = await documentService.listDocuments(adminId);
+  const { court, judge, party, disposition, decidedFrom, decidedTo } = req.query as Record<string, string | undefined>;
+  const listResult = await documentService.listDocuments(adminId, {
+    courts: court ? [court] : undefined,
+    judges: judge ? [judge] : undefined,
+    parties: party ? [party] : undefined,
+    dispositions: disposition ? [disposition as Disposition] : undefined,
+    decidedFrom,
+    decidedTo,
+  });
   return res.status(200).json({ success: true, data: { documents: listResult.documents } });
 });
 
@@ -31,7 +40,7 @@ export const deleteDocument = asyncHandler(async (req: AuthenticatedRequest, res
 });
 
 /**
- * Activate a document (sets it as active and deactivates all other documents with same category)
+ * Activate a document (sets it as active and deactivates the other versions in its document family)
  * PUT /documents/:id/activate
  */
 export const activateDocument = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -60,6 +69,27 @@ export const deactivateDocument = asyncHandler(async (req: AuthenticatedRequest,
   return res.status(200).json({ success: true, message: 'Document deactivated' });
 });
 
+/**
+ * Set the effective window of a document version (commencement / repeal); null clears a date
+ * PUT /documents/:id/effective-dates  { effectiveFrom?: "YYYY-MM-DD" | null, effectiveTo?: "YYYY-MM-DD" | null }
+ */
+export const updateEffectiveDates = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const { effectiveFrom, effectiveTo } = req.body;
+  try {
+    const document = await documentService.updateEffectiveDates(id as string, adminId, { effectiveFrom, effectiveTo });
+    return res.status(200).json({ success: true, message: 'Effective dates updated', data: { document } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update effective dates';
+    throw new AppError(message, message === 'Document not found' ? 404 : 400);
+  }
+});
+
 /**
  * Stream document file for preview/download
  * GET /documents/:id/download
@@ -90,7 +120,9 @@ export const downloadDocument = asyncHandler(async (req: AuthenticatedRequest, r
         ? "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
         : ext === ".doc"
           ? "application/msword"
-          : "application/octet-stream";
+          : ext === ".txt"
+            ? "text/plain; charset=utf-8"
+            : "application/octet-stream";
   res.setHeader("Content-Type", contentType);
   res.setHeader("Content-Disposition", `inline; filename="${path.basename(filename)}"`);
 
@@ -0,0 +1,108 @@
+import { Response } from 'express';
+import { DocumentFamilyService } from '../services/documentFamilyService';
+import { DocumentService } from '../services/documentService';
+import { VersionComparisonService } from '../services/versionComparisonService';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+
+const familyService = new DocumentFamilyService();
+const documentService = new DocumentService();
+const comparisonService = new VersionComparisonService();
+
+/**
+ * List document families with version counts and the active version
+ * GET /document-families
+ */
+export const listDocumentFamilies = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const families = await familyService.listFamilies(adminId);
+  return res.status(200).json({ success: true, data: { families } });
+});
+
+/**
+ * Get a document family and its versions (oldest first)
+ * GET /document-families/:id
+ */
+export const getDocumentFamily = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const family = await familyService.getFamilyById(id as string, adminId);
+  if (!family) {
+    throw new AppError('Document family not found', 404);
+  }
+  const versions = await familyService.getFamilyVersions(family.id, adminId);
+  return res.status(200).json({ success: true, data: { family, versions } });
+});
+
+/**
+ * Clause-aligned comparison of two versions of a family (sections with word-level redlines)
+ * GET /document-families/:id/compare?from=1&to=2   (defaults: the latest version and the one before it)
+ */
+export const compareFamilyVersions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const from = req.query.from !== undefined ? Number(req.query.from) : undefined;
+  const to = req.query.to !== undefined ? Number(req.query.to) : undefined;
+  let comparison;
+  try {
+    comparison = await comparisonService.compareFamilyVersions(id as string, adminId, from, to);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to compare versions';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(200).json({ success: true, data: { comparison } });
+});
+
+/**
+ * Create an empty document family (versions are added by uploading with its familyId)
+ * POST /document-families
+ */
+export const createDocumentFamily = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const { name, category } = req.body;
+  const family = await familyService.createFamily(adminId, name, category);
+  return res.status(201).json({ success: true, message: 'Document family created', data: { family } });
+});
+
+/**
+ * Move a document into another family (fixes a version uploaded as the wrong document)
+ * PUT /documents/:id/family
+ */
+export const moveDocumentToFamily = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const { familyId } = req.body;
+  const family = await familyService.getFamilyById(familyId, adminId);
+  if (!family) {
+    throw new AppError('Document family not found', 404);
+  }
+  try {
+    await documentService.getDocumentById(id as string, adminId);
+  } catch {
+    throw new AppError('Document not found', 404);
+  }
+
+  const result = await familyService.moveDocumentToFamily(id as string, family.id, adminId);
+  return res.status(200).json({ success: true, message: result.message, data: { moved: result.moved, version: result.version } });
+});
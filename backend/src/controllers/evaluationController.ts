@@ -0,0 +1,127 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+import { EvaluationService } from '../services/evaluationService';
+
+const evaluationService = new EvaluationService();
+
+/**
+ * List golden evaluation questions (optionally ?tag=)
+ * GET /eval/questions
+ */
+export const listEvalQuestions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined;
+  const questions = await evaluationService.listQuestions(adminId, tag);
+  return res.status(200).json({ success: true, data: { questions } });
+});
+
+/**
+ * Add a golden question with the sources a correct answer must come from
+ * POST /eval/questions
+ */
+export const createEvalQuestion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const { question, expectedAnswer, expectedSources, tags } = req.body;
+  const created = await evaluationService.createQuestion(adminId, { question, expectedAnswer, expectedSources, tags }, req.user?.id);
+  return res.status(201).json({ success: true, message: 'Evaluation question created', data: { question: created } });
+});
+
+/**
+ * Update a golden question
+ * PUT /eval/questions/:id
+ */
+export const updateEvalQuestion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const { question, expectedAnswer, expectedSources, tags } = req.body;
+  const updated = await evaluationService.updateQuestion(id as string, adminId, { question, expectedAnswer, expectedSources, tags });
+  if (!updated) {
+    throw new AppError('Evaluation question not found', 404);
+  }
+  return res.status(200).json({ success: true, data: { question: updated } });
+});
+
+/**
+ * Delete a golden question
+ * DELETE /eval/questions/:id
+ */
+export const deleteEvalQuestion = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const deleted = await evaluationService.deleteQuestion(id as string, adminId);
+  if (!deleted) {
+    throw new AppError('Evaluation question not found', 404);
+  }
+  return res.status(200).json({ success: true, message: 'Evaluation question deleted' });
+});
+
+/**
+ * Start an evaluation run against the current pipeline (runs in the background; poll the run)
+ * POST /eval/runs  { label?, k?, tag?, config?: { vectorWeight, keywordWeight, ... }, generateAnswers? }
+ */
+export const startEvalRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const { label, k, tag, config, generateAnswers } = req.body;
+  try {
+    const { run } = await evaluationService.startRun(adminId, { label, k, tag, config, generateAnswers }, req.user?.id);
+    return res.status(202).json({ success: true, message: 'Evaluation run started', data: { run } });
+  } catch (error) {
+    throw new AppError(error instanceof Error ? error.message : 'Failed to start evaluation run', 400);
+  }
+});
+
+/**
+ * List evaluation runs with their averaged metrics
+ * GET /eval/runs
+ */
+export const listEvalRuns = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const runs = await evaluationService.listRuns(adminId);
+  return res.status(200).json({ success: true, data: { runs } });
+});
+
+/**
+ * Get an evaluation run with per-question results; ?baseline=<runId> adds metric deltas against that run
+ * GET /eval/runs/:id
+ */
+export const getEvalRun = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const run = await evaluationService.getRun(id as string, adminId);
+  if (!run) {
+    throw new AppError('Evaluation run not found', 404);
+  }
+
+  let comparison: ReturnType<EvaluationService['compareRuns']> | null = null;
+  if (typeof req.query.baseline === 'string') {
+    const baseline = await evaluationService.getRun(req.query.baseline, adminId);
+    if (!baseline) {
+      throw new AppError('Baseline evaluation run not found', 404);
+    }
+    comparison = evaluationService.compareRuns(run, baseline);
+  }
+  return res.status(200).json({ success: true, data: { run, comparison } });
+});
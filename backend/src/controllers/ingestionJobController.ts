@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import { enqueueIngestionJob } from '../services/ingestionQueue';
+import { ReindexService } from '../services/reindexService';
+
+const reindexService = new ReindexService();
+
+/**
+ * List recent ingestion jobs for the tenant
+ * GET /ingestion-jobs
+ */
+export const listIngestionJobs = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const jobs = await IngestionJobRepository.findByAdminId(adminId);
+  return res.status(200).json({ success: true, data: { jobs } });
+});
+
+/**
+ * Get status and progress of an ingestion job
+ * GET /ingestion-jobs/:id
+ */
+export const getIngestionJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const job = await IngestionJobRepository.findById(id as string, adminId);
+  if (!job) {
+    throw new AppError('Ingestion job not found', 404);
+  }
+  return res.status(200).json({ success: true, data: { job } });
+});
+
+/**
+ * Retry a failed ingestion job (resumes from the last completed stage)
+ * POST /ingestion-jobs/:id/retry
+ */
+export const retryIngestionJob = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const job = await IngestionJobRepository.requeue(id as string, adminId);
+  if (!job) {
+    throw new AppError('Only failed ingestion jobs can be retried', 409);
+  }
+  enqueueIngestionJob(job.id);
+  return res.status(202).json({ success: true, message: 'Ingestion job queued for retry', data: { job } });
+});
+
+/**
+ * Re-chunk and re-embed stored documents from their originals (versions and activation are unchanged)
+ * POST /documents/reindex  { documentIds?: string[], categories?: string[], all?: boolean }
+ */
+export const reindexDocuments = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+
+  const { documentIds, categories, all } = req.body;
+  const { jobs, skipped } = await reindexService.createReindexJobs(adminId, { documentIds, categories, all }, req.user?.id);
+  jobs.forEach((job) => enqueueIngestionJob(job.id));
+  return res.status(202).json({
+    success: true,
+    message: `${jobs.length} document(s) queued for reindexing`,
+    data: { jobs, skipped },
+  });
+});
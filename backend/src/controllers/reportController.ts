@@ -0,0 +1,77 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AnalysisRun, AuthenticatedRequest } from '../types';
+import { AnalysisRunService, ReportFormat } from '../services/analysisRunService';
+
+const analysisRunService = new AnalysisRunService();
+
+/**
+ * /reports is the earlier compliance report API. Reports are analysis runs now (see analysisRunController);
+ * these endpoints keep the original request and response shapes.
+ */
+const toReport = (run: AnalysisRun) => ({
+  id: run.id,
+  admin_id: run.admin_id,
+  created_by: run.created_by,
+  report_type: run.analysis_type,
+  title: run.title,
+  created_at: run.created_at,
+});
+
+/**
+ * Run a conflict detection, gap analysis or version comparison and save it as a report
+ * POST /reports  { type: 'conflicts', documents | categories, topic? } | { type: 'gaps', documentA, documentB, focusArea? }
+ *              | { type: 'versions', document, fromVersion?, toVersion? }
+ */
+export const createReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  let run;
+  try {
+    run = await analysisRunService.run(adminId, req.body, req.user?.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create report';
+    throw new AppError(message, /not found/.test(message) ? 404 : 400);
+  }
+  return res.status(201).json({ success: true, message: 'Report created', data: { report: toReport(run) } });
+});
+
+/**
+ * List reports (without their analysis results)
+ * GET /reports
+ */
+export const listReports = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const runs = await analysisRunService.listRuns(adminId);
+  return res.status(200).json({ success: true, data: { reports: runs.map(toReport) } });
+});
+
+/**
+ * Download a report as PDF or DOCX
+ * GET /reports/:id/download?format=pdf|docx
+ */
+export const downloadReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const format = (req.query.format as ReportFormat | undefined) ?? 'pdf';
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const run = await analysisRunService.getRun(id as string, adminId);
+  if (!run) {
+    throw new AppError('Report not found', 404);
+  }
+  const { buffer, contentType, filename } = await analysisRunService.renderReport(run, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+  );
+  return res.send(buffer);
+});
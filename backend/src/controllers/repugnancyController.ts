@@ -0,0 +1,27 @@
+import { Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAdminIdForUser } from '../utils/adminIdUtils';
+import { AuthenticatedRequest } from '../types';
+import { RepugnancyService } from '../services/repugnancyService';
+
+const repugnancyService = new RepugnancyService();
+
+/**
+ * Check a subordinate instrument for inconsistencies with the Constitution and federal law
+ * POST /repugnancy-checks  { instrument, topic?, against? }
+ */
+export const checkRepugnancy = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const adminId = getAdminIdForUser(req.user);
+  if (!adminId) {
+    throw new AppError('User role not properly configured', 500);
+  }
+  const { instrument, topic, against } = req.body;
+  let result;
+  try {
+    result = await repugnancyService.checkInstrument(instrument, adminId, { topic, against });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Repugnancy check failed';
+    throw new AppError(message, /Could not find|No constitutional/.test(message) ? 404 : 400);
+  }
+  return res.status(200).json({ success: true, data: result });
+});
@@ -1,20 +1,29 @@
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { UploadService } from '../services/uploadService';
-import { DocumentService } from '../services/documentService';
+import { BulkUploadService, BulkUploadError, MAX_BULK_ENTRIES } from '../services/bulkUploadService';
+import { enqueueIngestionJob } from '../services/ingestionQueue';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import { DocumentFamilyService } from '../services/documentFamilyService';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../types';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { isSupabaseConfigured } from '../config/supabase';
-import { uploadDocumentToSupabase } from '../services/supabaseStorage';
 
 const upload = multer({ dest: 'uploads/' });
 const uploadService = new UploadService();
-const documentService = new DocumentService();
+const bulkUploadService = new BulkUploadService();
+const familyService = new DocumentFamilyService();
 
 export const uploadMiddleware = upload.single('file');
 
+/** Bulk upload: any number of documents and/or ZIP archives, plus an optional manifest (CSV/JSON) */
+export const bulkUploadMiddleware = upload.fields([
+  { name: 'files', maxCount: MAX_BULK_ENTRIES },
+  { name: 'manifest', maxCount: 1 },
+]);
+
 /**
  * File upload cleanup middleware
  * Removes uploaded file if controller throws an error
@@ -29,6 +38,12 @@ export const uploadErrorCleanup = (
   if (req.file && fs.existsSync(req.file.path)) {
     fs.unlinkSync(req.file.path);
   }
+  // Bulk uploads (upload.fields) put files in req.files by field name
+  if (req.files && !Array.isArray(req.files)) {
+    Object.values(req.files).flat().forEach((file) => {
+      if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+    });
+  }
   next(err);
 };
 
@@ -48,7 +63,8 @@ export const uploadController = asyncHandler(async (req: AuthenticatedRequest, r
     throw new AppError('No file uploaded', 400);
   }
 
-  const { category = 'Federal Legislation / Acts' } = req.body;
+  const { familyId, familyName, effectiveFrom, effectiveTo } = req.body;
+  let { category = 'Federal Legislation / Acts' } = req.body;
   const fileExt = path.extname(req.file.originalname).slice(1);
 
   // Validation: Check file type
@@ -57,38 +73,92 @@ export const uploadController = asyncHandler(async (req: AuthenticatedRequest, r
     throw new AppError('Supported file types: PDF, DOCX, JPG, PNG, TIFF, WebP', 400);
   }
 
+  // New version of an existing document: the family must belong to this admin; its category is the default
+  if (familyId) {
+    const family = await familyService.getFamilyById(familyId, req.user.id);
+    if (!family) {
+      if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+      throw new AppError('Document family not found', 404);
+    }
+    if (!req.body.category && family.category) {
+      category = family.category;
+    }
+  }
+
   // Store absolute path so DB has a full, unambiguous path (not just "upload" or relative)
   const absolutePath = path.resolve(req.file.path);
 
-  // Business logic: Process document with admin_id
-  const documentId = await uploadService.ingestDocument(
-    absolutePath,
-    req.file.originalname,
-    fileExt,
+  // Parsing, OCR and embedding run in the background; clients poll the job for progress
+  const job = await IngestionJobRepository.create({
+    id: uuidv4(),
+    adminId: req.user.id, // Uploads are admin-only, so the uploader is the tenant admin
+    createdBy: req.user.id,
+    filename: req.file.originalname,
+    filepath: absolutePath,
+    fileType: fileExt,
     category,
-    req.user.id // Pass admin_id
-  );
-
-  if (isSupabaseConfigured) {
-    try {
-      const supabaseFilepath = await uploadDocumentToSupabase(
-        req.file.path,
-        req.user.id,
-        documentId,
-        req.file.originalname
-      );
-      await documentService.updateDocumentFilepath(documentId, req.user.id, supabaseFilepath);
-      if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
-    } catch (err) {
-      if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
-      throw err;
-    }
-  }
+    familyId: familyId || undefined,
+    familyName: familyName || undefined,
+    effectiveFrom: effectiveFrom || undefined,
+    effectiveTo: effectiveTo || undefined,
+  });
+  enqueueIngestionJob(job.id);
 
   // Standardized response
-  return res.status(200).json({
+  return res.status(202).json({
+    success: true,
+    message: 'Document upload accepted for processing',
+    data: { jobId: job.id, status: job.status },
+  });
+});
+
+/**
+ * Bulk upload documents and/or ZIP archives
+ * POST /upload/bulk
+ * Category per file: manifest entry → folder name matching a category → optional `category` field.
+ * Responds with a per-file report; accepted files are processed as ingestion jobs.
+ */
+export const bulkUploadController = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Unauthorized', 401);
+  }
+
+  if (req.user.role !== 'admin') {
+    throw new AppError('Only admins can upload documents', 403);
+  }
+
+  const fileGroups = (req.files && !Array.isArray(req.files) ? req.files : {}) as Record<string, Express.Multer.File[]>;
+  const files = fileGroups.files ?? [];
+  const manifestFile = fileGroups.manifest?.[0];
+
+  if (files.length === 0) {
+    throw new AppError('No files uploaded', 400);
+  }
+
+  if (manifestFile && !['.csv', '.json'].includes(path.extname(manifestFile.originalname).toLowerCase())) {
+    throw new AppError('Manifest must be a .csv or .json file', 400);
+  }
+
+  let results;
+  try {
+    results = await bulkUploadService.bulkUpload(files, req.user.id, req.user.id, {
+      manifestFile,
+      defaultCategory: typeof req.body.category === 'string' && req.body.category.trim() ? req.body.category.trim() : undefined,
+    });
+  } catch (error) {
+    if (error instanceof BulkUploadError) throw new AppError(error.message, 400);
+    throw error;
+  } finally {
+    if (manifestFile && fs.existsSync(manifestFile.path)) fs.unlinkSync(manifestFile.path);
+  }
+
+  const queued = results.filter((r) => r.status === 'queued').length;
+  return res.status(202).json({
     success: true,
-    message: 'Document uploaded and ingested successfully',
-    data: { documentId },
+    message: `${queued} of ${results.length} files accepted for processing`,
+    data: {
+      summary: { total: results.length, queued, skipped: results.length - queued },
+      results,
+    },
   });
-});
\ No newline at end of file
+});
@@ -6,6 +6,9 @@ import pool from './config/database';
 import { errorHandler, AppError } from './middleware/errorHandler';
 import { initializeAuthTables } from './config/initDb';
 import { startSessionCleanupScheduler } from './helpers/sessionHelper';
+import { resumeIngestionJobs } from './services/ingestionQueue';
+import { prepareEmbeddingStore, reembedStaleChunks } from './services/embeddingModelService';
+import { ensureVectorIndex } from './services/vectorIndexService';
 import requestLogger from './middleware/requestLogger';
 import { applySecurityMiddleware } from './middleware/security';
 import { generalLimiter } from './middleware/rateLimiter';
@@ -54,6 +57,21 @@ async function startServer() {
   // Clean expired sessions on startup + every 24 hours
   const cleanupInterval = startSessionCleanupScheduler();
 
+  // Align stored vectors with the configured embedding model, then pick up ingestion jobs
+  // interrupted by the previous shutdown and re-embed chunks from a previous model; the ANN index
+  // is (re)built once the vectors are in place
+  prepareEmbeddingStore()
+    .then(() => {
+      resumeIngestionJobs().catch((err) =>
+        logger.error('Ingestion queue: failed to resume jobs', { error: err })
+      );
+      reembedStaleChunks()
+        .catch((err) => logger.error('Embedding model: re-embedding failed', { error: err }))
+        .then(() => ensureVectorIndex())
+        .catch((err) => logger.error('Vector index: failed to build', { error: err }));
+    })
+    .catch((err) => logger.error('Embedding model: failed to prepare vector store', { error: err }));
+
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     clearInterval(cleanupInterval);
@@ -10,6 +10,11 @@ export const validateAgentQuery = [
     .notEmpty().withMessage('Query is required')
     .isString().withMessage('Query must be a string')
     .isLength({ min: 1, max: 2000 }).withMessage('Query must be between 1 and 2000 characters'),
+
+  // Search filters (chat filter bar); individual fields are sanitised by normalizeSearchFilters
+  body('filters')
+    .optional({ values: 'null' })
+    .isObject().withMessage('Filters must be an object'),
 ];
 
 /**
@@ -27,6 +32,27 @@ export const validateDocumentUpload = [
     .optional()
     .trim()
     .isIn(['policy', 'regulation', 'guideline', 'other']).withMessage('Type must be one of: policy, regulation, guideline, other'),
+
+  // New version of an existing document family, or the name for a new document (defaults to the filename)
+  body('familyId')
+    .optional({ values: 'falsy' })
+    .isUUID().withMessage('Family ID must be a valid UUID'),
+
+  body('familyName')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 255 }).withMessage('Family name must be at most 255 characters'),
+
+  // Effective window of the new version (commencement / repeal), YYYY-MM-DD
+  body('effectiveFrom')
+    .optional({ values: 'falsy' })
+    .isISO8601({ strict: true }).withMessage('Effective from must be a date (YYYY-MM-DD)'),
+
+  body('effectiveTo')
+    .optional({ values: 'falsy' })
+    .isISO8601({ strict: true }).withMessage('Effective to must be a date (YYYY-MM-DD)')
+    .custom((value, { req }) => !req.body.effectiveFrom || value > req.body.effectiveFrom)
+    .withMessage('Effective to must be after effective from'),
 ];
 
 /**
@@ -0,0 +1,139 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AnalysisRun, AnalysisRunDocument } from '../types';
+import { ReportType } from '../utils/reportBuilder';
+import { AnalysisFinding, FindingChanges, extractFindings } from '../utils/analysisFindings';
+
+/** Subject key prefix of runs copied from the former reports table (each is its own analysis) */
+export const LEGACY_REPORT_SUBJECT_PREFIX = 'report|';
+
+/** Columns of a run without the full analysis result (used for lists) */
+const SUMMARY_COLUMNS = `id, admin_id, created_by, analysis_type, title, subject_key, request, documents, findings,
+  finding_changes, previous_run_id, model, created_at`;
+
+/**
+ * Repository layer for stored analysis runs
+ */
+export class AnalysisRunRepository {
+  static async create(run: {
+    id: string;
+    adminId: number;
+    createdBy?: number;
+    analysisType: ReportType;
+    title: string;
+    subjectKey: string;
+    request: Record<string, any>;
+    documents: AnalysisRunDocument[];
+    findings: AnalysisFinding[];
+    findingChanges: FindingChanges | null;
+    previousRunId: string | null;
+    result: Record<string, any>;
+    model: string;
+  }): Promise<AnalysisRun> {
+    const result = await pool.query(
+      `INSERT INTO analysis_runs (id, admin_id, created_by, analysis_type, title, subject_key, request, documents, findings,
+         finding_changes, previous_run_id, result, model)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING ${SUMMARY_COLUMNS}`,
+      [
+        run.id,
+        run.adminId,
+        run.createdBy ?? null,
+        run.analysisType,
+        run.title,
+        run.subjectKey,
+        JSON.stringify(run.request),
+        JSON.stringify(run.documents),
+        JSON.stringify(run.findings),
+        run.findingChanges ? JSON.stringify(run.findingChanges) : null,
+        run.previousRunId,
+        JSON.stringify(run.result),
+        run.model,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Get a run with its full analysis result
+   */
+  static async findById(id: string, adminId: number): Promise<AnalysisRun | null> {
+    const result = await pool.query('SELECT * FROM analysis_runs WHERE id = $1 AND admin_id = $2', [id, adminId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Most recent run of the same analysis (previous run for a new one)
+   */
+  static async findLatestBySubject(adminId: number, subjectKey: string): Promise<AnalysisRun | null> {
+    const result = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS} FROM analysis_runs
+       WHERE admin_id = $1 AND subject_key = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [adminId, subjectKey]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Recent runs of a tenant (without the analysis results), optionally of one type or one analysis (its history)
+   */
+  static async findAll(
+    adminId: number,
+    filters: { analysisType?: ReportType; subjectKey?: string } = {},
+    limit: number = 50
+  ): Promise<AnalysisRun[]> {
+    const conditions = ['admin_id = $1'];
+    const params: any[] = [adminId];
+    if (filters.analysisType) {
+      params.push(filters.analysisType);
+      conditions.push(`analysis_type = $${params.length}`);
+    }
+    if (filters.subjectKey) {
+      params.push(filters.subjectKey);
+      conditions.push(`subject_key = $${params.length}`);
+    }
+    params.push(limit);
+    const result = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS} FROM analysis_runs
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Copy reports saved before analysis runs existed (the former reports table) into analysis_runs, keeping their
+   * ids so earlier /api/reports links still resolve. Their inputs were never stored, so the copies are marked
+   * legacyReport and cannot be re-run. Returns the number of reports copied.
+   */
+  static async importLegacyReports(client: PoolClient): Promise<number> {
+    const legacy = await client.query(
+      `SELECT r.id, r.admin_id, r.created_by, r.report_type, r.title, r.data, r.created_at FROM reports r
+       WHERE NOT EXISTS (SELECT 1 FROM analysis_runs a WHERE a.id = r.id)`
+    );
+    for (const row of legacy.rows) {
+      const type = row.report_type as ReportType;
+      await client.query(
+        `INSERT INTO analysis_runs (id, admin_id, created_by, analysis_type, title, subject_key, request, findings, result, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          row.id,
+          row.admin_id,
+          row.created_by,
+          type,
+          row.title,
+          `${LEGACY_REPORT_SUBJECT_PREFIX}${row.id}`,
+          JSON.stringify({ type, legacyReport: true }),
+          JSON.stringify(extractFindings(type, row.data ?? {})),
+          JSON.stringify(row.data ?? {}),
+          row.created_at,
+        ]
+      );
+    }
+    return legacy.rows.length;
+  }
+}
@@ -0,0 +1,169 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { CONSTITUTION_TITLE } from '../utils/citationExtractor';
+
+export interface CitationEdgeRow {
+  id: string;
+  source_document_id: string;
+  source_chunk_id: string | null;
+  citation_type: string;
+  normalized: string;
+  raw_text: string | null;
+  target_key: string | null;
+  target_family_id: string | null;
+  source_filename: string;
+  source_category: string | null;
+  source_version: number;
+  source_is_active: boolean;
+  source_family: string | null;
+  target_family: string | null;
+  section_name: string | null;
+  page_number: number | null;
+  excerpt: string | null;
+}
+
+/** Lower-case alphanumerics separated by single spaces, for matching titles against family names */
+const normalizeTitleSql = (expr: string) => `trim(regexp_replace(lower(${expr}), '[^a-z0-9]+', ' ', 'g'))`;
+
+const EDGE_COLUMNS = `e.id, e.source_document_id, e.source_chunk_id, e.citation_type, e.normalized, e.raw_text,
+  e.target_key, e.target_family_id,
+  d.filename AS source_filename, d.category AS source_category, d.version AS source_version, d.is_active AS source_is_active,
+  sf.name AS source_family, tf.name AS target_family,
+  c.section_name, c.page_number, LEFT(c.content, 400) AS excerpt`;
+
+const EDGE_JOINS = `FROM citation_edges e
+  JOIN documents d ON d.id = e.source_document_id
+  LEFT JOIN document_families sf ON sf.id = d.family_id
+  LEFT JOIN document_families tf ON tf.id = e.target_family_id
+  LEFT JOIN chunks c ON c.id = e.source_chunk_id`;
+
+/**
+ * Repository layer for the citation graph (edges from document chunks to cited authorities)
+ */
+export class CitationRepository {
+  /**
+   * Create edges from the citations staged with an ingestion job's chunks (runs inside the caller's
+   * transaction, before the staged chunks are moved)
+   */
+  static async createFromStagedChunks(client: PoolClient, jobId: string, documentId: string, adminId: number): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO citation_edges (id, admin_id, source_document_id, source_chunk_id, citation_type, normalized, raw_text, target_key)
+       SELECT gen_random_uuid()::text, $3, $2, s.id, c->>'type', c->>'normalized', c->>'raw', c->>'target'
+       FROM ingestion_job_chunks s
+       CROSS JOIN LATERAL jsonb_array_elements(s.citations) AS c
+       WHERE s.job_id = $1 AND s.citations IS NOT NULL`,
+      [jobId, documentId, adminId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Link unresolved edges of a tenant to the document family they cite:
+   * - law reports → the family of a document reported under that citation
+   * - statute sections / Constitution articles → a family whose name contains the cited title
+   *   (Constitution articles also match the "Constitution of Pakistan" category)
+   * Called after each document is stored, so citations to documents uploaded later get linked too.
+   */
+  static async resolveTargets(client: PoolClient, adminId: number): Promise<number> {
+    const reports = await client.query(
+      `UPDATE citation_edges e SET target_family_id = (
+         SELECT d.family_id FROM documents d
+         WHERE d.admin_id = e.admin_id AND d.metadata->>'reportedAs' = e.normalized
+           AND d.family_id IS NOT NULL AND d.id <> e.source_document_id
+         ORDER BY d.is_active DESC, d.version DESC
+         LIMIT 1
+       )
+       WHERE e.admin_id = $1 AND e.target_family_id IS NULL AND e.citation_type = 'law_report'`,
+      [adminId]
+    );
+
+    const titles = await client.query(
+      `UPDATE citation_edges e SET target_family_id = (
+         SELECT f.id FROM document_families f
+         WHERE f.admin_id = e.admin_id
+           AND EXISTS (SELECT 1 FROM documents d WHERE d.family_id = f.id AND d.id <> e.source_document_id)
+           AND (
+             ${normalizeTitleSql('f.name')} LIKE '%' || ${normalizeTitleSql('e.target_key')} || '%'
+             OR (e.citation_type = 'constitution_article' AND f.category = $2)
+           )
+         ORDER BY length(f.name) ASC
+         LIMIT 1
+       )
+       WHERE e.admin_id = $1 AND e.target_family_id IS NULL
+         AND e.citation_type IN ('statute_section', 'constitution_article') AND e.target_key IS NOT NULL`,
+      [adminId, CONSTITUTION_TITLE]
+    );
+
+    return (reports.rowCount ?? 0) + (titles.rowCount ?? 0);
+  }
+
+  /**
+   * Edges whose normalized citation equals the reference or is a sub-provision of it
+   * ("Article 199" also matches "Article 199(1)(c)", "Section 497 CrPC" matches "Section 497(2) CrPC")
+   */
+  static async findByNormalized(adminId: number, normalized: string, limit: number = 200): Promise<CitationEdgeRow[]> {
+    const result = await pool.query(
+      `SELECT ${EDGE_COLUMNS}
+       ${EDGE_JOINS}
+       WHERE e.admin_id = $1
+         AND (lower(e.normalized) = lower($2) OR lower(regexp_replace(e.normalized, '\\([^)]*\\)', '', 'g')) = lower($2))
+       ORDER BY d.is_active DESC, d.filename ASC
+       LIMIT $3`,
+      [adminId, normalized, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Edges pointing at a document family (every citation of that statute / judgment)
+   */
+  static async findByTargetFamily(adminId: number, familyId: string, limit: number = 200): Promise<CitationEdgeRow[]> {
+    const result = await pool.query(
+      `SELECT ${EDGE_COLUMNS}
+       ${EDGE_JOINS}
+       WHERE e.admin_id = $1 AND e.target_family_id = $2
+       ORDER BY d.is_active DESC, d.filename ASC
+       LIMIT $3`,
+      [adminId, familyId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Law report citations of the given judgments (edges linked to their families, or naming the citation they are
+   * reported as), with the whole citing chunk and the citing document's judgment metadata, for reading how later
+   * judgments treated them
+   */
+  static async findReportCitationsOf(
+    adminId: number,
+    familyIds: string[],
+    reportedAs: string[],
+    limit: number = 500
+  ): Promise<Array<CitationEdgeRow & { source_family_id: string | null; chunk_content: string | null; source_judgment: any }>> {
+    if (familyIds.length === 0 && reportedAs.length === 0) return [];
+    const result = await pool.query(
+      `SELECT ${EDGE_COLUMNS}, d.family_id AS source_family_id, c.content AS chunk_content, d.metadata->'judgment' AS source_judgment
+       ${EDGE_JOINS}
+       WHERE e.admin_id = $1 AND e.citation_type = 'law_report'
+         AND (e.target_family_id = ANY($2::varchar[]) OR e.normalized = ANY($3::text[]))
+       ORDER BY d.is_active DESC, d.filename ASC
+       LIMIT $4`,
+      [adminId, familyIds, reportedAs, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Outgoing edges of a document (what it cites)
+   */
+  static async findBySourceDocument(adminId: number, documentId: string): Promise<CitationEdgeRow[]> {
+    const result = await pool.query(
+      `SELECT ${EDGE_COLUMNS}
+       ${EDGE_JOINS}
+       WHERE e.admin_id = $1 AND e.source_document_id = $2
+       ORDER BY e.citation_type ASC, e.normalized ASC`,
+      [adminId, documentId]
+    );
+    return result.rows;
+  }
+}
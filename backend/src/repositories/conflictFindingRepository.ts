@@ -0,0 +1,216 @@
+import pool from '../config/database';
+import { ConflictFinding, ConflictFindingComment, ConflictFindingSide, ConflictFindingStatus } from '../types';
+
+/** Finding columns with the assignee's display name */
+const FINDING_COLUMNS = `f.*, COALESCE(u.name, u.username, u.email) AS assignee_name`;
+
+/** Detected conflict as stored on a finding (refreshed on every detection) */
+export interface ConflictDetection {
+  excerptHash: string;
+  severity: string;
+  conflictType: string;
+  description: string;
+  recommendation: string | null;
+  documentA: ConflictFindingSide;
+  documentB: ConflictFindingSide;
+  runId: string;
+}
+
+/**
+ * Repository layer for tracked conflict findings and their comments
+ */
+export class ConflictFindingRepository {
+  /**
+   * Raise a finding; null when the tenant already has one with this fingerprint (another run raised it first)
+   */
+  static async create(id: string, adminId: number, fingerprint: string, detection: ConflictDetection): Promise<ConflictFinding | null> {
+    const result = await pool.query(
+      `INSERT INTO conflict_findings (id, admin_id, fingerprint, excerpt_hash, severity, conflict_type, description,
+         recommendation, document_a, document_b, first_run_id, last_run_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11)
+       ON CONFLICT (admin_id, fingerprint) DO NOTHING
+       RETURNING *`,
+      [
+        id,
+        adminId,
+        fingerprint,
+        detection.excerptHash,
+        detection.severity,
+        detection.conflictType,
+        detection.description,
+        detection.recommendation,
+        JSON.stringify(detection.documentA),
+        JSON.stringify(detection.documentB),
+        detection.runId,
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record a repeated detection; `reopen` puts a resolved / dismissed finding back in the queue (unassigned) if it
+   * still has the status the caller read. Null when it no longer does (a triage change got there first): nothing
+   * is updated then.
+   */
+  static async recordDetection(
+    id: string,
+    detection: ConflictDetection,
+    reopen: { changedBy: number | null; expectedStatus: ConflictFindingStatus } | null
+  ): Promise<ConflictFinding | null> {
+    const result = await pool.query(
+      `UPDATE conflict_findings
+       SET excerpt_hash = $2, severity = $3, conflict_type = $4, description = $5, recommendation = $6,
+           document_a = $7, document_b = $8, last_run_id = $9,
+           detection_count = detection_count + 1, last_detected_at = CURRENT_TIMESTAMP
+           ${reopen ? `, status = 'open', assigned_to = NULL, resolution_note = NULL,
+           status_changed_at = CURRENT_TIMESTAMP, status_changed_by = $10` : ''}
+       WHERE id = $1 ${reopen ? 'AND status = $11' : ''}
+       RETURNING *`,
+      [
+        id,
+        detection.excerptHash,
+        detection.severity,
+        detection.conflictType,
+        detection.description,
+        detection.recommendation,
+        JSON.stringify(detection.documentA),
+        JSON.stringify(detection.documentB),
+        detection.runId,
+        ...(reopen ? [reopen.changedBy, reopen.expectedStatus] : []),
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Count a detection without refreshing the finding (a dismissed conflict detected again with the same excerpts)
+   */
+  static async recordSuppressedDetection(id: string, runId: string): Promise<void> {
+    await pool.query(
+      `UPDATE conflict_findings
+       SET last_run_id = $2, detection_count = detection_count + 1, last_detected_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, runId]
+    );
+  }
+
+  /**
+   * Change the status of a finding that is still in the expected state (status and assignee as read by the
+   * caller). False when another change got there first and nothing was updated.
+   */
+  static async updateStatus(
+    id: string,
+    adminId: number,
+    expected: { status: ConflictFindingStatus; assignedTo: number | null },
+    update: { status: ConflictFindingStatus; assignedTo: number | null; resolutionNote: string | null; changedBy: number | null }
+  ): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE conflict_findings
+       SET status = $3, assigned_to = $4, resolution_note = $5,
+           status_changed_at = CURRENT_TIMESTAMP, status_changed_by = $6
+       WHERE id = $1 AND admin_id = $2 AND status = $7 AND assigned_to IS NOT DISTINCT FROM $8`,
+      [id, adminId, update.status, update.assignedTo, update.resolutionNote, update.changedBy, expected.status, expected.assignedTo]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async findById(id: string, adminId: number): Promise<ConflictFinding | null> {
+    const result = await pool.query(
+      `SELECT ${FINDING_COLUMNS}
+       FROM conflict_findings f
+       LEFT JOIN users u ON u.id = f.assigned_to
+       WHERE f.id = $1 AND f.admin_id = $2`,
+      [id, adminId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findByFingerprints(adminId: number, fingerprints: string[]): Promise<ConflictFinding[]> {
+    const result = await pool.query(
+      'SELECT * FROM conflict_findings WHERE admin_id = $1 AND fingerprint = ANY($2)',
+      [adminId, fingerprints]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Findings of a tenant, most recently detected first, optionally by status and / or assignee
+   */
+  static async findAll(
+    adminId: number,
+    filters: { statuses?: ConflictFindingStatus[]; assignedTo?: number } = {},
+    limit: number = 200
+  ): Promise<ConflictFinding[]> {
+    const conditions = ['f.admin_id = $1'];
+    const params: any[] = [adminId];
+    if (filters.statuses?.length) {
+      params.push(filters.statuses);
+      conditions.push(`f.status = ANY($${params.length})`);
+    }
+    if (filters.assignedTo) {
+      params.push(filters.assignedTo);
+      conditions.push(`f.assigned_to = $${params.length}`);
+    }
+    params.push(limit);
+    const result = await pool.query(
+      `SELECT ${FINDING_COLUMNS},
+         (SELECT COUNT(*)::int FROM conflict_finding_comments c WHERE c.finding_id = f.id) AS comment_count
+       FROM conflict_findings f
+       LEFT JOIN users u ON u.id = f.assigned_to
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY f.last_detected_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Number of findings per status
+   */
+  static async countByStatus(adminId: number): Promise<Record<string, number>> {
+    const result = await pool.query(
+      'SELECT status, COUNT(*)::int AS count FROM conflict_findings WHERE admin_id = $1 GROUP BY status',
+      [adminId]
+    );
+    return Object.fromEntries(result.rows.map((row: any) => [row.status, row.count]));
+  }
+
+  static async addComment(findingId: string, authorId: number | null, body: string): Promise<ConflictFindingComment> {
+    const result = await pool.query(
+      `WITH inserted AS (
+         INSERT INTO conflict_finding_comments (finding_id, author_id, body) VALUES ($1, $2, $3) RETURNING *
+       )
+       SELECT inserted.*, COALESCE(u.name, u.username, u.email) AS author_name
+       FROM inserted LEFT JOIN users u ON u.id = inserted.author_id`,
+      [findingId, authorId, body]
+    );
+    return result.rows[0];
+  }
+
+  static async findComments(findingId: string): Promise<ConflictFindingComment[]> {
+    const result = await pool.query(
+      `SELECT c.*, COALESCE(u.name, u.username, u.email) AS author_name
+       FROM conflict_finding_comments c
+       LEFT JOIN users u ON u.id = c.author_id
+       WHERE c.finding_id = $1
+       ORDER BY c.created_at, c.id`,
+      [findingId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Active users of a tenant (the admin and its employees) a finding can be assigned to
+   */
+  static async findAssignees(adminId: number): Promise<Array<{ id: number; name: string; email: string; role: string }>> {
+    const result = await pool.query(
+      `SELECT id, COALESCE(name, username, email) AS name, email, role
+       FROM users
+       WHERE (id = $1 OR admin_id = $1) AND is_active = true
+       ORDER BY role, name`,
+      [adminId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,36 @@
+import pool from '../config/database';
+
+/** Stored verdict of a clause-pair check; excerpts are in the order the pair was hashed */
+export interface PairCheckVerdict {
+  conflict: boolean;
+  severity?: 'high' | 'medium' | 'low';
+  conflict_type?: string;
+  description?: string;
+  excerpt_first?: string;
+  excerpt_second?: string;
+  recommendation?: string;
+  governing_provision?: string;  // repugnancy checks only
+}
+
+/**
+ * Repository layer for cached clause-pair conflict checks (keyed by a hash of both clauses and the model)
+ */
+export class ConflictPairCheckRepository {
+  static async findByHashes(adminId: number, pairHashes: string[]): Promise<Map<string, PairCheckVerdict>> {
+    if (pairHashes.length === 0) return new Map();
+    const result = await pool.query(
+      'SELECT pair_hash, verdict FROM conflict_pair_checks WHERE admin_id = $1 AND pair_hash = ANY($2)',
+      [adminId, pairHashes]
+    );
+    return new Map(result.rows.map((row: any) => [row.pair_hash, row.verdict]));
+  }
+
+  static async save(adminId: number, pairHash: string, model: string, verdict: PairCheckVerdict): Promise<void> {
+    await pool.query(
+      `INSERT INTO conflict_pair_checks (admin_id, pair_hash, model, verdict)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (admin_id, pair_hash) DO UPDATE SET verdict = EXCLUDED.verdict, created_at = CURRENT_TIMESTAMP`,
+      [adminId, pairHash, model, JSON.stringify(verdict)]
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import pool from '../config/database';
+import { Consolidation } from '../types';
+
+/** Columns of a consolidation without the consolidated text (used for lists) */
+const SUMMARY_COLUMNS = `id, admin_id, created_by, base_document_id, amendment_document_ids, title, statistics, job_id, created_at`;
+
+/**
+ * Repository layer for amendment consolidations
+ */
+export class ConsolidationRepository {
+  static async create(consolidation: {
+    id: string;
+    adminId: number;
+    createdBy?: number;
+    baseDocumentId: string;
+    amendmentDocumentIds: string[];
+    title: string;
+    statistics: Record<string, number>;
+    result: Record<string, any>;
+  }): Promise<Consolidation> {
+    const result = await pool.query(
+      `INSERT INTO consolidations (id, admin_id, created_by, base_document_id, amendment_document_ids, title, statistics, result)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        consolidation.id,
+        consolidation.adminId,
+        consolidation.createdBy ?? null,
+        consolidation.baseDocumentId,
+        JSON.stringify(consolidation.amendmentDocumentIds),
+        consolidation.title,
+        JSON.stringify(consolidation.statistics),
+        JSON.stringify(consolidation.result),
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async setJobId(id: string, jobId: string): Promise<void> {
+    await pool.query('UPDATE consolidations SET job_id = $2 WHERE id = $1', [id, jobId]);
+  }
+
+  /**
+   * Get a consolidation with its consolidated provisions
+   */
+  static async findById(id: string, adminId: number): Promise<Consolidation | null> {
+    const result = await pool.query('SELECT * FROM consolidations WHERE id = $1 AND admin_id = $2', [id, adminId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Recent consolidations of a tenant (without the consolidated provisions)
+   */
+  static async findAll(adminId: number, limit: number = 50): Promise<Consolidation[]> {
+    const result = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS} FROM consolidations
+       WHERE admin_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [adminId, limit]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,117 @@
+import pool from '../config/database';
+import { VECTOR_INDEX_NAME } from './vectorIndexRepository';
+
+/**
+ * Repository layer for stored embeddings and the model that produced them (chunks.embedding_model)
+ */
+export class EmbeddingRepository {
+  /**
+   * Declared size of chunks.embedding (vector(N)); null when the table is missing or the column is unconstrained
+   */
+  static async getColumnDimensions(): Promise<number | null> {
+    const result = await pool.query(
+      `SELECT a.atttypmod AS dims FROM pg_attribute a
+       WHERE a.attrelid = to_regclass('chunks') AND a.attname = 'embedding' AND NOT a.attisdropped`
+    );
+    const dims = result.rows[0]?.dims;
+    return typeof dims === 'number' && dims > 0 ? dims : null;
+  }
+
+  /**
+   * Change chunks.embedding to vector(dimensions). Existing vectors cannot be cast to another size,
+   * so they are cleared and re-embedded afterwards. The ANN index is dropped with them (it may not support the new
+   * size, and an IVFFlat index must be trained on the new vectors); it is rebuilt after re-embedding.
+   */
+  static async resizeColumn(dimensions: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`DROP INDEX IF EXISTS ${VECTOR_INDEX_NAME}`);
+      await client.query('UPDATE chunks SET embedding = NULL, embedding_model = NULL');
+      await client.query(`ALTER TABLE chunks ALTER COLUMN embedding TYPE vector(${dimensions}) USING NULL`);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Drop staged embeddings of unfinished ingestion jobs made by another model (the jobs re-embed them)
+   */
+  static async clearStagedEmbeddings(modelId: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE ingestion_job_chunks SET embedding = NULL, embedding_model = NULL
+       WHERE embedding IS NOT NULL AND embedding_model IS DISTINCT FROM $1`,
+      [modelId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  static async countStaleChunks(modelId: string): Promise<number> {
+    const result = await pool.query(
+      'SELECT COUNT(*) AS cnt FROM chunks WHERE embedding IS NULL OR embedding_model IS DISTINCT FROM $1',
+      [modelId]
+    );
+    return parseInt(result.rows[0].cnt, 10);
+  }
+
+  /**
+   * Chunks without an embedding from the given model
+   */
+  static async findStaleChunks(modelId: string, limit: number): Promise<Array<{ id: string; content: string }>> {
+    const result = await pool.query(
+      `SELECT id, content FROM chunks
+       WHERE embedding IS NULL OR embedding_model IS DISTINCT FROM $1
+       ORDER BY document_id, chunk_index
+       LIMIT $2`,
+      [modelId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Random stored embeddings of a tenant's active chunks, with the chunk they belong to (query vectors for
+   * search benchmarks, which leave that chunk out of the results)
+   */
+  static async sampleChunkEmbeddings(
+    adminId: number,
+    modelId: string,
+    limit: number
+  ): Promise<Array<{ document_id: string; chunk_index: number; embedding: number[] }>> {
+    const result = await pool.query(
+      `SELECT c.document_id, c.chunk_index, c.embedding FROM chunks c
+       JOIN documents d ON d.id = c.document_id
+       WHERE d.admin_id = $1 AND d.is_active = true AND c.embedding_model = $2
+       ORDER BY random()
+       LIMIT $3`,
+      [adminId, modelId, limit]
+    );
+    return result.rows.map((row) => ({
+      document_id: row.document_id,
+      chunk_index: row.chunk_index,
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding,
+    }));
+  }
+
+  static async saveChunkEmbeddings(modelId: string, batch: Array<{ id: string; embedding: number[] }>): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const item of batch) {
+        await client.query(
+          'UPDATE chunks SET embedding = $1::vector, embedding_model = $2 WHERE id = $3',
+          [JSON.stringify(item.embedding), modelId, item.id]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
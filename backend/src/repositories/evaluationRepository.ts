@@ -0,0 +1,143 @@
+import pool from '../config/database';
+import { EvalQuestion, EvalRun } from '../types';
+import { ExpectedSource } from '../utils/retrievalMetrics';
+
+/** Columns of a run without the per-question results (used for lists) */
+const RUN_SUMMARY_COLUMNS = `id, admin_id, created_by, label, status, k, config, metrics, question_count, error, created_at, completed_at`;
+
+/**
+ * Repository layer for the retrieval evaluation harness (golden questions and runs)
+ */
+export class EvaluationRepository {
+  static async createQuestion(question: {
+    id: string;
+    adminId: number;
+    createdBy?: number;
+    question: string;
+    expectedAnswer?: string | null;
+    expectedSources: ExpectedSource[];
+    tags?: string[];
+  }): Promise<EvalQuestion> {
+    const result = await pool.query(
+      `INSERT INTO eval_questions (id, admin_id, created_by, question, expected_answer, expected_sources, tags)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        question.id,
+        question.adminId,
+        question.createdBy ?? null,
+        question.question,
+        question.expectedAnswer ?? null,
+        JSON.stringify(question.expectedSources),
+        JSON.stringify(question.tags ?? []),
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Update the given fields of a question (undefined fields are left unchanged)
+   */
+  static async updateQuestion(
+    id: string,
+    adminId: number,
+    fields: { question?: string; expectedAnswer?: string | null; expectedSources?: ExpectedSource[]; tags?: string[] }
+  ): Promise<EvalQuestion | null> {
+    const result = await pool.query(
+      `UPDATE eval_questions SET
+         question = COALESCE($3, question),
+         expected_answer = CASE WHEN $4::boolean THEN $5 ELSE expected_answer END,
+         expected_sources = COALESCE($6::jsonb, expected_sources),
+         tags = COALESCE($7::jsonb, tags),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND admin_id = $2
+       RETURNING *`,
+      [
+        id,
+        adminId,
+        fields.question ?? null,
+        fields.expectedAnswer !== undefined,
+        fields.expectedAnswer ?? null,
+        fields.expectedSources ? JSON.stringify(fields.expectedSources) : null,
+        fields.tags ? JSON.stringify(fields.tags) : null,
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async deleteQuestion(id: string, adminId: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM eval_questions WHERE id = $1 AND admin_id = $2', [id, adminId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Questions of a tenant, optionally only those carrying a tag
+   */
+  static async findQuestions(adminId: number, tag?: string): Promise<EvalQuestion[]> {
+    const result = await pool.query(
+      `SELECT * FROM eval_questions
+       WHERE admin_id = $1 AND ($2::text IS NULL OR tags ? $2)
+       ORDER BY created_at ASC`,
+      [adminId, tag ?? null]
+    );
+    return result.rows;
+  }
+
+  static async createRun(run: {
+    id: string;
+    adminId: number;
+    createdBy?: number;
+    label?: string | null;
+    k: number;
+    config: Record<string, any>;
+    questionCount: number;
+  }): Promise<EvalRun> {
+    const result = await pool.query(
+      `INSERT INTO eval_runs (id, admin_id, created_by, label, status, k, config, question_count)
+       VALUES ($1, $2, $3, $4, 'running', $5, $6, $7)
+       RETURNING ${RUN_SUMMARY_COLUMNS}`,
+      [run.id, run.adminId, run.createdBy ?? null, run.label ?? null, run.k, JSON.stringify(run.config), run.questionCount]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Store a scored run; with an error the run is stored as failed (its metrics and results kept for inspection)
+   */
+  static async completeRun(id: string, metrics: Record<string, number | null>, results: any[], error?: string): Promise<void> {
+    await pool.query(
+      `UPDATE eval_runs SET status = $4, metrics = $2, results = $3, error = $5, completed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, JSON.stringify(metrics), JSON.stringify(results), error ? 'failed' : 'completed', error ?? null]
+    );
+  }
+
+  static async failRun(id: string, error: string): Promise<void> {
+    await pool.query(
+      `UPDATE eval_runs SET status = 'failed', error = $2, completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  /**
+   * Get a run with its per-question results
+   */
+  static async findRunById(id: string, adminId: number): Promise<EvalRun | null> {
+    const result = await pool.query('SELECT * FROM eval_runs WHERE id = $1 AND admin_id = $2', [id, adminId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Recent runs of a tenant (without per-question results)
+   */
+  static async findRuns(adminId: number, limit: number = 50): Promise<EvalRun[]> {
+    const result = await pool.query(
+      `SELECT ${RUN_SUMMARY_COLUMNS} FROM eval_runs
+       WHERE admin_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [adminId, limit]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,303 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { IngestionJob, IngestionJobStatus } from '../types';
+import { ExtractedCitation } from '../utils/citationExtractor';
+
+/** Columns returned to API clients (staging data and file paths stay server-side). */
+const PUBLIC_COLUMNS = `id, admin_id, created_by, document_id, family_id, family_name, reindex_document_id,
+  to_char(effective_from, 'YYYY-MM-DD') AS effective_from, to_char(effective_to, 'YYYY-MM-DD') AS effective_to, filename, file_type, category, status, progress,
+  current_page, total_pages, chunks_total, chunks_embedded, attempts, error, created_at, updated_at, completed_at`;
+
+/**
+ * Repository layer for ingestion job operations
+ */
+export class IngestionJobRepository {
+  /**
+   * Create a queued ingestion job
+   */
+  static async create(job: {
+    id: string;
+    adminId: number;
+    createdBy?: number;
+    filename: string;
+    filepath: string;
+    fileType: string;
+    category: string;
+    familyId?: string | null;
+    familyName?: string | null;
+    reindexDocumentId?: string | null;
+    effectiveFrom?: string | null;
+    effectiveTo?: string | null;
+  }): Promise<IngestionJob> {
+    const result = await pool.query(
+      `INSERT INTO ingestion_jobs (id, admin_id, created_by, filename, filepath, file_type, category, family_id, family_name,
+         reindex_document_id, effective_from, effective_to, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'queued')
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [
+        job.id,
+        job.adminId,
+        job.createdBy ?? null,
+        job.filename,
+        job.filepath,
+        job.fileType,
+        job.category,
+        job.familyId ?? null,
+        job.familyName ?? null,
+        job.reindexDocumentId ?? null,
+        job.effectiveFrom ?? null,
+        job.effectiveTo ?? null,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Get a job including internal columns (filepath, parsed state) for the worker
+   */
+  static async findByIdInternal(jobId: string): Promise<(IngestionJob & { filepath: string; parsed_at: Date | null; parsed_metadata: any }) | null> {
+    const result = await pool.query('SELECT * FROM ingestion_jobs WHERE id = $1', [jobId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a job for a tenant
+   */
+  static async findById(jobId: string, adminId: number): Promise<IngestionJob | null> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM ingestion_jobs WHERE id = $1 AND admin_id = $2`,
+      [jobId, adminId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List recent jobs for a tenant
+   */
+  static async findByAdminId(adminId: number, limit: number = 20): Promise<IngestionJob[]> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM ingestion_jobs
+       WHERE admin_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [adminId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Documents (of the given ones) that already have an unfinished reindex job
+   */
+  static async findDocumentsBeingReindexed(documentIds: string[]): Promise<string[]> {
+    if (documentIds.length === 0) return [];
+    const result = await pool.query(
+      `SELECT DISTINCT reindex_document_id FROM ingestion_jobs
+       WHERE reindex_document_id = ANY($1::varchar[]) AND status NOT IN ('stored', 'failed')`,
+      [documentIds]
+    );
+    return result.rows.map((r: { reindex_document_id: string }) => r.reindex_document_id);
+  }
+
+  /**
+   * Ids of jobs that have not reached a terminal state (used to resume after restart)
+   */
+  static async findUnfinishedIds(): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT id FROM ingestion_jobs
+       WHERE status NOT IN ('stored', 'failed')
+       ORDER BY created_at ASC`
+    );
+    return result.rows.map((r: { id: string }) => r.id);
+  }
+
+  /**
+   * Update status and progress fields
+   */
+  static async updateProgress(
+    jobId: string,
+    status: IngestionJobStatus,
+    fields: { progress?: number; currentPage?: number; totalPages?: number; chunksTotal?: number; chunksEmbedded?: number } = {}
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE ingestion_jobs SET
+         status = $2,
+         progress = COALESCE($3, progress),
+         current_page = COALESCE($4, current_page),
+         total_pages = COALESCE($5, total_pages),
+         chunks_total = COALESCE($6, chunks_total),
+         chunks_embedded = COALESCE($7, chunks_embedded),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [
+        jobId,
+        status,
+        fields.progress ?? null,
+        fields.currentPage ?? null,
+        fields.totalPages ?? null,
+        fields.chunksTotal ?? null,
+        fields.chunksEmbedded ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Record the start of a processing attempt
+   */
+  static async markAttempt(jobId: string): Promise<void> {
+    await pool.query(
+      `UPDATE ingestion_jobs SET attempts = attempts + 1, error = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [jobId]
+    );
+  }
+
+  /**
+   * Persist parsed chunks into the staging table and mark the parse stage as complete
+   */
+  static async saveParsedChunks(
+    jobId: string,
+    chunks: Array<{ id: string; content: string; section_name?: string; page_number?: number; citations?: ExtractedCitation[]; hierarchy?: string[]; language?: string }>,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM ingestion_job_chunks WHERE job_id = $1', [jobId]);
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        await client.query(
+          `INSERT INTO ingestion_job_chunks (id, job_id, chunk_index, content, section_name, page_number, citations, hierarchy, language)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            chunk.id,
+            jobId,
+            i,
+            chunk.content,
+            chunk.section_name || null,
+            chunk.page_number || null,
+            chunk.citations?.length ? JSON.stringify(chunk.citations) : null,
+            chunk.hierarchy?.length ? JSON.stringify(chunk.hierarchy) : null,
+            chunk.language || null,
+          ]
+        );
+      }
+      await client.query(
+        `UPDATE ingestion_jobs SET parsed_at = CURRENT_TIMESTAMP, parsed_metadata = $2, chunks_total = $3,
+           chunks_embedded = 0, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [jobId, JSON.stringify(metadata), chunks.length]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Staged chunks that still need an embedding
+   */
+  static async findUnembeddedChunks(jobId: string): Promise<Array<{ id: string; content: string }>> {
+    const result = await pool.query(
+      `SELECT id, content FROM ingestion_job_chunks
+       WHERE job_id = $1 AND embedding IS NULL
+       ORDER BY chunk_index ASC`,
+      [jobId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Store embeddings for a batch of staged chunks and return the number embedded so far
+   */
+  static async saveEmbeddings(jobId: string, batch: Array<{ id: string; embedding: number[] }>, modelId: string): Promise<number> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const item of batch) {
+        await client.query(
+          'UPDATE ingestion_job_chunks SET embedding = $1::vector, embedding_model = $4 WHERE id = $2 AND job_id = $3',
+          [JSON.stringify(item.embedding), item.id, jobId, modelId]
+        );
+      }
+      const countResult = await client.query(
+        'SELECT COUNT(*) AS cnt FROM ingestion_job_chunks WHERE job_id = $1 AND embedding IS NOT NULL',
+        [jobId]
+      );
+      const embedded = parseInt(countResult.rows[0].cnt, 10);
+      await client.query(
+        'UPDATE ingestion_jobs SET chunks_embedded = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [jobId, embedded]
+      );
+      await client.query('COMMIT');
+      return embedded;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Copy staged chunks into the chunks table for a document (runs inside the caller's transaction)
+   */
+  static async moveStagedChunks(client: PoolClient, jobId: string, documentId: string): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO chunks (id, document_id, content, embedding, embedding_model, chunk_index, section_name, page_number, hierarchy, language)
+       SELECT id, $2, content, embedding, embedding_model, chunk_index, section_name, page_number, hierarchy, language
+       FROM ingestion_job_chunks
+       WHERE job_id = $1
+       ORDER BY chunk_index ASC`,
+      [jobId, documentId]
+    );
+    await client.query('DELETE FROM ingestion_job_chunks WHERE job_id = $1', [jobId]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Mark a job as stored against its new document (runs inside the caller's transaction)
+   */
+  static async markStored(client: PoolClient, jobId: string, documentId: string): Promise<void> {
+    await client.query(
+      `UPDATE ingestion_jobs SET status = 'stored', progress = 100, document_id = $2,
+         completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [jobId, documentId]
+    );
+  }
+
+  /**
+   * Mark a job as failed
+   */
+  static async markFailed(jobId: string, error: string): Promise<void> {
+    await pool.query(
+      `UPDATE ingestion_jobs SET status = 'failed', error = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [jobId, error]
+    );
+  }
+
+  /**
+   * Put a failed job back in the queue (stages already completed are kept)
+   */
+  static async requeue(jobId: string, adminId: number): Promise<IngestionJob | null> {
+    const result = await pool.query(
+      `UPDATE ingestion_jobs SET status = 'queued', error = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND admin_id = $2 AND status = 'failed'
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [jobId, adminId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update the stored file path (e.g. after moving the original to Supabase storage)
+   */
+  static async updateFilepath(jobId: string, filepath: string): Promise<void> {
+    await pool.query(
+      'UPDATE ingestion_jobs SET filepath = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [jobId, filepath]
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+
+/** Corpus-level BM25 statistics of a tenant (or of all tenants) */
+export interface CorpusStats {
+  chunkCount: number;
+  avgLength: number;
+}
+
+/**
+ * Repository layer for the keyword search index: per-tenant BM25 statistics over the stored chunk tsvectors
+ * (chunks.search_vector / search_length). Chunks are added and removed a document at a time, inside the
+ * transaction that moves or deletes them, so the statistics always match the chunks table.
+ */
+export class SearchIndexRepository {
+  /**
+   * Count a document's chunks into its tenant's statistics (after they were inserted)
+   */
+  static async addDocument(client: PoolClient, documentId: string): Promise<void> {
+    await SearchIndexRepository.applyDocument(client, documentId, 1);
+  }
+
+  /**
+   * Take a document's chunks out of its tenant's statistics (before they are deleted)
+   */
+  static async removeDocument(client: PoolClient, documentId: string): Promise<void> {
+    await SearchIndexRepository.applyDocument(client, documentId, -1);
+  }
+
+  private static async applyDocument(client: PoolClient, documentId: string, sign: 1 | -1): Promise<void> {
+    // Terms in a fixed order, so concurrent ingestions of one tenant lock rows in the same order
+    await client.query(
+      `INSERT INTO search_term_stats (admin_id, term, doc_freq)
+       SELECT d.admin_id, t.lexeme, $2::integer * COUNT(*)
+       FROM chunks c
+       JOIN documents d ON d.id = c.document_id
+       CROSS JOIN LATERAL unnest(c.search_vector) AS t
+       WHERE c.document_id = $1
+       GROUP BY d.admin_id, t.lexeme
+       ORDER BY t.lexeme
+       ON CONFLICT (admin_id, term) DO UPDATE SET doc_freq = search_term_stats.doc_freq + EXCLUDED.doc_freq`,
+      [documentId, sign]
+    );
+    const corpus = await client.query(
+      `INSERT INTO search_corpus_stats (admin_id, chunk_count, total_length)
+       SELECT d.admin_id, $2::integer * COUNT(*), $2::integer * COALESCE(SUM(c.search_length), 0)
+       FROM chunks c
+       JOIN documents d ON d.id = c.document_id
+       WHERE c.document_id = $1
+       GROUP BY d.admin_id
+       ON CONFLICT (admin_id) DO UPDATE SET
+         chunk_count = search_corpus_stats.chunk_count + EXCLUDED.chunk_count,
+         total_length = search_corpus_stats.total_length + EXCLUDED.total_length,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING admin_id`,
+      [documentId, sign]
+    );
+    if (sign < 0 && corpus.rows[0]) {
+      await client.query('DELETE FROM search_term_stats WHERE admin_id = $1 AND doc_freq <= 0', [corpus.rows[0].admin_id]);
+    }
+  }
+
+  /**
+   * Recompute every tenant's statistics from the chunks table (first start after the index was added, or repair)
+   */
+  static async rebuild(client: PoolClient): Promise<void> {
+    await client.query('DELETE FROM search_term_stats');
+    await client.query('DELETE FROM search_corpus_stats');
+    await client.query(
+      `INSERT INTO search_term_stats (admin_id, term, doc_freq)
+       SELECT d.admin_id, t.lexeme, COUNT(*)
+       FROM chunks c
+       JOIN documents d ON d.id = c.document_id
+       CROSS JOIN LATERAL unnest(c.search_vector) AS t
+       GROUP BY d.admin_id, t.lexeme`
+    );
+    await client.query(
+      `INSERT INTO search_corpus_stats (admin_id, chunk_count, total_length)
+       SELECT d.admin_id, COUNT(*), COALESCE(SUM(c.search_length), 0)
+       FROM chunks c
+       JOIN documents d ON d.id = c.document_id
+       GROUP BY d.admin_id`
+    );
+  }
+
+  /**
+   * Chunk count and mean chunk length (tokens) of a tenant, or of all tenants when adminId is not given
+   */
+  static async getCorpusStats(adminId?: number): Promise<CorpusStats> {
+    const result = await pool.query(
+      `SELECT COALESCE(SUM(chunk_count), 0)::float AS chunk_count, COALESCE(SUM(total_length), 0)::float AS total_length
+       FROM search_corpus_stats
+       WHERE $1::integer IS NULL OR admin_id = $1`,
+      [adminId ?? null]
+    );
+    const { chunk_count, total_length } = result.rows[0];
+    return { chunkCount: chunk_count, avgLength: chunk_count > 0 ? total_length / chunk_count : 0 };
+  }
+}
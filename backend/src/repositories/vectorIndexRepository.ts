@@ -0,0 +1,67 @@
+import pool from '../config/database';
+
+/** Approximate nearest-neighbour index on chunks.embedding (managed by services/vectorIndexService) */
+export const VECTOR_INDEX_NAME = 'idx_chunks_embedding_ann';
+
+export type VectorIndexMethod = 'hnsw' | 'ivfflat';
+
+export interface VectorIndexInfo {
+  method: VectorIndexMethod;
+  /** Build parameters recorded when the index was created, e.g. "hnsw m=16 ef_construction=64" */
+  spec: string | null;
+  /** False while a concurrent build is running or after it failed */
+  valid: boolean;
+}
+
+/**
+ * Repository layer for the ANN index on chunks.embedding. The index is built with CREATE INDEX CONCURRENTLY,
+ * so these queries run outside transactions.
+ */
+export class VectorIndexRepository {
+  /** Installed pgvector version, e.g. "0.8.0"; null when the extension is missing */
+  static async getExtensionVersion(): Promise<string | null> {
+    const result = await pool.query(`SELECT extversion FROM pg_extension WHERE extname = 'vector'`);
+    return result.rows[0]?.extversion ?? null;
+  }
+
+  static async getIndex(): Promise<VectorIndexInfo | null> {
+    const result = await pool.query(
+      `SELECT am.amname AS method, obj_description(i.indexrelid, 'pg_class') AS spec, i.indisvalid AS valid
+       FROM pg_index i
+       JOIN pg_class ic ON ic.oid = i.indexrelid
+       JOIN pg_am am ON am.oid = ic.relam
+       WHERE ic.relname = $1 AND i.indrelid = to_regclass('chunks')`,
+      [VECTOR_INDEX_NAME]
+    );
+    const row = result.rows[0];
+    return row ? { method: row.method, spec: row.spec, valid: row.valid } : null;
+  }
+
+  /**
+   * Replace the index with a new one (cosine distance, the operator used by vector search).
+   * options are storage parameters such as { m: 16, ef_construction: 64 } or { lists: 100 }.
+   */
+  static async createIndex(method: VectorIndexMethod, options: Record<string, number>, spec: string): Promise<void> {
+    const withClause = Object.entries(options).map(([name, value]) => `${name} = ${Math.floor(value)}`).join(', ');
+    await VectorIndexRepository.dropIndex();
+    await pool.query(
+      `CREATE INDEX CONCURRENTLY ${VECTOR_INDEX_NAME} ON chunks USING ${method} (embedding vector_cosine_ops)
+       WITH (${withClause})`
+    );
+    // COMMENT takes no bind parameters; the spec is built from integers by the service
+    await pool.query(`COMMENT ON INDEX ${VECTOR_INDEX_NAME} IS '${spec.replace(/'/g, "''")}'`);
+  }
+
+  static async dropIndex(): Promise<void> {
+    await pool.query(`DROP INDEX CONCURRENTLY IF EXISTS ${VECTOR_INDEX_NAME}`);
+  }
+
+  /** Chunks with an embedding from the given model (what the index covers for search) */
+  static async countEmbeddedChunks(modelId: string): Promise<number> {
+    const result = await pool.query(
+      'SELECT COUNT(*) AS cnt FROM chunks WHERE embedding IS NOT NULL AND embedding_model = $1',
+      [modelId]
+    );
+    return parseInt(result.rows[0].cnt, 10);
+  }
+}
@@ -1,14 +1,48 @@
 import express from 'express';
-import { uploadController, uploadMiddleware, uploadErrorCleanup } from '../controllers/uploadController';
+import { uploadController, uploadMiddleware, uploadErrorCleanup, bulkUploadController, bulkUploadMiddleware } from '../controllers/uploadController';
 import { 
   listDocuments, 
   deleteDocument,
   activateDocument,
   deactivateDocument,
-  downloadDocument
+  downloadDocument,
+  updateEffectiveDates
 } from '../controllers/documentController';
 import { agentQuery, agentQueryStream } from '../controllers/agentController';
 import { clearSessionController } from '../controllers/sessionController';
+import { listIngestionJobs, getIngestionJob, retryIngestionJob, reindexDocuments } from '../controllers/ingestionJobController';
+import {
+  listEvalQuestions,
+  createEvalQuestion,
+  updateEvalQuestion,
+  deleteEvalQuestion,
+  startEvalRun,
+  listEvalRuns,
+  getEvalRun,
+} from '../controllers/evaluationController';
+import {
+  createConsolidation,
+  listConsolidations,
+  getConsolidation,
+  downloadConsolidationText,
+} from '../controllers/consolidationController';
+import {
+  createAnalysisRun,
+  listAnalysisRuns,
+  getAnalysisRun,
+  rerunAnalysisRun,
+  downloadAnalysisReport,
+} from '../controllers/analysisRunController';
+import { createReport, listReports, downloadReport } from '../controllers/reportController';
+import {
+  listConflictFindings,
+  listConflictAssignees,
+  getConflictFinding,
+  transitionConflictFinding,
+  addConflictFindingComment,
+} from '../controllers/conflictFindingController';
+import { checkRepugnancy } from '../controllers/repugnancyController';
+import { listDocumentFamilies, getDocumentFamily, compareFamilyVersions, createDocumentFamily, moveDocumentToFamily } from '../controllers/documentFamilyController';
 import { handleValidationErrors } from '../middleware/validation';
 import {
   validateAgentQuery,
@@ -37,7 +71,33 @@ import {
   resendResetOtpSchema,
 } from '../validators/authValidators';
 import { addEmployeeSchema, employeeIdSchema } from '../validators/employeeValidators';
-import { documentIdParamSchema } from '../validators/documentValidators';
+import {
+  documentIdParamSchema,
+  documentFamilyIdParamSchema,
+  createDocumentFamilySchema,
+  moveDocumentFamilySchema,
+  effectiveDatesSchema,
+  compareFamilyVersionsSchema,
+  listDocumentsSchema,
+} from '../validators/documentValidators';
+import { ingestionJobIdParamSchema, reindexDocumentsSchema } from '../validators/ingestionJobValidators';
+import { evalIdParamSchema, createEvalQuestionSchema, updateEvalQuestionSchema, startEvalRunSchema } from '../validators/evaluationValidators';
+import { consolidationIdParamSchema, createConsolidationSchema } from '../validators/consolidationValidators';
+import {
+  analysisRunIdParamSchema,
+  listAnalysisRunsSchema,
+  createAnalysisRunSchema,
+  analysisRunReportSchema,
+  createReportSchema,
+  downloadReportSchema,
+} from '../validators/analysisRunValidators';
+import {
+  conflictFindingIdParamSchema,
+  listConflictFindingsSchema,
+  conflictFindingTransitionSchema,
+  conflictFindingCommentSchema,
+} from '../validators/conflictFindingValidators';
+import { repugnancyCheckSchema } from '../validators/repugnancyValidators';
 import { authLimiter, resendLimiter, adminLimiter } from '../middleware/rateLimiter';
 
 import {
@@ -131,6 +191,18 @@ router.post('/upload',
   uploadErrorCleanup
 );
 
+router.post('/upload/bulk',
+  requireRole('admin') as any,
+  bulkUploadMiddleware,
+  bulkUploadController as any,
+  uploadErrorCleanup
+);
+
+// ===== Ingestion Jobs (upload processing status, admin only) =====
+router.get('/ingestion-jobs', requireRole('admin') as any, listIngestionJobs as any);
+router.get('/ingestion-jobs/:id', requireRole('admin') as any, validate(ingestionJobIdParamSchema), getIngestionJob as any);
+router.post('/ingestion-jobs/:id/retry', requireRole('admin') as any, validate(ingestionJobIdParamSchema), retryIngestionJob as any);
+
 // ===== Categories (visible list + custom/hide management) =====
 router.get('/categories', getCategories as any);
 router.get('/categories/hidden-defaults', requireRole('admin') as any, getHiddenDefaultCategories as any);
@@ -141,7 +213,8 @@ router.post('/categories/hide-default/:defaultCategoryId', requireRole('admin')
 router.delete('/categories/hide-default/:defaultCategoryId', requireRole('admin') as any, unhideDefaultCategory as any);
 
 // ===== Document Management =====
-router.get('/documents', listDocuments as any);
+router.get('/documents', validate(listDocumentsSchema), listDocuments as any);
+router.post('/documents/reindex', requireRole('admin') as any, validate(reindexDocumentsSchema), reindexDocuments as any);
 
 router.put('/documents/:id/activate', validate(documentIdParamSchema), asyncHandler(activateDocument as any));
 router.put('/documents/:id/deactivate', validate(documentIdParamSchema), asyncHandler(deactivateDocument as any));
@@ -153,6 +226,51 @@ router.delete('/documents/:id',
 );
 
 router.get('/documents/:id/download', validate(documentIdParamSchema), asyncHandler(downloadDocument as any));
+router.put('/documents/:id/family', requireRole('admin') as any, validate(moveDocumentFamilySchema), moveDocumentToFamily as any);
+router.put('/documents/:id/effective-dates', requireRole('admin') as any, validate(effectiveDatesSchema), updateEffectiveDates as any);
+
+// ===== Document Families =====
+router.get('/document-families', listDocumentFamilies as any);
+router.get('/document-families/:id', validate(documentFamilyIdParamSchema), getDocumentFamily as any);
+router.get('/document-families/:id/compare', validate(compareFamilyVersionsSchema), compareFamilyVersions as any);
+router.post('/document-families', requireRole('admin') as any, validate(createDocumentFamilySchema), createDocumentFamily as any);
+
+// ===== Retrieval Evaluation (golden questions and scored runs, admin only) =====
+router.get('/eval/questions', requireRole('admin') as any, listEvalQuestions as any);
+router.post('/eval/questions', requireRole('admin') as any, validate(createEvalQuestionSchema), createEvalQuestion as any);
+router.put('/eval/questions/:id', requireRole('admin') as any, validate(updateEvalQuestionSchema), updateEvalQuestion as any);
+router.delete('/eval/questions/:id', requireRole('admin') as any, validate(evalIdParamSchema), deleteEvalQuestion as any);
+router.get('/eval/runs', requireRole('admin') as any, listEvalRuns as any);
+router.post('/eval/runs', requireRole('admin') as any, validate(startEvalRunSchema), startEvalRun as any);
+router.get('/eval/runs/:id', requireRole('admin') as any, validate(evalIdParamSchema), getEvalRun as any);
+
+// ===== Amendment Consolidation (amending Acts applied to a base statute, admin only) =====
+router.get('/consolidations', requireRole('admin') as any, listConsolidations as any);
+router.post('/consolidations', requireRole('admin') as any, validate(createConsolidationSchema), createConsolidation as any);
+router.get('/consolidations/:id', requireRole('admin') as any, validate(consolidationIdParamSchema), getConsolidation as any);
+router.get('/consolidations/:id/text', requireRole('admin') as any, validate(consolidationIdParamSchema), downloadConsolidationText as any);
+
+// ===== Analysis Runs (stored conflict / gap / version analyses, re-runs and PDF / DOCX reports; also stored by the agent) =====
+router.get('/analysis-runs', validate(listAnalysisRunsSchema), listAnalysisRuns as any);
+router.post('/analysis-runs', validate(createAnalysisRunSchema), createAnalysisRun as any);
+router.get('/analysis-runs/:id', validate(analysisRunIdParamSchema), getAnalysisRun as any);
+router.post('/analysis-runs/:id/rerun', validate(analysisRunIdParamSchema), rerunAnalysisRun as any);
+router.get('/analysis-runs/:id/report', validate(analysisRunReportSchema), downloadAnalysisReport as any);
+
+// ===== Compliance Reports (earlier API; reports are analysis runs, same ids) =====
+router.get('/reports', listReports as any);
+router.post('/reports', validate(createReportSchema), createReport as any);
+router.get('/reports/:id/download', validate(downloadReportSchema), downloadReport as any);
+
+// ===== Conflict Findings (triage of detected conflicts: acknowledge, assign, resolve, dismiss, comment) =====
+router.get('/conflict-findings', validate(listConflictFindingsSchema), listConflictFindings as any);
+router.get('/conflict-findings/assignees', listConflictAssignees as any);
+router.get('/conflict-findings/:id', validate(conflictFindingIdParamSchema), getConflictFinding as any);
+router.post('/conflict-findings/:id/transition', validate(conflictFindingTransitionSchema), transitionConflictFinding as any);
+router.post('/conflict-findings/:id/comments', validate(conflictFindingCommentSchema), addConflictFindingComment as any);
+
+// ===== Repugnancy Checks (an Act, ordinance, rules or SRO tested against the Constitution and federal law) =====
+router.post('/repugnancy-checks', validate(repugnancyCheckSchema), checkRepugnancy as any);
 
 // ===== Conversation Routes =====
 router.post('/conversations', createConversation as any);
@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database';
+import { LLM_MODEL_ID } from '../config/providers';
+import { AnalysisRunRepository } from '../repositories/analysisRunRepository';
+import { AnalysisRun, AnalysisRunDocument } from '../types';
+import { ReportType, buildReport } from '../utils/reportBuilder';
+import { analysedDocuments, diffFindings, extractFindings } from '../utils/analysisFindings';
+import { renderReportPdf } from '../utils/pdfWriter';
+import { renderReportDocx } from '../utils/docxWriter';
+import { ConflictDetectionService } from './conflictDetectionService';
+import { GapAnalysisService } from './gapAnalysisService';
+import { VersionComparisonService } from './versionComparisonService';
+import { DocumentFamilyService } from './documentFamilyService';
+import { ConflictTriageService } from './conflictTriageService';
+import logger from '../utils/logger';
+
+export type ReportFormat = 'pdf' | 'docx';
+
+/** Inputs of an analysis, as given by the user; document names are resolved to their latest versions on each run */
+export type AnalysisRequest =
+  /** Two or more documents (optionally on a topic), or two or more categories */
+  | { type: 'conflicts'; documents?: string[]; categories?: string[]; topic?: string }
+  | { type: 'gaps'; documentA: string; documentB: string; focusArea?: string }
+  /** Both versions, or neither to compare every consecutive pair */
+  | { type: 'versions'; document: string; fromVersion?: number; toVersion?: number };
+
+export interface RenderedReport {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Runs with the same key are re-runs of one analysis (order of the documents / categories does not matter) */
+function subjectKey(request: AnalysisRequest): string {
+  switch (request.type) {
+    case 'conflicts': {
+      const scope = request.categories?.length ? 'categories' : 'documents';
+      const names = (request.categories?.length ? request.categories : request.documents ?? []).map(normalizeName).sort();
+      return ['conflicts', scope, ...names, normalizeName(request.topic ?? '')].join('|').slice(0, 500);
+    }
+    case 'gaps':
+      return ['gaps', normalizeName(request.documentA), normalizeName(request.documentB), normalizeName(request.focusArea ?? '')]
+        .join('|')
+        .slice(0, 500);
+    case 'versions':
+      return ['versions', normalizeName(request.document), request.fromVersion ?? '', request.toVersion ?? ''].join('|').slice(0, 500);
+  }
+}
+
+/**
+ * Analysis runs: every conflict detection, gap analysis and version comparison (run here, or by the agent during
+ * a chat) is stored with its inputs, the document versions it analysed, its findings and the model, so it can be
+ * revisited, re-run once newer versions are uploaded (new and resolved findings are recorded against the previous
+ * run of the same analysis) and downloaded as a PDF or DOCX compliance report (reportBuilder). Detected conflicts
+ * are also tracked for triage (ConflictTriageService)
+ */
+export class AnalysisRunService {
+  private conflictService: ConflictDetectionService;
+  private gapAnalysisService: GapAnalysisService;
+  private versionService: VersionComparisonService;
+  private familyService: DocumentFamilyService;
+  private triageService: ConflictTriageService;
+
+  constructor() {
+    this.conflictService = new ConflictDetectionService();
+    this.gapAnalysisService = new GapAnalysisService();
+    this.versionService = new VersionComparisonService();
+    this.familyService = new DocumentFamilyService();
+    this.triageService = new ConflictTriageService();
+  }
+
+  /** Run the analysis and store it */
+  async run(adminId: number, request: AnalysisRequest, createdBy?: number): Promise<AnalysisRun> {
+    return this.recordRun(adminId, request, await this.analyze(adminId, request), createdBy);
+  }
+
+  /** Run an earlier analysis again with the same inputs, i.e. against the current versions of its documents */
+  async rerun(id: string, adminId: number, createdBy?: number): Promise<AnalysisRun> {
+    const run = await AnalysisRunRepository.findById(id, adminId);
+    if (!run) throw new Error('Analysis run not found');
+    if (run.request?.legacyReport) throw new Error('This run was saved as a report before its inputs were recorded and cannot be re-run');
+    return this.run(adminId, run.request as AnalysisRequest, createdBy);
+  }
+
+  /** Store an analysis result, with its findings compared to the previous run of the same analysis */
+  async recordRun(adminId: number, request: AnalysisRequest, result: any, createdBy?: number): Promise<AnalysisRun> {
+    const type: ReportType = request.type;
+    const key = subjectKey(request);
+    const report = buildReport(type, result, new Date());
+    const findings = extractFindings(type, result);
+    const previous = await AnalysisRunRepository.findLatestBySubject(adminId, key);
+
+    const run = await AnalysisRunRepository.create({
+      id: uuidv4(),
+      adminId,
+      createdBy,
+      analysisType: type,
+      title: `${report.title}: ${report.subtitle}`.slice(0, 255),
+      subjectKey: key,
+      request,
+      documents: await this.findDocuments(adminId, type, result),
+      findings,
+      findingChanges: previous ? diffFindings(previous.findings ?? [], findings) : null,
+      previousRunId: previous?.id ?? null,
+      result: type === 'versions' ? this.withoutUnchangedText(result) : result,
+      model: LLM_MODEL_ID,
+    });
+    logger.info('Analysis run stored', { adminId, runId: run.id, type, findings: findings.length, previousRunId: run.previous_run_id });
+
+    if (type === 'conflicts') {
+      try {
+        await this.triageService.trackConflicts(adminId, run, result);
+      } catch (error) {
+        // The run is stored; its conflicts are picked up by the next run of the analysis
+        logger.error('Could not track conflict findings', { adminId, runId: run.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return run;
+  }
+
+  async listRuns(adminId: number, filters: { analysisType?: ReportType; subjectKey?: string } = {}): Promise<AnalysisRun[]> {
+    return AnalysisRunRepository.findAll(adminId, filters);
+  }
+
+  async getRun(id: string, adminId: number): Promise<AnalysisRun | null> {
+    return AnalysisRunRepository.findById(id, adminId);
+  }
+
+  /** Render a run as a compliance report; dated by the run, so re-downloads are identical */
+  async renderReport(run: AnalysisRun, format: ReportFormat): Promise<RenderedReport> {
+    const generatedAt = new Date(run.created_at);
+    const document = buildReport(run.analysis_type, run.result ?? {}, generatedAt);
+    const buffer = format === 'pdf' ? renderReportPdf(document, generatedAt) : await renderReportDocx(document, generatedAt);
+    const name = `${document.title} - ${document.subtitle}`.replace(/[\\/:*?"<>|\r\n]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 150);
+    return { buffer, contentType: CONTENT_TYPES[format], filename: `${name}.${format}` };
+  }
+
+  private async analyze(adminId: number, request: AnalysisRequest): Promise<any> {
+    switch (request.type) {
+      case 'conflicts': {
+        if (request.categories && request.categories.length >= 2) {
+          return this.conflictService.detectConflicts(request.categories, adminId, true);
+        }
+        const documents = await Promise.all((request.documents ?? []).map((name) => this.latestFilename(name, adminId)));
+        if (documents.length < 2) throw new Error('Choose at least two documents or two categories');
+        if (documents.length > 2) return this.conflictService.detectConflicts(documents, adminId, true);
+        const query = `Check conflicts between ${documents[0]} and ${documents[1]}${request.topic ? ` regarding ${request.topic}` : ''}`;
+        return this.conflictService.detectConflicts(query, adminId);
+      }
+
+      case 'gaps':
+        return this.gapAnalysisService.analyzeGaps(
+          await this.latestFilename(request.documentA, adminId),
+          await this.latestFilename(request.documentB, adminId),
+          adminId,
+          request.focusArea
+        );
+
+      case 'versions': {
+        if ((request.fromVersion === undefined) !== (request.toVersion === undefined)) {
+          throw new Error('Give both versions, or neither to compare all versions');
+        }
+        if (request.fromVersion !== undefined) {
+          const result = await this.versionService.processComparison(
+            `compare ${request.document} version ${request.fromVersion} and ${request.toVersion}`,
+            adminId
+          );
+          if (!result.success) throw new Error(result.error || 'Version comparison failed');
+          return result;
+        }
+        const result = await this.versionService.compareAllVersions(request.document, adminId);
+        if ('error' in result) throw new Error(result.error);
+        if (result.comparisons.length === 0) throw new Error(result.message || 'At least two versions are needed');
+        return result;
+      }
+    }
+  }
+
+  /** Active version of the document family a name refers to, so re-runs pick up newer versions */
+  private async latestFilename(name: string, adminId: number): Promise<string> {
+    const resolution = await this.familyService.resolveFamilyFromInput(name, adminId);
+    return resolution?.family.active_filename || name;
+  }
+
+  /** Stored versions the result refers to */
+  private async findDocuments(adminId: number, type: ReportType, result: any): Promise<AnalysisRunDocument[]> {
+    const { filenames, ids } = analysedDocuments(type, result);
+    if (filenames.length === 0 && ids.length === 0) return [];
+    // A name shared by several versions means the active one (that is the one the analysis resolved)
+    const rows = await pool.query(
+      `(SELECT DISTINCT ON (filename) id, filename, version, family_id
+        FROM documents
+        WHERE admin_id = $1 AND filename = ANY($2)
+        ORDER BY filename, is_active DESC, version DESC)
+       UNION
+       (SELECT id, filename, version, family_id FROM documents WHERE admin_id = $1 AND id = ANY($3))
+       ORDER BY filename, version`,
+      [adminId, filenames, ids]
+    );
+    return rows.rows.map((row: any) => ({
+      id: row.id,
+      filename: row.filename,
+      version: row.version != null ? Number(row.version) : null,
+      family_id: row.family_id ?? null,
+    }));
+  }
+
+  /**
+   * Unchanged sections are only counted in a report, so their text (both versions, i.e. most of the document)
+   * is not stored
+   */
+  private withoutUnchangedText(data: any): any {
+    const compact = (comparison: any) =>
+      comparison && Array.isArray(comparison.changes)
+        ? {
+            ...comparison,
+            changes: comparison.changes.map((c: any) =>
+              c.change_type === 'unchanged' ? { ...c, old_content: undefined, new_content: undefined, redline: undefined } : c
+            ),
+          }
+        : comparison;
+    if (Array.isArray(data.comparisons)) {
+      return { ...data, comparisons: data.comparisons.map((c: any) => ({ ...c, changes: compact(c.changes) })) };
+    }
+    return data.comparison ? { ...data, comparison: compact(data.comparison) } : compact(data);
+  }
+}
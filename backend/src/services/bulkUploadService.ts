@@ -0,0 +1,392 @@
+import fs from 'fs';
+import path from 'path';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import JSZip from 'jszip';
+import pool from '../config/database';
+import { UploadService } from './uploadService';
+import { enqueueIngestionJob } from './ingestionQueue';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import logger from '../utils/logger';
+
+/** Upper bound on documents accepted in one bulk request (after ZIP expansion) */
+export const MAX_BULK_ENTRIES = 500;
+
+/** Upper bound on the size of one ZIP archive (bytes); JSZip reads the archive into memory to list its entries */
+const MAX_ZIP_ARCHIVE_BYTES = 512 * 1024 * 1024;
+
+/** Upper bound on the uncompressed size of one ZIP entry (bytes) */
+const MAX_ZIP_ENTRY_BYTES = 256 * 1024 * 1024;
+
+/** Upper bound on the total uncompressed size of all ZIP contents in one request (bytes) */
+const MAX_ZIP_UNCOMPRESSED_BYTES = 2 * 1024 * 1024 * 1024;
+
+/** Upper bound on a manifest packed inside a ZIP (bytes); it is read into memory */
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024;
+
+const MANIFEST_NAMES = ['manifest.csv', 'manifest.json'];
+
+/** Raised for problems with the request itself (bad manifest, too many files); reported to the client as 400 */
+export class BulkUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkUploadError';
+  }
+}
+
+export interface BulkUploadFile {
+  path: string;          // multer temp path
+  originalname: string;
+}
+
+export interface BulkUploadResult {
+  file: string;          // original name or path inside the ZIP
+  category?: string;
+  categorySource?: 'manifest' | 'folder' | 'default';
+  status: 'queued' | 'skipped';
+  jobId?: string;
+  reason?: string;
+}
+
+interface BulkEntry {
+  relativePath: string;
+  localPath: string;
+}
+
+/** Sizes from the ZIP central directory, kept by JSZip on a private field of each loaded entry */
+interface ZipEntrySizes {
+  _data?: { uncompressedSize?: number };
+}
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function removeEntries(entries: BulkEntry[]): void {
+  entries.forEach((e) => fs.existsSync(e.localPath) && fs.unlinkSync(e.localPath));
+}
+
+/** Passes data through and fails once more than `limit` bytes went by (declared ZIP sizes can lie) */
+function byteLimit(limit: number, entryPath: string): Transform {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      seen += chunk.length;
+      if (seen > limit) callback(new Error(`ZIP entry "${entryPath}" is larger than its declared size`));
+      else callback(null, chunk);
+    },
+  });
+}
+
+/** Lowercase alphanumerics only, so "Federal Legislation - Acts" matches "Federal Legislation / Acts" */
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Normalize a path for manifest lookups (forward slashes, no leading ./ or /) */
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^\.?\/+/, '').trim().toLowerCase();
+}
+
+function isIgnoredEntry(entryPath: string): boolean {
+  const base = path.posix.basename(entryPath);
+  return entryPath.startsWith('__MACOSX/') || base.startsWith('.') || base === 'Thumbs.db';
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields (category names may contain commas).
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+export class BulkUploadService {
+  private uploadService: UploadService;
+
+  constructor() {
+    this.uploadService = new UploadService();
+  }
+
+  /**
+   * Parse a sidecar manifest mapping file paths to categories.
+   * CSV: header row with "file" (or "filename"/"path") and "category" columns.
+   * JSON: either an array of { file, category } or an object { "<file>": "<category>" }.
+   * Keys are normalized paths; bare filenames also match files in any folder.
+   */
+  parseManifest(content: string, manifestName: string): Map<string, string> {
+    const manifest = new Map<string, string>();
+    const add = (file: unknown, category: unknown) => {
+      if (typeof file === 'string' && typeof category === 'string' && file.trim() && category.trim()) {
+        manifest.set(normalizePath(file), category.trim());
+      }
+    };
+
+    if (manifestName.toLowerCase().endsWith('.json')) {
+      let data: any;
+      try {
+        data = JSON.parse(content);
+      } catch {
+        throw new BulkUploadError('Manifest JSON could not be parsed');
+      }
+      if (Array.isArray(data)) {
+        data.forEach((row) => add(row?.file ?? row?.filename ?? row?.path, row?.category));
+      } else if (data && typeof data === 'object') {
+        Object.entries(data).forEach(([file, category]) => add(file, category));
+      } else {
+        throw new BulkUploadError('Manifest JSON must be an array or an object');
+      }
+      return manifest;
+    }
+
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((l) => l.trim().length > 0);
+    if (lines.length === 0) return manifest;
+    const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+    const fileCol = header.findIndex((h) => ['file', 'filename', 'path'].includes(h));
+    const categoryCol = header.indexOf('category');
+    if (fileCol === -1 || categoryCol === -1) {
+      throw new BulkUploadError('Manifest CSV must have "file" and "category" columns');
+    }
+    for (const line of lines.slice(1)) {
+      const fields = splitCsvLine(line);
+      add(fields[fileCol], fields[categoryCol]);
+    }
+    return manifest;
+  }
+
+  /**
+   * Categories visible to the admin (default categories not hidden + custom categories)
+   */
+  private async getVisibleCategories(adminId: number): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT d.name FROM default_categories d
+       WHERE d.id NOT IN (SELECT default_category_id FROM admin_hidden_defaults WHERE admin_id = $1)
+       UNION
+       SELECT name FROM custom_categories WHERE admin_id = $1`,
+      [adminId]
+    );
+    return result.rows.map((r: { name: string }) => r.name);
+  }
+
+  /**
+   * Extract documents from a ZIP into the uploads directory.
+   * Entry paths are only used for reporting/category lookup; files are written under random names.
+   * Declared sizes are checked against the per-entry limit and the request's remaining budget (byteBudget)
+   * before anything is inflated, and entries are streamed to disk.
+   */
+  private async expandZip(
+    zipPath: string,
+    uploadDir: string,
+    byteBudget: number
+  ): Promise<{ entries: BulkEntry[]; manifest?: { name: string; content: string }; bytes: number }> {
+    if ((await fs.promises.stat(zipPath)).size > MAX_ZIP_ARCHIVE_BYTES) {
+      throw new Error(`ZIP archive is larger than ${formatBytes(MAX_ZIP_ARCHIVE_BYTES)}`);
+    }
+    const zip = await JSZip.loadAsync(await fs.promises.readFile(zipPath));
+    const files: Array<{ entry: JSZip.JSZipObject; entryPath: string; size: number }> = [];
+    let totalBytes = 0;
+
+    for (const entry of Object.values(zip.files)) {
+      const entryPath = entry.name.replace(/\\/g, '/');
+      if (entry.dir || isIgnoredEntry(entryPath)) continue;
+      const size = (entry as unknown as ZipEntrySizes)._data?.uncompressedSize;
+      if (typeof size !== 'number' || size < 0) {
+        throw new Error(`ZIP entry "${entryPath}" has no declared size`);
+      }
+      const limit = MANIFEST_NAMES.includes(entryPath.toLowerCase()) ? MAX_MANIFEST_BYTES : MAX_ZIP_ENTRY_BYTES;
+      if (size > limit) {
+        throw new Error(`ZIP entry "${entryPath}" is larger than ${formatBytes(limit)} when extracted`);
+      }
+      totalBytes += size;
+      if (totalBytes > byteBudget) {
+        throw new Error(`ZIP contents exceed ${formatBytes(MAX_ZIP_UNCOMPRESSED_BYTES)} per request when extracted`);
+      }
+      files.push({ entry, entryPath, size });
+    }
+
+    const entries: BulkEntry[] = [];
+    let manifest: { name: string; content: string } | undefined;
+    try {
+      for (const { entry, entryPath, size } of files) {
+        if (MANIFEST_NAMES.includes(entryPath.toLowerCase())) {
+          // Declared size is at most MAX_MANIFEST_BYTES (checked above), so the manifest held in memory is too
+          const chunks: Buffer[] = [];
+          const collect = new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+              chunks.push(chunk);
+              callback();
+            },
+          });
+          await pipeline(entry.nodeStream('nodebuffer'), byteLimit(size, entryPath), collect);
+          manifest = { name: entryPath, content: Buffer.concat(chunks).toString('utf-8') };
+          continue;
+        }
+
+        const localPath = path.join(uploadDir, uuidv4());
+        entries.push({ relativePath: entryPath, localPath });
+        await pipeline(entry.nodeStream('nodebuffer'), byteLimit(size, entryPath), fs.createWriteStream(localPath));
+      }
+    } catch (error) {
+      removeEntries(entries);
+      throw error;
+    }
+
+    return { entries, manifest, bytes: totalBytes };
+  }
+
+  /**
+   * Resolve category for one entry: manifest (full path, then bare filename) → nearest folder name
+   * matching a visible category → request default.
+   */
+  private resolveCategory(
+    relativePath: string,
+    manifest: Map<string, string>,
+    categoriesByKey: Map<string, string>,
+    defaultCategory?: string
+  ): { category?: string; source?: BulkUploadResult['categorySource']; reason?: string } {
+    const fromManifest = manifest.get(normalizePath(relativePath)) ?? manifest.get(normalizePath(path.posix.basename(relativePath)));
+    if (fromManifest) {
+      const match = categoriesByKey.get(normalizeKey(fromManifest));
+      if (!match) return { reason: `Manifest category "${fromManifest}" is not one of your categories` };
+      return { category: match, source: 'manifest' };
+    }
+
+    const folders = path.posix.dirname(relativePath).split('/').filter((f) => f && f !== '.');
+    for (let i = folders.length - 1; i >= 0; i--) {
+      const match = categoriesByKey.get(normalizeKey(folders[i]));
+      if (match) return { category: match, source: 'folder' };
+    }
+
+    if (defaultCategory) {
+      return { category: defaultCategory, source: 'default' };
+    }
+    return { reason: 'No category in manifest and no folder name matches a category' };
+  }
+
+  /**
+   * Create one ingestion job per document in the request (plain files and ZIP contents).
+   * Files that cannot be ingested are reported as skipped and removed from disk.
+   */
+  async bulkUpload(
+    files: BulkUploadFile[],
+    adminId: number,
+    createdBy: number,
+    options: { manifestFile?: BulkUploadFile; defaultCategory?: string } = {}
+  ): Promise<BulkUploadResult[]> {
+    const results: BulkUploadResult[] = [];
+    const entries: BulkEntry[] = [];
+    let zipBytes = 0;
+    let manifestSource: { name: string; content: string } | undefined;
+
+    if (options.manifestFile) {
+      manifestSource = {
+        name: options.manifestFile.originalname,
+        content: fs.readFileSync(options.manifestFile.path, 'utf-8'),
+      };
+    }
+
+    for (const file of files) {
+      if (path.extname(file.originalname).toLowerCase() !== '.zip') {
+        entries.push({ relativePath: file.originalname, localPath: path.resolve(file.path) });
+        continue;
+      }
+      try {
+        const expanded = await this.expandZip(file.path, path.dirname(path.resolve(file.path)), MAX_ZIP_UNCOMPRESSED_BYTES - zipBytes);
+        entries.push(...expanded.entries);
+        zipBytes += expanded.bytes;
+        // A manifest sent alongside the upload wins over one packed inside the ZIP (first ZIP's manifest is used)
+        if (!manifestSource && expanded.manifest) manifestSource = expanded.manifest;
+      } catch (error) {
+        results.push({ file: file.originalname, status: 'skipped', reason: error instanceof Error ? error.message : 'Invalid ZIP archive' });
+      } finally {
+        if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+      }
+    }
+
+    let manifest: Map<string, string>;
+    let categoriesByKey: Map<string, string>;
+    let defaultCategory: string | undefined;
+    try {
+      if (entries.length > MAX_BULK_ENTRIES) {
+        throw new BulkUploadError(`Bulk upload is limited to ${MAX_BULK_ENTRIES} documents per request (got ${entries.length})`);
+      }
+      manifest = manifestSource ? this.parseManifest(manifestSource.content, manifestSource.name) : new Map<string, string>();
+      categoriesByKey = new Map((await this.getVisibleCategories(adminId)).map((name) => [normalizeKey(name), name]));
+      if (options.defaultCategory) {
+        defaultCategory = categoriesByKey.get(normalizeKey(options.defaultCategory));
+        if (!defaultCategory) throw new BulkUploadError(`Category "${options.defaultCategory}" is not one of your categories`);
+      }
+    } catch (error) {
+      removeEntries(entries);
+      throw error;
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      const fileName = path.posix.basename(entry.relativePath);
+      const fileExt = path.extname(fileName).slice(1);
+
+      if (!this.uploadService.validateFileType(fileExt)) {
+        results.push({ file: entry.relativePath, status: 'skipped', reason: 'Unsupported file type' });
+        if (fs.existsSync(entry.localPath)) fs.unlinkSync(entry.localPath);
+        continue;
+      }
+
+      const resolved = this.resolveCategory(entry.relativePath, manifest, categoriesByKey, defaultCategory);
+      if (!resolved.category) {
+        results.push({ file: entry.relativePath, status: 'skipped', reason: resolved.reason });
+        if (fs.existsSync(entry.localPath)) fs.unlinkSync(entry.localPath);
+        continue;
+      }
+
+      let job;
+      try {
+        job = await IngestionJobRepository.create({
+          id: uuidv4(),
+          adminId,
+          createdBy,
+          filename: fileName,
+          filepath: entry.localPath,
+          fileType: fileExt,
+          category: resolved.category,
+        });
+      } catch (error) {
+        // Files of jobs created so far belong to those jobs; the rest would never be picked up
+        removeEntries(entries.slice(index));
+        throw error;
+      }
+      enqueueIngestionJob(job.id);
+      results.push({ file: entry.relativePath, category: resolved.category, categorySource: resolved.source, status: 'queued', jobId: job.id });
+    }
+
+    logger.info('Bulk upload queued', {
+      adminId,
+      queued: results.filter((r) => r.status === 'queued').length,
+      skipped: results.filter((r) => r.status === 'skipped').length,
+    });
+    return results;
+  }
+}
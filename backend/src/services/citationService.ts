@@ -0,0 +1,141 @@
+import { CitationRepository, CitationEdgeRow } from '../repositories/citationRepository';
+import { DocumentFamilyService } from './documentFamilyService';
+import { parseCitation } from '../utils/citationExtractor';
+import logger from '../utils/logger';
+
+export interface CitingDocument {
+  document_id: string;
+  document_name: string;
+  filename: string;
+  category: string | null;
+  version: number;
+  is_active: boolean;
+  citations: string[];
+  mentions: number;
+  excerpts: Array<{ section: string | null; page: number | null; content: string }>;
+}
+
+export interface CitedAuthority {
+  citation: string;
+  type: string;
+  mentions: number;
+  /** Document family in the corpus that the citation links to, when uploaded */
+  linked_document: string | null;
+  sections: string[];
+}
+
+/**
+ * Queries over the citation graph built at ingestion time (see utils/citationExtractor)
+ */
+export class CitationService {
+  private familyService = new DocumentFamilyService();
+
+  /**
+   * Documents citing a reference. The reference is either a citation ("Article 199", "Section 302 PPC",
+   * "PLD 2019 SC 123") or the name of a document in the corpus (every citation linked to that document).
+   */
+  async findCitingDocuments(reference: string, adminId: number) {
+    const parsed = parseCitation(reference);
+    let edges: CitationEdgeRow[];
+    let resolvedAs: string;
+
+    if (parsed) {
+      edges = await CitationRepository.findByNormalized(adminId, parsed.normalized);
+      resolvedAs = parsed.normalized;
+    } else {
+      const resolution = await this.familyService.resolveFamilyFromInput(reference, adminId);
+      if (!resolution) {
+        throw new Error(
+          `Could not recognise "${reference}" as a citation or document. Try e.g. "Article 199", "Section 302 PPC" or "PLD 2019 SC 123".`
+        );
+      }
+      edges = await CitationRepository.findByTargetFamily(adminId, resolution.family.id);
+      resolvedAs = resolution.family.name;
+    }
+
+    const byDocument = new Map<string, CitingDocument>();
+    for (const edge of edges) {
+      let doc = byDocument.get(edge.source_document_id);
+      if (!doc) {
+        doc = {
+          document_id: edge.source_document_id,
+          document_name: edge.source_family || edge.source_filename,
+          filename: edge.source_filename,
+          category: edge.source_category,
+          version: edge.source_version,
+          is_active: edge.source_is_active,
+          citations: [],
+          mentions: 0,
+          excerpts: [],
+        };
+        byDocument.set(edge.source_document_id, doc);
+      }
+      doc.mentions++;
+      if (!doc.citations.includes(edge.normalized)) doc.citations.push(edge.normalized);
+      if (doc.excerpts.length < 2 && edge.excerpt) {
+        doc.excerpts.push({ section: edge.section_name, page: edge.page_number, content: edge.excerpt });
+      }
+    }
+
+    const documents = Array.from(byDocument.values()).sort(
+      (a, b) => Number(b.is_active) - Number(a.is_active) || b.mentions - a.mentions
+    );
+    logger.info('Citation graph: cited-by lookup', { reference, resolvedAs, documents: documents.length });
+
+    return {
+      reference,
+      resolved_as: resolvedAs,
+      total_documents: documents.length,
+      documents,
+      confidence: documents.length > 0 ? 90 : 80,
+    };
+  }
+
+  /**
+   * Authorities a document relies on (its outgoing citations), grouped by citation.
+   * Uses the active version of the resolved document family.
+   */
+  async findCitedAuthorities(documentInput: string, adminId: number) {
+    const resolution = await this.familyService.resolveFamilyFromInput(documentInput, adminId);
+    if (!resolution) {
+      throw new Error(`Could not find a document matching "${documentInput}".`);
+    }
+    const { family } = resolution;
+
+    let documentId = family.active_document_id;
+    if (!documentId) {
+      const versions = await this.familyService.getFamilyVersions(family.id, adminId);
+      documentId = versions[versions.length - 1]?.id;
+    }
+    if (!documentId) {
+      throw new Error(`"${family.name}" has no stored versions.`);
+    }
+
+    const edges = await CitationRepository.findBySourceDocument(adminId, documentId);
+    const byCitation = new Map<string, CitedAuthority>();
+    for (const edge of edges) {
+      let authority = byCitation.get(edge.normalized);
+      if (!authority) {
+        authority = { citation: edge.normalized, type: edge.citation_type, mentions: 0, linked_document: edge.target_family, sections: [] };
+        byCitation.set(edge.normalized, authority);
+      }
+      authority.mentions++;
+      if (edge.section_name && !authority.sections.includes(edge.section_name)) {
+        authority.sections.push(edge.section_name);
+      }
+    }
+
+    const authorities = Array.from(byCitation.values()).sort((a, b) => b.mentions - a.mentions);
+    logger.info('Citation graph: cites lookup', { documentInput, family: family.name, authorities: authorities.length });
+
+    return {
+      document_name: family.name,
+      document_id: documentId,
+      total_citations: authorities.length,
+      law_reports: authorities.filter((a) => a.type === 'law_report'),
+      statutes: authorities.filter((a) => a.type === 'statute_section'),
+      constitution_articles: authorities.filter((a) => a.type === 'constitution_article'),
+      confidence: authorities.length > 0 ? 90 : 80,
+    };
+  }
+}
@@ -1,10 +1,13 @@
+import { createHash } from 'crypto';
 import pool from '../config/database';
-import { llm } from '../config/openai';
-import { embeddings } from '../config/openai';
-import { Reranker } from '../utils/reranker';
+import { llm, LLM_MODEL_ID } from '../config/providers';
+import { embeddings, EMBEDDING_MODEL_ID } from '../config/providers';
+import { ConflictPairCheckRepository, PairCheckVerdict } from '../repositories/conflictPairCheckRepository';
+import { mapWithConcurrency } from '../utils/concurrency';
 import logger from '../utils/logger';
 
 export interface ConflictChunk {
+  id: string;
   content: string;
   document_name: string;
   document_category?: string;
@@ -33,6 +36,7 @@ export interface DetectedConflict {
     excerpt: string;
   };
   recommendation?: string;
+  governing_provision?: string;  // repugnancy checks: the article or section document_a is tested against
 }
 
 export interface ConflictAnalysisResult {
@@ -49,16 +53,74 @@ export interface ConflictAnalysisResult {
   };
 }
 
+/** A stored document taking part in a conflict analysis */
+export interface ConflictDocument {
+  id: string;
+  filename: string;
+  category: string | null;
+  version: string;
+}
+
+/**
+ * Documents compared in one analysis: the given pairs (a clause of the first is paired with clauses of the second),
+ * or every document against every other one
+ */
+export type DocumentScope =
+  | { pairs: Array<[ConflictDocument, ConflictDocument]> }
+  | { documents: ConflictDocument[] };
+
+/** Two clauses on the same matter from different documents (a from the first document of the pair) */
+export interface CandidatePair {
+  a: ConflictChunk;
+  b: ConflictChunk;
+  similarity: number;
+}
+
+/**
+ * How a clause pair is checked: 'conflict' compares two peers (either order); 'repugnancy' tests the first clause,
+ * from a subordinate instrument, against the second, from the law that governs it
+ */
+export type PairCheckMode = 'conflict' | 'repugnancy';
+
+export interface PairCheckStats {
+  candidate_pairs: number;
+  pairs_checked: number;  // LLM calls made
+  cache_hits: number;
+  pairs_failed: number;
+}
+
 const MIN_MATCH_CONFIDENCE = 0.3;
 const CATEGORY_MATCH_SCORE = 0.8;
 
-export class ConflictDetectionService {
-  private reranker: Reranker;
-
-  constructor() {
-    this.reranker = new Reranker();
-  }
+// Candidate generation: nearest clauses in the other documents, above a similarity floor
+const NEIGHBOURS_PER_CLAUSE = 2;
+const MIN_CANDIDATE_SIMILARITY = 0.5;
+const MIN_CLAUSE_CHARS = 80;                 // headings and fragments cannot conflict
+const TOPIC_CLAUSES_PER_DOCUMENT = 30;       // with a topic, only the clauses closest to it
+const MAX_CLAUSES_PER_DOCUMENT = 2000;
+const MAX_PAIRS_PER_CLAUSE = 2;
+/** Most similar candidate pairs read per analysis, before the per-clause and per-document-pair caps */
+const CANDIDATE_POOL_FACTOR = 10;
+
+// Checking: one LLM call per pair, within a budget per document pair and per analysis
+const MAX_CHECKS_PER_DOCUMENT_PAIR = Math.max(1, parseInt(process.env.CONFLICT_MAX_CHECKS_PER_PAIR || '30', 10) || 30);
+const MAX_PAIR_CHECKS = Math.max(1, parseInt(process.env.CONFLICT_MAX_PAIR_CHECKS || '150', 10) || 150);
+const PAIR_CHECK_CONCURRENCY = Math.max(1, parseInt(process.env.CONFLICT_CHECK_CONCURRENCY || '4', 10) || 4);
+const MAX_CLAUSE_CHARS = 4000;
+const FALLBACK_EXCERPT_CHARS = 400;
+/** Part of the cache key: bump when the pair check prompt changes */
+const PAIR_CHECK_VERSION = 'pair-check-v1';
+const REPUGNANCY_CHECK_VERSION = 'repugnancy-v1';
+
+const ANALYSIS_METHOD = 'Clause-pair analysis (embedding-matched clauses, each pair checked by the LLM)';
+const SEVERITY_ORDER: Record<DetectedConflict['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+const normalizeClause = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+/** Same clause text up to case and spacing (repeated boilerplate); matches the content_hash of the candidate query */
+const sameText = (a: string, b: string) => a === b || normalizeClause(a) === normalizeClause(b);
 
+export class ConflictDetectionService {
   /**
    * Parse conflict query to extract document names
    */
@@ -238,240 +300,438 @@ Return ONLY the JSON object or null if you cannot extract document information.`
   }
 
   /**
-   * Get relevant chunks from specific documents
-   * Lookup strategy: Try category first, fall back to filename
+   * Active documents a name refers to: every document of the category with that name, otherwise the matching file
    */
-  async getDocumentChunks(
-    documentNames: string[],
-    topic?: string,
-    chunksPerDoc: number = 10,
-    adminId?: number
-  ): Promise<Map<string, ConflictChunk[]>> {
-    const result = new Map<string, ConflictChunk[]>();
+  async findDocuments(name: string, adminId?: number): Promise<ConflictDocument[]> {
+    const byCategory = await pool.query(
+      `SELECT d.id, d.filename, d.category, d.version
+       FROM documents d
+       WHERE d.is_active = true
+       AND (d.admin_id = $1 OR $1 IS NULL)
+       AND LOWER(d.category) = LOWER($2)
+       ORDER BY d.filename`,
+      [adminId ?? null, name]
+    );
+    if (byCategory.rows.length > 0) {
+      logger.info('Documents found by category', { name, count: byCategory.rows.length });
+      return byCategory.rows.map((row: any) => this.toConflictDocument(row));
+    }
 
-    for (const docName of documentNames) {
-      let doc: any;
-      
-      // Step 1: Try category lookup first
-      const categoryQuery = await pool.query(
-        `SELECT DISTINCT d.id, d.filename, d.category, d.version
-         FROM documents d
-         WHERE d.is_active = true 
-         AND d.admin_id = $1
-         AND LOWER(d.category) = LOWER($2)
-         LIMIT 1`,
-        [adminId, docName]
-      );
-      
-      if (categoryQuery.rows.length > 0) {
-        doc = categoryQuery.rows[0];
-        logger.info('Document found by category', { docName, category: doc.category, filename: doc.filename });
-      } else {
-        // Step 2: Fall back to filename lookup
-        let docQuery: any;
-        if (adminId) {
-          docQuery = await pool.query(
-            `SELECT DISTINCT d.id, d.filename, d.category, d.version
-             FROM documents d
-             WHERE d.is_active = true 
-             AND d.admin_id = $3
-             AND (LOWER(d.filename) = LOWER($1) OR LOWER(d.filename) LIKE LOWER($2))
-             LIMIT 1`,
-            [docName, `%${docName}%`, adminId]
-          );
-        } else {
-          docQuery = await pool.query(
-            `SELECT DISTINCT d.id, d.filename, d.category, d.version
-             FROM documents d
-             WHERE d.is_active = true 
-             AND (LOWER(d.filename) = LOWER($1) OR LOWER(d.filename) LIKE LOWER($2))
-             LIMIT 1`,
-            [docName, `%${docName}%`]
-          );
-        }
-        
-        if (docQuery.rows.length > 0) {
-          doc = docQuery.rows[0];
-          logger.info('Document found by filename fallback', { docName, filename: doc.filename, category: doc.category });
-        } else {
-          logger.warn('Document not found by category or filename', { docName });
-          continue;
-        }
-      }
+    const byFilename = await pool.query(
+      `SELECT d.id, d.filename, d.category, d.version
+       FROM documents d
+       WHERE d.is_active = true
+       AND (d.admin_id = $3 OR $3 IS NULL)
+       AND (LOWER(d.filename) = LOWER($1) OR LOWER(d.filename) LIKE LOWER($2))
+       ORDER BY (LOWER(d.filename) = LOWER($1)) DESC
+       LIMIT 1`,
+      [name, `%${name}%`, adminId ?? null]
+    );
+    if (byFilename.rows.length === 0) {
+      logger.warn('Document not found by category or filename', { name });
+      return [];
+    }
+    return [this.toConflictDocument(byFilename.rows[0])];
+  }
 
-      let chunks: any[];
-
-      if (topic) {
-        // Topic-based retrieval using embeddings
-        const topicEmbedding = await embeddings.embedQuery(topic);
-        
-        chunks = (await pool.query(
-          `SELECT c.content, c.section_name, c.page_number, c.chunk_index,
-                  1 - (c.embedding <=> $1::vector) as similarity
-           FROM chunks c
-           WHERE c.document_id = $2
-           ORDER BY c.embedding <=> $1::vector
-           LIMIT $3`,
-          [JSON.stringify(topicEmbedding), doc.id, chunksPerDoc]
-        )).rows;
-      } else {
-        // Get all chunks (or top N by importance)
-        chunks = (await pool.query(
-          `SELECT c.content, c.section_name, c.page_number, c.chunk_index
-           FROM chunks c
-           WHERE c.document_id = $1
-           ORDER BY c.chunk_index
-           LIMIT $2`,
-          [doc.id, chunksPerDoc]
-        )).rows;
-      }
+  private toConflictDocument(row: any): ConflictDocument {
+    return { id: row.id, filename: row.filename, category: row.category ?? null, version: row.version != null ? String(row.version) : 'latest' };
+  }
 
-      result.set(doc.category || doc.filename, chunks.map(chunk => ({
-        content: chunk.content,
-        document_name: doc.filename,
-        document_category: doc.category,
-        document_version: doc.version,
-        section_name: chunk.section_name,
-        page_number: chunk.page_number,
-        chunk_index: chunk.chunk_index
-      })));
+  /**
+   * Candidate clause pairs of an analysis, in one pass over the clauses of all its documents: each clause (or each
+   * clause on the topic) with its nearest clauses in the documents it is compared with, by embedding. Clauses on the
+   * same matter are the only ones that can contradict each other, so only these pairs are checked. Clauses with the
+   * same text are never paired (identical boilerplate cannot conflict), and only the most similar pairs of the
+   * whole analysis are read back.
+   */
+  async findCandidatePairs(scope: DocumentScope, topicEmbedding: number[] | null): Promise<CandidatePair[]> {
+    const documents = new Map<string, ConflictDocument>();
+    const partners = new Set<string>();
+    if ('pairs' in scope) {
+      for (const [first, second] of scope.pairs) {
+        if (first.id === second.id) continue;
+        documents.set(first.id, first).set(second.id, second);
+        partners.add(`${first.id}|${second.id}`);
+      }
+    } else {
+      scope.documents.forEach((document) => documents.set(document.id, document));
     }
+    if (documents.size < 2) return [];
+
+    const params: any[] = [
+      [...documents.keys()],
+      EMBEDDING_MODEL_ID,
+      MIN_CLAUSE_CHARS,
+      NEIGHBOURS_PER_CLAUSE,
+      MIN_CANDIDATE_SIMILARITY,
+      MAX_PAIR_CHECKS * CANDIDATE_POOL_FACTOR,
+    ];
+    const add = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    // Per document: the clauses closest to the topic, or its first clauses in reading order
+    const sourceOrder = topicEmbedding ? `1 - (embedding <=> ${add(JSON.stringify(topicEmbedding))}::vector) DESC` : 'chunk_index';
+    const sourceLimit = add(topicEmbedding ? TOPIC_CLAUSES_PER_DOCUMENT : MAX_CLAUSES_PER_DOCUMENT);
+    let partnerCondition = '';
+    if ('pairs' in scope) {
+      // Either side of a requested pair can supply the clause; the rows are turned back to the requested order below
+      const pairList = [...partners].map((key) => key.split('|'));
+      const from = add([...pairList.map(([x]) => x), ...pairList.map(([, y]) => y)]);
+      const to = add([...pairList.map(([, y]) => y), ...pairList.map(([x]) => x)]);
+      partnerCondition = `AND b.document_id IN (
+             SELECT p.to_id FROM unnest(${from}::varchar[], ${to}::varchar[]) AS p(from_id, to_id) WHERE p.from_id = a.document_id
+           )`;
+    }
+
+    // Orderings are on similarity, not the distance operator, so they stay exact scans of these documents' chunks:
+    // through the global ANN index (vectorIndexService) the document filter would only apply after the index scan,
+    // and a small document in a large corpus would get no neighbours
+    const result = await pool.query(
+      `WITH clauses AS MATERIALIZED (
+         SELECT id, document_id, content, section_name, page_number, chunk_index, embedding,
+                md5(lower(btrim(regexp_replace(content, '\\s+', ' ', 'g')))) AS content_hash
+         FROM chunks
+         WHERE document_id = ANY($1::varchar[]) AND embedding_model = $2 AND LENGTH(content) >= $3
+       ),
+       sources AS (
+         SELECT * FROM (
+           SELECT c.*, ROW_NUMBER() OVER (PARTITION BY document_id ORDER BY ${sourceOrder}) AS position FROM clauses c
+         ) ranked
+         WHERE position <= ${sourceLimit}
+       )
+       SELECT a.document_id AS a_document, a.id AS a_id, a.content AS a_content, a.section_name AS a_section,
+              a.page_number AS a_page, a.chunk_index AS a_index,
+              b.document_id AS b_document, b.id AS b_id, b.content AS b_content, b.section_name AS b_section,
+              b.page_number AS b_page, b.chunk_index AS b_index,
+              1 - (a.embedding <=> b.embedding) AS similarity
+       FROM sources a
+       CROSS JOIN LATERAL (
+         SELECT id, document_id, content, section_name, page_number, chunk_index, embedding FROM clauses b
+         WHERE b.document_id <> a.document_id AND b.content_hash <> a.content_hash
+           ${partnerCondition}
+         ORDER BY 1 - (b.embedding <=> a.embedding) DESC
+         LIMIT $4
+       ) b
+       WHERE 1 - (a.embedding <=> b.embedding) >= $5
+       ORDER BY similarity DESC
+       LIMIT $6`,
+      params
+    );
 
-    return result;
+    const clause = (row: any, side: 'a' | 'b'): ConflictChunk => {
+      const document = documents.get(row[`${side}_document`])!;
+      return {
+        id: row[`${side}_id`],
+        content: row[`${side}_content`],
+        document_name: document.filename,
+        document_category: document.category ?? undefined,
+        document_version: document.version,
+        section_name: row[`${side}_section`] ?? undefined,
+        page_number: row[`${side}_page`] ?? undefined,
+        chunk_index: row[`${side}_index`] ?? undefined,
+      };
+    };
+    return result.rows.map((row: any) => {
+      const pair = { a: clause(row, 'a'), b: clause(row, 'b'), similarity: Number(row.similarity) };
+      const reversed = 'pairs' in scope && !partners.has(`${row.a_document}|${row.b_document}`);
+      return reversed ? { a: pair.b, b: pair.a, similarity: pair.similarity } : pair;
+    });
   }
 
   /**
-   * Analyze chunks for conflicts using LLM
+   * Most similar pairs first, each pair once, no two clauses with the same text, no clause in more than
+   * MAX_PAIRS_PER_CLAUSE pairs (so a long definitions clause does not use up the budget) and no document pair in
+   * more than MAX_CHECKS_PER_DOCUMENT_PAIR
    */
-  async analyzeConflicts(
-    chunksMap: Map<string, ConflictChunk[]>,
-    topic?: string
-  ): Promise<DetectedConflict[]> {
-    const documents = Array.from(chunksMap.keys());
-    
-    if (documents.length < 2) {
-      return [];
+  private selectCandidates(pairs: CandidatePair[], limit: number): CandidatePair[] {
+    const seen = new Set<string>();
+    const uses = new Map<string, number>();
+    const documentPairUses = new Map<string, number>();
+    const selected: CandidatePair[] = [];
+    for (const pair of [...pairs].sort((x, y) => y.similarity - x.similarity)) {
+      const key = [pair.a.id, pair.b.id].sort().join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (sameText(pair.a.content, pair.b.content)) continue;
+      if ((uses.get(pair.a.id) ?? 0) >= MAX_PAIRS_PER_CLAUSE || (uses.get(pair.b.id) ?? 0) >= MAX_PAIRS_PER_CLAUSE) continue;
+      const documentPair = [pair.a.document_name, pair.b.document_name].sort().join('|');
+      if ((documentPairUses.get(documentPair) ?? 0) >= MAX_CHECKS_PER_DOCUMENT_PAIR) continue;
+      uses.set(pair.a.id, (uses.get(pair.a.id) ?? 0) + 1);
+      uses.set(pair.b.id, (uses.get(pair.b.id) ?? 0) + 1);
+      documentPairUses.set(documentPair, (documentPairUses.get(documentPair) ?? 0) + 1);
+      selected.push(pair);
+      if (selected.length >= limit) break;
     }
+    return selected;
+  }
+
+  /**
+   * Check candidate pairs for contradictions, one LLM call per pair (PAIR_CHECK_CONCURRENCY at a time). Verdicts
+   * are cached by the text of both clauses, so re-runs and overlapping analyses only check new pairs.
+   */
+  async checkCandidatePairs(
+    pairs: CandidatePair[],
+    adminId?: number,
+    mode: PairCheckMode = 'conflict'
+  ): Promise<{ conflicts: DetectedConflict[]; stats: PairCheckStats }> {
+    const keyed = pairs.map((pair) => {
+      const hashA = sha256(pair.a.content);
+      const hashB = sha256(pair.b.content);
+      if (mode === 'repugnancy') {
+        // Directional: the subordinate clause is always checked first
+        return { pair, swapped: false, hash: sha256([REPUGNANCY_CHECK_VERSION, LLM_MODEL_ID, hashA, hashB].join('\n')) };
+      }
+      // Both clauses in a fixed order, so the cached verdict does not depend on which document came first
+      const swapped = hashA > hashB;
+      return { pair, swapped, hash: sha256([PAIR_CHECK_VERSION, LLM_MODEL_ID, ...[hashA, hashB].sort()].join('\n')) };
+    });
+    const cached = adminId != null
+      ? await ConflictPairCheckRepository.findByHashes(adminId, [...new Set(keyed.map((k) => k.hash))])
+      : new Map<string, PairCheckVerdict>();
+
+    const stats: PairCheckStats = { candidate_pairs: pairs.length, pairs_checked: 0, cache_hits: 0, pairs_failed: 0 };
+    const verdicts = await mapWithConcurrency(keyed, PAIR_CHECK_CONCURRENCY, async ({ pair, swapped, hash }) => {
+      const hit = cached.get(hash);
+      if (hit) {
+        stats.cache_hits++;
+        return hit;
+      }
+      const [first, second] = swapped ? [pair.b, pair.a] : [pair.a, pair.b];
+      const verdict = mode === 'repugnancy' ? await this.checkRepugnancy(first, second) : await this.checkPair(first, second);
+      if (!verdict) {
+        stats.pairs_failed++;
+        return null;
+      }
+      stats.pairs_checked++;
+      cached.set(hash, verdict);
+      if (adminId != null) {
+        await ConflictPairCheckRepository.save(adminId, hash, LLM_MODEL_ID, verdict).catch((error) =>
+          logger.warn('Could not cache pair check', { error: error instanceof Error ? error.message : String(error) })
+        );
+      }
+      return verdict;
+    });
 
-    // Build context from chunks
-    const contextParts: string[] = [];
-    
-    for (const [docName, chunks] of chunksMap.entries()) {
-      contextParts.push(`\n=== ${docName} ===`);
-      chunks.forEach((chunk, idx) => {
-        const location = chunk.section_name 
-          ? `Section: ${chunk.section_name}`
-          : chunk.page_number 
-            ? `Page: ${chunk.page_number}`
-            : `Chunk: ${idx + 1}`;
-        
-        contextParts.push(`[${location}]
-${chunk.content}`);
+    const conflicts: DetectedConflict[] = [];
+    keyed.forEach(({ pair, swapped }, i) => {
+      const verdict = verdicts[i];
+      if (!verdict?.conflict) return;
+      const [excerptA, excerptB] = swapped ? [verdict.excerpt_second, verdict.excerpt_first] : [verdict.excerpt_first, verdict.excerpt_second];
+      conflicts.push({
+        severity: verdict.severity ?? 'medium',
+        conflict_type: verdict.conflict_type || 'unspecified',
+        description: verdict.description || '',
+        document_a: this.pinnedSide(pair.a, excerptA),
+        document_b: this.pinnedSide(pair.b, excerptB),
+        recommendation: verdict.recommendation,
+        ...(mode === 'repugnancy' ? { governing_provision: verdict.governing_provision || pair.b.section_name } : {}),
       });
-    }
+    });
+    return { conflicts: this.dedupeConflicts(conflicts), stats };
+  }
 
-    const context = contextParts.join('\n\n');
+  /**
+   * LLM check of one clause pair; null when the call or its JSON failed (not cached, so it is retried next time)
+   */
+  private async checkPair(first: ConflictChunk, second: ConflictChunk): Promise<PairCheckVerdict | null> {
+    const label = (clause: ConflictChunk) =>
+      [clause.document_name, clause.section_name, clause.page_number ? `page ${clause.page_number}` : null].filter(Boolean).join(', ');
 
-    const prompt = `You are a legal and compliance expert analyzing documents for conflicts and contradictions.
+    const prompt = `You are a legal and compliance expert. Decide whether these two clauses from different documents conflict.
 
-${topic ? `Focus Area: ${topic}\n` : ''}
-Documents to Analyze:
-${context}
+CLAUSE 1 (${label(first)}):
+"""
+${first.content.slice(0, MAX_CLAUSE_CHARS)}
+"""
 
-TASK: Identify all conflicts, contradictions, or inconsistencies between these documents.
+CLAUSE 2 (${label(second)}):
+"""
+${second.content.slice(0, MAX_CLAUSE_CHARS)}
+"""
 
 A conflict exists when:
-1. Documents make contradictory statements about the same topic
+1. The clauses make contradictory statements about the same matter
 2. Requirements or obligations are incompatible
-3. Timelines, deadlines, or procedures differ
-4. Permitted vs prohibited actions contradict
-5. Definitions of the same term differ significantly
-
-For EACH conflict found, provide:
-1. Severity: "high" (legal risk/compliance violation), "medium" (operational issue), or "low" (minor inconsistency)
-2. Conflict Type: (e.g., "contradictory requirements", "incompatible timelines", "definitional conflict")
-3. Description: Clear explanation of the conflict
-4. Document A details: name, excerpt (exact quote, max 100 words)
-5. Document B details: name, excerpt (exact quote, max 100 words)
-6. Recommendation: How to resolve it
-
-Return ONLY a valid JSON array of conflicts:
-[
-  {
-    "severity": "high",
-    "conflict_type": "contradictory requirements",
-    "description": "...",
-    "document_a": {
-      "name": "...",
-      "excerpt": "..."
-    },
-    "document_b": {
-      "name": "...",
-      "excerpt": "..."
-    },
-    "recommendation": "..."
+3. Timelines, deadlines, thresholds or procedures differ for the same situation
+4. One permits what the other prohibits
+5. The same term is defined differently
+
+Clauses about different matters, or that only add detail without being incompatible, do NOT conflict.
+
+Return ONLY a valid JSON object.
+If they do not conflict: {"conflict": false}
+If they conflict:
+{
+  "conflict": true,
+  "severity": "high" (legal risk / compliance violation) | "medium" (operational issue) | "low" (minor inconsistency),
+  "conflict_type": "e.g. contradictory requirements, incompatible timelines, definitional conflict",
+  "description": "clear explanation of the conflict",
+  "excerpt_1": "exact quote from clause 1 (max 60 words)",
+  "excerpt_2": "exact quote from clause 2 (max 60 words)",
+  "recommendation": "how to resolve it"
+}`;
+
+    return this.invokePairCheck(prompt, first, second);
   }
-]
-
-If NO conflicts found, return: []
 
-IMPORTANT: Return ONLY the JSON array, nothing else.`;
+  /**
+   * LLM check of a provision of a subordinate instrument (first) against a provision of the Constitution or of a
+   * federal law (second): is it void, to the extent of the inconsistency, under that provision?
+   */
+  private async checkRepugnancy(subordinate: ConflictChunk, governing: ConflictChunk): Promise<PairCheckVerdict | null> {
+    const label = (clause: ConflictChunk) =>
+      [clause.document_name, clause.document_category, clause.section_name, clause.page_number ? `page ${clause.page_number}` : null]
+        .filter(Boolean).join(', ');
+
+    const prompt = `You are an expert in Pakistani constitutional law. Decide whether a provision of a subordinate instrument is repugnant to (inconsistent with) a provision of higher law.
+
+SUBORDINATE PROVISION (${label(subordinate)}):
+"""
+${subordinate.content.slice(0, MAX_CLAUSE_CHARS)}
+"""
+
+HIGHER LAW PROVISION (${label(governing)}):
+"""
+${governing.content.slice(0, MAX_CLAUSE_CHARS)}
+"""
+
+The subordinate provision is repugnant when:
+1. It takes away or abridges a Fundamental Right (Articles 8-28 of the Constitution); such a law is void to that extent (Article 8)
+2. It is otherwise inconsistent with the Constitution, or legislates on a matter outside the enacting legislature's competence (Articles 141-142, Fourth Schedule)
+3. A provincial law is inconsistent with an Act of Majlis-e-Shoora (Parliament) it may validly overlap; the federal law prevails (Article 143)
+4. Rules, regulations or an SRO go beyond or contradict the Act or constitutional provision they operate under (ultra vires)
+
+Provisions on different matters, or that only add procedure or detail consistent with the higher law, are NOT repugnant.
+
+Return ONLY a valid JSON object.
+If not repugnant: {"conflict": false}
+If repugnant:
+{
+  "conflict": true,
+  "severity": "high" (clear inconsistency, likely void) | "medium" (arguable inconsistency) | "low" (drafting tension),
+  "conflict_type": "e.g. fundamental rights violation, federal-provincial inconsistency, legislative competence, ultra vires",
+  "governing_provision": "the article or section the subordinate provision offends, e.g. \"Article 25\", \"Article 143\", \"Section 12 of the Companies Act, 2017\"",
+  "description": "clear explanation of the inconsistency and why the higher law governs",
+  "excerpt_1": "exact quote from the subordinate provision (max 60 words)",
+  "excerpt_2": "exact quote from the higher law provision (max 60 words)",
+  "recommendation": "how to cure it (amendment, reading down, repeal)"
+}`;
+
+    return this.invokePairCheck(prompt, subordinate, governing);
+  }
 
+  private async invokePairCheck(prompt: string, first: ConflictChunk, second: ConflictChunk): Promise<PairCheckVerdict | null> {
     try {
       const response = await llm.invoke(prompt);
-      const content = response.content.toString().trim();
-      
-      // Clean markdown formatting
-      const cleaned = content
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
+      const cleaned = response.content.toString().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      const parsed = JSON.parse(cleaned);
+      if (!parsed || parsed.conflict !== true) return { conflict: false };
+      return {
+        conflict: true,
+        severity: ['high', 'medium', 'low'].includes(parsed.severity) ? parsed.severity : 'medium',
+        conflict_type: typeof parsed.conflict_type === 'string' ? parsed.conflict_type : undefined,
+        description: typeof parsed.description === 'string' ? parsed.description : undefined,
+        excerpt_first: typeof parsed.excerpt_1 === 'string' ? parsed.excerpt_1 : undefined,
+        excerpt_second: typeof parsed.excerpt_2 === 'string' ? parsed.excerpt_2 : undefined,
+        recommendation: typeof parsed.recommendation === 'string' ? parsed.recommendation : undefined,
+        governing_provision: typeof parsed.governing_provision === 'string' ? parsed.governing_provision : undefined,
+      };
+    } catch (error) {
+      logger.warn('Clause pair check failed', {
+        documents: [first.document_name, second.document_name],
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
 
-      const conflicts = JSON.parse(cleaned);
+  /**
+   * One side of a conflict, pinned to the clause it was found in. The excerpt is kept only if it is quoted
+   * verbatim from the clause; otherwise the start of the clause is quoted instead.
+   */
+  private pinnedSide(clause: ConflictChunk, excerpt: string | undefined): DetectedConflict['document_a'] {
+    const text = clause.content.replace(/\s+/g, ' ').trim();
+    const quote = (excerpt ?? '').replace(/\s+/g, ' ').trim().replace(/^["“']+|["”']+$/g, '');
+    const at = quote ? text.toLowerCase().indexOf(quote.toLowerCase()) : -1;
+    return {
+      name: clause.document_name,
+      version: clause.document_version,
+      section: clause.section_name,
+      page: clause.page_number,
+      excerpt: at >= 0
+        ? text.slice(at, at + quote.length)
+        : text.length > FALLBACK_EXCERPT_CHARS ? `${text.slice(0, FALLBACK_EXCERPT_CHARS)}…` : text,
+    };
+  }
 
-      if (!Array.isArray(conflicts)) {
-        logger.error('LLM did not return an array');
-        return [];
-      }
+  /**
+   * Neighbouring clause pairs often report the same conflict: keep one per sections and conflict type (the most severe)
+   */
+  private dedupeConflicts(conflicts: DetectedConflict[]): DetectedConflict[] {
+    const byKey = new Map<string, DetectedConflict>();
+    conflicts.forEach((conflict, i) => {
+      const { document_a: a, document_b: b } = conflict;
+      const key = a.section && b.section
+        ? [a.name, a.section, b.name, b.section, conflict.conflict_type.toLowerCase()].join('|')
+        : `#${i}`;
+      const kept = byKey.get(key);
+      if (!kept || SEVERITY_ORDER[conflict.severity] < SEVERITY_ORDER[kept.severity]) byKey.set(key, conflict);
+    });
+    return [...byKey.values()];
+  }
 
-      // Enrich conflicts with additional metadata from chunks
-      return conflicts.map((conflict: any) => {
-        // Find matching chunks for more context
-        const docAChunks = chunksMap.get(conflict.document_a.name) || [];
-        const docBChunks = chunksMap.get(conflict.document_b.name) || [];
+  /**
+   * Detect conflicts between documents: candidate clause pairs of the whole scope, the most similar
+   * MAX_PAIR_CHECKS of them checked by the LLM
+   */
+  async analyzeDocumentPairs(
+    scope: DocumentScope,
+    topic?: string,
+    adminId?: number,
+    mode: PairCheckMode = 'conflict'
+  ): Promise<{
+    conflicts: DetectedConflict[];
+    pairs: CandidatePair[];  // the pairs that were checked
+    stats: PairCheckStats & { chunks_analyzed: number; mean_similarity: number | null };
+  }> {
+    const topicEmbedding = topic ? await embeddings.embedQuery(topic) : null;
+    const candidates = await this.findCandidatePairs(scope, topicEmbedding);
+    const selected = this.selectCandidates(candidates, MAX_PAIR_CHECKS);
+    if (candidates.length > selected.length) {
+      logger.info('Candidate clause pairs capped', { candidates: candidates.length, checked: selected.length });
+    }
 
-        const docAChunk = docAChunks.find(c => 
-          conflict.document_a.excerpt && c.content.includes(conflict.document_a.excerpt.substring(0, 50))
-        );
-        const docBChunk = docBChunks.find(c => 
-          conflict.document_b.excerpt && c.content.includes(conflict.document_b.excerpt.substring(0, 50))
-        );
+    const { conflicts, stats } = await this.checkCandidatePairs(selected, adminId, mode);
+    const clauses = new Set(selected.flatMap((pair) => [pair.a.id, pair.b.id]));
+    logger.info('Clause pair checks done', { ...stats, conflicts: conflicts.length });
+    return {
+      conflicts: conflicts.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]),
+      pairs: selected,
+      stats: {
+        ...stats,
+        chunks_analyzed: clauses.size,
+        mean_similarity: selected.length > 0 ? selected.reduce((sum, pair) => sum + pair.similarity, 0) / selected.length : null,
+      },
+    };
+  }
 
-        return {
-          severity: conflict.severity || 'medium',
-          conflict_type: conflict.conflict_type || 'unspecified',
-          description: conflict.description || '',
-          document_a: {
-            name: conflict.document_a.name || documents[0],
-            version: docAChunk?.document_version || 'latest',
-            section: docAChunk?.section_name,
-            page: docAChunk?.page_number,
-            excerpt: conflict.document_a.excerpt || ''
-          },
-          document_b: {
-            name: conflict.document_b.name || documents[1],
-            version: docBChunk?.document_version || 'latest',
-            section: docBChunk?.section_name,
-            page: docBChunk?.page_number,
-            excerpt: conflict.document_b.excerpt || ''
-          },
-          recommendation: conflict.recommendation
-        };
-      });
-    } catch (error) {
-      logger.error('Failed to analyze conflicts', { error });
-      return [];
-    }
+  /**
+   * Top-level confidence (the agent reads result.confidence): similarity of the checked clauses, plus a bonus
+   * when conflicts quote both sides
+   */
+  confidenceFor(conflicts: DetectedConflict[], chunksAnalyzed: number, meanSimilarity: number | null): number {
+    if (chunksAnalyzed === 0) return 20;
+    const avgChunkSimilarity = meanSimilarity ?? 0.6;
+    if (conflicts.length === 0) return Math.round(Math.min(avgChunkSimilarity * 100, 90));
+    const conflictsWithBothExcerpts = conflicts.filter(
+      c => (c.document_a?.excerpt?.trim().length || 0) > 10 && (c.document_b?.excerpt?.trim().length || 0) > 10
+    ).length;
+    const evidenceBonus = (conflictsWithBothExcerpts / conflicts.length) * 10;
+    let confidence = Math.min(avgChunkSimilarity * 100 + evidenceBonus, 85);
+    if (avgChunkSimilarity < 0.2) confidence = Math.min(confidence, 40);
+    return Math.round(confidence);
   }
 
   /**
@@ -529,7 +789,7 @@ ${highCount > 0 ? '\n⚠️ **CRITICAL**: High-priority conflicts require immedi
 
     // Parse query to extract documents
     const parsed = await this.parseConflictQuery(query);
-    
+
     if (!parsed || parsed.documents.length < 2) {
       throw new Error('Could not identify at least 2 documents to compare. Please specify document names clearly.');
     }
@@ -567,124 +827,93 @@ ${highCount > 0 ? '\n⚠️ **CRITICAL**: High-priority conflicts require immedi
       );
     }
 
-    // Get relevant chunks using resolved actual filenames
-    const chunksMap = await this.getDocumentChunks(
-      distinctFilenames,
-      parsed.topic,
-      15, // chunks per document
-      adminId
-    );
-
-    if (chunksMap.size < 2) {
-      const foundDocs = Array.from(chunksMap.keys());
-      const missingDocs = resolvedFilenames.filter(d => !foundDocs.includes(d));
-
+    const documents = await Promise.all(distinctFilenames.map(async (filename) => (await this.findDocuments(filename, adminId))[0]));
+    const missingDocs = distinctFilenames.filter((_, i) => !documents[i]);
+    if (missingDocs.length > 0) {
       throw new Error(
-        `Could not find all requested documents. Found: ${foundDocs.join(', ')}. ` +
+        `Could not find all requested documents. Found: ${distinctFilenames.filter((_, i) => documents[i]).join(', ')}. ` +
         `Missing: ${missingDocs.join(', ')}`
       );
     }
 
-    const totalChunks = Array.from(chunksMap.values()).reduce((sum, chunks) => sum + chunks.length, 0);
-    logger.info('Analyzing chunks', { totalChunks, documentCount: chunksMap.size });
-
-    // Analyze for conflicts
-    const conflicts = await this.analyzeConflicts(chunksMap, parsed.topic);
+    // Every pair of the named documents (usually just the two)
+    const { conflicts, stats } = await this.analyzeDocumentPairs({ documents }, parsed.topic, adminId);
     logger.info('Conflicts found', { count: conflicts.length });
 
     // Generate summary
     const summary = await this.generateConflictSummary(conflicts);
-
-    // Calculate top-level confidence (agent reads result.confidence)
-    let topLevelConfidence: number;
-    if (totalChunks === 0) {
-      topLevelConfidence = 20;
-    } else {
-      const avgChunkSimilarity = 0.6; // Default: no per-chunk similarity in conflict detection
-      const conflictsWithBothExcerpts = conflicts.filter(
-        c => (c.document_a?.excerpt?.trim().length || 0) > 10 && (c.document_b?.excerpt?.trim().length || 0) > 10
-      ).length;
-      if (conflicts.length > 0) {
-        const evidenceBonus = conflicts.length > 0 ? (conflictsWithBothExcerpts / conflicts.length) * 10 : 0;
-        topLevelConfidence = Math.min(avgChunkSimilarity * 100 + evidenceBonus, 85);
-        if (avgChunkSimilarity < 0.2) topLevelConfidence = Math.min(topLevelConfidence, 40);
-      } else {
-        topLevelConfidence = Math.min(avgChunkSimilarity * 100, 90);
-      }
-    }
+    const confidence = this.confidenceFor(conflicts, stats.chunks_analyzed, stats.mean_similarity);
 
     return {
       query,
-      documents_analyzed: Array.from(chunksMap.keys()),
+      documents_analyzed: documents.map((d) => d.filename),
       documents_resolved: resolutionLog.length > 0 ? resolutionLog : undefined,
       conflicts_found: conflicts.length,
-      conflicts: conflicts.sort((a, b) => {
-        const severityOrder = { high: 0, medium: 1, low: 2 };
-        return severityOrder[a.severity] - severityOrder[b.severity];
-      }),
+      conflicts,
       summary,
-      confidence: topLevelConfidence,
+      confidence,
       analysis_metadata: {
-        chunks_analyzed: totalChunks,
-        analysis_method: 'LLM-based semantic analysis',
-        confidence: topLevelConfidence
+        chunks_analyzed: stats.chunks_analyzed,
+        analysis_method: ANALYSIS_METHOD,
+        confidence,
+        candidate_pairs: stats.candidate_pairs,
+        pairs_checked: stats.pairs_checked,
+        cache_hits: stats.cache_hits,
+        pairs_failed: stats.pairs_failed,
       }
     };
   }
 
   /**
-   * Batch conflict detection across all documents
+   * Batch conflict detection across all documents: each clause against its nearest clauses in any other document,
+   * in one pass, checked within one budget (the most similar pairs overall), grouped by document pair
    */
   async detectAllConflicts(topic?: string, adminId?: number): Promise<ConflictAnalysisResult[]> {
     // Get all latest documents for this admin (or all if adminId not provided)
     const docsResult = await pool.query(
-      `SELECT DISTINCT filename FROM documents WHERE is_active = true AND (admin_id = $1 OR $1 IS NULL) ORDER BY filename`,
+      `SELECT DISTINCT ON (filename) id, filename, category, version
+       FROM documents WHERE is_active = true AND (admin_id = $1 OR $1 IS NULL)
+       ORDER BY filename, version DESC`,
       [adminId ?? null]
     );
 
-    const documents = docsResult.rows.map((r: { filename: string }) => r.filename);
+    const documents: ConflictDocument[] = docsResult.rows.map((row: any) => this.toConflictDocument(row));
 
     if (documents.length < 2) {
       throw new Error('Need at least 2 documents for conflict detection');
     }
 
-    const results: ConflictAnalysisResult[] = [];
+    const { conflicts, stats } = await this.analyzeDocumentPairs({ documents }, topic, adminId);
 
-    // Compare each pair of documents
-    for (let i = 0; i < documents.length; i++) {
-      for (let j = i + 1; j < documents.length; j++) {
-        const query = topic
-          ? `Check conflicts between ${documents[i]} and ${documents[j]} regarding ${topic}`
-          : `Check conflicts between ${documents[i]} and ${documents[j]}`;
-
-        try {
-          const result = await this.detectConflicts(query, adminId);
-          if (result.conflicts_found > 0) {
-            results.push(result);
-          }
-        } catch (error) {
-          logger.error('Failed to compare documents', { docA: documents[i], docB: documents[j], error });
-        }
-      }
+    // Group by document pair (A|B === B|A)
+    const byPair = new Map<string, DetectedConflict[]>();
+    for (const conflict of conflicts) {
+      const key = [conflict.document_a.name, conflict.document_b.name].sort().join('|');
+      byPair.set(key, [...(byPair.get(key) ?? []), conflict]);
     }
 
-    // Deduplicate by canonical pair key (A|B === B|A)
-    const seen = new Set<string>();
-    const deduplicated: ConflictAnalysisResult[] = [];
-    for (const result of results) {
-      const docs = result.documents_analyzed ?? [];
-      const key = docs.slice().sort().join('|');
-      if (seen.has(key)) continue;
-      seen.add(key);
-      deduplicated.push(result);
+    const results: ConflictAnalysisResult[] = [];
+    for (const [key, pairConflicts] of byPair) {
+      const confidence = this.confidenceFor(pairConflicts, stats.chunks_analyzed, stats.mean_similarity);
+      results.push({
+        query: topic ? `Check conflicts between ${key.replace('|', ' and ')} regarding ${topic}` : `Check conflicts between ${key.replace('|', ' and ')}`,
+        documents_analyzed: key.split('|'),
+        conflicts_found: pairConflicts.length,
+        conflicts: pairConflicts,
+        summary: await this.generateConflictSummary(pairConflicts),
+        analysis_metadata: {
+          chunks_analyzed: stats.chunks_analyzed,
+          analysis_method: ANALYSIS_METHOD,
+          confidence,
+        },
+      });
     }
-
-    return deduplicated;
+    return results;
   }
 
   /**
    * Detect conflicts between multiple categories (N-way analysis)
-   * Runs all pairs (i < j) and merges results
+   * Runs all pairs (i < j), comparing every document of one category with every document of the other
    */
   private async detectConflictsBetweenCategories(
     categories: string[],
@@ -701,7 +930,7 @@ ${highCount > 0 ? '\n⚠️ **CRITICAL**: High-priority conflicts require immedi
       chunks_analyzed: number;
       analysis_method: string;
       confidence: number;
-    };
+    } & PairCheckStats;
   }> {
     if (categories.length < 2) {
       throw new Error('Need at least 2 categories for conflict detection');
@@ -709,96 +938,66 @@ ${highCount > 0 ? '\n⚠️ **CRITICAL**: High-priority conflicts require immedi
 
     logger.info('Starting multi-category conflict detection', { categories, count: categories.length });
 
-    const conflictsByPair: Array<{ pair: string; conflicts: DetectedConflict[] }> = [];
-    const allConflicts: DetectedConflict[] = [];
-    let totalChunks = 0;
+    const documentsOf = new Map<string, ConflictDocument[]>();
+    for (const category of categories) {
+      const documents = await this.findDocuments(category, adminId);
+      if (documents.length === 0) logger.warn('No documents for category', { category });
+      documentsOf.set(category, documents);
+    }
 
-    // Compare all pairs (i < j)
+    // Every document pair across each category pair (i < j), remembering which category pair it belongs to
+    const documentPairs: Array<[ConflictDocument, ConflictDocument]> = [];
+    const pairOf = new Map<string, string>();
     for (let i = 0; i < categories.length; i++) {
       for (let j = i + 1; j < categories.length; j++) {
-        const cat1 = categories[i];
-        const cat2 = categories[j];
-        const pairKey = `${cat1} vs ${cat2}`;
-
-        try {
-          logger.debug('Analyzing category pair', { pair: pairKey });
-
-          // Get chunks from both categories
-          const chunksMap = await this.getDocumentChunks([cat1, cat2], undefined, 15, adminId);
-
-          if (chunksMap.size < 2) {
-            logger.warn('Could not get chunks for pair', { pair: pairKey });
-            continue;
-          }
-
-          // Analyze for conflicts
-          const conflicts = await this.analyzeConflicts(chunksMap);
-          logger.debug('Conflicts found for pair', { pair: pairKey, count: conflicts.length });
-
-          if (conflicts.length > 0) {
-            conflictsByPair.push({
-              pair: pairKey,
-              conflicts: conflicts.sort((a, b) => {
-                const severityOrder = { high: 0, medium: 1, low: 2 };
-                return severityOrder[a.severity] - severityOrder[b.severity];
-              })
-            });
-
-            allConflicts.push(...conflicts);
+        for (const documentA of documentsOf.get(categories[i]) ?? []) {
+          for (const documentB of documentsOf.get(categories[j]) ?? []) {
+            const key = [documentA.filename, documentB.filename].sort().join('|');
+            if (documentA.id === documentB.id || pairOf.has(key)) continue;
+            pairOf.set(key, `${categories[i]} vs ${categories[j]}`);
+            documentPairs.push([documentA, documentB]);
           }
-
-          totalChunks += Array.from(chunksMap.values()).reduce((sum, chunks) => sum + chunks.length, 0);
-        } catch (error) {
-          logger.error('Failed to analyze category pair', { pair: pairKey, error });
         }
       }
     }
 
-    // Deduplicate all conflicts by description
-    const uniqueConflicts = Array.from(
-      new Map(allConflicts.map(c => [c.description, c])).values()
-    ).sort((a, b) => {
-      const severityOrder = { high: 0, medium: 1, low: 2 };
-      return severityOrder[a.severity] - severityOrder[b.severity];
-    });
+    const { conflicts, stats } = await this.analyzeDocumentPairs({ pairs: documentPairs }, undefined, adminId);
+
+    const conflictsByPair: Array<{ pair: string; conflicts: DetectedConflict[] }> = [];
+    for (const conflict of conflicts) {
+      const pair = pairOf.get([conflict.document_a.name, conflict.document_b.name].sort().join('|')) ?? 'Other';
+      const entry = conflictsByPair.find((p) => p.pair === pair);
+      if (entry) entry.conflicts.push(conflict);
+      else conflictsByPair.push({ pair, conflicts: [conflict] });
+    }
 
     // Generate summary
-    const highCount = uniqueConflicts.filter(c => c.severity === 'high').length;
-    const mediumCount = uniqueConflicts.filter(c => c.severity === 'medium').length;
-    const lowCount = uniqueConflicts.filter(c => c.severity === 'low').length;
+    const highCount = conflicts.filter(c => c.severity === 'high').length;
+    const mediumCount = conflicts.filter(c => c.severity === 'medium').length;
+    const lowCount = conflicts.filter(c => c.severity === 'low').length;
 
-    const summary = uniqueConflicts.length === 0
+    const summary = conflicts.length === 0
       ? '✅ No conflicts detected across the analyzed categories.'
-      : `⚠️ **${uniqueConflicts.length} conflict${uniqueConflicts.length > 1 ? 's' : ''} detected** across ${categories.length} categories. 🔴 High: ${highCount}, 🟡 Medium: ${mediumCount}, 🟢 Low: ${lowCount}`;
+      : `⚠️ **${conflicts.length} conflict${conflicts.length > 1 ? 's' : ''} detected** across ${categories.length} categories. 🔴 High: ${highCount}, 🟡 Medium: ${mediumCount}, 🟢 Low: ${lowCount}`;
 
-    // Calculate top-level confidence (agent reads result.confidence)
-    const avgChunkSimilarity = 0.6;
-    const conflictsWithBothExcerpts = uniqueConflicts.filter(
-      c => (c.document_a?.excerpt?.trim().length || 0) > 10 && (c.document_b?.excerpt?.trim().length || 0) > 10
-    ).length;
-    let topLevelConfidence: number;
-    if (totalChunks === 0) {
-      topLevelConfidence = 20;
-    } else if (uniqueConflicts.length > 0) {
-      const evidenceBonus = (conflictsWithBothExcerpts / uniqueConflicts.length) * 10;
-      topLevelConfidence = Math.min(avgChunkSimilarity * 100 + evidenceBonus, 85);
-      if (avgChunkSimilarity < 0.2) topLevelConfidence = Math.min(topLevelConfidence, 40);
-    } else {
-      topLevelConfidence = Math.min(avgChunkSimilarity * 100, 90);
-    }
+    const confidence = this.confidenceFor(conflicts, stats.chunks_analyzed, stats.mean_similarity);
 
     return {
       categories_analyzed: categories,
-      total_conflicts: uniqueConflicts.length,
+      total_conflicts: conflicts.length,
       conflicts_by_pair: conflictsByPair,
-      all_conflicts: uniqueConflicts,
+      all_conflicts: conflicts,
       summary,
-      confidence: topLevelConfidence,
+      confidence,
       analysis_metadata: {
-        chunks_analyzed: totalChunks,
-        analysis_method: 'LLM-based multi-category analysis',
-        confidence: topLevelConfidence
+        chunks_analyzed: stats.chunks_analyzed,
+        analysis_method: ANALYSIS_METHOD,
+        confidence,
+        candidate_pairs: stats.candidate_pairs,
+        pairs_checked: stats.pairs_checked,
+        cache_hits: stats.cache_hits,
+        pairs_failed: stats.pairs_failed,
       }
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,305 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictFindingRepository, ConflictDetection } from '../repositories/conflictFindingRepository';
+import { AuditLogRepository } from '../repositories/auditLogRepository';
+import {
+  AnalysisRun,
+  AuditLog,
+  ConflictFinding,
+  ConflictFindingComment,
+  ConflictFindingSide,
+  ConflictFindingStatus,
+} from '../types';
+import { DetectedConflict } from './conflictDetectionService';
+import logger from '../utils/logger';
+
+/** Statuses a finding can move to from each status (a manual re-open puts it back to open) */
+const TRANSITIONS: Record<ConflictFindingStatus, ConflictFindingStatus[]> = {
+  open: ['acknowledged', 'assigned', 'resolved', 'dismissed'],
+  acknowledged: ['assigned', 'resolved', 'dismissed'],
+  assigned: ['assigned', 'resolved', 'dismissed'],
+  resolved: ['open'],
+  dismissed: ['open'],
+};
+
+const AUDIT_ACTIONS: Record<ConflictFindingStatus, string> = {
+  open: 'CONFLICT_REOPENED',
+  acknowledged: 'CONFLICT_ACKNOWLEDGED',
+  assigned: 'CONFLICT_ASSIGNED',
+  resolved: 'CONFLICT_RESOLVED',
+  dismissed: 'CONFLICT_DISMISSED',
+};
+
+const AUDIT_RESOURCE = 'conflict_finding';
+/** Reads of a finding while tracking one detection, when concurrent runs or triage keep changing it */
+const MAX_TRACK_ATTEMPTS = 3;
+
+export interface TriageTransition {
+  status: ConflictFindingStatus;
+  assigneeId?: number;
+  justification?: string;
+}
+
+/** Raised when the finding changed between reading it and updating it; reported to the client as 409 */
+export class ConflictFindingChangedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictFindingChangedError';
+  }
+}
+
+/** Request details recorded with the audit entries */
+export interface AuditContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const normalize = (text: string | null | undefined) => (text ?? '').toLowerCase().match(/[\p{L}\p{N}]+/gu)?.join(' ') ?? '';
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+/**
+ * Triage of detected conflicts. Every stored conflict analysis feeds its conflicts into one tracked finding per
+ * conflict (identified by conflict type, document families and sections, so a new version of a document still
+ * matches), which the team moves from open through acknowledged / assigned to resolved or dismissed. Every status
+ * change is written to the audit log. A dismissed finding stays dismissed when detected again, unless the quoted
+ * excerpts have changed; a resolved one is re-opened whenever it is detected again.
+ */
+export class ConflictTriageService {
+  /**
+   * Track the conflicts of a stored conflict analysis run
+   */
+  async trackConflicts(
+    adminId: number,
+    run: AnalysisRun,
+    result: any
+  ): Promise<{ raised: number; updated: number; reopened: number; suppressed: number }> {
+    const familyOf = new Map(run.documents.map((d) => [d.filename, d.family_id]));
+    const detections = new Map<string, ConflictDetection>();
+    for (const conflict of (result.all_conflicts ?? result.conflicts ?? []) as DetectedConflict[]) {
+      const sides = [this.side(conflict.document_a, familyOf), this.side(conflict.document_b, familyOf)];
+      const fingerprint = this.fingerprint(conflict, sides);
+      // Two conflicts on the same sections in one run are tracked as one finding
+      if (detections.has(fingerprint)) continue;
+      detections.set(fingerprint, {
+        excerptHash: sha256(sides.map((s) => normalize(s.excerpt)).sort().join('\n')),
+        severity: conflict.severity ?? 'medium',
+        conflictType: (conflict.conflict_type || 'conflict').slice(0, 100),
+        description: conflict.description ?? '',
+        recommendation: conflict.recommendation ?? null,
+        documentA: sides[0],
+        documentB: sides[1],
+        runId: run.id,
+      });
+    }
+    const counts = { raised: 0, updated: 0, reopened: 0, suppressed: 0 };
+    if (detections.size === 0) return counts;
+
+    const existing = new Map(
+      (await ConflictFindingRepository.findByFingerprints(adminId, [...detections.keys()])).map((f) => [f.fingerprint, f])
+    );
+    const actorId = run.created_by ?? undefined;
+    for (const [fingerprint, detection] of detections) {
+      const outcome = await this.trackDetection(adminId, fingerprint, detection, existing.get(fingerprint), run, actorId);
+      if (outcome) counts[outcome]++;
+    }
+    logger.info('Conflict findings tracked', { adminId, runId: run.id, ...counts });
+    return counts;
+  }
+
+  /**
+   * Raise, refresh, suppress or re-open the finding of one detection. Another run raising the same finding, or a
+   * triage change landing between reading a finding and re-opening it, makes the step start again from the
+   * finding as it now is.
+   */
+  private async trackDetection(
+    adminId: number,
+    fingerprint: string,
+    detection: ConflictDetection,
+    finding: ConflictFinding | undefined,
+    run: AnalysisRun,
+    actorId: number | undefined
+  ): Promise<'raised' | 'updated' | 'reopened' | 'suppressed' | null> {
+    for (let attempt = 0; attempt < MAX_TRACK_ATTEMPTS; attempt++) {
+      if (attempt > 0) finding = (await ConflictFindingRepository.findByFingerprints(adminId, [fingerprint]))[0];
+
+      if (!finding) {
+        const created = await ConflictFindingRepository.create(uuidv4(), adminId, fingerprint, detection);
+        if (!created) continue;
+        await this.audit(adminId, 'CONFLICT_DETECTED', actorId, created.id, { run_id: run.id, severity: detection.severity });
+        return 'raised';
+      }
+      if (finding.status === 'dismissed' && finding.excerpt_hash === detection.excerptHash) {
+        await ConflictFindingRepository.recordSuppressedDetection(finding.id, run.id);
+        return 'suppressed';
+      }
+      if (finding.status === 'dismissed' || finding.status === 'resolved') {
+        const reopened = await ConflictFindingRepository.recordDetection(finding.id, detection, {
+          changedBy: actorId ?? null,
+          expectedStatus: finding.status,
+        });
+        if (!reopened) continue;
+        await this.audit(adminId, AUDIT_ACTIONS.open, actorId, finding.id, {
+          from: finding.status,
+          to: 'open',
+          run_id: run.id,
+          reason: finding.status === 'dismissed' ? 'excerpts_changed' : 'detected_again',
+        });
+        return 'reopened';
+      }
+      await ConflictFindingRepository.recordDetection(finding.id, detection, null);
+      return 'updated';
+    }
+    logger.warn('Conflict triage: finding kept changing while tracking a detection', { adminId, runId: run.id, fingerprint });
+    return null;
+  }
+
+  async listFindings(
+    adminId: number,
+    filters: { statuses?: ConflictFindingStatus[]; assignedTo?: number } = {}
+  ): Promise<{ findings: ConflictFinding[]; counts: Record<string, number> }> {
+    const [findings, counts] = await Promise.all([
+      ConflictFindingRepository.findAll(adminId, filters),
+      ConflictFindingRepository.countByStatus(adminId),
+    ]);
+    return { findings, counts };
+  }
+
+  /**
+   * A finding with its comment thread and its audit trail (detections and status changes, newest first)
+   */
+  async getFinding(
+    id: string,
+    adminId: number
+  ): Promise<{ finding: ConflictFinding; comments: ConflictFindingComment[]; history: AuditLog[] } | null> {
+    const finding = await ConflictFindingRepository.findById(id, adminId);
+    if (!finding) return null;
+    const [comments, history] = await Promise.all([
+      ConflictFindingRepository.findComments(id),
+      AuditLogRepository.findByResource(adminId, AUDIT_RESOURCE, id),
+    ]);
+    return { finding, comments, history };
+  }
+
+  /**
+   * Move a finding to another status. Assigning needs an active user of the tenant; resolving and dismissing
+   * need a justification. The change only applies if the finding is still as it was read, so two people acting
+   * on it at once cannot both succeed.
+   */
+  async transition(
+    id: string,
+    adminId: number,
+    actorId: number | undefined,
+    change: TriageTransition,
+    context: AuditContext = {}
+  ): Promise<ConflictFinding> {
+    const finding = await ConflictFindingRepository.findById(id, adminId);
+    if (!finding) throw new Error('Conflict finding not found');
+    if (!TRANSITIONS[finding.status].includes(change.status)) {
+      throw new Error(`A finding that is ${finding.status} cannot be moved to ${change.status}`);
+    }
+
+    const justification = change.justification?.trim() || null;
+    let assignedTo = finding.assigned_to ?? null;
+    if (change.status === 'assigned') {
+      if (!change.assigneeId) throw new Error('Choose who the finding is assigned to');
+      const assignees = await ConflictFindingRepository.findAssignees(adminId);
+      if (!assignees.some((a) => a.id === change.assigneeId)) {
+        throw new Error('The assignee must be an active user of this organisation');
+      }
+      if (finding.status === 'assigned' && finding.assigned_to === change.assigneeId) {
+        throw new Error('The finding is already assigned to this user');
+      }
+      assignedTo = change.assigneeId;
+    } else if (change.status === 'open') {
+      assignedTo = null;
+    }
+    if ((change.status === 'resolved' || change.status === 'dismissed') && !justification) {
+      throw new Error(`A justification is required to mark a finding ${change.status}`);
+    }
+
+    const updated = await ConflictFindingRepository.updateStatus(
+      id,
+      adminId,
+      { status: finding.status, assignedTo: finding.assigned_to ?? null },
+      {
+        status: change.status,
+        assignedTo,
+        // The justification of a resolution / dismissal stays on the finding; a re-open clears it
+        resolutionNote: change.status === 'resolved' || change.status === 'dismissed' ? justification : null,
+        changedBy: actorId ?? null,
+      }
+    );
+    if (!updated) {
+      throw new ConflictFindingChangedError('The finding was changed by someone else; reload it and try again');
+    }
+    await this.audit(
+      adminId,
+      AUDIT_ACTIONS[change.status],
+      actorId,
+      id,
+      {
+        from: finding.status,
+        to: change.status,
+        ...(change.status === 'assigned' ? { assigned_to: assignedTo, previously_assigned_to: finding.assigned_to ?? null } : {}),
+        ...(justification ? { justification } : {}),
+      },
+      context
+    );
+    return (await ConflictFindingRepository.findById(id, adminId))!;
+  }
+
+  async addComment(id: string, adminId: number, authorId: number | undefined, body: string): Promise<ConflictFindingComment> {
+    const finding = await ConflictFindingRepository.findById(id, adminId);
+    if (!finding) throw new Error('Conflict finding not found');
+    return ConflictFindingRepository.addComment(id, authorId ?? null, body.trim());
+  }
+
+  async listAssignees(adminId: number) {
+    return ConflictFindingRepository.findAssignees(adminId);
+  }
+
+  private side(document: DetectedConflict['document_a'] | undefined, familyOf: Map<string, string | null>): ConflictFindingSide {
+    return {
+      name: document?.name ?? '',
+      family_id: (document?.name && familyOf.get(document.name)) || null,
+      section: document?.section ?? null,
+      page: document?.page ?? null,
+      excerpt: document?.excerpt ?? '',
+    };
+  }
+
+  /**
+   * Same conflict type between the same sections of the same documents (any version, either order); without
+   * sections, the description identifies it
+   */
+  private fingerprint(conflict: DetectedConflict, sides: ConflictFindingSide[]): string {
+    const parts = sides.map((s) => `${s.family_id ?? normalize(s.name)}|${normalize(s.section)}`).sort();
+    const identity = sides.some((s) => normalize(s.section)) ? parts.join('||') : `${parts.join('||')}||${normalize(conflict.description)}`;
+    return sha256(`${normalize(conflict.conflict_type) || 'conflict'}||${identity}`);
+  }
+
+  /** Audit entries are written after the change; a failed entry is logged, not surfaced */
+  private async audit(
+    adminId: number,
+    action: string,
+    actorId: number | undefined,
+    findingId: string,
+    metadata: Record<string, any>,
+    context: AuditContext = {}
+  ): Promise<void> {
+    try {
+      await AuditLogRepository.createLog(
+        adminId,
+        action,
+        actorId,
+        AUDIT_RESOURCE,
+        findingId,
+        metadata,
+        context.ipAddress,
+        context.userAgent
+      );
+    } catch (auditError) {
+      logger.warn('Conflict triage: audit log failed', { action, findingId, error: auditError });
+    }
+  }
+}
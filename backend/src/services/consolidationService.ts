@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database';
+import { ConsolidationRepository } from '../repositories/consolidationRepository';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import { Consolidation, IngestionJob } from '../types';
+import { parseAmendment } from '../utils/amendmentParser';
+import { applyInstruction } from '../utils/amendmentEngine';
+import { StoredChunk, buildProvisions, provisionLines, provisionNotes, unitRef } from '../utils/provisionTree';
+import logger from '../utils/logger';
+
+export interface ConsolidationOptions {
+  baseDocumentId: string;
+  /** Amending Acts / Ordinances; applied in order of commencement (effective_from, else upload date) */
+  amendmentDocumentIds: string[];
+  /** Also ingest the consolidated text as a new version of the base document's family */
+  createVersion?: boolean;
+  /** Commencement of the consolidated version; defaults to the latest amendment's effective_from */
+  effectiveFrom?: string | null;
+}
+
+export interface ConsolidatedProvision {
+  ref: string;
+  path: string[];
+  text: string;
+  provenance: Array<{ ref: string; note: string }>;
+}
+
+export interface AmendmentSummary {
+  document_id: string;
+  filename: string;
+  title: string;
+  effective_from: string | null;
+  instructions: number;
+  applied: number;
+}
+
+export interface UnappliedInstruction {
+  document_id: string;
+  amendment: string;
+  instruction: string;
+  reason: string;
+}
+
+export interface ConsolidationResult {
+  base: { document_id: string; filename: string; version: number; family_id: string | null };
+  amendments: AmendmentSummary[];
+  /** Text before the first section (title, preamble), unchanged */
+  preamble: string;
+  provisions: ConsolidatedProvision[];
+  /** Text after the sections (schedules), unchanged: amendments to schedules are reported as unapplied */
+  schedules: string;
+  unapplied: UnappliedInstruction[];
+}
+
+interface SourceDocument {
+  id: string;
+  filename: string;
+  version: number;
+  family_id: string | null;
+  family_name: string | null;
+  category: string;
+  effective_from: string | null;
+  effective_start: string;
+}
+
+const UPLOAD_DIR = 'uploads';
+
+/**
+ * Amendment consolidation: applies amending Acts / Ordinances (parsed by amendmentParser) to the section tree of
+ * a base statute, producing the consolidated text with per-provision provenance ("Words substituted by Act XII of
+ * 2020") and the instructions that could not be applied. Works on stored chunks, so both the base statute and the
+ * amending instruments must be ingested first; the base needs structural chunks (sections / articles).
+ */
+export class ConsolidationService {
+  async consolidate(adminId: number, options: ConsolidationOptions, createdBy?: number): Promise<Consolidation> {
+    const amendmentIds = [...new Set(options.amendmentDocumentIds)].filter((id) => id !== options.baseDocumentId);
+    if (amendmentIds.length === 0) throw new Error('At least one amending document is required');
+
+    const documents = await this.findDocuments(adminId, [options.baseDocumentId, ...amendmentIds]);
+    const base = documents.find((d) => d.id === options.baseDocumentId);
+    if (!base) throw new Error('Base document not found');
+    const missing = amendmentIds.filter((id) => !documents.some((d) => d.id === id));
+    if (missing.length > 0) throw new Error(`Amending document(s) not found: ${missing.join(', ')}`);
+
+    const baseChunks = await this.findChunks(base.id);
+    const provisions = buildProvisions(baseChunks);
+    if (provisions.length === 0) {
+      throw new Error('No sections or articles were detected in the base document, so amendments cannot be applied to it');
+    }
+    const firstUnit = baseChunks.findIndex((c) => c.hierarchy?.some((h) => /^(?:S\.|Art\.)\s/.test(h)));
+    const lastUnit = baseChunks.length - 1 - [...baseChunks].reverse().findIndex((c) => c.hierarchy?.some((h) => /^(?:S\.|Art\.)\s/.test(h)));
+
+    // Stable sort keeps the caller's order for amendments that commence on the same day
+    const amendments = amendmentIds
+      .map((id) => documents.find((d) => d.id === id)!)
+      .sort((a, b) => a.effective_start.localeCompare(b.effective_start));
+
+    const summaries: AmendmentSummary[] = [];
+    const unapplied: UnappliedInstruction[] = [];
+    for (const amendment of amendments) {
+      const text = this.documentText(await this.findChunks(amendment.id));
+      const parsed = parseAmendment(text, path.parse(amendment.filename).name);
+      let applied = 0;
+      for (const instruction of parsed.instructions) {
+        const reason = applyInstruction(provisions, instruction, parsed.title);
+        if (reason) {
+          unapplied.push({ document_id: amendment.id, amendment: parsed.title, instruction: instruction.source, reason });
+        } else {
+          applied++;
+        }
+      }
+      for (const statement of parsed.unparsed) {
+        unapplied.push({ document_id: amendment.id, amendment: parsed.title, instruction: statement, reason: 'Instruction could not be parsed' });
+      }
+      summaries.push({
+        document_id: amendment.id,
+        filename: amendment.filename,
+        title: parsed.title,
+        effective_from: amendment.effective_from,
+        instructions: parsed.instructions.length + parsed.unparsed.length,
+        applied,
+      });
+    }
+
+    const consolidated: ConsolidatedProvision[] = provisions.map((provision) => ({
+      ref: unitRef(provision),
+      path: provision.path,
+      text: provisionLines(provision).join('\n'),
+      provenance: provisionNotes(provision),
+    }));
+    const result: ConsolidationResult = {
+      base: { document_id: base.id, filename: base.filename, version: base.version, family_id: base.family_id },
+      amendments: summaries,
+      preamble: baseChunks.slice(0, Math.max(firstUnit, 0)).map((c) => c.content).join('\n'),
+      provisions: consolidated,
+      schedules: baseChunks.slice(lastUnit + 1).map((c) => c.content).join('\n'),
+      unapplied,
+    };
+    const statistics = {
+      provisions: consolidated.length,
+      amended_provisions: consolidated.filter((p) => p.provenance.length > 0).length,
+      instructions: summaries.reduce((sum, a) => sum + a.instructions, 0),
+      applied: summaries.reduce((sum, a) => sum + a.applied, 0),
+      unapplied: unapplied.length,
+    };
+
+    const baseName = base.family_name || path.parse(base.filename).name;
+    const consolidation = await ConsolidationRepository.create({
+      id: uuidv4(),
+      adminId,
+      createdBy,
+      baseDocumentId: base.id,
+      amendmentDocumentIds: amendments.map((a) => a.id),
+      title: `${baseName} (as amended by ${summaries[summaries.length - 1].title})`.slice(0, 255),
+      statistics,
+      result,
+    });
+    logger.info('Consolidation created', { adminId, consolidationId: consolidation.id, ...statistics });
+
+    if (options.createVersion) {
+      const effectiveFrom = options.effectiveFrom !== undefined ? options.effectiveFrom : amendments[amendments.length - 1].effective_from;
+      const job = await this.createVersionJob(consolidation, base, adminId, effectiveFrom, createdBy);
+      await ConsolidationRepository.setJobId(consolidation.id, job.id);
+      consolidation.job_id = job.id;
+    }
+    return consolidation;
+  }
+
+  async listConsolidations(adminId: number): Promise<Consolidation[]> {
+    return ConsolidationRepository.findAll(adminId);
+  }
+
+  async getConsolidation(id: string, adminId: number): Promise<Consolidation | null> {
+    return ConsolidationRepository.findById(id, adminId);
+  }
+
+  /**
+   * Consolidated statute as plain text: divisions, provisions and a bracketed provenance line after each
+   * amended provision (the form in which it is ingested as a new version)
+   */
+  renderText(consolidation: Consolidation): string {
+    const result = consolidation.result as ConsolidationResult;
+    const lines: string[] = [consolidation.title, ''];
+    if (result.preamble) lines.push(result.preamble, '');
+    let printedPath: string[] = [];
+    for (const provision of result.provisions) {
+      const firstNew = provision.path.findIndex((label, i) => printedPath[i] !== label);
+      if (firstNew >= 0) lines.push(...provision.path.slice(firstNew), '');
+      printedPath = provision.path;
+      lines.push(provision.text);
+      if (provision.provenance.length > 0) {
+        lines.push(`[${provision.provenance.map((p) => `${p.ref}: ${p.note}`).join('; ')}]`);
+      }
+      lines.push('');
+    }
+    if (result.schedules) lines.push(result.schedules);
+    return lines.join('\n');
+  }
+
+  /** Write the consolidated text and queue it for ingestion as the next version of the base document's family */
+  private async createVersionJob(
+    consolidation: Consolidation,
+    base: SourceDocument,
+    adminId: number,
+    effectiveFrom: string | null,
+    createdBy?: number
+  ): Promise<IngestionJob> {
+    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    const filepath = path.join(UPLOAD_DIR, `${consolidation.id}.txt`);
+    fs.writeFileSync(filepath, this.renderText(consolidation), 'utf-8');
+
+    return IngestionJobRepository.create({
+      id: uuidv4(),
+      adminId,
+      createdBy,
+      filename: `${(base.family_name || path.parse(base.filename).name).slice(0, 200)} (consolidated).txt`,
+      filepath,
+      fileType: 'txt',
+      category: base.category,
+      familyId: base.family_id,
+      familyName: base.family_id ? null : path.parse(base.filename).name,
+      effectiveFrom,
+    });
+  }
+
+  private async findDocuments(adminId: number, ids: string[]): Promise<SourceDocument[]> {
+    const result = await pool.query(
+      `SELECT d.id, d.filename, d.version, d.family_id, f.name AS family_name, d.category,
+              to_char(d.effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(COALESCE(d.effective_from, d.upload_date::date), 'YYYY-MM-DD') AS effective_start
+       FROM documents d
+       LEFT JOIN document_families f ON f.id = d.family_id
+       WHERE d.admin_id = $1 AND d.id = ANY($2::varchar[])`,
+      [adminId, ids]
+    );
+    return result.rows;
+  }
+
+  private async findChunks(documentId: string): Promise<StoredChunk[]> {
+    const result = await pool.query(
+      'SELECT content, hierarchy, page_number FROM chunks WHERE document_id = $1 ORDER BY chunk_index',
+      [documentId]
+    );
+    return result.rows;
+  }
+
+  /** Text of a document from its chunks; lines repeated at the start of a chunk (split headings) are dropped */
+  private documentText(chunks: StoredChunk[]): string {
+    const lines: string[] = [];
+    let previous = new Set<string>();
+    for (const chunk of chunks) {
+      const chunkLines = chunk.content.split('\n').map((l) => l.trim()).filter(Boolean);
+      let start = 0;
+      while (start < chunkLines.length && previous.has(chunkLines[start])) start++;
+      lines.push(...chunkLines.slice(start));
+      previous = new Set(chunkLines);
+    }
+    return lines.join('\n');
+  }
+}
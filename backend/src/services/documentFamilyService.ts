@@ -0,0 +1,258 @@
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database';
+import logger from '../utils/logger';
+import { IN_FORCE_COLUMNS } from '../utils/searchFilters';
+
+export interface DocumentFamily {
+  id: string;
+  admin_id: number;
+  name: string;
+  category: string | null;
+  created_at: Date;
+  updated_at: Date;
+  version_count?: number;
+  latest_version?: number | null;
+  active_document_id?: string | null;
+  active_filename?: string | null;
+}
+
+export interface FamilyVersion {
+  id: string;
+  filename: string;
+  category: string | null;
+  version: number;
+  is_active: boolean;
+  upload_date: Date;
+  created_at: Date;
+  effective_from: string | null;   // YYYY-MM-DD commencement as recorded (NULL = upload date)
+  effective_to: string | null;     // YYYY-MM-DD repeal as recorded
+  in_force_from: string;           // derived window, see IN_FORCE_COLUMNS
+  in_force_to: string | null;
+}
+
+/**
+ * Document families: a named document (e.g. "Companies Act 2017") that versions hang off.
+ * Version numbers, "latest" and comparisons are scoped to a family rather than a category.
+ */
+export class DocumentFamilyService {
+  /**
+   * Helper: Normalize a string for matching (lowercase, trim, collapse spaces)
+   */
+  private normalizeTerm(s: string): string {
+    return (s || '').toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Helper: Calculate word overlap score between two strings
+   */
+  private wordOverlapScore(term: string, target: string): number {
+    const tokenize = (s: string) => (s || '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+    const termWords = new Set(tokenize(term));
+    const targetWords = new Set(tokenize(target));
+    if (termWords.size === 0) return 0;
+    let matches = 0;
+    for (const w of termWords) {
+      if (targetWords.has(w)) matches++;
+    }
+    return matches / termWords.size;
+  }
+
+  /**
+   * List families with version counts and the active (latest) document
+   */
+  async listFamilies(adminId: number): Promise<DocumentFamily[]> {
+    const result = await pool.query(
+      `SELECT f.id, f.admin_id, f.name, f.category, f.created_at, f.updated_at,
+              COUNT(d.id)::int AS version_count,
+              MAX(d.version) AS latest_version,
+              (SELECT a.id FROM documents a WHERE a.family_id = f.id AND a.is_active = true LIMIT 1) AS active_document_id,
+              (SELECT a.filename FROM documents a WHERE a.family_id = f.id AND a.is_active = true LIMIT 1) AS active_filename
+       FROM document_families f
+       LEFT JOIN documents d ON d.family_id = f.id
+       WHERE f.admin_id = $1
+       GROUP BY f.id
+       ORDER BY f.name ASC`,
+      [adminId]
+    );
+    return result.rows;
+  }
+
+  async getFamilyById(familyId: string, adminId: number): Promise<DocumentFamily | null> {
+    const result = await pool.query(
+      'SELECT * FROM document_families WHERE id = $1 AND admin_id = $2',
+      [familyId, adminId]
+    );
+    return result.rows[0] || null;
+  }
+
+  async createFamily(adminId: number, name: string, category?: string | null): Promise<DocumentFamily> {
+    const result = await pool.query(
+      `INSERT INTO document_families (id, admin_id, name, category)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [uuidv4(), adminId, name.trim(), category || null]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * All versions in a family, oldest first
+   */
+  async getFamilyVersions(familyId: string, adminId: number): Promise<FamilyVersion[]> {
+    const result = await pool.query(
+      `SELECT d.id, d.filename, d.category, d.version, d.is_active, d.upload_date, d.created_at,
+              to_char(d.effective_from, 'YYYY-MM-DD') AS effective_from, to_char(d.effective_to, 'YYYY-MM-DD') AS effective_to,
+              ${IN_FORCE_COLUMNS}
+       FROM documents d
+       WHERE d.family_id = $1 AND d.admin_id = $2
+       ORDER BY d.version ASC, d.upload_date ASC`,
+      [familyId, adminId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Resolve user input (family name, filename or category) to a family.
+   *
+   * Scoring:
+   * - Exact match with family name: 1.0
+   * - Family name contains input or input contains family name: 0.8
+   * - Exact/contains match with a filename in the family: 0.7
+   * - Word overlap with family name or filenames: by ratio
+   * - Exact match with the family's category: 0.5 (only used when nothing better matches)
+   *
+   * Threshold: >= 0.3
+   */
+  async resolveFamilyFromInput(
+    userInput: string,
+    adminId: number
+  ): Promise<{ family: DocumentFamily; resolvedFrom: string; documentCount: number } | null> {
+    try {
+      const families = await this.listFamilies(adminId);
+      if (families.length === 0) return null;
+
+      const filesResult = await pool.query(
+        `SELECT DISTINCT family_id, filename FROM documents WHERE admin_id = $1 AND family_id IS NOT NULL`,
+        [adminId]
+      );
+      const filesByFamily = new Map<string, string[]>();
+      for (const row of filesResult.rows as Array<{ family_id: string; filename: string }>) {
+        if (!filesByFamily.has(row.family_id)) filesByFamily.set(row.family_id, []);
+        filesByFamily.get(row.family_id)!.push(row.filename);
+      }
+
+      const normalized = this.normalizeTerm(userInput);
+      let best: { family: DocumentFamily; score: number } | null = null;
+
+      for (const family of families) {
+        if (!family.version_count) continue;
+        const nameNorm = this.normalizeTerm(family.name);
+        let score = 0;
+
+        if (nameNorm === normalized) {
+          score = 1.0;
+        } else if (nameNorm.includes(normalized) || normalized.includes(nameNorm)) {
+          score = 0.8;
+        } else {
+          score = this.wordOverlapScore(userInput, family.name);
+        }
+
+        for (const filename of filesByFamily.get(family.id) || []) {
+          const fileNorm = this.normalizeTerm(filename);
+          if (fileNorm === normalized || fileNorm.includes(normalized) || normalized.includes(fileNorm)) {
+            score = Math.max(score, 0.7);
+          }
+          score = Math.max(score, this.wordOverlapScore(userInput, filename));
+        }
+
+        if (family.category && this.normalizeTerm(family.category) === normalized) {
+          score = Math.max(score, 0.5);
+        }
+
+        if (!best || score > best.score) {
+          best = { family, score };
+        }
+      }
+
+      if (best && best.score >= 0.3) {
+        logger.info('Resolved user input to document family', {
+          userInput,
+          family: best.family.name,
+          score: best.score
+        });
+        return { family: best.family, resolvedFrom: userInput, documentCount: best.family.version_count || 0 };
+      }
+      return null;
+    } catch (error) {
+      logger.error('Error resolving document family from input', { userInput, adminId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Move a document into another family. It becomes the newest version there;
+   * if it was active it stays active and the target family's other versions are deactivated.
+   * A source family left without documents is removed.
+   */
+  async moveDocumentToFamily(documentId: string, familyId: string, adminId: number) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const docResult = await client.query(
+        'SELECT family_id, is_active FROM documents WHERE id = $1 AND admin_id = $2',
+        [documentId, adminId]
+      );
+      if (docResult.rows.length === 0) {
+        throw new Error('Document not found');
+      }
+      const { family_id: sourceFamilyId, is_active } = docResult.rows[0];
+
+      const familyResult = await client.query(
+        'SELECT id FROM document_families WHERE id = $1 AND admin_id = $2 FOR UPDATE',
+        [familyId, adminId]
+      );
+      if (familyResult.rows.length === 0) {
+        throw new Error('Document family not found');
+      }
+
+      if (sourceFamilyId === familyId) {
+        await client.query('COMMIT');
+        return { message: 'Document is already in this family', moved: false };
+      }
+
+      const versionResult = await client.query(
+        'SELECT COALESCE(MAX(version), 0) + 1 AS next_version FROM documents WHERE family_id = $1',
+        [familyId]
+      );
+      const nextVersion = parseInt(versionResult.rows[0].next_version, 10);
+
+      if (is_active) {
+        await client.query(
+          'UPDATE documents SET is_active = false WHERE family_id = $1 AND admin_id = $2',
+          [familyId, adminId]
+        );
+      }
+      await client.query(
+        'UPDATE documents SET family_id = $1, version = $2 WHERE id = $3 AND admin_id = $4',
+        [familyId, nextVersion, documentId, adminId]
+      );
+
+      if (sourceFamilyId) {
+        await client.query(
+          `DELETE FROM document_families f
+           WHERE f.id = $1 AND NOT EXISTS (SELECT 1 FROM documents d WHERE d.family_id = f.id)`,
+          [sourceFamilyId]
+        );
+      }
+
+      await client.query('COMMIT');
+      return { message: 'Document moved', moved: true, version: nextVersion };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
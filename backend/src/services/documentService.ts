@@ -1,6 +1,9 @@
 import pool from '../config/database';
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import logger from '../utils/logger';
+import { DocumentFamilyService } from './documentFamilyService';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { IN_FORCE_COLUMNS, JudgmentFilters, judgmentFilterConditions } from '../utils/searchFilters';
 
 export interface RelatedDocument {
   document_name: string;
@@ -70,6 +73,8 @@ export interface VersionComparisonDetailed {
 }
 
 export class DocumentService {
+  private familyService = new DocumentFamilyService();
+
   /**
    * FUZZY DOCUMENT NAME MATCHING
    * Finds document by partial or approximate name
@@ -174,37 +179,52 @@ export class DocumentService {
   }
 
   /**
-   * GET ALL VERSIONS OF A DOCUMENT (for suggestions)
+   * GET ALL VERSIONS OF A DOCUMENT FAMILY (for suggestions)
+   * Resolves the input to a document family (family name, filename or category), newest version first.
    */
-  async getDocumentVersions(documentName: string, adminId?: number): Promise<{ versions: string[]; confidence: number }> {
-    const actualName = await this.findDocumentByName(documentName, adminId);
-    if (!actualName) return { versions: [], confidence: 0 };
+  async getDocumentVersions(
+    documentName: string,
+    adminId: number
+  ): Promise<{ family?: string; versions: string[]; confidence: number }> {
+    const resolution = await this.familyService.resolveFamilyFromInput(documentName, adminId);
+    if (!resolution) return { versions: [], confidence: 0 };
 
-    let query = `SELECT version FROM documents 
-       WHERE filename = $1`;
-    if (adminId) query += ` AND admin_id = $2`;
-    query += ` ORDER BY upload_date DESC`;
-    
-    const params = adminId ? [actualName, adminId] : [actualName];
-    const result = await pool.query(query, params);
+    const result = await pool.query(
+      `SELECT version FROM documents
+       WHERE family_id = $1 AND admin_id = $2
+       ORDER BY version DESC`,
+      [resolution.family.id, adminId]
+    );
     const versions = result.rows.map(r => r.version);
     const confidence = versions.length > 0 ? 95 : 90;
-    return { versions, confidence };
+    return { family: resolution.family.name, versions, confidence };
   }
 
-  async listDocuments(adminId?: number): Promise<{ documents: any[]; confidence: number }> {
-    let query = `SELECT id, filename, category, version, is_active, upload_date 
-       FROM documents`;
-    
+  async listDocuments(adminId?: number, filters?: JudgmentFilters): Promise<{ documents: any[]; confidence: number }> {
+    let query = `SELECT d.id, d.filename, d.category, d.version, d.is_active, d.upload_date,
+              d.family_id, f.name AS family_name,
+              to_char(d.effective_from, 'YYYY-MM-DD') AS effective_from, to_char(d.effective_to, 'YYYY-MM-DD') AS effective_to,
+              ${IN_FORCE_COLUMNS},
+              d.metadata->'judgment' AS judgment
+       FROM documents d
+       LEFT JOIN document_families f ON f.id = d.family_id`;
+
+    const params: any[] = [];
+    const conditions = judgmentFilterConditions(filters, (value) => {
+      params.push(value);
+      return `$${params.length}`;
+    });
     if (adminId) {
-      query += ` WHERE admin_id = $1`;
+      params.push(adminId);
+      conditions.unshift(`d.admin_id = $${params.length}`);
+    }
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
     }
     
-    query += ` ORDER BY filename ASC, upload_date DESC`;
+    query += ` ORDER BY d.filename ASC, d.upload_date DESC`;
     
-    const result = adminId 
-      ? await pool.query(query, [adminId])
-      : await pool.query(query);
+    const result = await pool.query(query, params);
     
     return { documents: result.rows, confidence: 95 };
   }
@@ -304,7 +324,7 @@ export class DocumentService {
       await client.query('BEGIN');
 
       const docResult = await client.query(
-        'SELECT filename FROM documents WHERE id = $1 AND admin_id = $2',
+        'SELECT filename, family_id FROM documents WHERE id = $1 AND admin_id = $2',
         [documentId, adminId]
       );
 
@@ -312,12 +332,23 @@ export class DocumentService {
         throw new Error('Document not found');
       }
 
-      // Delete chunks first (foreign key constraint)
+      // Delete chunks first (foreign key constraint), after taking them out of the keyword search statistics
+      await SearchIndexRepository.removeDocument(client, documentId);
       await client.query('DELETE FROM chunks WHERE document_id = $1', [documentId]);
 
       // Delete document
       await client.query('DELETE FROM documents WHERE id = $1 AND admin_id = $2', [documentId, adminId]);
 
+      // Remove the family once its last version is gone
+      const { family_id } = docResult.rows[0];
+      if (family_id) {
+        await client.query(
+          `DELETE FROM document_families f
+           WHERE f.id = $1 AND NOT EXISTS (SELECT 1 FROM documents d WHERE d.family_id = f.id)`,
+          [family_id]
+        );
+      }
+
       await client.query('COMMIT');
       return { 
         message: 'Document deleted successfully'
@@ -349,21 +380,57 @@ export class DocumentService {
     if (result.rows.length === 0) throw new Error('Document not found or access denied');
   }
 
+  /**
+   * Set a version's effective dates (commencement / repeal, YYYY-MM-DD). Undefined leaves a date unchanged,
+   * null clears it (commencement then falls back to the upload date).
+   */
+  async updateEffectiveDates(
+    documentId: string,
+    adminId: number,
+    dates: { effectiveFrom?: string | null; effectiveTo?: string | null }
+  ) {
+    const current = await pool.query(
+      `SELECT to_char(effective_from, 'YYYY-MM-DD') AS effective_from, to_char(effective_to, 'YYYY-MM-DD') AS effective_to,
+              to_char(upload_date, 'YYYY-MM-DD') AS upload_day
+       FROM documents WHERE id = $1 AND admin_id = $2`,
+      [documentId, adminId]
+    );
+    if (current.rows.length === 0) {
+      throw new Error('Document not found');
+    }
+
+    const row = current.rows[0];
+    const effectiveFrom = dates.effectiveFrom !== undefined ? dates.effectiveFrom : row.effective_from;
+    const effectiveTo = dates.effectiveTo !== undefined ? dates.effectiveTo : row.effective_to;
+    if (effectiveTo && effectiveTo <= (effectiveFrom || row.upload_day)) {
+      throw new Error('Effective to must be after the date the version came into force');
+    }
+
+    const result = await pool.query(
+      `UPDATE documents d SET effective_from = $1, effective_to = $2
+       WHERE d.id = $3 AND d.admin_id = $4
+       RETURNING d.id, d.version, to_char(d.effective_from, 'YYYY-MM-DD') AS effective_from,
+                 to_char(d.effective_to, 'YYYY-MM-DD') AS effective_to, ${IN_FORCE_COLUMNS}`,
+      [effectiveFrom, effectiveTo, documentId, adminId]
+    );
+    return result.rows[0];
+  }
+
   /**
    * Mark a document version as latest (when new version uploaded)
-   * Uses is_active: deactivate others in same category, activate this one.
+   * Uses is_active: deactivate other versions in the same family, activate this one.
    */
   async markAsLatest(documentId: string, adminId: number) {
     const docResult = await pool.query(
-      'SELECT category FROM documents WHERE id = $1 AND admin_id = $2',
+      'SELECT family_id FROM documents WHERE id = $1 AND admin_id = $2',
       [documentId, adminId]
     );
     if (docResult.rows.length === 0) throw new Error('Document not found');
-    const { category } = docResult.rows[0];
+    const { family_id } = docResult.rows[0];
 
     await pool.query(
-      'UPDATE documents SET is_active = false WHERE category = $1 AND admin_id = $2 AND id != $3',
-      [category, adminId, documentId]
+      'UPDATE documents SET is_active = false WHERE family_id = $1 AND admin_id = $2 AND id != $3',
+      [family_id, adminId, documentId]
     );
     const result = await pool.query(
       'UPDATE documents SET is_active = true WHERE id = $1 AND admin_id = $2 RETURNING *',
@@ -523,24 +590,34 @@ Be specific and actionable. Focus on business/legal impact.`;
     version2: string,
     adminId?: number
   ): Promise<VersionComparisonDetailed> {
-    // Get document metadata
-    const v1Meta = await pool.query(
-      `SELECT d.id, d.version, d.upload_date, COUNT(c.id) as chunk_count
-       FROM documents d
-       LEFT JOIN chunks c ON d.id = c.document_id
-       WHERE d.filename = $1 AND d.version = $2
-       GROUP BY d.id`,
-      [documentName, version1]
-    );
+    let query = `SELECT id FROM documents WHERE filename = $1 AND version = $2`;
+    if (adminId) query += ` AND admin_id = $3`;
+    const lookup = (version: string) =>
+      pool.query(query, adminId ? [documentName, version, adminId] : [documentName, version]);
 
-    const v2Meta = await pool.query(
-      `SELECT d.id, d.version, d.upload_date, COUNT(c.id) as chunk_count
+    const [v1, v2] = await Promise.all([lookup(version1), lookup(version2)]);
+    if (v1.rows.length === 0 || v2.rows.length === 0) {
+      throw new Error('One or both versions not found');
+    }
+    return this.compareDocumentsDetailed(documentName, v1.rows[0].id, v2.rows[0].id);
+  }
+
+  /**
+   * Detailed comparison of two documents by id (versions of one family may have different filenames)
+   */
+  async compareDocumentsDetailed(
+    documentName: string,
+    document1Id: string,
+    document2Id: string
+  ): Promise<VersionComparisonDetailed> {
+    // Get document metadata
+    const metaQuery = `SELECT d.id, d.version, d.upload_date, COUNT(c.id) as chunk_count
        FROM documents d
        LEFT JOIN chunks c ON d.id = c.document_id
-       WHERE d.filename = $1 AND d.version = $2
-       GROUP BY d.id`,
-      [documentName, version2]
-    );
+       WHERE d.id = $1
+       GROUP BY d.id`;
+    const v1Meta = await pool.query(metaQuery, [document1Id]);
+    const v2Meta = await pool.query(metaQuery, [document2Id]);
 
     if (v1Meta.rows.length === 0 || v2Meta.rows.length === 0) {
       throw new Error('One or both versions not found');
@@ -693,7 +770,7 @@ Be specific and actionable. Focus on business/legal impact.`;
 
   /**
    * Activate a document version
-   * Only allows activation if no other document with same category is already active
+   * Other versions of the same family are deactivated (one active version per family)
    */
   async activateDocument(documentId: string, adminId: number) {
     const client = await pool.connect();
@@ -701,7 +778,7 @@ Be specific and actionable. Focus on business/legal impact.`;
       await client.query('BEGIN');
 
       const docResult = await client.query(
-        'SELECT category, is_active FROM documents WHERE id = $1 AND admin_id = $2',
+        'SELECT family_id, is_active FROM documents WHERE id = $1 AND admin_id = $2',
         [documentId, adminId]
       );
 
@@ -709,7 +786,7 @@ Be specific and actionable. Focus on business/legal impact.`;
         throw new Error('Document not found');
       }
 
-      const { category, is_active } = docResult.rows[0];
+      const { family_id, is_active } = docResult.rows[0];
 
       if (is_active) {
         await client.query('COMMIT');
@@ -719,10 +796,10 @@ Be specific and actionable. Focus on business/legal impact.`;
         };
       }
 
-      // Deactivate all other documents with the same category
+      // Deactivate all other versions of the same family
       await client.query(
-        `UPDATE documents SET is_active = false WHERE category = $1 AND admin_id = $2 AND id != $3`,
-        [category, adminId, documentId]
+        `UPDATE documents SET is_active = false WHERE family_id = $1 AND admin_id = $2 AND id != $3`,
+        [family_id, adminId, documentId]
       );
 
       // Activate the specified document
@@ -0,0 +1,50 @@
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL_ID } from '../config/providers';
+import { EmbeddingRepository } from '../repositories/embeddingRepository';
+import { generateEmbeddingsBatch } from '../utils/emdedding';
+import logger from '../utils/logger';
+
+/** Chunks re-embedded per batch (one embed request + one transaction) */
+const REEMBED_BATCH_SIZE = 100;
+
+/**
+ * Make the vector store accept the configured embedding model. Runs on startup before ingestion jobs resume:
+ * - a changed dimension resizes chunks.embedding (clearing the old vectors) instead of failing every insert
+ * - staged embeddings of unfinished ingestion jobs from another model are dropped, so the jobs re-embed them
+ */
+export async function prepareEmbeddingStore(): Promise<void> {
+  const columnDimensions = await EmbeddingRepository.getColumnDimensions();
+  if (columnDimensions !== null && columnDimensions !== EMBEDDING_DIMENSIONS) {
+    logger.warn('Embedding model: resizing chunks.embedding', { from: columnDimensions, to: EMBEDDING_DIMENSIONS });
+    await EmbeddingRepository.resizeColumn(EMBEDDING_DIMENSIONS);
+  }
+
+  const cleared = await EmbeddingRepository.clearStagedEmbeddings(EMBEDDING_MODEL_ID);
+  if (cleared > 0) {
+    logger.info('Embedding model: cleared staged embeddings from another model', { count: cleared });
+  }
+}
+
+/**
+ * Re-embed chunks stored by another model (or left without a vector). Until a chunk is re-embedded it is
+ * left out of vector search; keyword search still finds it.
+ */
+export async function reembedStaleChunks(): Promise<number> {
+  const stale = await EmbeddingRepository.countStaleChunks(EMBEDDING_MODEL_ID);
+  if (stale === 0) return 0;
+
+  logger.info('Embedding model: re-embedding chunks', { model: EMBEDDING_MODEL_ID, count: stale });
+  let done = 0;
+  for (;;) {
+    const batch = await EmbeddingRepository.findStaleChunks(EMBEDDING_MODEL_ID, REEMBED_BATCH_SIZE);
+    if (batch.length === 0) break;
+    const vectors = await generateEmbeddingsBatch(batch.map((c) => c.content));
+    await EmbeddingRepository.saveChunkEmbeddings(
+      EMBEDDING_MODEL_ID,
+      batch.map((c, idx) => ({ id: c.id, embedding: vectors[idx] }))
+    );
+    done += batch.length;
+    logger.debug('Embedding model: re-embed progress', { done, total: stale });
+  }
+  logger.info('Embedding model: re-embedding complete', { model: EMBEDDING_MODEL_ID, count: done });
+  return done;
+}
@@ -0,0 +1,301 @@
+import { v4 as uuidv4 } from 'uuid';
+import { llm, EMBEDDING_MODEL_ID } from '../config/providers';
+import { EvaluationRepository } from '../repositories/evaluationRepository';
+import { QueryService, RetrievalConfig, RetrievedChunk, RetrievalTimings, DEFAULT_RETRIEVAL_CONFIG } from './queryService';
+import { EvalQuestion, EvalRun } from '../types';
+import {
+  ExpectedSource,
+  RankedChunk,
+  recallAtK,
+  reciprocalRank,
+  ndcgAtK,
+  citationPrecision,
+  isRelevant,
+  mean,
+} from '../utils/retrievalMetrics';
+import logger from '../utils/logger';
+
+export interface EvalRunOptions {
+  label?: string;
+  /** Cut-off for recall@k and nDCG@k */
+  k?: number;
+  /** Retrieval parameters to try instead of the defaults */
+  config?: Partial<RetrievalConfig>;
+  /** Only questions with this tag */
+  tag?: string;
+  /** Generate answers for citation precision and faithfulness (one or two LLM calls per question) */
+  generateAnswers?: boolean;
+}
+
+export interface EvalQuestionResult {
+  question_id: string;
+  question: string;
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+  /** Share of expected sources present in the context given to the generator (after MMR and compression) */
+  context_recall: number;
+  citation_precision: number | null;
+  faithfulness: number | null;
+  retrieved: Array<{ document_name: string; section_name: string | null; page_number: number | null; relevant: boolean }>;
+  timings?: RetrievalTimings;
+  /** The run asked for the cross-encoder but it failed: this question was ranked by hybrid search only */
+  cross_encoder_error?: string;
+  answer?: string;
+  error?: string;
+}
+
+/** Metrics averaged over the questions of a run (null when no question produced a value) */
+const METRIC_KEYS = ['recall_at_k', 'mrr', 'ndcg_at_k', 'context_recall', 'citation_precision', 'faithfulness'] as const;
+/** Mean stage latencies reported next to the metrics (not compared as better/worse deltas) */
+const TIMING_KEYS = { search_ms: 'searchMs', cross_encoder_ms: 'crossEncoderMs', mmr_ms: 'mmrMs' } as const;
+
+const DEFAULT_K = 5;
+/** Retrieved chunks listed per question in the report */
+const REPORTED_CHUNKS = 10;
+
+/**
+ * Retrieval evaluation harness: golden questions with expected sources per tenant, scored against
+ * the current RAG pipeline (QueryService.retrieve + generateAnswer). Runs store the retrieval config,
+ * averaged metrics and per-question results, so two runs can be compared before shipping a change.
+ */
+export class EvaluationService {
+  private queryService = new QueryService();
+
+  async listQuestions(adminId: number, tag?: string): Promise<EvalQuestion[]> {
+    return EvaluationRepository.findQuestions(adminId, tag);
+  }
+
+  async createQuestion(
+    adminId: number,
+    input: { question: string; expectedAnswer?: string | null; expectedSources: ExpectedSource[]; tags?: string[] },
+    createdBy?: number
+  ): Promise<EvalQuestion> {
+    return EvaluationRepository.createQuestion({ id: uuidv4(), adminId, createdBy, ...input });
+  }
+
+  async updateQuestion(
+    id: string,
+    adminId: number,
+    fields: { question?: string; expectedAnswer?: string | null; expectedSources?: ExpectedSource[]; tags?: string[] }
+  ): Promise<EvalQuestion | null> {
+    return EvaluationRepository.updateQuestion(id, adminId, fields);
+  }
+
+  async deleteQuestion(id: string, adminId: number): Promise<boolean> {
+    return EvaluationRepository.deleteQuestion(id, adminId);
+  }
+
+  async listRuns(adminId: number): Promise<EvalRun[]> {
+    return EvaluationRepository.findRuns(adminId);
+  }
+
+  async getRun(id: string, adminId: number): Promise<EvalRun | null> {
+    return EvaluationRepository.findRunById(id, adminId);
+  }
+
+  /**
+   * Create a run for the tenant's golden questions. The returned promise resolves once the run is recorded;
+   * `completion` resolves when scoring finishes (the API does not wait for it, the CLI does).
+   */
+  async startRun(
+    adminId: number,
+    options: EvalRunOptions = {},
+    createdBy?: number
+  ): Promise<{ run: EvalRun; completion: Promise<EvalRun | null> }> {
+    const questions = await EvaluationRepository.findQuestions(adminId, options.tag);
+    if (questions.length === 0) {
+      throw new Error(options.tag ? `No evaluation questions tagged "${options.tag}"` : 'No evaluation questions defined yet');
+    }
+
+    const k = options.k ?? DEFAULT_K;
+    const config = {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      ...options.config,
+      embedding_model: EMBEDDING_MODEL_ID,
+      generate_answers: options.generateAnswers !== false,
+      tag: options.tag ?? null,
+    };
+    const run = await EvaluationRepository.createRun({
+      id: uuidv4(),
+      adminId,
+      createdBy,
+      label: options.label,
+      k,
+      config,
+      questionCount: questions.length,
+    });
+
+    const completion = this.scoreRun(run.id, adminId, questions, k, options)
+      .then(() => EvaluationRepository.findRunById(run.id, adminId))
+      .catch(async (error) => {
+        const message = error instanceof Error ? error.message : 'Evaluation failed';
+        logger.error('Evaluation run failed', { runId: run.id, error: message });
+        await EvaluationRepository.failRun(run.id, message).catch(() => {});
+        return EvaluationRepository.findRunById(run.id, adminId);
+      });
+
+    return { run, completion };
+  }
+
+  /**
+   * Metric deltas of a run against a baseline run (positive = the run is better)
+   */
+  compareRuns(run: EvalRun, baseline: EvalRun) {
+    const deltas: Record<string, number | null> = {};
+    for (const key of METRIC_KEYS) {
+      const current = run.metrics?.[key];
+      const previous = baseline.metrics?.[key];
+      deltas[key] = typeof current === 'number' && typeof previous === 'number' ? current - previous : null;
+    }
+
+    const baselineResults = new Map<string, EvalQuestionResult>(
+      (baseline.results || []).map((r: EvalQuestionResult) => [r.question_id, r])
+    );
+    const questions = (run.results || [])
+      .map((r: EvalQuestionResult) => {
+        const before = baselineResults.get(r.question_id);
+        return before
+          ? { question_id: r.question_id, question: r.question, recall_at_k: r.recall_at_k - before.recall_at_k, mrr: r.mrr - before.mrr }
+          : null;
+      })
+      .filter((q): q is NonNullable<typeof q> => q !== null && (q.recall_at_k !== 0 || q.mrr !== 0));
+
+    return {
+      run_id: run.id,
+      baseline_id: baseline.id,
+      comparable: run.k === baseline.k,
+      deltas,
+      changed_questions: questions,
+    };
+  }
+
+  private async scoreRun(runId: string, adminId: number, questions: EvalQuestion[], k: number, options: EvalRunOptions) {
+    const results: EvalQuestionResult[] = [];
+    for (const question of questions) {
+      try {
+        results.push(await this.scoreQuestion(question, adminId, k, options));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Scoring failed';
+        logger.warn('Evaluation question failed', { runId, questionId: question.id, error: message });
+        results.push({
+          question_id: question.id,
+          question: question.question,
+          recall_at_k: 0,
+          mrr: 0,
+          ndcg_at_k: 0,
+          context_recall: 0,
+          citation_precision: null,
+          faithfulness: null,
+          retrieved: [],
+          error: message,
+        });
+      }
+    }
+
+    const metrics: Record<string, number | null> = {};
+    for (const key of METRIC_KEYS) {
+      metrics[key] = mean(results.map((r) => r[key]));
+    }
+    for (const [key, field] of Object.entries(TIMING_KEYS)) {
+      metrics[key] = mean(results.map((r) => r.timings?.[field] ?? null));
+    }
+
+    // A run asked to measure the cross-encoder must not pass off hybrid-only rankings as its numbers: it is kept
+    // for inspection but marked failed
+    const rerankFailures = results.filter((r) => r.cross_encoder_error).length;
+    if (rerankFailures > 0) {
+      metrics.cross_encoder_failures = rerankFailures;
+      const error = `Cross-encoder reranking failed for ${rerankFailures} of ${results.length} question(s); those were ranked by hybrid search only`;
+      await EvaluationRepository.completeRun(runId, metrics, results, error);
+      logger.warn('Evaluation run marked failed', { runId, error });
+      return;
+    }
+    await EvaluationRepository.completeRun(runId, metrics, results);
+    logger.info('Evaluation run completed', { runId, questions: results.length, metrics });
+  }
+
+  private async scoreQuestion(question: EvalQuestion, adminId: number, k: number, options: EvalRunOptions): Promise<EvalQuestionResult> {
+    const expected = question.expected_sources || [];
+    const { candidates, context, timings, crossEncoderError } = await this.queryService.retrieve(question.question, adminId, options.config);
+    const ranked = candidates.map(toRanked);
+
+    const result: EvalQuestionResult = {
+      question_id: question.id,
+      question: question.question,
+      recall_at_k: recallAtK(ranked, expected, k),
+      mrr: reciprocalRank(ranked, expected),
+      ndcg_at_k: ndcgAtK(ranked, expected, k),
+      context_recall: recallAtK(context.map(toRanked), expected, context.length),
+      citation_precision: null,
+      faithfulness: null,
+      retrieved: ranked.slice(0, REPORTED_CHUNKS).map((chunk) => ({
+        document_name: chunk.document_name,
+        section_name: chunk.section_name ?? null,
+        page_number: chunk.page_number ?? null,
+        relevant: isRelevant(chunk, expected),
+      })),
+      timings,
+      cross_encoder_error: crossEncoderError,
+    };
+
+    if (options.generateAnswers !== false && context.length > 0) {
+      const answer = await this.queryService.generateAnswer(question.question, context);
+      result.answer = answer.answer;
+      result.citation_precision = citationPrecision(
+        answer.citations.map((c: any) => ({
+          document_id: c.document_id,
+          document_name: c.document_name,
+          section_name: c.section === 'N/A' ? null : c.section,
+          page_number: c.page,
+        })),
+        expected
+      );
+      if (answer.citations.length > 0) {
+        result.faithfulness = await this.judgeFaithfulness(answer.answer, context);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * LLM judge: share of the answer's factual claims supported by the retrieved context (null if the judge fails)
+   */
+  private async judgeFaithfulness(answer: string, context: RetrievedChunk[]): Promise<number | null> {
+    const sources = context.map((chunk, idx) => `[${idx + 1}] ${chunk.content}`).join('\n\n');
+    const prompt = `You are checking a legal assistant's answer against its sources.
+Split the answer into its factual claims and count how many are directly supported by the sources.
+Ignore statements that only say information is missing.
+
+Sources:
+${sources}
+
+Answer:
+${answer}
+
+Return ONLY a JSON object: {"total_claims": <number>, "supported_claims": <number>}`;
+
+    try {
+      const response = await llm.invoke(prompt);
+      const cleaned = response.content.toString().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      const parsed = JSON.parse(cleaned);
+      const total = Number(parsed.total_claims);
+      const supported = Number(parsed.supported_claims);
+      if (!Number.isFinite(total) || !Number.isFinite(supported) || total <= 0) return null;
+      return Math.max(0, Math.min(1, supported / total));
+    } catch (error) {
+      logger.warn('Faithfulness judge failed', { error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+}
+
+function toRanked(chunk: RetrievedChunk): RankedChunk {
+  return {
+    document_id: chunk.document_id ?? null,
+    document_name: chunk.document_name,
+    section_name: chunk.section_name ?? null,
+    page_number: chunk.page_number ?? null,
+  };
+}
@@ -1,6 +1,6 @@
 import pool from '../config/database';
-import { llm } from '../config/openai';
-import { embeddings } from '../config/openai';
+import { llm } from '../config/providers';
+import { embeddings } from '../config/providers';
 import { DocumentService } from './documentService';
 import logger from '../utils/logger';
 
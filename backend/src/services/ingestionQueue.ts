@@ -0,0 +1,55 @@
+import { UploadService } from './uploadService';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import logger from '../utils/logger';
+
+/** Number of ingestion jobs processed at the same time (parsing/OCR is CPU heavy, so default is 1) */
+const CONCURRENCY = Math.max(1, parseInt(process.env.INGESTION_CONCURRENCY || '1', 10) || 1);
+
+const uploadService = new UploadService();
+const pending: string[] = [];
+const active = new Set<string>();
+
+function drain(): void {
+  while (active.size < CONCURRENCY && pending.length > 0) {
+    const jobId = pending.shift()!;
+    active.add(jobId);
+    processJob(jobId).finally(() => {
+      active.delete(jobId);
+      drain();
+    });
+  }
+}
+
+async function processJob(jobId: string): Promise<void> {
+  try {
+    const documentId = await uploadService.runIngestionJob(jobId);
+    logger.info('Ingestion job completed', { jobId, documentId });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Ingestion failed';
+    logger.error('Ingestion job failed', { jobId, error: message });
+    await IngestionJobRepository.markFailed(jobId, message).catch((err) =>
+      logger.error('Ingestion queue: failed to record job failure', { jobId, error: err })
+    );
+  }
+}
+
+/**
+ * Add a job to the in-process ingestion queue (no-op if it is already queued or running).
+ */
+export function enqueueIngestionJob(jobId: string): void {
+  if (active.has(jobId) || pending.includes(jobId)) return;
+  pending.push(jobId);
+  drain();
+}
+
+/**
+ * Re-queue jobs that were not finished when the server last stopped.
+ */
+export async function resumeIngestionJobs(): Promise<number> {
+  const jobIds = await IngestionJobRepository.findUnfinishedIds();
+  jobIds.forEach(enqueueIngestionJob);
+  if (jobIds.length > 0) {
+    logger.info('Ingestion queue: resumed unfinished jobs', { count: jobIds.length });
+  }
+  return jobIds.length;
+}
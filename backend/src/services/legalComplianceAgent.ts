@@ -1,11 +1,18 @@
-import pool from '../config/database';
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import { QueryService } from './queryService';
 import { VersionComparisonService } from './versionComparisonService';
 import { ConflictDetectionService } from './conflictDetectionService';
 import { DocumentService } from './documentService';
+import { DocumentFamilyService } from './documentFamilyService';
 import { GapAnalysisService } from './gapAnalysisService';
+import { CitationService } from './citationService';
+import { RepugnancyService } from './repugnancyService';
+import { PrecedentService } from './precedentService';
+import { AnalysisRunService, AnalysisRequest } from './analysisRunService';
 import logger from '../utils/logger';
+import { describeRedline } from '../utils/structuralDiff';
+import { SearchFilters, normalizeSearchFilters, mergeSearchFilters, describeSearchFilters } from '../utils/searchFilters';
+import { ReportType } from '../utils/reportBuilder';
 
 export interface AgentResult {
   answer: string;
@@ -13,6 +20,8 @@ export interface AgentResult {
   citations?: any[];
   confidence: number;
   reasoning?: string;
+  /** Stored analysis runs of this answer (conflicts, gaps, version changes), downloadable as PDF / DOCX reports */
+  reports?: Array<{ id: string; type: ReportType; title: string }>;
 }
 
 interface ToolResultWithMetadata {
@@ -21,20 +30,68 @@ interface ToolResultWithMetadata {
   conflicts?: any[];
 }
 
+/**
+ * Full results of one processQuery call by tool call id (confidence, analysis runs). Kept per call, never on the
+ * agent: the controllers share one agent across tenants and concurrent requests.
+ */
+type ToolResultStore = Map<string, { toolName: string; args: any; result: any }>;
+
+/** " (renumbered from S. 5, moved)" for a structurally aligned version change */
+const changeTags = (change: any): string => {
+  const tags: string[] = [];
+  if (change.renumbered && change.old_ref) tags.push(`renumbered from ${change.old_ref}`);
+  if (change.moved) tags.push('moved');
+  return tags.length > 0 ? ` (${tags.join(', ')})` : '';
+};
+
+/**
+ * Inputs of a conflict, gap or version analysis a tool ran, for storing it as an analysis run (null for other
+ * tools). Version numbers come from the result: the arguments may say "latest".
+ */
+const analysisRequestFor = (toolName: string, args: any, result: any): AnalysisRequest | null => {
+  const versionRequest = (document: string): AnalysisRequest =>
+    Array.isArray(result.comparisons)
+      ? { type: 'versions', document }
+      : { type: 'versions', document, fromVersion: result.version1?.version, toVersion: result.version2?.version };
+  switch (toolName) {
+    case 'detect_policy_conflicts':
+      return { type: 'conflicts', documents: [args.document1, args.document2], topic: args.topic || undefined };
+    case 'gap_analysis':
+      return { type: 'gaps', documentA: args.document_a, documentB: args.document_b, focusArea: args.focus_area || undefined };
+    case 'compare_document_versions':
+      return versionRequest(result.family ?? args.input);
+    case 'analyze_documents':
+      if (result.analysis_type === 'conflict_detection') return { type: 'conflicts', documents: args.inputs ?? [] };
+      if (result.analysis_type === 'version_comparison') return versionRequest(result.family ?? args.inputs?.[0]);
+      return null;
+    default:
+      return null;
+  }
+};
+
 export class LegalComplianceAgent {
   private queryService: QueryService;
   private versionService: VersionComparisonService;
   private conflictService: ConflictDetectionService;
   private documentService: DocumentService;
+  private familyService: DocumentFamilyService;
   private gapAnalysisService: GapAnalysisService;
-  private toolResultsMetadata: Map<string, any> = new Map();
+  private citationService: CitationService;
+  private repugnancyService: RepugnancyService;
+  private precedentService: PrecedentService;
+  private analysisRunService: AnalysisRunService;
 
   constructor() {
     this.queryService = new QueryService();
     this.versionService = new VersionComparisonService();
     this.conflictService = new ConflictDetectionService();
     this.documentService = new DocumentService();
+    this.familyService = new DocumentFamilyService();
     this.gapAnalysisService = new GapAnalysisService();
+    this.citationService = new CitationService();
+    this.repugnancyService = new RepugnancyService();
+    this.precedentService = new PrecedentService();
+    this.analysisRunService = new AnalysisRunService();
   }
 
   /**
@@ -53,8 +110,12 @@ export class LegalComplianceAgent {
         return this.extractVersionCitations(result);
 
       case "detect_policy_conflicts":
+      case "check_constitutional_repugnancy":
         return this.extractConflictCitations(result);
 
+      case "find_precedents":
+        return this.extractPrecedentCitations(result);
+
       case "list_available_documents":
         return this.extractDocumentListCitations(result?.documents ?? result ?? []);
 
@@ -162,6 +223,23 @@ export class LegalComplianceAgent {
     return citations;
   }
 
+  /**
+   * Extract citations from precedent research: one per judgment, at its pinpoint paragraph
+   */
+  private extractPrecedentCitations(precedentResult: any): any[] {
+    return (precedentResult.precedents ?? []).map((p: any) => ({
+      document_id: p.document_id,
+      document_name: p.document_name,
+      section: p.paragraph ? `para ${p.paragraph}` : p.section || 'N/A',
+      page: p.page || null,
+      court: p.court,
+      pinpoint: p.pinpoint,
+      treatment: p.treatments.map((t: any) => `${t.treatment} in ${t.by}`).join('; ') || undefined,
+      content: p.excerpt,
+      relevance_score: p.relevance
+    }));
+  }
+
   /**
    * Extract citations from document list - ONLY if relevant to query
    * Don't cite all documents - only cite those relevant to the answer
@@ -205,49 +283,57 @@ export class LegalComplianceAgent {
   }
 
   /**
-   * Helper: Resolve document/category inputs to categories
-   * Returns { category, activeFilename } for each input
-   * Tries category match first, falls back to filename → get its category
+   * Helper: search_documents arguments → search filters (document names are resolved to document families)
    */
-  private async resolveToCategories(
+  private async toolSearchFilters(args: any, adminId: number): Promise<SearchFilters | undefined> {
+    let familyIds: string[] | undefined;
+    if (Array.isArray(args.documents) && args.documents.length > 0) {
+      const { resolved, unresolved } = await this.resolveToFamilies(args.documents.map(String), adminId);
+      if (unresolved.length > 0) {
+        logger.debug('search_documents: unresolved document filters ignored', { unresolved });
+      }
+      familyIds = resolved.map((r) => r.familyId);
+    }
+    return normalizeSearchFilters({
+      categories: args.categories,
+      familyIds,
+      version: args.version,
+      asOfDate: args.as_of_date,
+      pageFrom: args.page_from,
+      pageTo: args.page_to,
+      courts: args.courts,
+      judges: args.judges,
+      parties: args.parties,
+      dispositions: args.disposition ? [args.disposition] : undefined,
+      decidedFrom: args.decided_from,
+      decidedTo: args.decided_to,
+    });
+  }
+
+  /**
+   * Helper: Resolve document/category inputs to document families
+   * Returns { family, category, activeFilename } for each input
+   */
+  private async resolveToFamilies(
     inputs: string[],
     adminId: number
   ): Promise<{
-    resolved: Array<{ input: string; category: string; activeFilename: string }>;
+    resolved: Array<{ input: string; familyId: string; family: string; category: string | null; activeFilename: string | null }>;
     unresolved: string[];
   }> {
-    const resolved: Array<{ input: string; category: string; activeFilename: string }> = [];
+    const resolved: Array<{ input: string; familyId: string; family: string; category: string | null; activeFilename: string | null }> = [];
     const unresolved: string[] = [];
 
-    // Fetch all documents and categories for this admin
-    const allDocs = (await this.documentService.listDocuments(adminId)).documents;
-    
     for (const input of inputs) {
       try {
-        // Step 1: Try category lookup
-        const categoryResult = await this.versionService.resolveCategoryFromInput(input, adminId);
-        if (categoryResult) {
-          resolved.push({
-            input,
-            category: categoryResult.category,
-            activeFilename: categoryResult.category
-          });
-          continue;
-        }
-
-        // Step 2: Fall back to filename → get its category
-        const matchedDoc = allDocs.find((doc: any) => 
-          doc.filename.toLowerCase() === input.toLowerCase() ||
-          doc.filename.toLowerCase().includes(input.toLowerCase()) ||
-          input.toLowerCase().includes(doc.filename.toLowerCase())
-        );
-        
-        if (matchedDoc) {
-          const category = matchedDoc.category || matchedDoc.filename;
+        const familyResult = await this.familyService.resolveFamilyFromInput(input, adminId);
+        if (familyResult) {
           resolved.push({
             input,
-            category,
-            activeFilename: category
+            familyId: familyResult.family.id,
+            family: familyResult.family.name,
+            category: familyResult.family.category,
+            activeFilename: familyResult.family.active_filename ?? null
           });
           continue;
         }
@@ -255,7 +341,7 @@ export class LegalComplianceAgent {
         // Could not resolve
         unresolved.push(input);
       } catch (error) {
-        logger.warn('Error resolving input to category', { input, error });
+        logger.warn('Error resolving input to document family', { input, error });
         unresolved.push(input);
       }
     }
@@ -279,7 +365,49 @@ export class LegalComplianceAgent {
               query: {
                 type: "string",
                 description: "The search query or question about document content"
-              }
+              },
+              categories: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only search these categories (e.g. 'Provincial Legislation / Acts', 'Supreme Court Judgments')."
+              },
+              documents: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only search these documents, by name (e.g. 'Punjab Police Order'). Use when the user names a specific law or judgment."
+              },
+              version: {
+                type: "integer",
+                description: "Optional. Search this version number of the named documents instead of the active version."
+              },
+              as_of_date: {
+                type: "string",
+                description: "Optional. YYYY-MM-DD: search the versions that were in force on this date (e.g. the date of an offence, contract or judgment). Use whenever the user asks what the law was at a past date."
+              },
+              page_from: { type: "integer", description: "Optional. First page to search." },
+              page_to: { type: "integer", description: "Optional. Last page to search." },
+              courts: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only judgments of these courts (e.g. 'Supreme Court', 'Lahore High Court')."
+              },
+              judges: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only judgments where one of these judges sat on the bench (e.g. 'Qazi Faez Isa')."
+              },
+              parties: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only judgments with one of these parties (e.g. 'Province of Punjab')."
+              },
+              disposition: {
+                type: "string",
+                enum: ["allowed", "partly_allowed", "dismissed", "remanded", "disposed_of", "withdrawn"],
+                description: "Optional. Only judgments with this outcome (e.g. 'appeals that were dismissed')."
+              },
+              decided_from: { type: "string", description: "Optional. YYYY-MM-DD: only judgments decided on or after this date." },
+              decided_to: { type: "string", description: "Optional. YYYY-MM-DD: only judgments decided on or before this date." }
             },
             required: ["query"]
           }
@@ -289,7 +417,7 @@ export class LegalComplianceAgent {
         type: "function" as const,
         function: {
           name: "analyze_documents",
-          description: "Unified tool for document analysis: version comparison OR conflict detection. Automatically determines action based on inputs. 1 input → version comparison. 2+ inputs → conflict detection across categories. Resolves categories/document names automatically.",
+          description: "Unified tool for document analysis: version comparison OR conflict detection. Automatically determines action based on inputs. Inputs resolving to 1 document → version comparison across its versions. 2+ different documents → conflict detection between them. Resolves document names/categories automatically.",
           parameters: {
             type: "object",
             properties: {
@@ -389,6 +517,82 @@ export class LegalComplianceAgent {
             required: ["document_a", "document_b"]
           }
         }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "citation_graph",
+          description: "Use for citation questions between judgments and statutes. direction='cited_by': which judgments/documents cite a provision, case or statute (e.g. 'which judgments cite Article 199', 'cases relying on Section 302 PPC', 'who cites PLD 2019 SC 123'). direction='cites': what a given judgment/document relies on (e.g. 'what does this judgment rely on', 'authorities cited in X'). Do NOT use to explain what a provision says (use search_documents).",
+          parameters: {
+            type: "object",
+            properties: {
+              direction: {
+                type: "string",
+                enum: ["cited_by", "cites"],
+                description: "'cited_by' = documents citing the reference; 'cites' = authorities cited by the referenced document"
+              },
+              reference: {
+                type: "string",
+                description: "For cited_by: a citation ('Article 184(3)', 'Section 497 CrPC', '2021 SCMR 456') or a document name. For cites: the judgment/document name."
+              }
+            },
+            required: ["direction", "reference"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "find_precedents",
+          description: "Use for case-law research: judgments where the court held something on a legal issue ('cases where the court held that a civil servant cannot be removed without a show cause notice', 'precedents on bail in cases of delay in trial', 'what have the courts said about pre-arrest bail'). Returns one entry per judgment with its holding, ratio and a pinpoint paragraph, ranked by relevance to the issue with higher courts (Supreme Court > Federal Shariat Court > High Courts > district courts) preferred among similarly relevant judgments, with judgments later overruled or distinguished flagged. Do NOT use to explain statutory text (use search_documents) or to list who cites a citation (use citation_graph).",
+          parameters: {
+            type: "object",
+            properties: {
+              issue: {
+                type: "string",
+                description: "The legal issue or proposition to find holdings on"
+              },
+              courts: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional. Only judgments of these courts (e.g. 'Supreme Court', 'Lahore High Court')."
+              },
+              decided_from: { type: "string", description: "Optional. YYYY-MM-DD: only judgments decided on or after this date." },
+              decided_to: { type: "string", description: "Optional. YYYY-MM-DD: only judgments decided on or before this date." },
+              limit: {
+                type: "number",
+                description: "Max judgments to return (default 6, at most 10)"
+              }
+            },
+            required: ["issue"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "check_constitutional_repugnancy",
+          description: "Use when user asks whether a provincial Act, ordinance, rules or an SRO is unconstitutional, ultra vires, repugnant to or inconsistent with the Constitution, or whether a provincial law is inconsistent with a federal law (Article 143). Checks ONE subordinate instrument against the constitutional and federal provisions it touches. Do NOT use for conflicts between peer documents (use analyze_documents).",
+          parameters: {
+            type: "object",
+            properties: {
+              instrument: {
+                type: "string",
+                description: "The Act, ordinance, rules or SRO to check (document name)"
+              },
+              topic: {
+                type: "string",
+                description: "Optional matter to focus on e.g. 'freedom of assembly' or 'land acquisition compensation'"
+              },
+              against: {
+                type: "array",
+                items: { type: "string" },
+                description: "Optional federal Acts (names or categories) to test it against; by default the Constitution and the closest federal Acts"
+              }
+            },
+            required: ["instrument"]
+          }
+        }
       }
     ];
   }
@@ -400,7 +604,8 @@ export class LegalComplianceAgent {
     toolName: string,
     args: any,
     adminId: number,
-    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
+    conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    scope?: SearchFilters
   ): Promise<any> {
     const startTime = Date.now();
     logger.info('Tool start', { toolName, argsPreview: JSON.stringify(args).substring(0, 60) });
@@ -415,11 +620,13 @@ export class LegalComplianceAgent {
               .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
               .join('\n');
           }
+          const filters = mergeSearchFilters(scope, await this.toolSearchFilters(args, adminId));
           const searchResult = await this.queryService.processQuery(
             args.query,
             adminId,
             false,
-            sessionContext
+            sessionContext,
+            filters
           );
           logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
           return searchResult;
@@ -431,37 +638,29 @@ export class LegalComplianceAgent {
           const version1 = args.version1;
           const version2 = args.version2;
 
-          // Step 1: Resolve inputs to categories
-          const { resolved, unresolved } = await this.resolveToCategories(inputs, adminId);
-          logger.debug('Resolved inputs to categories', { resolved: resolved.length, unresolved: unresolved.length });
+          // Step 1: Resolve inputs to document families
+          const { resolved, unresolved } = await this.resolveToFamilies(inputs, adminId);
+          logger.debug('Resolved inputs to document families', { resolved: resolved.length, unresolved: unresolved.length });
 
           if (unresolved.length > 0 && resolved.length === 0) {
-            // All unresolved - return available categories
-            const categoriesQuery = `
-              SELECT DISTINCT category
-              FROM documents
-              WHERE admin_id = $1 AND is_active = true AND category IS NOT NULL
-              ORDER BY category
-            `;
-            const categoriesResult = await pool.query(categoriesQuery, [adminId]);
-            const availableCategories = categoriesResult.rows
-              .map((r: any) => r.category)
-              .filter(Boolean);
+            // All unresolved - return available documents
+            const families = await this.familyService.listFamilies(adminId);
+            const availableDocuments = families.filter((f) => f.version_count).map((f) => f.name);
             throw new Error(
-              `Could not resolve "${unresolved.join('" and "')}", Available categories: ${availableCategories.join(', ') || 'None'}`
+              `Could not resolve "${unresolved.join('" and "')}", Available documents: ${availableDocuments.join(', ') || 'None'}`
             );
           }
 
-          // Step 2: Determine action based on unique category count
-          const uniqueCategories = Array.from(new Set(resolved.map(r => r.category)));
+          // Step 2: Determine action based on unique family count
+          const uniqueFamilies = Array.from(new Map(resolved.map(r => [r.familyId, r])).values());
 
-          if (uniqueCategories.length === 1) {
-            // Single category → version comparison
-            const category = uniqueCategories[0];
+          if (uniqueFamilies.length === 1) {
+            // Single document family → version comparison
+            const family = uniqueFamilies[0].family;
             if (version1 && version2) {
               // Compare specific versions
               const compResult = await this.versionService.processComparison(
-                `compare ${category} version ${version1} and ${version2}`,
+                `compare ${family} version ${version1} and ${version2}`,
                 adminId
               );
               logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
@@ -471,7 +670,7 @@ export class LegalComplianceAgent {
               throw new Error(compResult.error || 'Version comparison failed');
             } else {
               // Compare all versions
-              const allResult = await this.versionService.compareAllVersions(category, adminId);
+              const allResult = await this.versionService.compareAllVersions(family, adminId);
               logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
               if ('error' in allResult) {
                 throw new Error(allResult.error || 'Compare all versions failed');
@@ -479,9 +678,13 @@ export class LegalComplianceAgent {
               return { ...allResult, detail, analysis_type: 'version_comparison' };
             }
           } else {
-            // Multiple categories → conflict detection
-            const categories = uniqueCategories;
-            const conflictResult = await this.conflictService.detectConflicts(categories, adminId, detail);
+            // Multiple families → conflict detection, by category when each family has its own category,
+            // otherwise by the families' active documents
+            const categories = Array.from(new Set(uniqueFamilies.map(f => f.category).filter((c): c is string => !!c)));
+            const targets = categories.length === uniqueFamilies.length
+              ? categories
+              : uniqueFamilies.map(f => f.activeFilename || f.family);
+            const conflictResult = await this.conflictService.detectConflicts(targets, adminId, detail);
             logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
             return { ...conflictResult, detail, analysis_type: 'conflict_detection' };
           }
@@ -524,12 +727,12 @@ export class LegalComplianceAgent {
         case "list_available_documents": {
           const listResult = await this.documentService.listDocuments(adminId);
           logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
-          // Group by document name
+          // Group by document family
           const grouped = listResult.documents.reduce((acc: any, doc: any) => {
-            const key = doc.filename;
+            const key = doc.family_id || doc.filename;
             if (!acc[key]) {
               acc[key] = {
-                name: doc.filename,
+                name: doc.family_name || doc.filename,
                 category: doc.category,
                 versions: [],
                 latest_version: null
@@ -546,10 +749,9 @@ export class LegalComplianceAgent {
 
         case "get_document_versions": {
           const versionResult = await this.documentService.getDocumentVersions(args.document_name, adminId);
-          const resolvedName = await this.documentService.findDocumentByName(args.document_name, adminId);
           logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
           return {
-            document_name: resolvedName || args.document_name,
+            document_name: versionResult.family || args.document_name,
             versions: versionResult.versions,
             confidence: versionResult.confidence
           };
@@ -579,6 +781,37 @@ export class LegalComplianceAgent {
           logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
           return gapResult;
 
+        case "citation_graph": {
+          const citationResult = args.direction === 'cites'
+            ? await this.citationService.findCitedAuthorities(args.reference, adminId)
+            : await this.citationService.findCitingDocuments(args.reference, adminId);
+          logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
+          return { ...citationResult, direction: args.direction === 'cites' ? 'cites' : 'cited_by' };
+        }
+
+        case "find_precedents": {
+          const precedentFilters = normalizeSearchFilters({
+            courts: args.courts,
+            decidedFrom: args.decided_from,
+            decidedTo: args.decided_to,
+          });
+          const precedentResult = await this.precedentService.findPrecedents(args.issue, adminId, {
+            filters: mergeSearchFilters(scope, precedentFilters),
+            limit: typeof args.limit === 'number' ? args.limit : undefined,
+          });
+          logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
+          return precedentResult;
+        }
+
+        case "check_constitutional_repugnancy": {
+          const repugnancyResult = await this.repugnancyService.checkInstrument(args.instrument, adminId, {
+            topic: args.topic || undefined,
+            against: Array.isArray(args.against) && args.against.length > 0 ? args.against : undefined,
+          });
+          logger.debug('Tool completed', { toolName, elapsed: Date.now() - startTime });
+          return repugnancyResult;
+        }
+
         default:
           throw new Error(`Unknown tool: ${toolName}`);
       }
@@ -597,15 +830,21 @@ export class LegalComplianceAgent {
   /**
    * Format tool results for the LLM - now returns structured data
    */
-  private formatToolResult(toolName: string, result: any, toolCallId: string): ToolResultWithMetadata {
+  private formatToolResult(
+    toolName: string,
+    result: any,
+    toolCallId: string,
+    toolResults: ToolResultStore,
+    args?: any
+  ): ToolResultWithMetadata {
     if (result.error) {
       return {
         text: `Error executing ${toolName}: ${result.message}`
       };
     }
 
-    // Store full result for later citation extraction
-    this.toolResultsMetadata.set(toolCallId, { toolName, result });
+    // Store full result (and arguments, for analysis runs) for later citation extraction
+    toolResults.set(toolCallId, { toolName, args, result });
 
     switch (toolName) {
       case "search_documents":
@@ -663,9 +902,11 @@ export class LegalComplianceAgent {
                   else if (item.similarity_score < 0.8) changeLevel = 'moderate';
                 }
                 
-                sections.push(`    ~ [${item.section_name}]:`);
+                sections.push(`    ~ [${item.section_name}]${changeTags(item)}:`);
                 sections.push(`      Before: ${oldPreview}${oldTruncated}`);
                 sections.push(`      After:  ${newPreview}${newTruncated}`);
+                const wording = item.redline ? describeRedline(item.redline) : [];
+                if (wording.length > 0) sections.push(`      Wording: ${wording.join('; ')}`);
                 sections.push(`      Change: ${changeLevel}`);
               });
             }
@@ -706,7 +947,7 @@ export class LegalComplianceAgent {
             }
 
             return {
-              text: `Version Comparison for ${result.category} Category:\n\n${lines.join('\n')}`,
+              text: `Version Comparison for ${result.family ?? result.category}:\n\n${lines.join('\n')}`,
               citations: allCitations
             };
           }
@@ -786,9 +1027,11 @@ export class LegalComplianceAgent {
                 else if (item.similarity_score < 0.8) changeLevel = 'moderate';
               }
               
-              sections.push(`~ [${item.section_name}]:`);
+              sections.push(`~ [${item.section_name}]${changeTags(item)}:`);
               sections.push(`  Before: ${oldPreview}${oldTruncated}`);
               sections.push(`  After:  ${newPreview}${newTruncated}`);
+              const wording = item.redline ? describeRedline(item.redline) : [];
+              if (wording.length > 0) sections.push(`  Wording: ${wording.join('; ')}`);
               sections.push(`  Change: ${changeLevel}`);
             });
           }
@@ -838,7 +1081,7 @@ export class LegalComplianceAgent {
           }
 
           return {
-            text: `Version Comparison for ${result.category} Category:\n\n${lines.join('\n')}`,
+            text: `Version Comparison for ${result.family ?? result.category}:\n\n${lines.join('\n')}`,
             citations: allCitations
           };
         }
@@ -959,6 +1202,73 @@ ${result.llm_summary}`,
           ]
         };
 
+      case "citation_graph": {
+        if (result.direction === 'cites') {
+          const formatGroup = (label: string, items: any[]) => items.length > 0
+            ? `\n${label}:\n${items.map((a: any) => `• ${a.citation} (${a.mentions}x)${a.linked_document ? ` → ${a.linked_document}` : ''}`).join('\n')}`
+            : '';
+          return {
+            text: `Authorities cited by ${result.document_name} (${result.total_citations}):${formatGroup('Law reports', result.law_reports)}${formatGroup('Statutes', result.statutes)}${formatGroup('Constitution', result.constitution_articles)}${result.total_citations === 0 ? '\nNo citations were found in this document.' : ''}`,
+            citations: []
+          };
+        }
+
+        const citingText = result.documents
+          .map((d: any) => `• ${d.document_name} (v${d.version}${d.is_active ? '' : ', outdated'}) - ${d.mentions} mention(s): ${d.citations.join(', ')}`)
+          .join('\n');
+        return {
+          text: `Documents citing ${result.resolved_as} (${result.total_documents}):\n${citingText || 'No documents cite this reference.'}`,
+          citations: result.documents.slice(0, 10).map((d: any) => ({
+            document_name: d.document_name,
+            version: d.version,
+            section: d.excerpts[0]?.section || 'N/A',
+            page: d.excerpts[0]?.page || null,
+            content: d.excerpts[0]?.content || `Cites ${d.citations.join(', ')}`,
+            relevance_score: 0.9
+          }))
+        };
+      }
+
+      case "find_precedents": {
+        const precedentsText = result.precedents
+          .map((p: any, i: number) => {
+            const heading = [p.court, p.decision_date, p.case_number].filter(Boolean).join(', ');
+            const treatments = p.treatments
+              .map((t: any) => `\n  ⚠️ ${t.treatment === 'overruled' ? 'Possibly overruled' : 'Distinguished'} in ${t.by}${t.court ? ` (${t.court}${t.decision_date ? `, ${t.decision_date}` : ''})` : ''}: "${t.excerpt}"`)
+              .join('');
+            return `\n${i + 1}. ${p.document_name}${heading ? ` — ${heading}` : ''}
+  Pinpoint: ${p.pinpoint}
+  Holding: ${p.holding}${p.ratio ? `\n  Ratio: ${p.ratio}` : ''}${p.disposition ? `\n  Disposition: ${p.disposition.replace(/_/g, ' ')}` : ''}${p.extraction === 'excerpt' ? '\n  (holding not extracted; best matching passage shown)' : ''}${treatments}`;
+          })
+          .join('');
+        return {
+          text: `Precedents on "${result.issue}"${result.filters ? ` (${result.filters})` : ''}:
+Summary: ${result.summary}
+Ranked by relevance to the issue, with higher courts (Supreme Court > Federal Shariat Court > High Court > district courts) first among similarly relevant judgments.${precedentsText}`,
+          citations: this.extractPrecedentCitations(result)
+        };
+      }
+
+      case "check_constitutional_repugnancy": {
+        const provisionsText = result.provisions_touched
+          .map((p: any) => `• ${p.document}: ${p.provision}`)
+          .join('\n');
+        const findingsText = result.conflicts
+          .map((c: any, i: number) => `\nFinding ${i + 1} [${c.severity}] under ${c.governing_provision || c.document_b.section || c.document_b.name}: ${c.description}
+  ${c.document_a.name}${c.document_a.section ? ` (${c.document_a.section})` : ''}: "${c.document_a.excerpt}"
+  ${c.document_b.name}${c.document_b.section ? ` (${c.document_b.section})` : ''}: "${c.document_b.excerpt}"${c.recommendation ? `\n  Recommendation: ${c.recommendation}` : ''}`)
+          .join('');
+        return {
+          text: `Repugnancy Check: ${result.instrument} (${result.instrument_level} instrument)
+Checked against: ${result.governing_documents.join(', ')}
+Provisions touched:\n${provisionsText || 'No closely matching provisions found.'}
+Possible inconsistencies: ${result.conflicts_found}
+Summary: ${result.summary}${findingsText}`,
+          conflicts: result.conflicts,
+          citations: this.extractConflictCitations(result)
+        };
+      }
+
       default:
         return {
           text: JSON.stringify(result)
@@ -966,23 +1276,61 @@ ${result.llm_summary}`,
     }
   }
 
+  /**
+   * One LLM turn streamed token by token. Content tokens are forwarded through onDelta as they arrive;
+   * tool-call turns stream only arguments, which are accumulated and returned like an invoke() result.
+   */
+  private async streamTurn(messages: any[], tools: any[], onDelta: (delta: string) => void): Promise<any> {
+    const stream = await llm.stream(messages, {
+      tools: tools as any,
+      tool_choice: "auto"
+    });
+
+    let message: any;
+    for await (const chunk of stream) {
+      message = message ? message.concat(chunk) : chunk;
+      const delta = typeof chunk.content === 'string' ? chunk.content : '';
+      if (delta) onDelta(delta);
+    }
+
+    // Merged streaming tool calls carry their chunk index; send them back to the API in the invoke() shape
+    const toolCalls = message?.additional_kwargs?.tool_calls;
+    if (toolCalls?.length) {
+      message.additional_kwargs.tool_calls = toolCalls.map((tc: any) => ({
+        id: tc.id,
+        type: tc.type || 'function',
+        function: { name: tc.function?.name, arguments: tc.function?.arguments || '{}' }
+      }));
+    }
+    return message;
+  }
+
   /**
    * Main agent processing with function calling and UNIVERSAL citation tracking.
    * Optional conversationHistory: when provided, last 3-5 exchanges are included so follow-up questions have context.
+   * Optional onDelta: streams answer tokens as the LLM produces them. A turn that streamed text and then
+   * called tools is followed by tool log events, so listeners should discard streamed text when a log arrives;
+   * the returned answer is authoritative (confidence notes may be appended after streaming).
+   * Optional filters: conversation scope from the chat filter bar; every document search stays within it.
    */
   async processQuery(
     userQuery: string,
     adminId: number,
     maxIterations: number = 5,
     onLog?: (stage: string, message: string) => void,
-    conversationHistoryParam?: Array<{ role: 'user' | 'assistant'; content: string }>
+    conversationHistoryParam?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    onDelta?: (delta: string) => void,
+    filters?: SearchFilters
   ): Promise<AgentResult> {
     const log = onLog || (() => {});
     logger.info('Legal Compliance Agent starting', { query: userQuery });
     log('AGENT_START', 'Processing your question...');
+    if (filters) {
+      log('AGENT_START', `Searching within: ${describeSearchFilters(filters)}`);
+    }
 
-    // Reset metadata storage
-    this.toolResultsMetadata.clear();
+    // Full tool results of this call only
+    const toolResultStore: ToolResultStore = new Map();
 
     const tools = this.getTools();
     const toolCalls: string[] = [];
@@ -1095,20 +1443,25 @@ CONSISTENCY & ACCURACY REQUIREMENTS:
 Tool Selection Guidelines:
 - Use search_documents for direct factual questions about document content
 - USE analyze_documents for document analysis tasks:
-  - 1 input (category/document name) → version history/comparison
-  - 2+ inputs (multiple categories/documents) → conflict detection
+  - 1 document (document name/category) → version history/comparison across that document's versions
+  - 2+ different documents → conflict detection
   - Examples: "what changed in constitution?" → analyze_documents(inputs:["constitution"]), "compare constitution and rules?" → analyze_documents(inputs:["constitution", "rules"])
   - detail=false (DEFAULT): "how many", "summary", "overview", "brief", or first-time general question
   - detail=true: "explain", "show", "detail", "elaborate", "tell me more", or follow-ups like "explain those changes"
 - Use list_available_documents when user asks what documents exist
 - Use find_related_documents when user asks "what documents relate to X", "find similar policies", "what else covers this topic"
 - Use gap_analysis when user asks "what is missing from", "compare coverage", "what does A have that B doesn't", "gaps between documents"
+- Use check_constitutional_repugnancy when user asks whether a provincial Act, ordinance, rules or SRO is unconstitutional, ultra vires or inconsistent with the Constitution or a federal law ("is the Punjab ordinance repugnant to Article 19?", "does this SRO violate the Constitution?")
+- Use find_precedents for case-law research: "cases where the court held X", "precedents on Y", "what have the courts said about Z". Quote each holding with its pinpoint citation, keep the ranking, and warn about judgments flagged as overruled or distinguished
+- Use citation_graph when user asks which judgments cite a provision/case/statute ("which judgments cite Article 199") or what a judgment relies on ("what does this judgment rely on")
 - Call multiple tools if needed for comprehensive answers
 
 Tool Disambiguation:
 - analyze_documents vs search_documents: Use search_documents for answering FROM documents. Use analyze_documents for comparing/analyzing versions or conflicts.
-- gap_analysis vs analyze_documents: Use analyze_documents for version changes within a category or conflicts across categories. Use gap_analysis for topic coverage differences.
+- gap_analysis vs analyze_documents: Use analyze_documents for version changes within a document or conflicts across documents. Use gap_analysis for topic coverage differences.
 - find_related_documents vs search_documents: Use search_documents for answering questions. Use find_related_documents for discovering related documents.
+- find_precedents vs search_documents vs citation_graph: Use find_precedents for holdings of judgments on an issue. Use search_documents for what a statute or a particular document says. Use citation_graph for which documents cite a given citation.
+- check_constitutional_repugnancy vs analyze_documents: Use check_constitutional_repugnancy when one instrument is tested against higher law (Constitution, federal Acts). Use analyze_documents for conflicts between documents of equal standing.
 
 FIRST MESSAGE / NO GREETING REQUIRED:
 - Answer the user's question immediately. Do NOT require or wait for a greeting first.
@@ -1122,8 +1475,12 @@ GREETING HANDLING (only when the message is purely a greeting):
 FOLLOW-UP CONTEXT:
 - Always read conversation history before deciding which tool to call
 - "is it same in all versions?" → extract topic from previous message → call analyze_documents with that category
-- "any conflicts?" → extract categories from previous message → call analyze_documents with those categories
-- "what changed?" (about version history) → extract category from previous message → call analyze_documents
+- "any conflicts?" → extract documents from previous message → call analyze_documents with those documents
+- "what changed?" (about version history) → extract document from previous message → call analyze_documents
+
+POINT-IN-TIME QUESTIONS:
+- "what was the punishment under section 302 in 2015?", "the law on the date of the offence (12 March 2018)" → call search_documents with as_of_date (YYYY-MM-DD; use the first day of the month or year when only those are given)
+- In the answer, state which version you relied on and the dates it was in force (the search result lists them)
 
 CRITICAL: DETAIL MODE FOR analyze_documents FOLLOW-UPS:
 When user asks "explain those changes", "show me the changes", "tell me more", "elaborate on those", "show details", "expand on that", or "what was added/removed" (AFTER receiving a version comparison):
@@ -1184,11 +1541,13 @@ Example BAD answer: "I believe the probation period is probably around 90 days."
       logger.debug('Agent iteration', { iteration, maxIterations });
       log('LLM_THINKING', 'Analyzing your question and deciding which tools to use...');
 
-      // Call LLM with tools
-      const response = await llm.invoke(conversationHistory, {
-        tools: tools as any,
-        tool_choice: "auto"
-      });
+      // Call LLM with tools (streamed when the caller listens for answer tokens)
+      const response = onDelta
+        ? await this.streamTurn(conversationHistory, tools, onDelta)
+        : await llm.invoke(conversationHistory, {
+            tools: tools as any,
+            tool_choice: "auto"
+          });
 
       const message = response;
       
@@ -1216,8 +1575,8 @@ Example BAD answer: "I believe the probation period is probably around 90 days."
           log('TOOL_START', friendlyNames[toolName] || `Running ${toolName}...`);
 
           // Execute in parallel
-          const result = await this.executeTool(toolName, toolArgs, adminId, recentHistory);
-          const formattedResult = this.formatToolResult(toolName, result, toolCall.id);
+          const result = await this.executeTool(toolName, toolArgs, adminId, recentHistory, filters);
+          const formattedResult = this.formatToolResult(toolName, result, toolCall.id, toolResultStore, toolArgs);
 
           log('TOOL_DONE', `Completed ${toolName.replace(/_/g, ' ')}`);
           return {
@@ -1262,8 +1621,8 @@ Example BAD answer: "I believe the probation period is probably around 90 days."
         conversationHistory.push(...toolResults);
 
       } else {
-        // No more tool calls - LLM has final answer
-        log('GENERATING', 'Generating final answer...');
+        // No more tool calls - LLM has final answer (already streamed when onDelta is set)
+        if (!onDelta) log('GENERATING', 'Generating final answer...');
         finalAnswer = message.content.toString();
         logger.info('Agent completed');
         break;
@@ -1301,7 +1660,7 @@ Example BAD answer: "I believe the probation period is probably around 90 days."
     let aggregatedConfidence = 0;
     if (toolCalls.length > 0) {
       // Extract confidence from tool results
-      for (const [toolCallId, metadata] of this.toolResultsMetadata.entries()) {
+      for (const metadata of toolResultStore.values()) {
         if (metadata.result?.confidence !== undefined) {
           aggregatedConfidence = Math.max(aggregatedConfidence, metadata.result.confidence);
         }
@@ -1349,12 +1708,35 @@ Example BAD answer: "I believe the probation period is probably around 90 days."
       aggregatedConfidence = 0;
     }
 
+    const reports = await this.storeAnalysisRuns(adminId, toolResultStore);
+
     return {
       answer: finalAnswer,
       tool_calls: toolCalls,
       citations: finalCitations.length > 0 ? finalCitations : undefined,
       confidence: aggregatedConfidence,
-      reasoning: `Used ${toolCalls.length} tool(s): ${toolCalls.join(', ')}`
+      reasoning: `Used ${toolCalls.length} tool(s): ${toolCalls.join(', ')}`,
+      reports: reports.length > 0 ? reports : undefined
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Store the conflict, gap and version analyses of this answer as analysis runs, so they can be revisited and
+   * re-run, and the chat can offer them as PDF / DOCX reports. A failed save only loses the run, not the answer.
+   */
+  private async storeAnalysisRuns(adminId: number, toolResults: ToolResultStore): Promise<NonNullable<AgentResult['reports']>> {
+    const runs: NonNullable<AgentResult['reports']> = [];
+    for (const { toolName, args, result } of toolResults.values()) {
+      const request = analysisRequestFor(toolName, args ?? {}, result);
+      // A family with a single version has nothing to compare
+      if (!request || (request.type === 'versions' && Array.isArray(result.comparisons) && result.comparisons.length === 0)) continue;
+      try {
+        const run = await this.analysisRunService.recordRun(adminId, request, result);
+        runs.push({ id: run.id, type: run.analysis_type, title: run.title });
+      } catch (error) {
+        logger.warn('Could not store analysis run', { toolName, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return runs;
+  }
+}
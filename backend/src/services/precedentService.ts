@@ -0,0 +1,358 @@
+import pool from '../config/database';
+import { llm } from '../config/providers';
+import { QueryService, RetrievedChunk } from './queryService';
+import { CitationRepository } from '../repositories/citationRepository';
+import { COURT_LEVEL_RANK, CourtLevel, Disposition, JudgmentMetadata, courtLevelOf } from '../utils/judgmentMetadata';
+import { SearchFilters, describeSearchFilters, mergeSearchFilters } from '../utils/searchFilters';
+import { mapWithConcurrency } from '../utils/concurrency';
+import logger from '../utils/logger';
+
+/** How a later judgment treated a precedent, read from the text around its citation */
+export interface PrecedentTreatment {
+  treatment: 'overruled' | 'distinguished';
+  by: string;
+  court: string | null;
+  decision_date: string | null;
+  excerpt: string;
+}
+
+export interface Precedent {
+  document_id: string;
+  document_name: string;
+  category: string | null;
+  court: string | null;
+  court_level: CourtLevel;
+  decision_date: string | null;
+  reported_as: string | null;
+  case_number: string | null;
+  disposition: Disposition | null;
+  /** What the court decided on the issue */
+  holding: string;
+  /** The principle the decision rests on */
+  ratio: string | null;
+  paragraph: string | null;
+  page: number | null;
+  section: string | null;
+  /** "PLD 2019 SC 123, para 12" */
+  pinpoint: string;
+  excerpt: string;
+  relevance: number;
+  /** 'llm' when the holding was extracted, 'excerpt' when it is the best-matching passage */
+  extraction: 'llm' | 'excerpt';
+  treatments: PrecedentTreatment[];
+}
+
+export interface PrecedentSearchResult {
+  issue: string;
+  filters: string;
+  judgments_found: number;
+  precedents: Precedent[];
+  summary: string;
+  confidence: number;
+}
+
+interface JudgmentRow {
+  id: string;
+  filename: string;
+  category: string | null;
+  family_id: string | null;
+  family_name: string | null;
+  judgment: JudgmentMetadata | null;
+  reported_as: string | null;
+}
+
+const SEARCH_TOP_K = 60;                   // chunks retrieved before grouping by judgment
+const MAX_PASSAGES_PER_JUDGMENT = 3;
+const DEFAULT_PRECEDENTS = 6;
+const MAX_PRECEDENTS = 10;
+const EXTRACTION_CONCURRENCY = 3;
+const MAX_PASSAGE_CHARS = 1800;
+const EXCERPT_CHARS = 400;
+const TREATMENT_WINDOW_CHARS = 300;        // text read on each side of a citation
+/** Ranking bonus of a Supreme Court judgment over one whose court is not identified, on relevance scaled to 0–1 */
+const COURT_LEVEL_WEIGHT = 0.15;
+
+/** Numbered paragraphs of a judgment: "12. The learned counsel …" at the start of a line */
+const PARAGRAPH_MARKER = /(?:^|\n)[ \t]*(\d{1,3})\.[ \t]+(?=["'“(A-Z])/g;
+const OVERRULED_PATTERN = /\b(over-?rul(?:ed|ing)|(?:is|was)\s+not\s+(?:a\s+)?good\s+law|per\s+incuriam|no\s+longer\s+(?:holds|good\s+law))\b/i;
+const DISTINGUISHED_PATTERN = /\bdistinguish(?:ed|able|ing)\b/i;
+
+const COURT_LEVEL_LABELS: Record<CourtLevel, string> = {
+  supreme: 'Supreme Court',
+  shariat: 'Federal Shariat Court',
+  high: 'High Court',
+  district: 'District Court',
+  unknown: 'Court not identified',
+};
+
+function paragraphsIn(content: string): string[] {
+  return [...content.matchAll(PARAGRAPH_MARKER)].map((m) => m[1]);
+}
+
+/** First sentences of a passage, up to about maxChars */
+function leadingSentences(content: string, maxChars: number = EXCERPT_CHARS): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const end = cut.lastIndexOf('. ');
+  return end > maxChars / 2 ? cut.slice(0, end + 1) : `${cut}…`;
+}
+
+/**
+ * Precedent research: judgments on a legal issue, each with its holding and ratio and a pinpoint paragraph,
+ * ranked by relevance to the issue with a bonus for court hierarchy (Supreme Court > Federal Shariat Court >
+ * High Courts > district courts), then by recency.
+ * Judgments later overruled or distinguished are flagged from the citation graph.
+ */
+export class PrecedentService {
+  private queryService: QueryService;
+
+  constructor() {
+    this.queryService = new QueryService();
+  }
+
+  async findPrecedents(
+    issue: string,
+    adminId: number,
+    options: { filters?: SearchFilters; limit?: number } = {}
+  ): Promise<PrecedentSearchResult> {
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_PRECEDENTS), MAX_PRECEDENTS);
+    const filters = mergeSearchFilters(options.filters, { judgmentsOnly: true })!;
+    logger.info('Starting precedent search', { issue, filters: describeSearchFilters(filters) });
+
+    const { candidates } = await this.queryService.retrieve(issue, adminId, { searchTopK: SEARCH_TOP_K }, false, filters);
+
+    const byJudgment = new Map<string, RetrievedChunk[]>();
+    for (const chunk of candidates) {
+      if (!chunk.document_id) continue;
+      const passages = byJudgment.get(chunk.document_id) ?? [];
+      passages.push(chunk);
+      byJudgment.set(chunk.document_id, passages);
+    }
+    // Best passages first; a judgment is as relevant as its best passage
+    const grouped = [...byJudgment.entries()]
+      .map(([documentId, chunks]) => ({
+        documentId,
+        passages: chunks.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_PASSAGES_PER_JUDGMENT),
+      }))
+      .sort((a, b) => b.passages[0].similarity - a.passages[0].similarity)
+      .slice(0, limit);
+
+    const judgments = await this.loadJudgments(grouped.map((g) => g.documentId), adminId);
+    const extracted = await mapWithConcurrency(grouped, EXTRACTION_CONCURRENCY, async ({ documentId, passages }) => {
+      const row = judgments.get(documentId);
+      return row ? this.extractHolding(issue, row, passages) : null;
+    });
+    const precedents = extracted.filter((p): p is Precedent => p !== null);
+
+    await this.attachTreatments(precedents, judgments, adminId);
+
+    this.rank(precedents);
+
+    logger.info('Precedent search done', { issue, judgments: byJudgment.size, precedents: precedents.length });
+    const usedLlm = precedents.some((p) => p.extraction === 'llm');
+    return {
+      issue,
+      filters: describeSearchFilters(filters),
+      judgments_found: byJudgment.size,
+      precedents,
+      summary: this.summarize(issue, precedents),
+      confidence: precedents.length === 0 ? 20 : usedLlm ? 85 : 70,
+    };
+  }
+
+  /**
+   * Order precedents by relevance (scaled to 0–1 within the result, since cross-encoder scores are not bounded)
+   * plus a court hierarchy bonus, so a higher court only moves ahead of a clearly more relevant judgment when the
+   * two are close; ties go to the more recent decision
+   */
+  private rank(precedents: Precedent[]): void {
+    const relevances = precedents.map((p) => p.relevance);
+    const min = Math.min(...relevances);
+    const span = Math.max(...relevances) - min || 1;
+    const maxLevel = Math.max(...Object.values(COURT_LEVEL_RANK));
+    const score = (p: Precedent) =>
+      (p.relevance - min) / span + COURT_LEVEL_WEIGHT * (COURT_LEVEL_RANK[p.court_level] / maxLevel);
+    precedents.sort((a, b) => score(b) - score(a) || (b.decision_date ?? '').localeCompare(a.decision_date ?? ''));
+  }
+
+  private async loadJudgments(documentIds: string[], adminId: number): Promise<Map<string, JudgmentRow>> {
+    if (documentIds.length === 0) return new Map();
+    const result = await pool.query(
+      `SELECT d.id, d.filename, d.category, d.family_id, f.name AS family_name,
+              d.metadata->'judgment' AS judgment, d.metadata->>'reportedAs' AS reported_as
+       FROM documents d
+       LEFT JOIN document_families f ON f.id = d.family_id
+       WHERE d.id = ANY($1::varchar[]) AND d.admin_id = $2`,
+      [documentIds, adminId]
+    );
+    return new Map(result.rows.map((row: JudgmentRow) => [row.id, row]));
+  }
+
+  /**
+   * Holding, ratio and pinpoint paragraph of one judgment on the issue, read from its best passages by the LLM.
+   * Null when the LLM finds the judgment does not decide the issue; falls back to the best passage when the
+   * LLM call fails.
+   */
+  private async extractHolding(issue: string, row: JudgmentRow, passages: RetrievedChunk[]): Promise<Precedent | null> {
+    const judgment = row.judgment ?? {};
+    const name = row.family_name || row.filename;
+    const reportedAs = judgment.reportedAs ?? row.reported_as ?? null;
+    const markers = passages.map((p) => paragraphsIn(p.content));
+
+    const base = {
+      document_id: row.id,
+      document_name: name,
+      category: row.category,
+      court: judgment.court ?? null,
+      court_level: courtLevelOf(judgment.court, row.category, reportedAs),
+      decision_date: judgment.decisionDate ?? null,
+      reported_as: reportedAs,
+      case_number: judgment.caseNumber ?? null,
+      disposition: judgment.disposition ?? null,
+      relevance: Math.round(passages[0].similarity * 1000) / 1000,
+      treatments: [] as PrecedentTreatment[],
+    };
+    const pinpointFor = (paragraph: string | null, page: number | null) => {
+      const where = paragraph ? `para ${paragraph}` : page ? `p. ${page}` : null;
+      const label = reportedAs ?? judgment.caseNumber ?? name;
+      return where ? `${label}, ${where}` : label;
+    };
+    const fallback = (): Precedent => {
+      const best = passages[0];
+      const paragraph = markers[0][0] ?? null;
+      return {
+        ...base,
+        holding: leadingSentences(best.content),
+        ratio: null,
+        paragraph,
+        page: best.page_number ?? null,
+        section: best.section_name ?? null,
+        pinpoint: pinpointFor(paragraph, best.page_number ?? null),
+        excerpt: leadingSentences(best.content),
+        extraction: 'excerpt',
+      };
+    };
+
+    const passageText = passages
+      .map((p, i) => {
+        const where = [p.page_number ? `page ${p.page_number}` : null, markers[i].length ? `paragraphs ${markers[i].join(', ')}` : null]
+          .filter(Boolean).join(', ');
+        return `[Passage ${i + 1}]${where ? ` (${where})` : ''}\n${p.content.slice(0, MAX_PASSAGE_CHARS)}`;
+      })
+      .join('\n\n');
+
+    const prompt = `You are a Pakistani case-law researcher. Read passages of a judgment and state what it held on a legal issue.
+
+LEGAL ISSUE: "${issue}"
+
+JUDGMENT: ${[name, judgment.court, judgment.decisionDate, reportedAs].filter(Boolean).join(', ')}
+
+${passageText}
+
+Return ONLY a valid JSON object:
+{
+  "relevant": true if the court decided or laid down law on this issue, false if the passages only mention it,
+  "holding": "what the court held on the issue, in one or two sentences",
+  "ratio": "the legal principle the decision rests on, in one sentence",
+  "passage": number of the passage the holding is stated in,
+  "paragraph": "the paragraph number printed at the start of the paragraph stating the holding, or null"
+}
+
+Use only the passages; do not add law from memory.`;
+
+    try {
+      const response = await llm.invoke(prompt);
+      const cleaned = response.content.toString().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      const parsed = JSON.parse(cleaned);
+      if (parsed?.relevant === false) return null;
+      if (typeof parsed?.holding !== 'string' || !parsed.holding.trim()) return fallback();
+
+      const index = Number.isInteger(parsed.passage) && parsed.passage >= 1 && parsed.passage <= passages.length ? parsed.passage - 1 : 0;
+      const passage = passages[index];
+      const claimed = parsed.paragraph != null ? String(parsed.paragraph).replace(/\D/g, '') : '';
+      // Only paragraph numbers printed in the passages are trusted
+      const paragraph = markers.flat().includes(claimed) ? claimed : markers[index][0] ?? null;
+      return {
+        ...base,
+        holding: parsed.holding.trim(),
+        ratio: typeof parsed.ratio === 'string' && parsed.ratio.trim() ? parsed.ratio.trim() : null,
+        paragraph,
+        page: passage.page_number ?? null,
+        section: passage.section_name ?? null,
+        pinpoint: pinpointFor(paragraph, passage.page_number ?? null),
+        excerpt: leadingSentences(passage.content),
+        extraction: 'llm',
+      };
+    } catch (error) {
+      logger.warn('Holding extraction failed; using the best passage', { document: name, error });
+      return fallback();
+    }
+  }
+
+  /**
+   * Flag precedents that later judgments overruled or distinguished: the text around each law report citation
+   * of a precedent (linked to its family, or naming the citation it is reported as) is read for the treatment
+   */
+  private async attachTreatments(precedents: Precedent[], judgments: Map<string, JudgmentRow>, adminId: number): Promise<void> {
+    const familyOf = (p: Precedent) => judgments.get(p.document_id)?.family_id ?? null;
+    const familyIds = [...new Set(precedents.map(familyOf).filter((id): id is string => !!id))];
+    const reportedAs = [...new Set(precedents.map((p) => p.reported_as).filter((r): r is string => !!r))];
+
+    let edges: Awaited<ReturnType<typeof CitationRepository.findReportCitationsOf>>;
+    try {
+      edges = await CitationRepository.findReportCitationsOf(adminId, familyIds, reportedAs);
+    } catch (error) {
+      logger.warn('Could not read later treatment of precedents', { error });
+      return;
+    }
+
+    for (const precedent of precedents) {
+      const familyId = familyOf(precedent);
+      const seen = new Set<string>();
+      for (const edge of edges) {
+        const cites = (familyId && edge.target_family_id === familyId) || (precedent.reported_as && edge.normalized === precedent.reported_as);
+        if (!cites || edge.source_document_id === precedent.document_id) continue;
+        if (familyId && edge.source_family_id === familyId) continue;
+        if (!edge.chunk_content) continue;
+
+        const needle = edge.raw_text && edge.chunk_content.includes(edge.raw_text) ? edge.raw_text : edge.normalized;
+        const at = edge.chunk_content.indexOf(needle);
+        if (at < 0) continue;
+        const window = edge.chunk_content.slice(Math.max(0, at - TREATMENT_WINDOW_CHARS), at + needle.length + TREATMENT_WINDOW_CHARS);
+        const treatment = OVERRULED_PATTERN.test(window) ? 'overruled' : DISTINGUISHED_PATTERN.test(window) ? 'distinguished' : null;
+        if (!treatment) continue;
+
+        const key = `${edge.source_document_id}|${treatment}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const citing: JudgmentMetadata = edge.source_judgment ?? {};
+        precedent.treatments.push({
+          treatment,
+          by: edge.source_family || edge.source_filename,
+          court: citing.court ?? null,
+          decision_date: citing.decisionDate ?? null,
+          excerpt: window.replace(/\s+/g, ' ').trim(),
+        });
+      }
+    }
+  }
+
+  private summarize(issue: string, precedents: Precedent[]): string {
+    if (precedents.length === 0) {
+      return `No judgments deciding "${issue}" were found.`;
+    }
+    const levels = (Object.keys(COURT_LEVEL_LABELS) as CourtLevel[])
+      .map((level) => ({ level, count: precedents.filter((p) => p.court_level === level).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ level, count }) => `${COURT_LEVEL_LABELS[level]}: ${count}`)
+      .join(', ');
+    const overruled = precedents.filter((p) => p.treatments.some((t) => t.treatment === 'overruled')).length;
+    const distinguished = precedents.filter((p) => p.treatments.some((t) => t.treatment === 'distinguished')).length;
+    const flags = [
+      overruled ? `${overruled} possibly overruled` : null,
+      distinguished ? `${distinguished} distinguished` : null,
+    ].filter(Boolean).join(', ');
+    return `${precedents.length} judgment${precedents.length > 1 ? 's' : ''} on "${issue}" (${levels})${flags ? `; ${flags} in later judgments` : ''}.`;
+  }
+}
@@ -1,11 +1,24 @@
 import pool from '../config/database';
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import { QueryRewriter } from '../utils/queryRewriter';
 import { Reranker } from '../utils/reranker';
-import { embeddings } from '../config/openai';
+import { CrossEncoderReranker, CROSS_ENCODER_ENABLED } from '../utils/crossEncoderReranker';
+import { embeddings, EMBEDDING_MODEL_ID } from '../config/providers';
 import { DocumentService } from './documentService';
 import { VersionComparisonService } from './versionComparisonService';
 import logger from '../utils/logger';
+import { detectLanguage, searchQueryText, FULL_TEXT_CONFIG } from '../utils/language';
+import { SearchFilters, buildFilterSql, describeSearchFilters, IN_FORCE_COLUMNS } from '../utils/searchFilters';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { VectorSearchStrategy, VectorSearchTuning, chooseVectorSearchStrategy, withAnnSearchSettings } from './vectorIndexService';
+
+/** "in force from 2019-03-01 until 2021-06-30" (superseded or repealed that day) / "in force since 2019-03-01" */
+function formatInForce(chunk: Pick<RetrievedChunk, 'in_force_from' | 'in_force_to'>): string {
+  if (!chunk.in_force_from) return 'effective dates unknown';
+  return chunk.in_force_to
+    ? `in force from ${chunk.in_force_from} until ${chunk.in_force_to}`
+    : `in force since ${chunk.in_force_from}`;
+}
 
 // Types
 export interface QueryResult {
@@ -28,6 +41,9 @@ export interface RetrievedChunk {
   document_version?: string;
   document_category?: string;
   upload_date?: Date;
+  /** YYYY-MM-DD window in which the document version was in force (in_force_to NULL = still in force) */
+  in_force_from?: string | null;
+  in_force_to?: string | null;
   section_name?: string;
   page_number?: number;
   chunk_index?: number;
@@ -35,6 +51,9 @@ export interface RetrievedChunk {
   vector_score?: number;
   keyword_score?: number;
   rerank_score?: number;
+  /** Cross-encoder relevance (0-1); when set, similarity holds it and hybrid_score the hybrid search score */
+  cross_encoder_score?: number;
+  hybrid_score?: number;
   component_scores?: {
     relevance: number;
     diversity: number;
@@ -46,10 +65,17 @@ interface HybridSearchOptions {
   vectorWeight?: number;
   keywordWeight?: number;
   minVectorSimilarity?: number;
+  minKeywordScore?: number;
   vectorTopK?: number;
   keywordTopK?: number;
   useBM25?: boolean;
   bm25Params?: BM25Params;
+  filters?: SearchFilters;
+}
+
+interface VectorSearchOptions {
+  strategy?: VectorSearchStrategy;
+  tuning?: VectorSearchTuning;
 }
 
 interface BM25Params {
@@ -57,6 +83,70 @@ interface BM25Params {
   b: number;
 }
 
+/**
+ * Tunable parameters of the RAG retrieval pipeline
+ * (hybrid search → dedupe → cross-encoder relevance → MMR diversification → compression)
+ */
+export interface RetrievalConfig {
+  vectorWeight: number;
+  keywordWeight: number;
+  /** Minimum vector similarity for a chunk to count as a vector hit */
+  minVectorSimilarity: number;
+  /** Minimum normalised BM25 score for a keyword-only hit to survive the post-merge filter */
+  minKeywordScore: number;
+  /** Candidates kept after hybrid search */
+  searchTopK: number;
+  /** Rerank candidates by cross-encoder relevance before MMR (needs the rerank service; RERANKER sets the default) */
+  crossEncoder: boolean;
+  /** Candidates scored by the cross-encoder, from the top of the hybrid ranking */
+  crossEncoderCandidates: number;
+  /** Chunks selected by the MMR reranker */
+  rerankTopK: number;
+  mmrLambda: number;
+  maxContextTokens: number;
+}
+
+/** Wall-clock time of the retrieval stages; crossEncoderMs is null when that stage did not run or failed */
+export interface RetrievalTimings {
+  searchMs: number;
+  crossEncoderMs: number | null;
+  mmrMs: number;
+}
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  vectorWeight: 0.6,
+  keywordWeight: 0.4,
+  minVectorSimilarity: 0.2,
+  minKeywordScore: 0.3,
+  searchTopK: 30,
+  crossEncoder: CROSS_ENCODER_ENABLED,
+  crossEncoderCandidates: 30,
+  rerankTopK: 8,      // legal sweet spot
+  mmrLambda: 0.7,     // relevance-focused for legal documents
+  maxContextTokens: 4000,
+};
+
+/**
+ * Chunks a keyword query aims to read from the GIN index. Query terms are taken rarest first (document frequency
+ * from search_term_stats) until their combined frequency reaches this, and only chunks containing one of them are
+ * read: a common term such as "section" or "act" still counts towards the score of those chunks, but does not
+ * pull in every chunk of the tenant when rarer terms are in the query.
+ */
+const BM25_SCAN_TARGET = 10000;
+
+/**
+ * Hard ceiling on chunks read, reached only when even the rarest query term is in more chunks than this; only
+ * then are matches cut in index order before ranking
+ */
+const BM25_MAX_SCAN = 50000;
+
+/** Of the scanned matches, the best this many by ts_rank are scored exactly by BM25 */
+const BM25_CANDIDATE_LIMIT = 1000;
+
+/**
+ * BM25 over the stored chunk tsvectors (chunks.search_vector, GIN-indexed) with corpus-level statistics kept per
+ * tenant (see SearchIndexRepository): IDF comes from the tenant's whole corpus, not from the matched rows.
+ */
 class BM25Scorer {
   private k1: number;
   private b: number;
@@ -66,97 +156,94 @@ class BM25Scorer {
     this.b = params.b;
   }
 
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 2)
-      .map(t => {
-        // Better stemming: only remove common plurals/verb endings
-        // Avoid removing important letters like 'e' in 'leave'
-        return t
-          .replace(/ies$/, 'i')  // policies -> polici
-          .replace(/es$/, 'e')   // leaves -> leave (not lev!)
-          .replace(/s$/, '')     // days -> day
-          .replace(/ing$/, '')   // processing -> process
-          .replace(/ed$/, '');   // terminated -> terminat
-      });
-  }
-
-  private getTermFrequency(term: string, tokens: string[]): number {
-    return tokens.filter(t => t === term).length;
-  }
-
-  async score(query: string, topK: number = 20, adminId?: number): Promise<Array<RetrievedChunk & { id: string }>> {
-    const queryTerms = this.tokenize(query);
-    if (queryTerms.length === 0) return [];
+  async score(query: string, topK: number = 20, adminId?: number, filters?: SearchFilters): Promise<Array<RetrievedChunk & { id: string }>> {
+    const queryText = searchQueryText(query);
+    if (!queryText) return [];
 
-    const tsQuery = queryTerms.join(' | ');
-    
-    let sqlQuery = `SELECT c.id, c.content, c.section_name, c.page_number, c.chunk_index,
-              d.id as document_id, d.filename as document_name, d.version as document_version,
-              d.category as document_category, d.upload_date, LENGTH(c.content) as doc_length
-       FROM chunks c JOIN documents d ON c.document_id = d.id
-       WHERE d.is_active = true AND to_tsvector('english', c.content) @@ to_tsquery('english', $1)`;
-    
-    const params: any[] = [tsQuery];
-    if (adminId) {
-      sqlQuery += ` AND d.admin_id = $2`;
-      params.push(adminId);
-    }
-    
-    const candidates = await pool.query(sqlQuery, params);
-
-    if (candidates.rows.length === 0) return [];
+    const corpus = await SearchIndexRepository.getCorpusStats(adminId);
+    if (corpus.chunkCount === 0) return [];
 
-    const docs = candidates.rows.map(row => {
-      const tokens = this.tokenize(row.content);
-      return {
-        ...row,
-        tokens,
-        doc_length: tokens.length
-      };
-    });
-
-    const avgDocLength = docs.reduce((sum, doc) => sum + doc.doc_length, 0) / docs.length;
-    const N = docs.length;
-    const idfMap = new Map<string, number>();
-
-    for (const term of queryTerms) {
-      const docCount = docs.filter(doc => doc.tokens.includes(term)).length;
-      if (docCount > 0) {
-        idfMap.set(term, Math.log((N - docCount + 0.5) / (docCount + 0.5) + 1));
-      }
-    }
-
-    const scored = docs.map(doc => {
-      let score = 0;
-      for (const term of queryTerms) {
-        const idf = idfMap.get(term);
-        if (!idf) continue;
-        const tf = this.getTermFrequency(term, doc.tokens);
-        if (tf === 0) continue;
-        const numerator = tf * (this.k1 + 1);
-        const denominator = tf + this.k1 * (1 - this.b + this.b * (doc.doc_length / avgDocLength));
-        score += idf * (numerator / denominator);
-      }
-      return {
-        id: doc.id,
-        content: doc.content,
-        document_name: doc.document_name,
-        document_id: doc.document_id,
-        document_version: doc.document_version,
-        document_category: doc.document_category,
-        upload_date: doc.upload_date,
-        section_name: doc.section_name,
-        page_number: doc.page_number,
-        chunk_index: doc.chunk_index,
-        similarity: score
-      };
-    });
+    const params: any[] = [queryText, corpus.chunkCount, corpus.avgLength || 1, this.k1, this.b];
+    const add = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const adminCondition = adminId ? `AND d.admin_id = ${add(adminId)}` : '';
+    const statsAdminCondition = adminId ? `AND s.admin_id = ${add(adminId)}` : '';
+    const filterSql = buildFilterSql(filters, params);
+    const limit = add(topK);
+
+    // Query lexemes come from the same text search configuration as the stored vectors; a term's document
+    // frequency is summed over tenants when no tenant is given. Terms without statistics match no chunk.
+    const result = await pool.query(
+      `WITH query_terms AS (
+         SELECT DISTINCT lexeme FROM unnest(to_tsvector('${FULL_TEXT_CONFIG}', $1))
+       ),
+       term_idf AS (
+         SELECT s.term, SUM(s.doc_freq) AS doc_freq,
+                ln(1 + ($2::float - SUM(s.doc_freq) + 0.5) / (SUM(s.doc_freq) + 0.5)) AS idf
+         FROM search_term_stats s
+         WHERE s.term IN (SELECT lexeme FROM query_terms) ${statsAdminCondition}
+         GROUP BY s.term
+       ),
+       scan_terms AS (
+         SELECT term FROM (
+           SELECT term, SUM(doc_freq) OVER (ORDER BY doc_freq, term) - doc_freq AS rarer_freq FROM term_idf
+         ) t
+         WHERE rarer_freq < ${BM25_SCAN_TARGET}
+       ),
+       hits AS MATERIALIZED (
+         SELECT c.id
+         FROM chunks c JOIN documents d ON c.document_id = d.id
+         WHERE c.search_vector @@ (SELECT string_agg(quote_literal(term), ' | ')::tsquery FROM scan_terms)
+           ${adminCondition}
+           AND ${filterSql}
+         LIMIT ${BM25_MAX_SCAN}
+       ),
+       matches AS (
+         SELECT c.id, c.content, c.section_name, c.page_number, c.chunk_index, c.search_vector, c.search_length,
+                d.id as document_id, d.filename as document_name, d.version as document_version,
+                d.category as document_category, d.upload_date, ${IN_FORCE_COLUMNS}
+         FROM hits h JOIN chunks c ON c.id = h.id JOIN documents d ON c.document_id = d.id
+         ORDER BY ts_rank(c.search_vector, (SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery FROM query_terms)) DESC
+         LIMIT ${BM25_CANDIDATE_LIMIT}
+       ),
+       scores AS (
+         SELECT m.id, SUM(
+           i.idf * (tf.freq * ($4::float + 1))
+             / (tf.freq + $4::float * (1 - $5::float + $5::float * COALESCE(m.search_length, 0) / $3::float))
+         ) AS score
+         FROM matches m
+         CROSS JOIN LATERAL (
+           SELECT v.lexeme, COALESCE(array_length(v.positions, 1), 1) AS freq FROM unnest(m.search_vector) AS v
+         ) tf
+         JOIN term_idf i ON i.term = tf.lexeme
+         GROUP BY m.id
+       )
+       SELECT m.id, m.content, m.section_name, m.page_number, m.chunk_index, m.document_id, m.document_name,
+              m.document_version, m.document_category, m.upload_date, m.in_force_from, m.in_force_to, s.score
+       FROM matches m JOIN scores s ON s.id = m.id
+       WHERE s.score > 0
+       ORDER BY s.score DESC
+       LIMIT ${limit}`,
+      params
+    );
 
-    return scored.filter(doc => doc.similarity > 0).sort((a, b) => b.similarity - a.similarity).slice(0, topK);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      content: row.content,
+      document_name: row.document_name,
+      document_id: row.document_id,
+      document_version: row.document_version,
+      document_category: row.document_category,
+      upload_date: row.upload_date,
+      in_force_from: row.in_force_from,
+      in_force_to: row.in_force_to,
+      section_name: row.section_name,
+      page_number: row.page_number,
+      chunk_index: row.chunk_index,
+      similarity: Number(row.score)
+    }));
   }
 
   normalizeScores(results: Array<{ similarity: number }>): void {
@@ -170,6 +257,7 @@ export class QueryService {
   private queryRewriter: QueryRewriter;
   private bm25Scorer: BM25Scorer;
   private reranker: Reranker;
+  private crossEncoder: CrossEncoderReranker;
   private documentService: DocumentService;
   private versionComparisonService: VersionComparisonService;
 
@@ -177,6 +265,7 @@ export class QueryService {
     this.queryRewriter = new QueryRewriter();
     this.bm25Scorer = new BM25Scorer(bm25Params);
     this.reranker = new Reranker();
+    this.crossEncoder = new CrossEncoderReranker();
     this.documentService = new DocumentService();
     this.versionComparisonService = new VersionComparisonService();
   }
@@ -259,54 +348,120 @@ export class QueryService {
     return minSize > 0 ? intersection.size / minSize : 0;
   }
 
-  async vectorSearch(queryEmbedding: number[], topK: number = 20, adminId?: number): Promise<RetrievedChunk[]> {
-    let query = `SELECT c.content, c.embedding, c.section_name, c.page_number, c.chunk_index,
-              d.filename as document_name, d.id as document_id, d.version as document_version,
-              d.category as document_category, d.upload_date,
-              1 - (c.embedding <=> $1::vector) as similarity
-       FROM chunks c
-       JOIN documents d ON c.document_id = d.id
-       WHERE d.is_active = true`;
-    
-    const params: any[] = [JSON.stringify(queryEmbedding)];
-    let paramIndex = 2;
-    
-    if (adminId) {
-      query += ` AND d.admin_id = $${paramIndex}`;
-      params.push(adminId);
-      paramIndex++;
+  /**
+   * Nearest chunks by cosine similarity. The strategy (see vectorIndexService) is exact for small tenants and
+   * narrow filters and goes through the ANN index otherwise; an ANN search that runs out of candidates passing
+   * the filters is repeated exactly, unless the ANN strategy was asked for explicitly.
+   */
+  async vectorSearch(
+    queryEmbedding: number[],
+    topK: number = 20,
+    adminId?: number,
+    filters?: SearchFilters,
+    options: VectorSearchOptions = {}
+  ): Promise<RetrievedChunk[]> {
+    const strategy = options.strategy && options.strategy !== 'auto'
+      ? options.strategy
+      : await chooseVectorSearchStrategy(adminId, filters);
+
+    let rows: any[];
+    if (strategy === 'ann') {
+      const { sql, params } = this.buildVectorQuery(queryEmbedding, topK, adminId, filters, true);
+      rows = await withAnnSearchSettings(topK, async (client) => (await client.query(sql, params)).rows, options.tuning);
+      if (rows.length < topK && options.strategy !== 'ann') {
+        const exact = this.buildVectorQuery(queryEmbedding, topK, adminId, filters, false);
+        rows = (await pool.query(exact.sql, exact.params)).rows;
+      }
+    } else {
+      const { sql, params } = this.buildVectorQuery(queryEmbedding, topK, adminId, filters, false);
+      rows = (await pool.query(sql, params)).rows;
     }
-    
-    query += ` ORDER BY c.embedding <=> $1::vector LIMIT $${paramIndex}`;
-    params.push(topK);
-    
-    const result = await pool.query(query, params);
 
-    return result.rows.map(row => ({
+    return rows.map(({ distance, ...row }) => ({
       ...row,
       embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding,
       vector_score: row.similarity
     }));
   }
 
+  private buildVectorQuery(
+    queryEmbedding: number[],
+    topK: number,
+    adminId: number | undefined,
+    filters: SearchFilters | undefined,
+    ann: boolean
+  ): { sql: string; params: any[] } {
+    const params: any[] = [JSON.stringify(queryEmbedding), EMBEDDING_MODEL_ID];
+    let where = 'c.embedding_model = $2';
+    if (adminId) {
+      params.push(adminId);
+      where += ` AND d.admin_id = $${params.length}`;
+    }
+    where += ` AND ${buildFilterSql(filters, params)}`;
+    params.push(topK);
+
+    const select = `SELECT c.content, c.embedding, c.section_name, c.page_number, c.chunk_index,
+              d.filename as document_name, d.id as document_id, d.version as document_version,
+              d.category as document_category, d.upload_date, ${IN_FORCE_COLUMNS},
+              c.embedding <=> $1::vector as distance, 1 - (c.embedding <=> $1::vector) as similarity
+       FROM chunks c
+       JOIN documents d ON c.document_id = d.id
+       WHERE ${where}`;
+
+    if (!ann) {
+      // Ordered by similarity rather than the distance operator, so the planner reads the matching chunks and
+      // sorts them instead of walking the ANN index
+      return { sql: `${select} ORDER BY similarity DESC LIMIT $${params.length}`, params };
+    }
+    // Materialized so the index scan stops at the limit; relaxed-order iterative scans are re-sorted afterwards
+    return {
+      sql: `WITH candidates AS MATERIALIZED (${select} ORDER BY c.embedding <=> $1::vector LIMIT $${params.length})
+       SELECT * FROM candidates ORDER BY distance`,
+      params,
+    };
+  }
+
+  /**
+   * Cross-lingual variant of a query: Urdu or mixed questions are translated to English; English questions
+   * are translated to Urdu only when the tenant has Urdu sources.
+   */
+  private async translateForRetrieval(query: string, adminId?: number): Promise<string | null> {
+    if (detectLanguage(query) !== 'en') {
+      return this.queryRewriter.translate(query, 'en');
+    }
+
+    let sqlQuery = `SELECT EXISTS (
+         SELECT 1 FROM chunks c JOIN documents d ON c.document_id = d.id
+         WHERE d.is_active = true AND c.language IN ('ur', 'mixed')`;
+    const params: any[] = [];
+    if (adminId) {
+      sqlQuery += ` AND d.admin_id = $1`;
+      params.push(adminId);
+    }
+    sqlQuery += `) AS has_urdu`;
+    const result = await pool.query(sqlQuery, params);
+    return result.rows[0]?.has_urdu ? this.queryRewriter.translate(query, 'ur') : null;
+  }
+
   async search(query: string, topK: number = 20, options?: HybridSearchOptions, adminId?: number): Promise<RetrievedChunk[]> {
     const opts = {
-      vectorWeight: 0.6,
-      keywordWeight: 0.4,
-      minVectorSimilarity: 0.2,
+      vectorWeight: DEFAULT_RETRIEVAL_CONFIG.vectorWeight,
+      keywordWeight: DEFAULT_RETRIEVAL_CONFIG.keywordWeight,
+      minVectorSimilarity: DEFAULT_RETRIEVAL_CONFIG.minVectorSimilarity,
+      minKeywordScore: DEFAULT_RETRIEVAL_CONFIG.minKeywordScore,
       vectorTopK: Math.ceil(topK * 1.5),
       keywordTopK: Math.ceil(topK * 1.5),
       useBM25: true,
       ...options
     };
 
-    // 1. Get query variants (original + 2–3 rewrites); fallback to [query] on failure
-    let variants: string[];
-    try {
-      variants = await this.queryRewriter.rewrite(query);
-    } catch {
-      variants = [query];
-    }
+    // 1. Get query variants (original + 2–3 rewrites); fallback to [query] on failure.
+    // A translation is added so Urdu questions reach English sources and vice versa.
+    const [rewritten, translation] = await Promise.all([
+      this.queryRewriter.rewrite(query).catch(() => [query]),
+      this.translateForRetrieval(query, adminId),
+    ]);
+    const variants = translation ? [...rewritten, translation] : rewritten;
     logger.debug('Query variants', { count: variants.length });
 
     // 2. Run vector + BM25 search for each variant in parallel
@@ -314,17 +469,19 @@ export class QueryService {
       variants.map(async (q) => {
         const [queryEmbedding, keywordResults] = await Promise.all([
           embeddings.embedQuery(q),
-          opts.useBM25 ? this.bm25Scorer.score(q, opts.keywordTopK, adminId) : Promise.resolve([])
+          opts.useBM25 ? this.bm25Scorer.score(q, opts.keywordTopK, adminId, opts.filters) : Promise.resolve([])
         ]);
-        const vectorResults = await this.vectorSearch(queryEmbedding, opts.vectorTopK, adminId);
+        const vectorResults = await this.vectorSearch(queryEmbedding, opts.vectorTopK, adminId, opts.filters);
         return { vectorResults, keywordResults };
       })
     );
 
     const normalizeVector = (score: number) => Math.max(0, Math.min(1, score));
+    // Versions of a family share a filename, so chunks are told apart by document id
+    const chunkKey = (chunk: RetrievedChunk) => `${chunk.document_id ?? chunk.document_name}-${chunk.chunk_index}`;
     const combined = new Map<string, RetrievedChunk>();
 
-    // 3. Merge all variant results: same key = document_name + chunk_index; keep HIGHEST score per chunk
+    // 3. Merge all variant results: same key = document + chunk_index; keep HIGHEST score per chunk
     for (const { vectorResults, keywordResults } of variantResults) {
       this.bm25Scorer.normalizeScores(keywordResults);
       vectorResults.forEach(r => { r.similarity = normalizeVector(r.similarity); });
@@ -332,7 +489,7 @@ export class QueryService {
       const variantMap = new Map<string, RetrievedChunk>();
       for (const result of vectorResults) {
         if (result.similarity >= opts.minVectorSimilarity) {
-          const key = `${result.document_name}-${result.chunk_index}`;
+          const key = chunkKey(result);
           variantMap.set(key, {
             ...result,
             similarity: result.similarity * opts.vectorWeight,
@@ -342,7 +499,7 @@ export class QueryService {
         }
       }
       for (const result of keywordResults) {
-        const key = `${result.document_name}-${result.chunk_index}`;
+        const key = chunkKey(result);
         const existing = variantMap.get(key);
         if (existing) {
           existing.similarity += result.similarity * opts.keywordWeight;
@@ -367,7 +524,7 @@ export class QueryService {
     // Post-merge filter: keep only chunks with sufficient vector or keyword relevance
     const filtered = Array.from(combined.values()).filter(
       (chunk) =>
-        (chunk.vector_score ?? 0) >= 0.2 || (chunk.keyword_score ?? 0) >= 0.3
+        (chunk.vector_score ?? 0) >= opts.minVectorSimilarity || (chunk.keyword_score ?? 0) >= opts.minKeywordScore
     );
 
     // Sort by similarity descending, slice to topK, return to MMR reranker
@@ -416,7 +573,10 @@ export class QueryService {
     return { valid: true };
   }
 
-  async generateAnswer(query: string, chunks: RetrievedChunk[], sessionContext?: string): Promise<QueryResult> {
+  /**
+   * @param asOfDate - YYYY-MM-DD of a point-in-time question: the answer states the versions and windows it relied on
+   */
+  async generateAnswer(query: string, chunks: RetrievedChunk[], sessionContext?: string, asOfDate?: string): Promise<QueryResult> {
     const normalizeScore = (score: number) => Math.max(0, Math.min(1, score));
 
     const bestScore = chunks.length > 0
@@ -433,7 +593,7 @@ export class QueryService {
         const confidence = score > 0.7 ? 'High Confidence' : score > 0.4 ? 'Medium Confidence' : 'Low Confidence';
 
         return `[${idx + 1}] ${confidence} (Score: ${score.toFixed(2)})
-Document: ${chunk.document_name} (v${chunk.document_version || 'N/A'})
+Document: ${chunk.document_name} (v${chunk.document_version || 'N/A'}${chunk.in_force_from ? `, ${formatInForce(chunk)}` : ''})
 Section: ${chunk.section_name || 'N/A'} | Page: ${chunk.page_number || 'N/A'}
 Content: ${chunk.content}`;
       })
@@ -441,6 +601,9 @@ Content: ${chunk.content}`;
 
     // Include session context if provided to give short-term conversational memory
     const sessionBlock = sessionContext && sessionContext.trim() ? `Session Context:\n${sessionContext}\n\n` : '';
+    const asOfRule = asOfDate
+      ? `\n11. The question is about the law in force on ${asOfDate}; the context holds the versions in force on that date. State which version you relied on and the dates it was in force`
+      : '';
 
     const prompt = `You are a legal and compliance assistant. Answer the question based strictly on the provided context.
 
@@ -454,6 +617,7 @@ CRITICAL RULES:
 7. Prioritize sources marked as "High Confidence"
 8. Always mention document names and versions in your answer
 9. If the answer requires information not in the context, say so clearly
+10. Answer in the language of the question (Urdu or English); sources may be in either language, quote them as written${asOfRule}
 
 ${sessionBlock}Context:
 ${context}
@@ -491,6 +655,8 @@ Answer (be specific and cite sources):`;
         document_id: chunk.document_id ?? null,
         document_name: chunk.document_name,
         version: chunk.document_version || 'N/A',
+        in_force_from: chunk.in_force_from ?? null,
+        in_force_to: chunk.in_force_to ?? null,
         section: chunk.section_name || 'N/A',
         page: chunk.page_number || null,
         relevance_score: normalizeScore(
@@ -538,17 +704,133 @@ Answer (be specific and cite sources):`;
     }
 
     return {
-      answer,
+      answer: asOfDate ? `${answer}\n\n${this.versionsReliedOn(citedIndices, chunks, asOfDate)}` : answer,
       citations,
       confidence: roundedConfidence,
     };
   }
 
+  /**
+   * Note appended to point-in-time answers: each cited document version with the window it was in force
+   */
+  private versionsReliedOn(citedIndices: Set<number>, chunks: RetrievedChunk[], asOfDate: string): string {
+    const versions = new Map<string, string>();
+    for (const idx of citedIndices) {
+      const chunk = chunks[idx];
+      const key = chunk.document_id ?? `${chunk.document_name}-${chunk.document_version}`;
+      if (!versions.has(key)) {
+        versions.set(key, `- ${chunk.document_name} (v${chunk.document_version || 'N/A'}), ${formatInForce(chunk)}`);
+      }
+    }
+    return `**Law as of ${asOfDate}.** Versions relied on:\n${Array.from(versions.values()).join('\n')}`;
+  }
+
+  /**
+   * Retrieval half of the RAG pipeline: hybrid search candidates and the compressed, reranked context
+   * passed to the generator. Config overrides let the evaluation runner try other weights without code changes.
+   * With the cross-encoder on, candidates are ordered by its relevance scores and MMR only diversifies them.
+   */
+  async retrieve(
+    query: string,
+    adminId?: number,
+    overrides: Partial<RetrievalConfig> = {},
+    debug: boolean = false,
+    filters?: SearchFilters
+  ): Promise<{ candidates: RetrievedChunk[]; context: RetrievedChunk[]; timings: RetrievalTimings; crossEncoderError?: string }> {
+    const config = { ...DEFAULT_RETRIEVAL_CONFIG, ...overrides };
+    const timings: RetrievalTimings = { searchMs: 0, crossEncoderMs: null, mmrMs: 0 };
+    let started = Date.now();
+    const results = await this.search(query, config.searchTopK, {
+      vectorWeight: config.vectorWeight,
+      keywordWeight: config.keywordWeight,
+      minVectorSimilarity: config.minVectorSimilarity,
+      minKeywordScore: config.minKeywordScore,
+      filters,
+    }, adminId);
+    timings.searchMs = Date.now() - started;
+
+    if (debug) {
+      logger.debug('Retrieved chunks after hybrid search', {
+        count: results.length,
+        topResults: results.slice(0, 5).map((c, i) => ({
+          idx: i,
+          similarity: c.similarity?.toFixed(3),
+          document_name: c.document_name,
+        })),
+      });
+    }
+
+    if (results.length === 0) {
+      return { candidates: [], context: [], timings };
+    }
+
+    let deduplicated = this.removeDuplicates(results);
+    let crossEncoderError: string | undefined;
+    if (debug) logger.debug('After deduplication', { count: deduplicated.length });
+
+    if (config.crossEncoder) {
+      try {
+        const reranked = await this.crossEncoder.rerank(query, deduplicated, config.crossEncoderCandidates);
+        deduplicated = reranked.chunks;
+        timings.crossEncoderMs = reranked.durationMs;
+        if (debug) logger.debug('After cross-encoder reranking', { model: reranked.model, durationMs: reranked.durationMs });
+      } catch (error) {
+        // The hybrid order stands; callers measuring the cross-encoder (evaluation runs) get the error
+        crossEncoderError = error instanceof Error ? error.message : String(error);
+        logger.warn('Cross-encoder reranking failed, keeping the hybrid order', { error: crossEncoderError });
+      }
+    }
+
+    started = Date.now();
+    // MMR reranking - synchronous, no async; after the cross-encoder it only adds diversity
+    let reranked: RetrievedChunk[] = [];
+    try {
+      // Filter chunks with embeddings for reranking
+      const chunksWithEmbeddings = deduplicated.filter(c => c.embedding && c.embedding.length > 0);
+      
+      if (chunksWithEmbeddings.length > 0) {
+        reranked = this.reranker.rerank(
+          chunksWithEmbeddings as any,
+          config.rerankTopK,
+          config.mmrLambda
+        );
+
+        if (debug) logger.debug('After MMR reranking', { count: reranked.length });
+      } else {
+        // Fallback if no embeddings available
+        reranked = deduplicated.slice(0, config.rerankTopK);
+        if (debug) logger.warn('No embeddings available, using top results without reranking');
+      }
+    } catch (error) {
+      logger.error('MMR reranking error', { error });
+      reranked = deduplicated.slice(0, config.rerankTopK);
+    }
+
+    const finalChunks = reranked.length > 0 ? reranked : deduplicated.slice(0, config.rerankTopK);
+    timings.mmrMs = Date.now() - started;
+
+    if (debug) logger.debug('Final chunks for generation', { count: finalChunks.length, source: reranked.length > 0 ? 'reranked' : 'original' });
+
+    const compressed = this.compress(finalChunks, config.maxContextTokens);
+    if (debug) logger.debug('After compression', { count: compressed.length });
+
+    if (debug) logger.debug('Retrieval timings', timings);
+
+    return { candidates: deduplicated, context: compressed, timings, crossEncoderError };
+  }
+
   /**
    * ENHANCED: Main query processing with intelligent version comparison
    * @param sessionContext - Optional short-term conversation context for the generator
+   * @param filters - Optional structured filters (categories, documents, version / date, pages, courts)
    */
-  async processQuery(query: string, adminId?: number, debug: boolean = true, sessionContext?: string): Promise<QueryResult> {
+  async processQuery(
+    query: string,
+    adminId?: number,
+    debug: boolean = true,
+    sessionContext?: string,
+    filters?: SearchFilters
+  ): Promise<QueryResult> {
     logger.info('Starting query processing', { query });
 
     // Check if this might be a version comparison query
@@ -617,62 +899,20 @@ ${comparison.impact_analysis.low_impact_changes.slice(0, 2).map((c: string) => `
     }
 
     // Regular RAG query processing
-    const results = await this.search(query, 30, undefined, adminId);
+    const { candidates, context } = await this.retrieve(query, adminId, {}, debug, filters);
 
-    if (debug) {
-      logger.debug('Retrieved chunks after hybrid search', {
-        count: results.length,
-        topResults: results.slice(0, 5).map((c, i) => ({
-          idx: i,
-          similarity: c.similarity?.toFixed(3),
-          document_name: c.document_name,
-        })),
-      });
-    }
-
-    if (results.length === 0) {
+    if (candidates.length === 0) {
+      const scope = describeSearchFilters(filters);
       return {
-        answer: 'No relevant documents found. Please check if the relevant documents have been uploaded to the system.',
+        answer: scope
+          ? `No relevant documents found within the selected filters (${scope}). Try widening or clearing the filters.`
+          : 'No relevant documents found. Please check if the relevant documents have been uploaded to the system.',
         citations: [],
         confidence: 0,
       };
     }
 
-    const deduplicated = this.removeDuplicates(results);
-    if (debug) logger.debug('After deduplication', { count: deduplicated.length });
-
-    // MMR reranking - synchronous, no async
-    let reranked: RetrievedChunk[] = [];
-    try {
-      // Filter chunks with embeddings for reranking
-      const chunksWithEmbeddings = deduplicated.filter(c => c.embedding && c.embedding.length > 0);
-      
-      if (chunksWithEmbeddings.length > 0) {
-        reranked = this.reranker.rerank(
-          chunksWithEmbeddings as any,
-          8,     // topK - legal sweet spot
-          0.7    // lambda - relevance-focused for legal documents
-        );
-
-        if (debug) logger.debug('After MMR reranking', { count: reranked.length });
-      } else {
-        // Fallback if no embeddings available
-        reranked = deduplicated.slice(0, 8);
-        if (debug) logger.warn('No embeddings available, using top results without reranking');
-      }
-    } catch (error) {
-      logger.error('MMR reranking error', { error });
-      reranked = deduplicated.slice(0, 8);
-    }
-
-    const finalChunks = reranked.length > 0 ? reranked : deduplicated.slice(0, 8);
-
-    if (debug) logger.debug('Final chunks for generation', { count: finalChunks.length, source: reranked.length > 0 ? 'reranked' : 'original' });
-
-    const compressed = this.compress(finalChunks, 4000);
-    if (debug) logger.debug('After compression', { count: compressed.length });
-
-    const result = await this.generateAnswer(query, compressed, sessionContext);
+    const result = await this.generateAnswer(query, context, sessionContext, filters?.version == null ? filters?.asOfDate : undefined);
 
     if (debug) logger.debug('Final result', { confidence: result.confidence, citationsCount: result.citations.length, answerLength: result.answer.length });
 
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import { isSupabaseFilepath } from './supabaseStorage';
+import { IngestionJob } from '../types';
+import logger from '../utils/logger';
+
+/** Documents to reindex: explicit ids, every document in some categories, or the whole tenant */
+export interface ReindexSelection {
+  documentIds?: string[];
+  categories?: string[];
+  all?: boolean;
+}
+
+export interface ReindexSkip {
+  document_id: string;
+  filename: string;
+  reason: string;
+}
+
+/**
+ * Re-chunks and re-embeds already ingested documents from their stored originals (after parser or
+ * embedding model changes). Each document becomes a reindex ingestion job, so progress, retry and
+ * resume-after-restart work as for uploads; the job swaps the new chunks into the same document row.
+ */
+export class ReindexService {
+  /**
+   * Create reindex jobs for the selected documents of a tenant. The caller runs them
+   * (the API enqueues them on the ingestion queue; the CLI runs them in its own process).
+   */
+  async createReindexJobs(
+    adminId: number,
+    selection: ReindexSelection,
+    createdBy?: number
+  ): Promise<{ jobs: IngestionJob[]; skipped: ReindexSkip[] }> {
+    const documents = await this.findDocuments(adminId, selection);
+    const busy = new Set(await IngestionJobRepository.findDocumentsBeingReindexed(documents.map((d) => d.id)));
+
+    const jobs: IngestionJob[] = [];
+    const skipped: ReindexSkip[] = [];
+    for (const doc of documents) {
+      const reason = busy.has(doc.id) ? 'A reindex of this document is already in progress' : this.unavailableReason(doc.filepath);
+      if (reason) {
+        skipped.push({ document_id: doc.id, filename: doc.filename, reason });
+        continue;
+      }
+      jobs.push(
+        await IngestionJobRepository.create({
+          id: uuidv4(),
+          adminId,
+          createdBy,
+          filename: doc.filename,
+          filepath: doc.filepath!,
+          fileType: path.extname(doc.filename).slice(1).toLowerCase(),
+          category: doc.category,
+          familyId: doc.family_id,
+          reindexDocumentId: doc.id,
+        })
+      );
+    }
+
+    logger.info('Reindex requested', { adminId, documents: documents.length, jobs: jobs.length, skipped: skipped.length });
+    return { jobs, skipped };
+  }
+
+  private async findDocuments(adminId: number, selection: ReindexSelection) {
+    const conditions: string[] = [];
+    const params: any[] = [adminId];
+    if (!selection.all) {
+      if (selection.documentIds?.length) {
+        params.push(selection.documentIds);
+        conditions.push(`id = ANY($${params.length}::varchar[])`);
+      }
+      if (selection.categories?.length) {
+        params.push(selection.categories);
+        conditions.push(`category = ANY($${params.length}::varchar[])`);
+      }
+      if (conditions.length === 0) {
+        throw new Error('Select documents, categories or all documents to reindex');
+      }
+    }
+
+    const result = await pool.query(
+      `SELECT id, filename, filepath, category, family_id FROM documents
+       WHERE admin_id = $1 ${conditions.length ? `AND (${conditions.join(' OR ')})` : ''}
+       ORDER BY upload_date ASC`,
+      params
+    );
+    return result.rows as Array<{ id: string; filename: string; filepath: string | null; category: string; family_id: string | null }>;
+  }
+
+  /** Why the original of a document cannot be re-parsed (null when it can) */
+  private unavailableReason(filepath: string | null): string | null {
+    if (!filepath) return 'Original file was not kept for this document';
+    if (isSupabaseFilepath(filepath)) return null;
+    const resolved = path.isAbsolute(filepath) ? filepath : path.resolve(process.cwd(), filepath);
+    return fs.existsSync(resolved) ? null : 'Original file is missing from local storage';
+  }
+}
@@ -0,0 +1,217 @@
+import pool from '../config/database';
+import { EMBEDDING_MODEL_ID } from '../config/providers';
+import {
+  ConflictDetectionService,
+  ConflictDocument,
+  DetectedConflict,
+  PairCheckStats,
+} from './conflictDetectionService';
+import { CONSTITUTION_TITLE } from '../utils/citationExtractor';
+import logger from '../utils/logger';
+
+/** Place of an instrument in the hierarchy of laws, which decides what it is tested against */
+export type InstrumentLevel = 'federal' | 'provincial' | 'subordinate';
+
+/** A provision of higher law that clauses of the instrument were matched to */
+export interface ProvisionTouched {
+  document: string;
+  provision: string;
+  clause_pairs: number;
+}
+
+export interface RepugnancyCheckResult {
+  instrument: string;
+  instrument_category: string | null;
+  instrument_level: InstrumentLevel;
+  documents_resolved?: Array<{ userTerm: string; actualFilename: string }>;
+  governing_documents: string[];
+  provisions_touched: ProvisionTouched[];
+  conflicts_found: number;
+  conflicts: DetectedConflict[];  // document_a is the instrument, document_b the governing law
+  summary: string;
+  confidence: number;
+  analysis_metadata: {
+    chunks_analyzed: number;
+    analysis_method: string;
+    confidence: number;
+  } & PairCheckStats;
+}
+
+const FEDERAL_ACTS_CATEGORY = 'Federal Legislation / Acts';
+const PROVINCIAL_ACTS_CATEGORY = 'Provincial Legislation / Acts';
+const ORDINANCES_CATEGORY = 'Presidential & Governor Ordinances';
+const RULES_CATEGORY = 'Statutory Rules & SROs';
+
+const PROVINCIAL_PATTERN = /\b(punjab|sindh|khyber|pakhtunkhwa|kpk?|nwfp|balochistan|baluchistan|governor|provincial)\b/i;
+const SUBORDINATE_PATTERN = /\b(rules|regulations|s\.?r\.?o\.?|notification|bye-?laws)\b/i;
+const NOT_LEGISLATION_PATTERN = /judgment|court|order/i;
+
+const MAX_GOVERNING_ACTS = 5;       // statutes tested against, besides the Constitution, when none are named
+const MAX_PROVISIONS_LISTED = 20;
+
+const ANALYSIS_METHOD = 'Repugnancy check (instrument clauses matched to constitutional and federal provisions, each pair checked by the LLM)';
+
+const sameCategory = (category: string | null, name: string) => (category ?? '').toLowerCase() === name.toLowerCase();
+
+/**
+ * Constitutional repugnancy checks: whether a provincial Act, an ordinance or rules/SROs are inconsistent with the
+ * Constitution of Pakistan, or a provincial law with a federal one (Article 143). Runs the clause-pair analysis of
+ * ConflictDetectionService in 'repugnancy' mode, with the instrument always on the subordinate side.
+ */
+export class RepugnancyService {
+  private conflictService: ConflictDetectionService;
+
+  constructor() {
+    this.conflictService = new ConflictDetectionService();
+  }
+
+  /**
+   * Check an instrument against the Constitution and the statutes that govern it.
+   * against: statutes to test it against (names or categories); by default the federal Acts closest to it in content
+   */
+  async checkInstrument(
+    instrumentName: string,
+    adminId: number,
+    options: { topic?: string; against?: string[] } = {}
+  ): Promise<RepugnancyCheckResult> {
+    const { resolutionLog, unresolved } = await this.conflictService.resolveDocumentNames([instrumentName], adminId);
+    if (unresolved.length > 0) {
+      throw new Error(`Could not find a document matching "${instrumentName}".`);
+    }
+    const [instrument] = await this.conflictService.findDocuments(resolutionLog[0].actualFilename, adminId);
+    if (!instrument) {
+      throw new Error(`Could not find a document matching "${instrumentName}".`);
+    }
+
+    const level = this.levelOf(instrument);
+    logger.info('Starting repugnancy check', { instrument: instrument.filename, level, topic: options.topic });
+
+    const constitution = (await this.conflictService.findDocuments(CONSTITUTION_TITLE, adminId))
+      .filter((document) => document.id !== instrument.id);
+
+    let statutes: ConflictDocument[] = [];
+    if (options.against?.length) {
+      for (const name of options.against) {
+        const documents = await this.conflictService.findDocuments(name, adminId);
+        if (documents.length === 0) throw new Error(`Could not find a document or category matching "${name}".`);
+        statutes.push(...documents);
+      }
+    } else if (level !== 'federal') {
+      // Provincial laws answer to federal Acts (Article 143); rules and SROs also to the Acts they are made under
+      const categories = level === 'subordinate' && PROVINCIAL_PATTERN.test(instrument.filename)
+        ? [FEDERAL_ACTS_CATEGORY, PROVINCIAL_ACTS_CATEGORY]
+        : [FEDERAL_ACTS_CATEGORY];
+      statutes = await this.nearestDocuments(instrument, categories, adminId);
+    }
+
+    const governing = [...constitution, ...statutes].filter(
+      (document, i, all) => document.id !== instrument.id && all.findIndex((d) => d.id === document.id) === i
+    );
+    if (governing.length === 0) {
+      throw new Error(`No constitutional or federal documents were found to check "${instrument.filename}" against.`);
+    }
+
+    const { conflicts, pairs, stats } = await this.conflictService.analyzeDocumentPairs(
+      { pairs: governing.map((document): [ConflictDocument, ConflictDocument] => [instrument, document]) },
+      options.topic,
+      adminId,
+      'repugnancy'
+    );
+
+    const touched = new Map<string, ProvisionTouched>();
+    for (const pair of pairs) {
+      const provision = pair.b.section_name || (pair.b.page_number ? `page ${pair.b.page_number}` : 'unnumbered provision');
+      const key = `${pair.b.document_name}|${provision}`;
+      const entry = touched.get(key) ?? { document: pair.b.document_name, provision, clause_pairs: 0 };
+      entry.clause_pairs++;
+      touched.set(key, entry);
+    }
+
+    const confidence = this.conflictService.confidenceFor(conflicts, stats.chunks_analyzed, stats.mean_similarity);
+    logger.info('Repugnancy check done', { instrument: instrument.filename, governing: governing.length, findings: conflicts.length });
+
+    return {
+      instrument: instrument.filename,
+      instrument_category: instrument.category,
+      instrument_level: level,
+      documents_resolved: resolutionLog,
+      governing_documents: governing.map((document) => document.filename),
+      provisions_touched: [...touched.values()].sort((a, b) => b.clause_pairs - a.clause_pairs).slice(0, MAX_PROVISIONS_LISTED),
+      conflicts_found: conflicts.length,
+      conflicts,
+      summary: this.summarize(instrument.filename, conflicts),
+      confidence,
+      analysis_metadata: {
+        chunks_analyzed: stats.chunks_analyzed,
+        analysis_method: ANALYSIS_METHOD,
+        confidence,
+        candidate_pairs: stats.candidate_pairs,
+        pairs_checked: stats.pairs_checked,
+        cache_hits: stats.cache_hits,
+        pairs_failed: stats.pairs_failed,
+      },
+    };
+  }
+
+  /**
+   * Level of an instrument from its category, or from its title when the category does not say
+   */
+  private levelOf(document: ConflictDocument): InstrumentLevel {
+    const { category, filename } = document;
+    if (sameCategory(category, CONSTITUTION_TITLE)) {
+      throw new Error('The Constitution is the highest law; choose an Act, ordinance, rules or an SRO to check against it.');
+    }
+    if (sameCategory(category, PROVINCIAL_ACTS_CATEGORY)) return 'provincial';
+    if (sameCategory(category, FEDERAL_ACTS_CATEGORY)) return 'federal';
+    if (sameCategory(category, RULES_CATEGORY)) return 'subordinate';
+    if (sameCategory(category, ORDINANCES_CATEGORY)) return PROVINCIAL_PATTERN.test(filename) ? 'provincial' : 'federal';
+    if (category && NOT_LEGISLATION_PATTERN.test(category)) {
+      throw new Error(`"${filename}" is filed under ${category}; only Acts, ordinances, rules and SROs can be checked for repugnancy.`);
+    }
+    if (SUBORDINATE_PATTERN.test(filename)) return 'subordinate';
+    return PROVINCIAL_PATTERN.test(filename) ? 'provincial' : 'federal';
+  }
+
+  /**
+   * Active documents of the given categories whose content is closest to the instrument (mean clause embeddings)
+   */
+  private async nearestDocuments(instrument: ConflictDocument, categories: string[], adminId: number): Promise<ConflictDocument[]> {
+    const result = await pool.query(
+      `WITH instrument AS (
+         SELECT AVG(embedding) AS centroid FROM chunks WHERE document_id = $1 AND embedding_model = $2
+       ),
+       candidates AS (
+         SELECT d.id, d.filename, d.category, d.version, AVG(c.embedding) AS centroid
+         FROM documents d
+         JOIN chunks c ON c.document_id = d.id AND c.embedding_model = $2
+         WHERE d.is_active = true AND d.admin_id = $3 AND d.id <> $1
+         AND LOWER(d.category) = ANY($4)
+         GROUP BY d.id
+       )
+       SELECT c.id, c.filename, c.category, c.version
+       FROM candidates c, instrument i
+       WHERE i.centroid IS NOT NULL
+       ORDER BY c.centroid <=> i.centroid
+       LIMIT $5`,
+      [instrument.id, EMBEDDING_MODEL_ID, adminId, categories.map((c) => c.toLowerCase()), MAX_GOVERNING_ACTS]
+    );
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      filename: row.filename,
+      category: row.category ?? null,
+      version: row.version != null ? String(row.version) : 'latest',
+    }));
+  }
+
+  private summarize(instrument: string, conflicts: DetectedConflict[]): string {
+    if (conflicts.length === 0) {
+      return `✅ No inconsistencies found between ${instrument} and the provisions it was matched to.`;
+    }
+    const highCount = conflicts.filter(c => c.severity === 'high').length;
+    const mediumCount = conflicts.filter(c => c.severity === 'medium').length;
+    const lowCount = conflicts.filter(c => c.severity === 'low').length;
+    const provisions = [...new Set(conflicts.map(c => c.governing_provision).filter(Boolean))].slice(0, 5).join(', ');
+    return `⚠️ **${conflicts.length} possible inconsistenc${conflicts.length > 1 ? 'ies' : 'y'}** in ${instrument}. 🔴 High: ${highCount}, 🟡 Medium: ${mediumCount}, 🟢 Low: ${lowCount}` +
+      (provisions ? `\n\n**Provisions engaged:** ${provisions}` : '');
+  }
+}
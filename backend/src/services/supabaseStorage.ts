@@ -49,7 +49,9 @@ export async function uploadDocumentToSupabase(
         ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
         : ext === '.doc'
           ? 'application/msword'
-          : 'application/octet-stream';
+          : ext === '.txt'
+            ? 'text/plain; charset=utf-8'
+            : 'application/octet-stream';
 
   const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).upload(objectPathInBucket, buffer, {
     contentType,
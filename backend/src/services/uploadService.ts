@@ -1,10 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import pool from '../config/database';
 import { DocumentParser, ChunkWithMetadata } from '../utils/documentParser';
+import { extractJudgmentMetadata, isJudgmentCategory } from '../utils/judgmentMetadata';
 import { generateEmbeddingsBatch } from '../utils/emdedding';
+import { EMBEDDING_MODEL_ID } from '../config/providers';
 import { DocumentService } from './documentService';
+import { IngestionJobRepository } from '../repositories/ingestionJobRepository';
+import { CitationRepository } from '../repositories/citationRepository';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { isSupabaseConfigured } from '../config/supabase';
+import { uploadDocumentToSupabase, isSupabaseFilepath, downloadFromSupabase } from './supabaseStorage';
 import logger from '../utils/logger';
 
+/** Texts embedded (and checkpointed) per batch while a job is in the embedding stage */
+const EMBED_BATCH_SIZE = 100;
+
+/** Progress ranges per stage: parsing/OCR/chunking 0-60, embedding 60-95, store 95-100 */
+const PARSE_PROGRESS_MAX = 60;
+const EMBED_PROGRESS_MAX = 95;
+
 export class UploadService {
   private parser: DocumentParser;
   private documentService: DocumentService;
@@ -19,79 +36,256 @@ export class UploadService {
     return ['pdf', 'docx', 'jpg', 'jpeg', 'png', 'tiff', 'webp'].includes(fileExtension.toLowerCase());
   }
 
-  async ingestDocument(
+  /**
+   * Run (or resume) an ingestion job: parse → embed → store.
+   * Each stage checkpoints to the database, so a job that failed or was interrupted by a restart
+   * picks up after the last completed stage / embedding batch instead of starting over.
+   */
+  async runIngestionJob(jobId: string): Promise<string> {
+    const job = await IngestionJobRepository.findByIdInternal(jobId);
+    if (!job) {
+      throw new Error(`Ingestion job ${jobId} not found`);
+    }
+    if (job.status === 'stored' && job.document_id) {
+      return job.document_id;
+    }
+
+    await IngestionJobRepository.markAttempt(jobId);
+
+    // Stage 1: parse + chunk (skipped when a previous attempt already staged the chunks)
+    let metadata = job.parsed_metadata || {};
+    if (!job.parsed_at) {
+      metadata = job.reindex_document_id
+        ? await this.parseStoredOriginal(jobId, job.filepath, job.filename, job.file_type, job.category)
+        : await this.parseStage(jobId, job.filepath, job.filename, job.file_type, job.category);
+    }
+
+    // Stage 2: embed staged chunks that do not have an embedding yet
+    await this.embedStage(jobId);
+
+    // Reindex: swap the new chunks into the existing document instead of creating a version
+    if (job.reindex_document_id) {
+      await this.reindexStage(jobId, job.reindex_document_id, job.admin_id, metadata);
+      return job.reindex_document_id;
+    }
+
+    // Stage 3: create the document and move staged chunks into the chunks table
+    const documentId = await this.storeStage(jobId, job.admin_id, job.filename, job.filepath, job.category, metadata, {
+      familyId: job.family_id,
+      familyName: job.family_name,
+    });
+
+    // Original file goes to Supabase storage when configured; otherwise it stays on local disk
+    // (the document is already stored at this point, so a storage failure only keeps the local copy)
+    if (isSupabaseConfigured && fs.existsSync(job.filepath)) {
+      try {
+        const supabaseFilepath = await uploadDocumentToSupabase(job.filepath, job.admin_id, documentId, job.filename);
+        await this.documentService.updateDocumentFilepath(documentId, job.admin_id, supabaseFilepath);
+        await IngestionJobRepository.updateFilepath(jobId, supabaseFilepath);
+        fs.unlinkSync(job.filepath);
+      } catch (error) {
+        logger.error('Failed to move ingested document to Supabase storage', { jobId, documentId, error });
+      }
+    }
+
+    return documentId;
+  }
+
+  private async parseStage(
+    jobId: string,
     filePath: string,
     fileName: string,
     fileType: string,
+    category?: string | null
+  ): Promise<Record<string, any>> {
+    await IngestionJobRepository.updateProgress(jobId, 'parsing', { progress: 0, currentPage: 0 });
+
+    const parsed = await this.parser.parse(filePath, fileType, async ({ stage, page, totalPages }) => {
+      const fraction = stage === 'chunking' ? 1 : totalPages > 0 ? (page - 1) / totalPages : 0;
+      await IngestionJobRepository.updateProgress(jobId, stage, {
+        progress: Math.round(fraction * PARSE_PROGRESS_MAX),
+        currentPage: page,
+        totalPages,
+      });
+    });
+
+    // Judgments: court, bench, parties, dates and outcome, checkpointed with the chunks
+    if (isJudgmentCategory(category)) {
+      parsed.metadata.judgment = await extractJudgmentMetadata(
+        parsed.text,
+        parsed.chunks.flatMap((chunk) => chunk.citations ?? []),
+        parsed.metadata.reportedAs
+      );
+    }
+
+    const chunks = parsed.chunks.map((chunk: ChunkWithMetadata) => ({ id: uuidv4(), ...chunk }));
+    await IngestionJobRepository.saveParsedChunks(jobId, chunks, parsed.metadata);
+    await IngestionJobRepository.updateProgress(jobId, 'embedding', { progress: PARSE_PROGRESS_MAX });
+
+    logger.info('Document parsed for ingestion', { jobId, fileName, chunks: chunks.length });
+    return parsed.metadata;
+  }
+
+  /**
+   * Parse the original file of a stored document; files in Supabase storage are parsed from a temporary local copy
+   */
+  private async parseStoredOriginal(
+    jobId: string,
+    filePath: string,
+    fileName: string,
+    fileType: string,
+    category?: string | null
+  ): Promise<Record<string, any>> {
+    if (!isSupabaseFilepath(filePath)) {
+      return this.parseStage(jobId, filePath, fileName, fileType, category);
+    }
+
+    const localPath = path.join(os.tmpdir(), `reindex-${jobId}${path.extname(fileName)}`);
+    fs.writeFileSync(localPath, await downloadFromSupabase(filePath));
+    try {
+      return await this.parseStage(jobId, localPath, fileName, fileType, category);
+    } finally {
+      fs.rmSync(localPath, { force: true });
+    }
+  }
+
+  private async embedStage(jobId: string): Promise<void> {
+    const pending = await IngestionJobRepository.findUnembeddedChunks(jobId);
+    const job = await IngestionJobRepository.findByIdInternal(jobId);
+    const total = job?.chunks_total || pending.length;
+
+    await IngestionJobRepository.updateProgress(jobId, 'embedding');
+
+    for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await generateEmbeddingsBatch(batch.map((c) => c.content));
+      const embedded = await IngestionJobRepository.saveEmbeddings(
+        jobId,
+        batch.map((c, idx) => ({ id: c.id, embedding: vectors[idx] })),
+        EMBEDDING_MODEL_ID
+      );
+      const fraction = total > 0 ? embedded / total : 1;
+      await IngestionJobRepository.updateProgress(jobId, 'embedding', {
+        progress: Math.round(PARSE_PROGRESS_MAX + fraction * (EMBED_PROGRESS_MAX - PARSE_PROGRESS_MAX)),
+      });
+    }
+  }
+
+  private async storeStage(
+    jobId: string,
+    adminId: number,
+    fileName: string,
+    filePath: string,
     category: string = 'Federal Legislation / Acts',
-    adminId: number
+    metadata: Record<string, any>,
+    target: { familyId?: string | null; familyName?: string | null } = {}
   ): Promise<string> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      // Parse document
-      const parsed = await this.parser.parse(filePath, fileType);
+      // DOCUMENT FAMILY: new version of an existing family, or a new family (named by the admin or after the file)
+      let familyId = target.familyId;
+      if (familyId) {
+        const familyResult = await client.query(
+          'SELECT id FROM document_families WHERE id = $1 AND admin_id = $2 FOR UPDATE',
+          [familyId, adminId]
+        );
+        if (familyResult.rows.length === 0) {
+          throw new Error('Document family not found');
+        }
+      } else {
+        familyId = uuidv4();
+        const familyName = target.familyName?.trim() || path.parse(fileName).name;
+        await client.query(
+          'INSERT INTO document_families (id, admin_id, name, category) VALUES ($1, $2, $3, $4)',
+          [familyId, adminId, familyName, category]
+        );
+      }
 
-      // AUTOMATIC VERSION ASSIGNMENT
-      // Get count of existing documents with same category for this admin
-      const countResult = await client.query(
-        `SELECT COUNT(*) as doc_count FROM documents WHERE admin_id = $1 AND category = $2`,
-        [adminId, category]
+      // AUTOMATIC VERSION ASSIGNMENT (per family)
+      const versionResult = await client.query(
+        'SELECT COALESCE(MAX(version), 0) + 1 AS next_version FROM documents WHERE family_id = $1',
+        [familyId]
       );
-      
-      const nextVersion = parseInt(countResult.rows[0].doc_count, 10) + 1;
 
-      // Deactivate all previous documents with same category
+      const nextVersion = parseInt(versionResult.rows[0].next_version, 10);
+
+      // Deactivate previous versions of the same family
       await client.query(
-        `UPDATE documents SET is_active = false WHERE admin_id = $1 AND category = $2`,
-        [adminId, category]
+        'UPDATE documents SET is_active = false WHERE admin_id = $1 AND family_id = $2',
+        [adminId, familyId]
       );
 
-      // Create new document record with auto-assigned version and is_active = true (filename and filepath only; no name column)
+      // Create new document record with auto-assigned version and is_active = true (filename and filepath only; no name column).
+      // Effective dates given at upload come from the job.
       const documentId = uuidv4();
       await client.query(
-        `INSERT INTO documents (id, admin_id, filename, filepath, category, version, is_active, metadata, upload_date) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [documentId, adminId, fileName, filePath, category, nextVersion, true, JSON.stringify(parsed.metadata), new Date()]
+        `INSERT INTO documents (id, admin_id, family_id, filename, filepath, category, version, is_active, metadata, upload_date,
+           effective_from, effective_to)
+         SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, j.effective_from, j.effective_to
+         FROM ingestion_jobs j WHERE j.id = $11`,
+        [documentId, adminId, familyId, fileName, filePath, category, nextVersion, true, JSON.stringify(metadata), new Date(), jobId]
       );
 
-      // Batch-embed all chunks (single API call per BATCH_SIZE texts), then insert
-      const chunks = parsed.chunks;
-      logger.info('Processing chunks for upload', { chunks: chunks.length, fileName });
+      // Citation graph edges come from the staged chunks, so they are created before the chunks move
+      const citationCount = await CitationRepository.createFromStagedChunks(client, jobId, documentId, adminId);
+      const chunkCount = await IngestionJobRepository.moveStagedChunks(client, jobId, documentId);
+      await SearchIndexRepository.addDocument(client, documentId);
+      await CitationRepository.resolveTargets(client, adminId);
 
-      const texts = chunks.map((c: ChunkWithMetadata) => c.content);
-      const allEmbeddings = await generateEmbeddingsBatch(texts);
+      await IngestionJobRepository.markStored(client, jobId, documentId);
 
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk: ChunkWithMetadata = chunks[i];
-        const chunkId = uuidv4();
-        const embedding = allEmbeddings[i];
+      await client.query('COMMIT');
 
-        if (chunk.section_name) {
-          logger.debug('Chunk section', { i, section: chunk.section_name?.substring(0, 50), page: chunk.page_number });
-        }
+      logger.info('Document ingested', { jobId, fileName, version: nextVersion, chunks: chunkCount, citations: citationCount });
+      return documentId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-        await client.query(
-          `INSERT INTO chunks (id, document_id, content, embedding, chunk_index, section_name, page_number) 
-           VALUES ($1, $2, $3, $4::vector, $5, $6, $7)`,
-          [
-            chunkId,
-            documentId,
-            chunk.content,
-            JSON.stringify(embedding),
-            i,
-            chunk.section_name || null,
-            chunk.page_number || null
-          ]
-        );
+  /**
+   * Replace a document's chunks and citation edges with the staged ones in one transaction, so searches see
+   * either the old or the new index. Version, family and activation state are left as they are.
+   */
+  private async reindexStage(jobId: string, documentId: string, adminId: number, metadata: Record<string, any>): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const documentResult = await client.query(
+        'SELECT id FROM documents WHERE id = $1 AND admin_id = $2 FOR UPDATE',
+        [documentId, adminId]
+      );
+      if (documentResult.rows.length === 0) {
+        throw new Error('Document to reindex no longer exists');
       }
 
+      await client.query('DELETE FROM citation_edges WHERE source_document_id = $1', [documentId]);
+      await SearchIndexRepository.removeDocument(client, documentId);
+      await client.query('DELETE FROM chunks WHERE document_id = $1', [documentId]);
+
+      const citationCount = await CitationRepository.createFromStagedChunks(client, jobId, documentId, adminId);
+      const chunkCount = await IngestionJobRepository.moveStagedChunks(client, jobId, documentId);
+      await SearchIndexRepository.addDocument(client, documentId);
+      await CitationRepository.resolveTargets(client, adminId);
+
+      // Parsed metadata (language, report citation, ...) is refreshed; other keys are kept
+      await client.query(
+        `UPDATE documents SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [documentId, JSON.stringify(metadata)]
+      );
+
+      await IngestionJobRepository.markStored(client, jobId, documentId);
+
       await client.query('COMMIT');
 
-      const sectionsDetected = chunks.filter(c => c.section_name).length;
-      logger.info('Document ingested', { fileName, version: nextVersion, chunks: chunks.length, sectionsDetected });
-      return documentId;
+      logger.info('Document reindexed', { jobId, documentId, chunks: chunkCount, citations: citationCount });
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -99,4 +293,4 @@ export class UploadService {
       client.release();
     }
   }
-}
\ No newline at end of file
+}
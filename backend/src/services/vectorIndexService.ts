@@ -0,0 +1,193 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { EMBEDDING_MODEL_ID } from '../config/providers';
+import { EmbeddingRepository } from '../repositories/embeddingRepository';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { VectorIndexMethod, VectorIndexRepository } from '../repositories/vectorIndexRepository';
+import { SearchFilters } from '../utils/searchFilters';
+import logger from '../utils/logger';
+
+function intEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** hnsw (default), ivfflat or none (exact search only) */
+const INDEX_METHOD = (process.env.VECTOR_INDEX || 'hnsw').trim().toLowerCase();
+const HNSW_M = intEnv('VECTOR_INDEX_HNSW_M', 16);
+const HNSW_EF_CONSTRUCTION = intEnv('VECTOR_INDEX_HNSW_EF_CONSTRUCTION', 64);
+/** Unset: chosen from the number of embedded chunks when the index is built */
+const IVFFLAT_LISTS = intEnv('VECTOR_INDEX_IVFFLAT_LISTS', 0);
+
+// Query time: HNSW candidate list / IVFFlat lists visited, and how far past topK the index is read so that
+// chunks removed by the tenant and filter conditions still leave topK results
+const EF_SEARCH = intEnv('VECTOR_SEARCH_EF_SEARCH', 100);
+const PROBES = intEnv('VECTOR_SEARCH_PROBES', 10);
+const OVERFETCH = intEnv('VECTOR_SEARCH_OVERFETCH', 4);
+const MAX_SCAN_TUPLES = intEnv('VECTOR_SEARCH_MAX_SCAN_TUPLES', 20000);
+/** Tenants with at most this many chunks are searched exactly (a scan this size is faster than a filtered ANN walk) */
+const EXACT_MAX_CHUNKS = intEnv('VECTOR_SEARCH_EXACT_MAX_CHUNKS', 20000);
+
+/** pgvector limits: indexable dimensions and HNSW ef_search */
+const MAX_INDEX_DIMENSIONS = 2000;
+const MAX_EF_SEARCH = 1000;
+
+/** exact: ordered scan of the matching chunks; ann: through the index; auto: chosen per search */
+export type VectorSearchStrategy = 'auto' | 'exact' | 'ann';
+
+/** Per-search overrides of the query-time index parameters (benchmarks); applied as given, without over-fetch */
+export interface VectorSearchTuning {
+  efSearch?: number;
+  probes?: number;
+}
+
+export interface VectorIndexState {
+  method: VectorIndexMethod;
+  spec: string | null;
+  extensionVersion: string;
+  /** pgvector 0.8+: the index scan continues past ef_search / probes until enough rows pass the filters */
+  iterativeScan: boolean;
+}
+
+let indexState: Promise<VectorIndexState | null> | null = null;
+
+function supportsIterativeScan(version: string): boolean {
+  const [major, minor] = version.split('.').map((part) => parseInt(part, 10) || 0);
+  return major > 0 || minor >= 8;
+}
+
+async function loadIndexState(): Promise<VectorIndexState | null> {
+  const [index, extensionVersion] = await Promise.all([
+    VectorIndexRepository.getIndex(),
+    VectorIndexRepository.getExtensionVersion(),
+  ]);
+  if (!index?.valid || !extensionVersion) return null;
+  return { ...index, extensionVersion, iterativeScan: supportsIterativeScan(extensionVersion) };
+}
+
+/** The usable ANN index, or null when searches must be exact (cached; refreshed after the index is rebuilt) */
+export function getVectorIndexState(): Promise<VectorIndexState | null> {
+  if (!indexState) {
+    indexState = loadIndexState().catch((error) => {
+      logger.warn('Vector index: failed to read index state', { error });
+      indexState = null;
+      return null;
+    });
+  }
+  return indexState;
+}
+
+function desiredIndex(embeddedChunks: number): { method: VectorIndexMethod; options: Record<string, number>; spec: string } {
+  if (INDEX_METHOD === 'ivfflat') {
+    // pgvector guidance: rows / 1000 lists up to 1M rows, sqrt(rows) beyond
+    const lists = IVFFLAT_LISTS || Math.max(10, Math.round(embeddedChunks <= 1_000_000 ? embeddedChunks / 1000 : Math.sqrt(embeddedChunks)));
+    return { method: 'ivfflat', options: { lists }, spec: `ivfflat lists=${IVFFLAT_LISTS || 'auto'}` };
+  }
+  return {
+    method: 'hnsw',
+    options: { m: HNSW_M, ef_construction: HNSW_EF_CONSTRUCTION },
+    spec: `hnsw m=${HNSW_M} ef_construction=${HNSW_EF_CONSTRUCTION}`,
+  };
+}
+
+/**
+ * Create, rebuild or drop the ANN index on chunks.embedding to match the configuration (VECTOR_INDEX and its
+ * build parameters). Runs on startup once stored vectors match the embedding model; an IVFFlat index is only
+ * built once there are embedded chunks to train its lists on. Searches stay exact until the index is valid.
+ */
+export async function ensureVectorIndex(): Promise<void> {
+  try {
+    if (INDEX_METHOD !== 'hnsw' && INDEX_METHOD !== 'ivfflat') {
+      if (INDEX_METHOD !== 'none') logger.warn('Vector index: unknown VECTOR_INDEX, using exact search', { value: INDEX_METHOD });
+      if (await VectorIndexRepository.getIndex()) {
+        await VectorIndexRepository.dropIndex();
+        logger.info('Vector index: dropped');
+      }
+      return;
+    }
+
+    if (!(await VectorIndexRepository.getExtensionVersion())) {
+      logger.warn('Vector index: pgvector extension not installed, using exact search');
+      return;
+    }
+    const dimensions = await EmbeddingRepository.getColumnDimensions();
+    if (dimensions === null || dimensions > MAX_INDEX_DIMENSIONS) {
+      logger.warn('Vector index: chunks.embedding cannot be indexed, using exact search', {
+        dimensions,
+        reason: dimensions === null ? 'column has no fixed size' : `more than ${MAX_INDEX_DIMENSIONS} dimensions`,
+      });
+      return;
+    }
+
+    const embeddedChunks = await VectorIndexRepository.countEmbeddedChunks(EMBEDDING_MODEL_ID);
+    const desired = desiredIndex(embeddedChunks);
+    const existing = await VectorIndexRepository.getIndex();
+    if (existing?.valid && existing.spec === desired.spec) return;
+    if (desired.method === 'ivfflat' && embeddedChunks === 0) {
+      logger.info('Vector index: IVFFlat build deferred until chunks are embedded');
+      return;
+    }
+
+    logger.info('Vector index: building', { spec: desired.spec, options: desired.options, chunks: embeddedChunks });
+    const started = Date.now();
+    await VectorIndexRepository.createIndex(desired.method, desired.options, desired.spec);
+    logger.info('Vector index: built', { spec: desired.spec, durationMs: Date.now() - started });
+  } finally {
+    indexState = null;
+  }
+}
+
+/**
+ * Exact or ANN for one search. Small tenants and searches limited to selected documents are exact: the
+ * matching chunks are few, and an index walk would mostly visit other tenants' chunks.
+ */
+export async function chooseVectorSearchStrategy(adminId?: number, filters?: SearchFilters): Promise<'exact' | 'ann'> {
+  if (!(await getVectorIndexState())) return 'exact';
+  if (filters?.documentIds?.length || filters?.familyIds?.length) return 'exact';
+  const { chunkCount } = await SearchIndexRepository.getCorpusStats(adminId);
+  return chunkCount <= EXACT_MAX_CHUNKS ? 'exact' : 'ann';
+}
+
+/** SET LOCAL statements for an ANN search returning topK rows (values are integers, not user input) */
+function annSettings(state: VectorIndexState, topK: number, tuning: VectorSearchTuning): string[] {
+  if (state.method === 'ivfflat') {
+    const settings = [`SET LOCAL ivfflat.probes = ${Math.max(1, Math.floor(tuning.probes ?? PROBES))}`];
+    if (state.iterativeScan) settings.push('SET LOCAL ivfflat.iterative_scan = relaxed_order');
+    return settings;
+  }
+  const efSearch = tuning.efSearch !== undefined
+    ? Math.min(MAX_EF_SEARCH, Math.max(1, Math.floor(tuning.efSearch)))
+    : Math.min(MAX_EF_SEARCH, Math.max(EF_SEARCH, topK * OVERFETCH));
+  const settings = [`SET LOCAL hnsw.ef_search = ${efSearch}`];
+  if (state.iterativeScan) {
+    settings.push('SET LOCAL hnsw.iterative_scan = relaxed_order', `SET LOCAL hnsw.max_scan_tuples = ${MAX_SCAN_TUPLES}`);
+  }
+  return settings;
+}
+
+/**
+ * Run an ANN search on one connection with the index's query-time parameters applied for that transaction only.
+ * With relaxed_order the index may return rows slightly out of order, so queries re-sort what it returns.
+ */
+export async function withAnnSearchSettings<T>(
+  topK: number,
+  run: (client: PoolClient) => Promise<T>,
+  tuning: VectorSearchTuning = {}
+): Promise<T> {
+  const state = await getVectorIndexState();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const statement of state ? annSettings(state, topK, tuning) : []) {
+      await client.query(statement);
+    }
+    const result = await run(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
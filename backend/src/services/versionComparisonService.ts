@@ -1,8 +1,10 @@
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import { DocumentService } from './documentService';
 import { ConflictDetectionService } from './conflictDetectionService';
+import { DocumentFamilyService } from './documentFamilyService';
 import pool from '../config/database';
 import logger from '../utils/logger';
+import { diffVersions } from '../utils/structuralDiff';
 
 export interface ParsedComparisonRequest {
   documentName: string;
@@ -13,10 +15,12 @@ export interface ParsedComparisonRequest {
 export class VersionComparisonService {
   private documentService: DocumentService;
   private conflictService: ConflictDetectionService;
+  private familyService: DocumentFamilyService;
 
   constructor() {
     this.documentService = new DocumentService();
     this.conflictService = new ConflictDetectionService();
+    this.familyService = new DocumentFamilyService();
   }
 
   /**
@@ -295,8 +299,8 @@ Return ONLY the JSON object or null, nothing else.`;
   }
 
   /**
-   * Process intelligent version comparison by category.
-   * Resolves category from input, then fetches and compares specific two versions.
+   * Process intelligent version comparison within a document family.
+   * Resolves the family from input, then fetches and compares two specific versions.
    */
   async processComparison(userQuery: string, adminId: number): Promise<any> {
     try {
@@ -311,101 +315,63 @@ Return ONLY the JSON object or null, nothing else.`;
         };
       }
 
-      // Step 2: Resolve category from parsed document name
-      const resolution = await this.resolveCategoryFromInput(parsed.documentName, adminId);
+      // Step 2: Resolve document family from parsed document name
+      const resolution = await this.familyService.resolveFamilyFromInput(parsed.documentName, adminId);
 
       if (!resolution) {
-        // Get available categories for suggestions
-        const categoriesQuery = `
-          SELECT DISTINCT category
-          FROM documents
-          WHERE admin_id = $1 AND is_active = true AND category IS NOT NULL
-          ORDER BY category
-        `;
-        const categoriesResult = await pool.query(categoriesQuery, [adminId]);
-        const availableCategories = categoriesResult.rows
-          .map((r: any) => r.category)
-          .filter(Boolean);
-
         return {
-          error: `Could not find a category for "${parsed.documentName}".`,
-          suggestions:
-            availableCategories.length > 0
-              ? `Available categories: ${availableCategories.join(', ')}`
-              : 'No documents found in your account.',
+          error: `Could not find a document matching "${parsed.documentName}".`,
+          suggestions: await this.availableFamiliesSuggestion(adminId),
           confidence: 0
         };
       }
+      const { family } = resolution;
 
       // Step 3: Resolve version numbers
-      const resolvedV1 = await this.resolveVersionInCategory(
-        resolution.category,
-        parsed.version1,
-        adminId
-      );
-      const resolvedV2 = await this.resolveVersionInCategory(
-        resolution.category,
-        parsed.version2,
-        adminId
-      );
+      const resolvedV1 = await this.resolveVersionInFamily(family.id, parsed.version1, adminId);
+      const resolvedV2 = await this.resolveVersionInFamily(family.id, parsed.version2, adminId);
 
       if (!resolvedV1 || !resolvedV2) {
-        // Get available versions for this category
-        const availableVersionsQuery = `
-          SELECT DISTINCT version
-          FROM documents
-          WHERE category = $1 AND admin_id = $2 AND version IS NOT NULL
-          ORDER BY CAST(version AS INTEGER) ASC
-        `;
-        const availableResult = await pool.query(availableVersionsQuery, [
-          resolution.category,
-          adminId
-        ]);
+        // Get available versions for this family
+        const availableResult = await pool.query(
+          `SELECT version FROM documents
+           WHERE family_id = $1 AND admin_id = $2
+           ORDER BY version ASC`,
+          [family.id, adminId]
+        );
         const availableVersions = availableResult.rows.map((r: any) => r.version);
 
         return {
-          error: `Could not resolve versions "${parsed.version1}" and/or "${parsed.version2}" for category "${resolution.category}".`,
+          error: `Could not resolve versions "${parsed.version1}" and/or "${parsed.version2}" for "${family.name}".`,
+          family: family.name,
           available_versions: availableVersions,
           suggestions: `Available versions: ${availableVersions.join(', ')}`,
           confidence: 0
         };
       }
 
-      // Step 4: Fetch the specific versions by category and version number
-      const v1Query = `
-        SELECT id, filename, version, is_active, created_at, content
-        FROM documents
-        WHERE category = $1 AND admin_id = $2 AND version = $3
-        LIMIT 1
-      `;
-      const v1Result = await pool.query(v1Query, [resolution.category, adminId, resolvedV1]);
-      const v1Doc = v1Result.rows[0];
-
-      const v2Query = `
-        SELECT id, filename, version, is_active, created_at, content
+      // Step 4: Fetch the specific versions by family and version number
+      const versionQuery = `
+        SELECT id, filename, version, is_active, created_at
         FROM documents
-        WHERE category = $1 AND admin_id = $2 AND version = $3
+        WHERE family_id = $1 AND admin_id = $2 AND version = $3
         LIMIT 1
       `;
-      const v2Result = await pool.query(v2Query, [resolution.category, adminId, resolvedV2]);
-      const v2Doc = v2Result.rows[0];
+      const v1Doc = (await pool.query(versionQuery, [family.id, adminId, resolvedV1])).rows[0];
+      const v2Doc = (await pool.query(versionQuery, [family.id, adminId, resolvedV2])).rows[0];
 
       if (!v1Doc || !v2Doc) {
         return {
           error: 'Could not fetch the specified versions for comparison.',
-          category: resolution.category,
+          family: family.name,
+          category: family.category,
           confidence: 0
         };
       }
 
       // Step 5: Perform detailed comparison
       try {
-        const comparison = await this.documentService.compareVersionsDetailed(
-          v1Doc.filename,
-          resolvedV1.toString(),
-          resolvedV2.toString(),
-          adminId
-        );
+        const comparison = await this.documentService.compareDocumentsDetailed(family.name, v1Doc.id, v2Doc.id);
 
         const citations = this.extractCitations(comparison);
 
@@ -420,7 +386,8 @@ Return ONLY the JSON object or null, nothing else.`;
 
         return {
           success: true,
-          category: resolution.category,
+          family: family.name,
+          category: family.category,
           resolved_from: resolution.resolvedFrom,
           comparison: {
             ...comparison,
@@ -432,7 +399,8 @@ Return ONLY the JSON object or null, nothing else.`;
         return {
           error: 'Failed to compare versions',
           details: error.message,
-          category: resolution.category,
+          family: family.name,
+          category: family.category,
           confidence: 0
         };
       }
@@ -447,11 +415,11 @@ Return ONLY the JSON object or null, nothing else.`;
   }
 
   /**
-   * Helper: Resolve a version string to an actual version number in a specific category.
+   * Helper: Resolve a version string to an actual version number in a specific document family.
    * Supports: exact versions, "latest", "previous", partial versions.
    */
-  private async resolveVersionInCategory(
-    category: string,
+  private async resolveVersionInFamily(
+    familyId: string,
     versionInput: string,
     adminId: number
   ): Promise<number | null> {
@@ -462,11 +430,11 @@ Return ONLY the JSON object or null, nothing else.`;
       const query = `
         SELECT version
         FROM documents
-        WHERE category = $1 AND admin_id = $2
+        WHERE family_id = $1 AND admin_id = $2
         ORDER BY CAST(version AS INTEGER) DESC
         LIMIT 1
       `;
-      const result = await pool.query(query, [category, adminId]);
+      const result = await pool.query(query, [familyId, adminId]);
       const version = result.rows[0]?.version;
       return version != null ? (typeof version === 'string' ? parseInt(version, 10) : version) : null;
     }
@@ -476,11 +444,11 @@ Return ONLY the JSON object or null, nothing else.`;
       const query = `
         SELECT version
         FROM documents
-        WHERE category = $1 AND admin_id = $2
+        WHERE family_id = $1 AND admin_id = $2
         ORDER BY CAST(version AS INTEGER) DESC
         LIMIT 2 OFFSET 1
       `;
-      const result = await pool.query(query, [category, adminId]);
+      const result = await pool.query(query, [familyId, adminId]);
       const version = result.rows[0]?.version;
       return version != null ? (typeof version === 'string' ? parseInt(version, 10) : version) : null;
     }
@@ -489,10 +457,10 @@ Return ONLY the JSON object or null, nothing else.`;
     const exactQuery = `
       SELECT version
       FROM documents
-      WHERE category = $1 AND admin_id = $2 AND (version = $3 OR version::text = $3)
+      WHERE family_id = $1 AND admin_id = $2 AND (version = $3 OR version::text = $3)
       LIMIT 1
     `;
-    const exactResult = await pool.query(exactQuery, [category, adminId, versionInput.trim()]);
+    const exactResult = await pool.query(exactQuery, [familyId, adminId, versionInput.trim()]);
     if (exactResult.rows.length > 0) {
       const version = exactResult.rows[0].version;
       return version != null ? (typeof version === 'string' ? parseInt(version, 10) : version) : null;
@@ -502,12 +470,12 @@ Return ONLY the JSON object or null, nothing else.`;
     const partialQuery = `
       SELECT version
       FROM documents
-      WHERE category = $1 AND admin_id = $2 AND version::text LIKE $3
+      WHERE family_id = $1 AND admin_id = $2 AND version::text LIKE $3
       ORDER BY version DESC
       LIMIT 1
     `;
     const partialResult = await pool.query(partialQuery, [
-      category,
+      familyId,
       adminId,
       `${versionInput}%`
     ]);
@@ -519,10 +487,20 @@ Return ONLY the JSON object or null, nothing else.`;
     return null;
   }
 
+  /**
+   * Helper: "Available documents: ..." suggestion listing the admin's document families
+   */
+  private async availableFamiliesSuggestion(adminId: number): Promise<string> {
+    const families = await this.familyService.listFamilies(adminId);
+    const names = families.filter((f) => f.version_count).map((f) => f.name);
+    return names.length > 0 ? `Available documents: ${names.join(', ')}` : 'No documents found in your account.';
+  }
+
   /**
    * Compare two documents by their IDs (not by filename+version).
-   * This allows comparing documents with different filenames in the same category.
-   * Performs direct chunk comparison without relying on DocumentService.
+   * This allows comparing documents with different filenames in the same document family.
+   * Sections are aligned structurally (see utils/structuralDiff), so renumbered and moved sections are
+   * reported as such and modified sections include a side-by-side word-level redline.
    */
   private async compareDocumentsByIds(
     doc1Id: string,
@@ -536,7 +514,7 @@ Return ONLY the JSON object or null, nothing else.`;
     try {
       // Get chunks for both documents
       const v1ChunksResult = await pool.query(
-        `SELECT chunk_index, content, section_name, page_number
+        `SELECT chunk_index, content, section_name, page_number, hierarchy
          FROM chunks
          WHERE document_id = $1
          ORDER BY chunk_index ASC`,
@@ -544,7 +522,7 @@ Return ONLY the JSON object or null, nothing else.`;
       );
 
       const v2ChunksResult = await pool.query(
-        `SELECT chunk_index, content, section_name, page_number
+        `SELECT chunk_index, content, section_name, page_number, hierarchy
          FROM chunks
          WHERE document_id = $1
          ORDER BY chunk_index ASC`,
@@ -558,79 +536,13 @@ Return ONLY the JSON object or null, nothing else.`;
         throw new Error('One or both documents not found');
       }
 
-      // Simple chunk comparison: match by content similarity and track changes
-      const changes: any[] = [];
-      const usedV2Indices = new Set<number>();
-
-      // Find modified and removed chunks
-      for (const v1Chunk of v1Chunks) {
-        let foundMatch = false;
-
-        for (let j = 0; j < v2Chunks.length; j++) {
-          if (usedV2Indices.has(j)) continue;
-
-          const v2Chunk = v2Chunks[j];
-          const similarity = this.calculateSimilarity(v1Chunk.content, v2Chunk.content);
-
-          if (similarity > 0.8) {
-            // Match found
-            usedV2Indices.add(j);
-            foundMatch = true;
-
-            if (similarity < 0.95) {
-              // Modified
-              changes.push({
-                chunk_index: v1Chunk.chunk_index,
-                section_name: v1Chunk.section_name,
-                page_number: v1Chunk.page_number,
-                old_content: v1Chunk.content,
-                new_content: v2Chunk.content,
-                change_type: 'modified',
-                similarity_score: similarity
-              });
-            } else {
-              // Unchanged
-              changes.push({
-                chunk_index: v1Chunk.chunk_index,
-                section_name: v1Chunk.section_name,
-                page_number: v1Chunk.page_number,
-                old_content: v1Chunk.content,
-                new_content: v2Chunk.content,
-                change_type: 'unchanged',
-                similarity_score: similarity
-              });
-            }
-            break;
-          }
-        }
-
-        if (!foundMatch) {
-          // Removed
-          changes.push({
-            chunk_index: v1Chunk.chunk_index,
-            section_name: v1Chunk.section_name,
-            page_number: v1Chunk.page_number,
-            old_content: v1Chunk.content,
-            new_content: undefined,
-            change_type: 'removed'
-          });
-        }
-      }
-
-      // Find added chunks in v2
-      for (let j = 0; j < v2Chunks.length; j++) {
-        if (!usedV2Indices.has(j)) {
-          const v2Chunk = v2Chunks[j];
-          changes.push({
-            chunk_index: v2Chunk.chunk_index,
-            section_name: v2Chunk.section_name,
-            page_number: v2Chunk.page_number,
-            old_content: undefined,
-            new_content: v2Chunk.content,
-            change_type: 'added'
-          });
-        }
-      }
+      // Align sections by number / name first, then by text; modified sections carry a word-level redline
+      const diff = diffVersions(v1Chunks, v2Chunks);
+      const changes = diff.changes.map((change) => ({
+        ...change,
+        section_name: [...change.path, change.new_ref ?? change.old_ref].filter(Boolean).join(' > ') || null,
+        page_number: change.new_page ?? change.old_page,
+      }));
 
       // Calculate statistics
       const statistics = {
@@ -638,13 +550,16 @@ Return ONLY the JSON object or null, nothing else.`;
         chunks_removed: changes.filter((c: any) => c.change_type === 'removed').length,
         chunks_modified: changes.filter((c: any) => c.change_type === 'modified').length,
         chunks_unchanged: changes.filter((c: any) => c.change_type === 'unchanged').length,
+        sections_renumbered: changes.filter((c) => c.renumbered).length,
+        sections_moved: changes.filter((c) => c.moved).length,
+        alignment: diff.alignment,
         total_changes: 0,
         change_percentage: 0
       };
 
       statistics.total_changes = statistics.chunks_added + statistics.chunks_removed + statistics.chunks_modified;
-      const totalChunks = v1Chunks.length || 1;
-      statistics.change_percentage = (statistics.total_changes / totalChunks) * 100;
+      const totalSections = changes.filter((c) => c.change_type !== 'added').length || 1;
+      statistics.change_percentage = (statistics.total_changes / totalSections) * 100;
 
       // Generate summary
       const summary = this.generateComparisonSummary(statistics);
@@ -680,25 +595,6 @@ Return ONLY the JSON object or null, nothing else.`;
     }
   }
 
-  /**
-   * Calculate similarity between two text strings (simple approach)
-   */
-  private calculateSimilarity(text1: string, text2: string): number {
-    if (!text1 || !text2) return 0;
-    if (text1 === text2) return 1;
-    
-    const len1 = text1.length;
-    const len2 = text2.length;
-    const maxLen = Math.max(len1, len2);
-
-    let matches = 0;
-    for (let i = 0; i < Math.min(len1, len2); i++) {
-      if (text1[i] === text2[i]) matches++;
-    }
-
-    return matches / maxLen;
-  }
-
   /**
    * Generate a summary of comparison statistics
    */
@@ -714,6 +610,12 @@ Return ONLY the JSON object or null, nothing else.`;
     if (statistics.chunks_modified > 0) {
       parts.push(`${statistics.chunks_modified} section(s) modified`);
     }
+    if (statistics.sections_renumbered > 0) {
+      parts.push(`${statistics.sections_renumbered} section(s) renumbered`);
+    }
+    if (statistics.sections_moved > 0) {
+      parts.push(`${statistics.sections_moved} section(s) moved`);
+    }
 
     if (parts.length === 0) {
       return 'No changes detected between versions.';
@@ -723,59 +625,103 @@ Return ONLY the JSON object or null, nothing else.`;
   }
 
   /**
-   * Compare all versions of a document BY CATEGORY (not by filename).
-   * Returns all versions in that category with consecutive pair comparisons.
+   * Structured comparison of two versions of a family for the redline viewer.
+   * Defaults: `toVersion` = latest, `fromVersion` = the version before `toVersion`.
+   */
+  async compareFamilyVersions(
+    familyId: string,
+    adminId: number,
+    fromVersion?: number,
+    toVersion?: number
+  ): Promise<any> {
+    const family = await this.familyService.getFamilyById(familyId, adminId);
+    if (!family) {
+      throw new Error('Document family not found');
+    }
+    const versions = await this.familyService.getFamilyVersions(family.id, adminId);
+    if (versions.length < 2) {
+      throw new Error(`"${family.name}" has only ${versions.length} version(s); at least two are needed to compare`);
+    }
+
+    const to = toVersion !== undefined ? versions.find((v) => v.version === toVersion) : versions[versions.length - 1];
+    if (!to) {
+      throw new Error(`Version ${toVersion} of "${family.name}" not found`);
+    }
+    const from = fromVersion !== undefined
+      ? versions.find((v) => v.version === fromVersion)
+      : [...versions].reverse().find((v) => v.version < to.version);
+    if (!from) {
+      throw new Error(fromVersion !== undefined ? `Version ${fromVersion} of "${family.name}" not found` : `No version before v${to.version}`);
+    }
+    if (from.id === to.id) {
+      throw new Error('Choose two different versions to compare');
+    }
+
+    const comparison = await this.compareDocumentsByIds(
+      from.id,
+      from.filename,
+      from.version,
+      to.id,
+      to.filename,
+      to.version,
+      adminId
+    );
+    const describe = (v: typeof from) => ({
+      id: v.id,
+      version: v.version,
+      filename: v.filename,
+      upload_date: v.upload_date,
+      in_force_from: v.in_force_from,
+      in_force_to: v.in_force_to,
+    });
+
+    return {
+      ...comparison,
+      family: { id: family.id, name: family.name, category: family.category },
+      versions: versions.map(describe),
+      version1: { ...comparison.version1, ...describe(from) },
+      version2: { ...comparison.version2, ...describe(to) },
+    };
+  }
+
+  /**
+   * Compare all versions of a document family.
+   * Returns all versions in the family with consecutive pair comparisons.
    */
   async compareAllVersions(
     userInput: string,
     adminId: number
   ): Promise<{
-    category: string;
+    family: string;
+    category: string | null;
     resolved_from: string;
     total_versions: number;
-    versions: Array<{ version: number; filename: string; is_active: boolean; date: string }>;
+    versions: Array<{ id: string; version: number; filename: string; is_active: boolean; date: string }>;
     comparisons: Array<{ from_version: number; to_version: number; changes: any }>;
     message?: string;
     confidence: number;
   } | { error: string; suggestions?: string; confidence: number }> {
     try {
-      // Step 1: Resolve category from user input
-      const resolution = await this.resolveCategoryFromInput(userInput, adminId);
+      // Step 1: Resolve document family from user input
+      const resolution = await this.familyService.resolveFamilyFromInput(userInput, adminId);
 
       if (!resolution) {
-        // Try to get available categories for suggestions
-        const categoriesQuery = `
-          SELECT DISTINCT category
-          FROM documents
-          WHERE admin_id = $1 AND is_active = true AND category IS NOT NULL
-          ORDER BY category
-        `;
-        const categoriesResult = await pool.query(categoriesQuery, [adminId]);
-        const availableCategories = categoriesResult.rows
-          .map((r: any) => r.category)
-          .filter(Boolean);
-
         return {
-          error: `Could not identify a document or category from "${userInput}".`,
-          suggestions:
-            availableCategories.length > 0
-              ? `Available categories: ${availableCategories.join(', ')}`
-              : 'No documents found in your account.',
+          error: `Could not identify a document from "${userInput}".`,
+          suggestions: await this.availableFamiliesSuggestion(adminId),
           confidence: 0
         };
       }
+      const { family } = resolution;
 
-      // Step 2: Fetch ALL versions in that category, ordered by version ASC (numeric order)
+      // Step 2: Fetch ALL versions in that family, ordered by version ASC
       const versionsQuery = `
         SELECT id, filename, version, is_active, created_at
         FROM documents
-        WHERE category = $1 AND admin_id = $2 AND version IS NOT NULL
-        ORDER BY CAST(version AS INTEGER) ASC
+        WHERE family_id = $1 AND admin_id = $2 AND version IS NOT NULL
+        ORDER BY version ASC
       `;
-      const versionsResult = await pool.query(versionsQuery, [
-        resolution.category,
-        adminId
-      ]);
+      const versionsResult = await pool.query(versionsQuery, [family.id, adminId]);
       // Convert version to number
       const versions: Array<{ id: string; filename: string; version: number; is_active: boolean; created_at: Date }> = versionsResult.rows.map((row: any) => ({
         ...row,
@@ -787,11 +733,13 @@ Return ONLY the JSON object or null, nothing else.`;
         const v = versions[0];
         const dateStr = new Date(v.created_at).toISOString().split('T')[0];
         return {
-          category: resolution.category,
+          family: family.name,
+          category: family.category,
           resolved_from: resolution.resolvedFrom,
           total_versions: 1,
           versions: [
             {
+              id: v.id,
               version: v.version,
               filename: v.filename,
               is_active: v.is_active,
@@ -799,7 +747,7 @@ Return ONLY the JSON object or null, nothing else.`;
             }
           ],
           comparisons: [],
-          message: `Only one version of "${resolution.category}" exists (v${v.version}, uploaded ${dateStr}). Upload a new version to enable comparison.`,
+          message: `Only one version of "${family.name}" exists (v${v.version}, uploaded ${dateStr}). Upload a new version to enable comparison.`,
           confidence: 0
         };
       }
@@ -807,13 +755,14 @@ Return ONLY the JSON object or null, nothing else.`;
       if (versions.length === 0) {
         return {
           error: `No documents found for "${userInput}".`,
-          suggestions: 'Check the category name and try again.',
+          suggestions: 'Check the document name and try again.',
           confidence: 0
         };
       }
 
       // Step 4: Prepare versions info for response
       const versionsList = versions.map((v) => ({
+        id: v.id,
         version: v.version,
         filename: v.filename,
         is_active: v.is_active,
@@ -831,7 +780,7 @@ Return ONLY the JSON object or null, nothing else.`;
         // Defensive: ensure versions are valid numbers
         if (!v1?.version || !v2?.version) {
           logger.warn('Skipping comparison due to missing version', {
-            category: resolution.category,
+            family: family.name,
             v1Version: v1?.version,
             v2Version: v2?.version
           });
@@ -859,7 +808,7 @@ Return ONLY the JSON object or null, nothing else.`;
           });
         } catch (error: any) {
           logger.error('Compare pair failed in compareAllVersions', {
-            category: resolution.category,
+            family: family.name,
             v1: v1.version,
             v1Filename: v1.filename,
             v2: v2.version,
@@ -903,7 +852,8 @@ Return ONLY the JSON object or null, nothing else.`;
       const confidence = Math.min(baseScore, 85);
 
       return {
-        category: resolution.category,
+        family: family.name,
+        category: family.category,
         resolved_from: resolution.resolvedFrom,
         total_versions: versions.length,
         versions: versionsList,
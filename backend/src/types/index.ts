@@ -1,4 +1,7 @@
 import { Request } from 'express';
+import { ExpectedSource } from '../utils/retrievalMetrics';
+import { ReportType } from '../utils/reportBuilder';
+import { AnalysisFinding, FindingChanges } from '../utils/analysisFindings';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -48,4 +51,143 @@ export interface QueryResult {
     ip_address?: string;
     user_agent?: string;
     created_at: Date;
-  }
\ No newline at end of file
+  }
+
+  export type IngestionJobStatus = 'queued' | 'parsing' | 'ocr' | 'chunking' | 'embedding' | 'stored' | 'failed';
+
+  export interface IngestionJob {
+    id: string;
+    admin_id: number;
+    created_by?: number;
+    document_id?: string | null;
+    family_id?: string | null;   // upload is a new version of this family
+    family_name?: string | null; // name for a new family (defaults to the filename)
+    reindex_document_id?: string | null; // reindex job: re-chunk and re-embed this stored document
+    effective_from?: string | null; // YYYY-MM-DD commencement of the new version
+    effective_to?: string | null;   // YYYY-MM-DD repeal / end of the new version
+    filename: string;
+    file_type: string;
+    category: string;
+    status: IngestionJobStatus;
+    progress: number;            // 0-100
+    current_page?: number | null;
+    total_pages?: number | null;
+    chunks_total?: number | null;
+    chunks_embedded?: number | null;
+    attempts: number;
+    error?: string | null;
+    created_at: Date;
+    updated_at: Date;
+    completed_at?: Date | null;
+  }
+
+  export interface EvalQuestion {
+    id: string;
+    admin_id: number;
+    created_by?: number | null;
+    question: string;
+    expected_answer?: string | null;
+    expected_sources: ExpectedSource[];   // documents / sections / pages a correct answer comes from
+    tags: string[];
+    created_at: Date;
+    updated_at: Date;
+  }
+
+  export type EvalRunStatus = 'running' | 'completed' | 'failed';
+
+  export interface EvalRun {
+    id: string;
+    admin_id: number;
+    created_by?: number | null;
+    label?: string | null;
+    status: EvalRunStatus;
+    k: number;
+    config: Record<string, any>;          // retrieval parameters the run used
+    metrics?: Record<string, number | null> | null;
+    results?: any[] | null;               // per-question scores (omitted in lists)
+    question_count: number;
+    error?: string | null;
+    created_at: Date;
+    completed_at?: Date | null;
+  }
+
+  export interface Consolidation {
+    id: string;
+    admin_id: number;
+    created_by?: number | null;
+    base_document_id: string | null;
+    amendment_document_ids: string[];     // in the order they were applied
+    title: string;
+    statistics: Record<string, number>;   // provisions, instructions applied / unapplied / unparsed
+    result?: Record<string, any> | null;  // consolidated provisions and instruction outcomes (omitted in lists)
+    job_id?: string | null;               // ingestion job of the consolidated version, when one was created
+    created_at: Date;
+  }
+
+  export interface AnalysisRunDocument {
+    id: string;
+    filename: string;
+    version: number | null;
+    family_id: string | null;
+  }
+
+  export interface AnalysisRun {
+    id: string;
+    admin_id: number;
+    created_by?: number | null;
+    analysis_type: ReportType;
+    title: string;                        // e.g. "Conflict Analysis Report: Companies Act 2017 · SECP Regulations"
+    subject_key: string;                  // normalised request; runs with the same key are re-runs of one analysis
+    request: Record<string, any>;         // inputs, replayed by a re-run (names resolve to the latest versions)
+    documents: AnalysisRunDocument[];     // stored versions the run analysed
+    findings: AnalysisFinding[];
+    finding_changes?: FindingChanges | null;  // compared with previous_run_id; null for the first run
+    previous_run_id?: string | null;
+    result?: Record<string, any> | null;  // full analysis result the report is rendered from (omitted in lists)
+    model?: string | null;                // chat model of the analysis, e.g. "openai:gpt-4o-mini"
+    created_at: Date;
+  }
+
+  export type ConflictFindingStatus = 'open' | 'acknowledged' | 'assigned' | 'resolved' | 'dismissed';
+
+  export interface ConflictFindingSide {
+    name: string;
+    family_id: string | null;
+    section?: string | null;
+    page?: number | null;
+    excerpt: string;
+  }
+
+  export interface ConflictFinding {
+    id: string;
+    admin_id: number;
+    fingerprint: string;                  // conflict type + document families + sections; one finding per conflict
+    excerpt_hash: string;                 // a dismissed finding is raised again only when this changes
+    status: ConflictFindingStatus;
+    severity: string;
+    conflict_type: string;
+    description: string;
+    recommendation?: string | null;
+    document_a: ConflictFindingSide;      // as last detected
+    document_b: ConflictFindingSide;
+    assigned_to?: number | null;
+    assignee_name?: string | null;        // joined from users
+    resolution_note?: string | null;      // justification of the resolution / dismissal
+    first_run_id?: string | null;
+    last_run_id?: string | null;
+    detection_count: number;
+    last_detected_at: Date;
+    status_changed_at: Date;
+    status_changed_by?: number | null;
+    comment_count?: number;               // lists only
+    created_at: Date;
+  }
+
+  export interface ConflictFindingComment {
+    id: number;
+    finding_id: string;
+    author_id?: number | null;
+    author_name?: string | null;          // joined from users
+    body: string;
+    created_at: Date;
+  }
@@ -0,0 +1,220 @@
+import type { AmendmentInstruction } from './amendmentParser';
+import { EXPLANATION_RE, MARKER_RE, PROVISO_RE } from './statuteChunker';
+import {
+  Provision,
+  ProvisionNode,
+  findNode,
+  normalizeUnitNumber,
+  parseProvisionBody,
+  parseProvisions,
+  textLines,
+  unitRef,
+} from './provisionTree';
+
+/**
+ * Applies parsed amending instructions to a provision tree (see provisionTree.ts), in place.
+ * Every change records a provenance note on the provision or node it touched ("Words substituted by
+ * Act XII of 2020"); an instruction that cannot be applied leaves the tree unchanged and returns the reason.
+ */
+
+/** "[Omitted.]" placeholder kept where an omitted provision stood, as in official consolidations */
+const OMITTED = '[Omitted.]';
+
+/** Marginal note ending in a dash; the rest of the heading line is the provision's text */
+const HEADING_SPLIT_RE = /^(.{2,250}?[.:,۔]\s*[—–]+)\s*(\S.*)$/;
+
+/** "S. 5(2)(b)" */
+function describeTarget(prefix: string, instruction: AmendmentInstruction): string {
+  return `${prefix} ${instruction.target.unit}${instruction.target.path.join('')}`;
+}
+
+/** All line lists under a node (its own lines and every descendant's) */
+function nodeLineLists(node: ProvisionNode): string[][] {
+  return [node.lines, ...node.children.flatMap(nodeLineLists)];
+}
+
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u;
+
+/**
+ * Whole-word pattern for the quoted words: "may" matches "may" but not "mayor" or "dismay". Boundaries are only
+ * required at ends that are letters or digits, so words quoted with punctuation (", and") still match.
+ */
+function wordsPattern(words: string, flags: string): RegExp {
+  const escaped = words.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = WORD_CHAR_RE.test(words[0] ?? '') ? '(?<![\\p{L}\\p{N}])' : '';
+  const end = WORD_CHAR_RE.test(words[words.length - 1] ?? '') ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${start}${escaped}${end}`, `u${flags}`);
+}
+
+/**
+ * Edit the first line containing `words` (every occurrence in every line when `everywhere`), matching whole words.
+ * Returns the number of replacements made.
+ */
+function replaceWords(lists: string[][], words: string, replacement: string, everywhere: boolean): number {
+  const pattern = wordsPattern(words, everywhere ? 'g' : '');
+  const occurrences = wordsPattern(words, 'g');
+  let count = 0;
+  for (const lines of lists) {
+    for (let i = 0; i < lines.length; i++) {
+      const matches = lines[i].match(occurrences)?.length ?? 0;
+      if (matches === 0) continue;
+      lines[i] = lines[i].replace(pattern, () => replacement);
+      if (!everywhere) return 1;
+      count += matches;
+    }
+  }
+  return count;
+}
+
+/** Clean up spacing left where words were omitted */
+function tidy(lists: string[][]): void {
+  for (const lines of lists) {
+    for (let i = 0; i < lines.length; i++) {
+      lines[i] = lines[i].replace(/\s{2,}/g, ' ').replace(/\s+([,.;:])/g, '$1').trim();
+    }
+  }
+}
+
+/** Nodes parsed from inserted / substituted text; unmarked text (a proviso, an Explanation) becomes one unmarked node */
+function parseNodes(text: string, note: string, fallbackMarker?: string): ProvisionNode[] {
+  const { intro, blocks } = parseProvisionBody(textLines(text));
+  const nodes: ProvisionNode[] = [];
+  if (intro.length > 0) nodes.push({ marker: blocks.length === 0 ? fallbackMarker : undefined, lines: intro, children: [], provenance: [] });
+  nodes.push(...blocks);
+  nodes.forEach((node) => node.provenance.push(note));
+  return nodes;
+}
+
+/** Apply one instruction; returns null on success or the reason it could not be applied */
+export function applyInstruction(provisions: Provision[], instruction: AmendmentInstruction, by: string): string | null {
+  const prefix = provisions[0]?.prefix ?? 'S.';
+  const where = describeTarget(prefix, instruction);
+  const index = provisions.findIndex((p) => normalizeUnitNumber(p.number) === normalizeUnitNumber(instruction.target.unit));
+  if (index < 0) return `${prefix} ${instruction.target.unit} not found in the base statute`;
+
+  const provision = provisions[index];
+  const location = instruction.target.path.length > 0 ? findNode(provision, instruction.target.path) : null;
+  if (instruction.target.path.length > 0 && !location) return `${where} not found in the base statute`;
+  const node = location ? location.siblings[location.index] : null;
+  const notes = node ? node.provenance : provision.provenance;
+
+  if (instruction.words !== undefined) {
+    // Word amendments: the heading line is searched too, since short sections keep their text on it
+    const heading = [provision.heading];
+    const lists = node ? nodeLineLists(node) : [heading, provision.intro, ...provision.blocks.flatMap(nodeLineLists)];
+    const words = instruction.words;
+    const text = instruction.text ?? '';
+    let replacement: string;
+    let note: string;
+    if (instruction.action === 'substitute') {
+      replacement = text;
+      note = `Words substituted by ${by}`;
+    } else if (instruction.action === 'omit') {
+      replacement = '';
+      note = `Words omitted by ${by}`;
+    } else {
+      const joiner = /^[,.;:)]/.test(text) ? '' : ' ';
+      replacement = instruction.position === 'before' ? `${text} ${words}` : `${words}${joiner}${text}`;
+      note = `Words inserted by ${by}`;
+    }
+    const count = replaceWords(lists, words, replacement, Boolean(instruction.everywhere));
+    if (count === 0) return `Words "${words}" not found in ${where}`;
+    if (instruction.action === 'omit') tidy(lists);
+    provision.heading = heading[0];
+    notes.push(note);
+    return null;
+  }
+
+  switch (instruction.action) {
+    case 'substitute': {
+      if (!instruction.text) return 'No substituted text';
+      if (location && node) {
+        location.siblings.splice(location.index, 1, ...parseNodes(instruction.text, `Substituted by ${by}`, node.marker));
+        return null;
+      }
+      const [replacement] = parseProvisions(instruction.text, provision.prefix, provision.path);
+      if (!replacement) return `Substituted text for ${where} does not start with a section number`;
+      provisions[index] = { ...replacement, page: provision.page, provenance: [...provision.provenance, `Substituted by ${by}`] };
+      return null;
+    }
+
+    case 'insert': {
+      if (!instruction.text) return 'No inserted text';
+      if (instruction.position === 'end') {
+        const lines = textLines(instruction.text);
+        const isProvision = lines.length > 0 && (MARKER_RE.test(lines[0]) || PROVISO_RE.test(lines[0]) || EXPLANATION_RE.test(lines[0]));
+        if (isProvision) {
+          (node ? node.children : provision.blocks).push(...parseNodes(instruction.text, `Added by ${by}`));
+          return null;
+        }
+        // Words added at the end of the provision's text
+        const lists = node ? nodeLineLists(node) : [[provision.heading], provision.intro, ...provision.blocks.flatMap(nodeLineLists)];
+        const last = [...lists].reverse().find((l) => l.length > 0);
+        if (!last) return `${where} has no text to add to`;
+        last[last.length - 1] = `${last[last.length - 1]}${/^[,.;:)]/.test(instruction.text) ? '' : ' '}${instruction.text}`;
+        if (!node && lists[0] === last) provision.heading = last[0];
+        notes.push(`Words added by ${by}`);
+        return null;
+      }
+
+      const offset = instruction.position === 'before' ? 0 : 1;
+      if (location) {
+        location.siblings.splice(location.index + offset, 0, ...parseNodes(instruction.text, `Inserted by ${by}`));
+        return null;
+      }
+      const inserted = parseProvisions(instruction.text, provision.prefix, provision.path);
+      if (inserted.length === 0) return `Text inserted ${instruction.position} ${where} does not start with a section number`;
+      inserted.forEach((p) => p.provenance.push(`Inserted by ${by}`));
+      provisions.splice(index + offset, 0, ...inserted);
+      return null;
+    }
+
+    case 'omit': {
+      if (location && node) {
+        location.siblings[location.index] = {
+          marker: node.marker,
+          lines: [`${node.marker ?? ''} ${OMITTED}`.trim()],
+          children: [],
+          provenance: [...node.provenance, `Omitted by ${by}`],
+        };
+        return null;
+      }
+      provision.heading = `${provision.number}. ${OMITTED}`;
+      provision.intro = [];
+      provision.blocks = [];
+      provision.provenance.push(`Omitted by ${by}`);
+      return null;
+    }
+
+    case 'renumber': {
+      const renumberAs = instruction.renumberAs;
+      if (!renumberAs) return 'No new number given';
+      if (location && node) {
+        if (!renumberAs.startsWith('(')) return `${where} cannot be re-numbered as a section`;
+        if (node.marker && node.lines[0]?.startsWith(node.marker)) {
+          node.lines[0] = `${renumberAs}${node.lines[0].slice(node.marker.length)}`;
+        }
+        node.marker = renumberAs;
+        node.provenance.push(`Re-numbered by ${by}`);
+        return null;
+      }
+      if (renumberAs.startsWith('(')) {
+        // "section 10 shall be re-numbered as sub-section (1) of that section": its text becomes the first sub-section
+        const split = HEADING_SPLIT_RE.exec(provision.heading);
+        const text = split ? [split[2], ...provision.intro] : provision.intro;
+        if (text.length === 0) return `${where} has no text to re-number as ${renumberAs}`;
+        if (split) provision.heading = split[1];
+        provision.blocks = [
+          { marker: renumberAs, lines: [`${renumberAs} ${text[0]}`, ...text.slice(1)], children: provision.blocks, provenance: [`Re-numbered by ${by}`] },
+        ];
+        provision.intro = [];
+        return null;
+      }
+      const oldRef = unitRef(provision);
+      provision.heading = provision.heading.replace(/^(\D*?)\d{1,4}(?:-?[A-Z]{1,2})?/, `$1${renumberAs}`);
+      provision.number = renumberAs;
+      provision.provenance.push(`Re-numbered (formerly ${oldRef}) by ${by}`);
+      return null;
+    }
+  }
+}
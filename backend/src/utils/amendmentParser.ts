@@ -0,0 +1,266 @@
+/**
+ * Parser for amending instruments (Amendment Acts and Ordinances). Reads the usual drafting forms:
+ *
+ *   In section 5 of the said Act, in sub-section (2), for the words "thirty days" the words "sixty days" shall be substituted;
+ *   after clause (b), the following new clause shall be inserted, namely:— "(bb) ...";
+ *   section 7 shall be omitted;  clause (c) shall be re-lettered as clause (d);
+ *
+ * Context carries over the way the Acts are written: "In section 5,— (a) in sub-section (1), ...; (b) after
+ * sub-section (2), ..." applies both items to section 5, and a numbered amending section ("3. Amendment of
+ * section 5, Act XLV of 1860.—") sets the section for its body. Statements that read like instructions but
+ * match no known form are returned as unparsed rather than guessed at.
+ */
+
+export type AmendmentAction = 'substitute' | 'insert' | 'omit' | 'renumber';
+
+/** A provision of the base statute: section / article number and marker path below it (outermost first) */
+export interface ProvisionTarget {
+  unit: string;
+  path: string[];
+}
+
+export interface AmendmentInstruction {
+  action: AmendmentAction;
+  target: ProvisionTarget;
+  /** Words inside the target (substituted / omitted, or the anchor of an insertion); absent when the provision itself is addressed */
+  words?: string;
+  /** Substituted or inserted text */
+  text?: string;
+  /** Insertions: before / after the words or target provision, or appended at the end of the target */
+  position?: 'before' | 'after' | 'end';
+  /** Word amendments made "wherever occurring" */
+  everywhere?: boolean;
+  /** Renumbering: the new section number ("6") or marker ("(1)") */
+  renumberAs?: string;
+  /** The instruction as written */
+  source: string;
+}
+
+export interface ParsedAmendment {
+  /** "Act XII of 2020", or the instrument's short title */
+  title: string;
+  instructions: AmendmentInstruction[];
+  /** Statements that look like amending instructions but could not be read */
+  unparsed: string[];
+}
+
+interface Context {
+  unit?: string;
+  levels: Array<{ rank: number; marker: string }>;
+}
+
+// Quoted text is swapped for \u0001n\u0002 placeholders before matching, so quotes cannot confuse the patterns
+const QUOTE = '\\u0001(\\d+)\\u0002';
+const LEVEL = '(?:sub-?sections?|sub-?articles?|sub-?clauses?|sub-?paragraphs?|clauses?|paragraphs?|sections?|articles?)';
+const ID = '(?:\\(\\s*[0-9A-Za-z]{1,5}\\s*\\)|\\d{1,4}(?:-?[A-Z]{1,2}\\b)?)';
+const REF = `${LEVEL}\\s+${ID}(?:\\s*,?\\s*of\\s+(?:the\\s+said\\s+)?${LEVEL}\\s+${ID})*`;
+const SAID = '(?:\\s+of\\s+the\\s+said\\s+[A-Za-z]+)?';
+const FOLLOWING = '(?:the\\s+following\\s+[a-z\\- ]*?)?';
+const NAMELY = '\\s*,?\\s*(?:namely:\\s*)?';
+
+const REF_PAIR_RE = new RegExp(`(${LEVEL})\\s+(${ID})`, 'gi');
+const IN_REF_RE = new RegExp(`^in\\s+(?:the\\s+)?(${REF})${SAID}\\s*,?\\s*`, 'i');
+const IN_PROVISO_RE = /^in\s+the\s+(?:first\s+|second\s+|last\s+)?(?:proviso|explanation)(?:\s+thereto)?\s*,?\s*/i;
+const SAID_ACT_RE = /^in\s+the\s+said\s+[A-Za-z]+\s*,?\s*/i;
+/** "In the Pakistan Penal Code, 1860 (Act XLV of 1860), hereinafter referred to as the said Code," */
+const BASE_ACT_RE = /^in\s+the\s+(?!said\b|proviso\b|explanation\b)[^,;]{3,150}?,\s*(?:\d{4}\s*)?(?:\([^)]*\)\s*,?\s*)?(?:hereinafter\s+(?:referred\s+to\s+as|called)\s+the\s+said\s+[A-Za-z]+\s*,?\s*)?(?=in\s|for\s|after\s|before\s|at\s|the\s|sections?\s|articles?\s|$)/i;
+const ENUMERATOR_RE = /^(?:(?:and|or)\s+)?\((?:[a-z]{1,4}|\d{1,3})\)\s*/i;
+const HEADING_RE = /^\d{1,3}\.\s+(.+)$/;
+const AMENDING_HEADING_RE = /^(?:amendment|substitution|insertion|omission|addition|re-?numbering)\b/i;
+const ACTION_HINT_RE = /shall\s+be\s+(?:substituted|inserted|added|omitted|re-?numbered|re-?lettered)/i;
+
+const SUBSTITUTE_WORDS_RE = new RegExp(`^for\\s+the\\s+[a-z ,\\-]*?${QUOTE}([^\\u0001]*?)${QUOTE}\\s*,?\\s*shall\\s+be\\s+substituted`, 'i');
+const SUBSTITUTE_WORDS_NAMELY_RE = new RegExp(`^for\\s+the\\s+[a-z ,\\-]*?${QUOTE}([^\\u0001]*?)shall\\s+be\\s+substituted${NAMELY}${QUOTE}`, 'i');
+const SUBSTITUTE_PROVISION_RE = new RegExp(`^for\\s+(?:the\\s+)?(?:existing\\s+)?(${REF})${SAID}\\s*,?\\s*${FOLLOWING}\\s*shall\\s+be\\s+substituted${NAMELY}${QUOTE}`, 'i');
+const INSERT_WORDS_RE = new RegExp(`^(after|before)\\s+the\\s+[a-z ,\\-]*?${QUOTE}([^\\u0001]*?)${QUOTE}\\s*,?\\s*shall\\s+be\\s+(?:inserted|added)`, 'i');
+const INSERT_WORDS_NAMELY_RE = new RegExp(`^(after|before)\\s+the\\s+[a-z ,\\-]*?${QUOTE}([^\\u0001]*?)shall\\s+be\\s+(?:inserted|added)${NAMELY}${QUOTE}`, 'i');
+const INSERT_PROVISION_RE = new RegExp(
+  `^(after|before)\\s+(?:the\\s+)?(?:existing\\s+)?(${REF})${SAID}(?:\\s*,?\\s*re-?(?:numbered|lettered)\\s+as\\s+aforesaid)?\\s*,?\\s*${FOLLOWING}\\s*shall\\s+be\\s+(?:inserted|added)${NAMELY}${QUOTE}`,
+  'i'
+);
+const ADD_AT_END_RE = new RegExp(`^at\\s+the\\s+end\\s*,?\\s*(?:the\\s+following\\s+[a-z\\- ]*?|the\\s+[a-z ,\\-]*?)?\\s*(?:${QUOTE}\\s*)?shall\\s+be\\s+(?:added|inserted)${NAMELY}(?:${QUOTE})?`, 'i');
+const OMIT_WORDS_RE = new RegExp(`^the\\s+[a-z ,\\-]*?${QUOTE}([^\\u0001]*?)shall\\s+be\\s+omitted`, 'i');
+const OMIT_PROVISION_RE = new RegExp(`^(?:the\\s+)?(?:existing\\s+)?(${REF})${SAID}\\s*,?\\s*shall\\s+be\\s+omitted`, 'i');
+const RENUMBER_RE = new RegExp(
+  `^(?:the\\s+)?(?:existing\\s+)?(${REF})${SAID}\\s*,?\\s*shall\\s+be\\s+re-?(?:numbered|lettered)\\s+as\\s+(?:the\\s+)?(?:${LEVEL}\\s+)?(${ID})`,
+  'i'
+);
+
+const ACT_NUMBER_RE = /\b(Act|Ordinance)\s*(?:No\.?\s*)?([IVXLCDM]+|\d{1,4})\s+of\s+(\d{4})\b/gi;
+const SHORT_TITLE_RE = /([A-Z][A-Za-z()&,'\s-]{2,150}?\(Amendment\)\s+(?:Act|Ordinance),?\s+\d{4})/;
+
+/** Rank of a marker below a section: sub-section (1) < clause (a) < sub-clause (i) */
+function levelRank(level: string, marker: string): number {
+  if (/^\(\d/.test(marker)) return 0;
+  if (/^sub-?(?:clause|paragraph)/i.test(level) && /^\([ivxlc]+\)$/.test(marker)) return 2;
+  return 1;
+}
+
+/**
+ * Apply a reference ("clause (b) of sub-section (2) of section 5", "sub-section (3)") to a context.
+ * A section resets the path; a marker replaces any marker of the same or a deeper level.
+ */
+function applyRef(context: Context, text: string): Context {
+  const pairs = [...text.matchAll(REF_PAIR_RE)].reverse();
+  let { unit, levels } = context;
+  for (const [, level, id] of pairs) {
+    const marker = id.replace(/\s+/g, '');
+    if (/^(?:section|article)/i.test(level)) {
+      unit = marker.toUpperCase();
+      levels = [];
+    } else {
+      const rank = levelRank(level, marker);
+      levels = [...levels.filter((l) => l.rank < rank), { rank, marker }];
+    }
+  }
+  return { unit, levels };
+}
+
+/** Title of the amending instrument: its number ("Act XII of 2020") or short title, else the fallback */
+export function detectAmendmentTitle(text: string, fallback: string): string {
+  const head = text.slice(0, 800);
+  // The instrument's own number is the latest one; earlier years cite the Act being amended
+  const numbers = [...head.matchAll(ACT_NUMBER_RE)].sort((a, b) => parseInt(b[3], 10) - parseInt(a[3], 10));
+  if (numbers.length > 0) {
+    const [, kind, number, year] = numbers[0];
+    return `${kind[0].toUpperCase()}${kind.slice(1).toLowerCase()} ${number.toUpperCase()} of ${year}`;
+  }
+  const shortTitle = SHORT_TITLE_RE.exec(text);
+  return shortTitle ? shortTitle[1].replace(/\s+/g, ' ').replace(/^The\s+/, 'the ').trim() : fallback;
+}
+
+/**
+ * Parse the instructions of an amending instrument.
+ * @param fallbackTitle - Used when the text names no Act / Ordinance number or short title (e.g. the filename)
+ */
+export function parseAmendment(text: string, fallbackTitle: string): ParsedAmendment {
+  const quotes: string[] = [];
+  const prepared = text
+    .replace(/[“”„‟″]|''/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/"([^"]*)"/g, (_, quoted: string) => {
+      quotes.push(quoted.trim());
+      return `\u0001${quotes.length - 1}\u0002`;
+    })
+    .replace(/namely\s*[:,]?\s*[—–-]*\s*/gi, 'namely: ');
+
+  const quote = (index: string) => quotes[parseInt(index, 10)];
+  const restore = (s: string) => s.replace(/\u0001(\d+)\u0002/g, (_, i) => `"${quote(i)}"`).trim();
+
+  const instructions: AmendmentInstruction[] = [];
+  const unparsed: string[] = [];
+  let heading: Context = { levels: [] };
+  let list: Context | null = null;
+
+  // Statements end at ";", at ".—" / ",—" (headings and list introductions) and before the next numbered section
+  const segments = prepared.split(/;|[.,]\s*(?:[—–]+|-(?=\s))|(?:\.|(?<=\u0002)\.?)\s+(?=\d{1,3}\.\s+[A-Z])/);
+  for (const segment of segments) {
+    const trimmed = segment.trim();
+    if (!trimmed) continue;
+
+    // A numbered section of the amending Act: "3. Amendment of section 5, Act XLV of 1860" sets the section
+    let body = trimmed;
+    const headingMatch = HEADING_RE.exec(trimmed);
+    if (headingMatch) {
+      list = null;
+      if (AMENDING_HEADING_RE.test(headingMatch[1]) && !ACTION_HINT_RE.test(trimmed)) {
+        heading = applyRef({ levels: [] }, headingMatch[1].split(/,\s*(?:Act|Ordinance|P\.O\.)/i)[0]);
+        continue;
+      }
+      heading = { levels: [] };
+      body = headingMatch[1];
+    }
+
+    // "..., and after sub-section (1) ..." joins two instructions; later ones keep the section of the earlier
+    let context: Context = list ?? heading;
+    const pieces = body.split(/,?\s+and\s+(?=(?:after|before|for|in|at)\s)/i);
+    for (const piece of pieces) {
+      let s = piece.replace(ENUMERATOR_RE, '').replace(BASE_ACT_RE, '').replace(SAID_ACT_RE, '');
+      let pieceContext = context;
+      for (;;) {
+        const ref = IN_REF_RE.exec(s);
+        if (ref) {
+          pieceContext = applyRef(pieceContext, ref[1]);
+          s = s.slice(ref[0].length);
+          continue;
+        }
+        const proviso = IN_PROVISO_RE.exec(s);
+        if (proviso) {
+          s = s.slice(proviso[0].length);
+          continue;
+        }
+        break;
+      }
+      s = s.trim();
+
+      if (!s) {
+        // "In section 5,—" / "(a) in sub-section (1),—" introduces a list of items
+        list = pieceContext;
+        continue;
+      }
+
+      const instruction = matchInstruction(s, pieceContext, quote);
+      if (instruction) {
+        instructions.push({ ...instruction, source: restore(piece) });
+        context = { unit: instruction.target.unit, levels: pieceContext.levels };
+      } else if (ACTION_HINT_RE.test(s)) {
+        unparsed.push(restore(piece));
+      }
+    }
+  }
+
+  return { title: detectAmendmentTitle(text, fallbackTitle), instructions, unparsed };
+}
+
+function targetOf(context: Context): ProvisionTarget | null {
+  return context.unit ? { unit: context.unit, path: context.levels.map((l) => l.marker) } : null;
+}
+
+/** Match one statement (context phrases already stripped) against the supported instruction forms */
+function matchInstruction(
+  s: string,
+  context: Context,
+  quote: (index: string) => string
+): Omit<AmendmentInstruction, 'source'> | null {
+  const here = targetOf(context);
+  const at = (ref: string) => targetOf(applyRef(context, ref));
+  let m: RegExpExecArray | null;
+
+  if ((m = SUBSTITUTE_WORDS_RE.exec(s) ?? SUBSTITUTE_WORDS_NAMELY_RE.exec(s)) && here) {
+    return { action: 'substitute', target: here, words: quote(m[1]), text: quote(m[3]), everywhere: /wherever/i.test(m[2]) };
+  }
+  if ((m = SUBSTITUTE_PROVISION_RE.exec(s))) {
+    const target = at(m[1]);
+    return target && { action: 'substitute', target, text: quote(m[2]) };
+  }
+  if ((m = INSERT_WORDS_RE.exec(s) ?? INSERT_WORDS_NAMELY_RE.exec(s)) && here) {
+    return {
+      action: 'insert',
+      target: here,
+      position: m[1].toLowerCase() as 'before' | 'after',
+      words: quote(m[2]),
+      text: quote(m[4]),
+      everywhere: /wherever/i.test(m[3]),
+    };
+  }
+  if ((m = INSERT_PROVISION_RE.exec(s))) {
+    const target = at(m[2]);
+    return target && { action: 'insert', target, position: m[1].toLowerCase() as 'before' | 'after', text: quote(m[3]) };
+  }
+  if ((m = ADD_AT_END_RE.exec(s)) && here && (m[1] ?? m[2])) {
+    return { action: 'insert', target: here, position: 'end', text: quote(m[1] ?? m[2]) };
+  }
+  if ((m = OMIT_WORDS_RE.exec(s)) && here) {
+    return { action: 'omit', target: here, words: quote(m[1]), everywhere: /wherever/i.test(m[2]) };
+  }
+  if ((m = OMIT_PROVISION_RE.exec(s))) {
+    const target = at(m[1]);
+    return target && { action: 'omit', target };
+  }
+  if ((m = RENUMBER_RE.exec(s))) {
+    const target = at(m[1]);
+    const id = m[2].replace(/\s+/g, '');
+    return target && { action: 'renumber', target, renumberAs: id.startsWith('(') ? id : id.toUpperCase() };
+  }
+  return null;
+}
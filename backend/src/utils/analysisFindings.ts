@@ -0,0 +1,172 @@
+import { ReportType } from './reportBuilder';
+
+/**
+ * Findings of a stored analysis run, normalised across the three analysis types so consecutive runs of the same
+ * analysis can be compared: which findings are new since the previous run and which have been resolved.
+ */
+
+export interface AnalysisFinding {
+  /** Stable identity across runs: conflict type + sections, gap side + topic, version pair + change + section */
+  key: string;
+  /** Findings are only matched within a group (conflict type, gap side, version pair) */
+  group: string;
+  title: string;
+  severity: string | null;
+  detail: string | null;
+}
+
+export interface FindingChanges {
+  new_findings: string[];            // keys of findings not in the previous run
+  resolved_findings: AnalysisFinding[];
+  unchanged: number;
+}
+
+/** Findings whose wording is this similar (within a group) are the same finding when their keys differ */
+const TEXT_MATCH_MIN = 0.5;
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+const normalize = (text: string | null | undefined) => (text ?? '').toLowerCase().match(WORD_RE)?.join(' ') ?? '';
+const wordSet = (text: string) => new Set(normalize(text).split(' ').filter(Boolean));
+
+/** Jaccard similarity of two word sets */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Keys made unique within a run, so two findings on the same sections stay two findings */
+function withUniqueKeys(findings: AnalysisFinding[]): AnalysisFinding[] {
+  const seen = new Map<string, number>();
+  return findings.map((finding) => {
+    const count = seen.get(finding.key) ?? 0;
+    seen.set(finding.key, count + 1);
+    return count === 0 ? finding : { ...finding, key: `${finding.key}#${count + 1}` };
+  });
+}
+
+export function extractFindings(type: ReportType, result: any): AnalysisFinding[] {
+  switch (type) {
+    case 'conflicts': {
+      const conflicts: any[] = result.all_conflicts ?? result.conflicts ?? [];
+      return withUniqueKeys(
+        conflicts.map((c) => {
+          // Document names carry the version, so sections identify the conflict across runs
+          const sections = [normalize(c.document_a?.section), normalize(c.document_b?.section)].sort();
+          const group = normalize(c.conflict_type) || 'conflict';
+          return {
+            // Without sections only the wording identifies it (and is matched loosely in diffFindings)
+            key: sections.some(Boolean) ? `${group}|${sections.join('|')}` : `${group}|${normalize(c.description)}`,
+            group,
+            title: c.description ?? '',
+            severity: c.severity ?? null,
+            detail: [c.document_a?.section, c.document_b?.section].filter(Boolean).join(' / ') || null,
+          };
+        })
+      );
+    }
+
+    case 'gaps': {
+      const side = (gaps: any[] | undefined, group: string, missingIn: string) =>
+        (gaps ?? []).map((g) => ({
+          key: `${group}|${normalize(g.topic)}`,
+          group,
+          title: g.topic ?? '',
+          severity: g.severity ?? null,
+          detail: `Missing in ${missingIn}${g.recommendation ? `: ${g.recommendation}` : ''}`,
+        }));
+      return withUniqueKeys([
+        ...side(result.gaps_in_b, 'missing_in_b', result.document_b),
+        ...side(result.gaps_in_a, 'missing_in_a', result.document_a),
+      ]);
+    }
+
+    case 'versions': {
+      const pairs: Array<{ from: unknown; to: unknown; comparison: any }> = Array.isArray(result.comparisons)
+        ? result.comparisons.map((c: any) => ({ from: c.from_version, to: c.to_version, comparison: c.changes }))
+        : [result.comparison ?? result].map((c: any) => ({ from: c.version1?.version, to: c.version2?.version, comparison: c }));
+      return withUniqueKeys(
+        pairs.flatMap(({ from, to, comparison }) =>
+          ((comparison?.changes ?? []) as any[])
+            .filter((c) => c.change_type !== 'unchanged')
+            .map((c) => {
+              const section = c.section_name || c.new_ref || c.old_ref || 'Untitled section';
+              return {
+                key: `v${from}-v${to}|${c.change_type}|${normalize(c.new_ref ?? c.old_ref ?? section)}`,
+                group: `v${from}-v${to}`,
+                title: section,
+                severity: c.change_type,
+                detail: `v${from} → v${to}${c.renumbered && c.old_ref ? `, renumbered from ${c.old_ref}` : ''}${c.moved ? ', moved' : ''}`,
+              };
+            })
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Compare the findings of a run with those of the previous run of the same analysis: first by key, then the
+ * remaining ones by wording within the same group (LLM findings are rarely worded identically twice)
+ */
+export function diffFindings(previous: AnalysisFinding[], current: AnalysisFinding[]): FindingChanges {
+  const unmatchedPrevious = new Map(previous.map((f) => [f.key, f]));
+  const unmatchedCurrent: AnalysisFinding[] = [];
+  for (const finding of current) {
+    if (unmatchedPrevious.has(finding.key)) unmatchedPrevious.delete(finding.key);
+    else unmatchedCurrent.push(finding);
+  }
+
+  const candidates = unmatchedCurrent
+    .flatMap((finding) =>
+      [...unmatchedPrevious.values()]
+        .filter((old) => old.group === finding.group)
+        .map((old) => ({
+          finding,
+          old,
+          score: similarity(wordSet(`${finding.title} ${finding.detail ?? ''}`), wordSet(`${old.title} ${old.detail ?? ''}`)),
+        }))
+    )
+    .filter((c) => c.score >= TEXT_MATCH_MIN)
+    .sort((a, b) => b.score - a.score);
+  const matched = new Set<AnalysisFinding>();
+  for (const { finding, old } of candidates) {
+    if (matched.has(finding) || !unmatchedPrevious.has(old.key)) continue;
+    matched.add(finding);
+    unmatchedPrevious.delete(old.key);
+  }
+
+  const newFindings = unmatchedCurrent.filter((f) => !matched.has(f));
+  return {
+    new_findings: newFindings.map((f) => f.key),
+    resolved_findings: [...unmatchedPrevious.values()],
+    unchanged: current.length - newFindings.length,
+  };
+}
+
+/** Stored documents an analysis result refers to (filenames or ids), for recording the versions a run analysed */
+export function analysedDocuments(type: ReportType, result: any): { filenames: string[]; ids: string[] } {
+  const filenames: Array<string | undefined> = [];
+  const ids: Array<string | undefined> = [];
+  switch (type) {
+    case 'conflicts':
+      filenames.push(...(result.documents_analyzed ?? []));
+      for (const c of result.all_conflicts ?? result.conflicts ?? []) filenames.push(c.document_a?.name, c.document_b?.name);
+      break;
+    case 'gaps':
+      filenames.push(result.document_a, result.document_b);
+      break;
+    case 'versions':
+      if (Array.isArray(result.versions)) {
+        ids.push(...result.versions.map((v: any) => v.id));
+      } else {
+        const comparison = result.comparison ?? result;
+        ids.push(comparison.version1?.id, comparison.version2?.id);
+      }
+      break;
+  }
+  const present = (values: Array<string | undefined>) => [...new Set(values.filter((v): v is string => !!v))];
+  return { filenames: present(filenames), ids: present(ids) };
+}
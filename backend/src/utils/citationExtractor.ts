@@ -0,0 +1,220 @@
+/**
+ * Pakistani legal citation extractor.
+ *
+ * Recognises and normalises three kinds of references found in judgments and statutes:
+ * - Law report citations: "PLD 2019 SC 123", "P L D 2019 Supreme Court 123", "2021 SCMR 456", "2018 P.Cr.L.J. 55"
+ * - Statute sections: "Section 302 PPC", "s. 497 Cr.P.C.", "u/s 302/34 P.P.C.", "Section 12 of the Companies Act, 2017"
+ * - Constitution articles: "Article 184(3)", "Art. 199", "Articles 9 and 25-A"
+ */
+
+export type CitationType = 'law_report' | 'statute_section' | 'constitution_article';
+
+export interface ExtractedCitation {
+  type: CitationType;
+  /** Canonical form used as the graph key, e.g. "PLD 2019 SC 123", "Section 302 PPC", "Article 184(3)" */
+  normalized: string;
+  /** Text as it appeared in the document */
+  raw: string;
+  /** Title of the cited instrument (statutes and the Constitution), used to link the citation to a document family */
+  target?: string;
+}
+
+export const CONSTITUTION_TITLE = 'Constitution of Pakistan';
+
+/** Reporters cited as "<reporter> <year> <court> <page>" (court names mapped to canonical labels) */
+const COURT_REPORTERS = ['PLD', 'PLJ'];
+
+const COURT_ALIASES: Array<{ pattern: string; label: string }> = [
+  { pattern: 'S\\.?\\s?C\\.?\\s?\\(\\s?AJ\\s?&\\s?K\\s?\\)|AJ\\s?&\\s?K|AJK|Azad\\s+J\\s?&\\s?K', label: 'AJK' },
+  { pattern: 'F\\.?\\s?S\\.?\\s?C\\.?|Federal\\s+Shariat\\s+Court', label: 'FSC' },
+  { pattern: 'S\\.?\\s?C\\.?|Supreme\\s+Court', label: 'SC' },
+  { pattern: 'Lah\\.?|Lahore', label: 'Lahore' },
+  { pattern: 'Kar\\.?|Karachi', label: 'Karachi' },
+  { pattern: 'Pesh\\.?|Peshawar', label: 'Peshawar' },
+  { pattern: 'Quetta|Qta\\.?|Bal\\.?|Balochistan', label: 'Quetta' },
+  { pattern: 'Isl\\.?|Islamabad', label: 'Islamabad' },
+  { pattern: 'G\\.?\\s?B\\.?|Gilgit(?:[-\\s]Baltistan)?', label: 'GB' },
+];
+
+/** Reporters cited as "<year> <reporter> <page>"; key is letters only (upper case), value is the canonical form */
+const YEAR_REPORTERS: Record<string, string> = {
+  SCMR: 'SCMR',
+  CLC: 'CLC',
+  YLR: 'YLR',
+  PCRLJ: 'PCrLJ',
+  MLD: 'MLD',
+  PLCCS: 'PLC (CS)',
+  PLC: 'PLC',
+  PTD: 'PTD',
+  CLD: 'CLD',
+  NLR: 'NLR',
+  KLR: 'KLR',
+  GBLR: 'GBLR',
+  PLJ: 'PLJ',
+};
+
+/** Statute abbreviations common in Pakistani judgments → title of the statute */
+const STATUTE_ABBREVIATIONS: Record<string, { label: string; title: string }> = {
+  PPC: { label: 'PPC', title: 'Pakistan Penal Code' },
+  CRPC: { label: 'CrPC', title: 'Code of Criminal Procedure' },
+  CPC: { label: 'CPC', title: 'Code of Civil Procedure' },
+  QSO: { label: 'QSO', title: 'Qanun-e-Shahadat Order' },
+  ATA: { label: 'ATA', title: 'Anti-Terrorism Act' },
+  CNSA: { label: 'CNSA', title: 'Control of Narcotic Substances Act' },
+  NAO: { label: 'NAO', title: 'National Accountability Ordinance' },
+  PECA: { label: 'PECA', title: 'Prevention of Electronic Crimes Act' },
+  ITO: { label: 'ITO', title: 'Income Tax Ordinance' },
+  MFLO: { label: 'MFLO', title: 'Muslim Family Laws Ordinance' },
+};
+
+/** "SCMR" → S\.?\s?C\.?\s?M\.?\s?R\.? (dotted and spaced spellings) */
+function lettersPattern(abbr: string): string {
+  return abbr
+    .split('')
+    .map((ch) => `${ch}\\.?`)
+    .join('\\s?');
+}
+
+const yearReporterAlternation = Object.keys(YEAR_REPORTERS)
+  .sort((a, b) => b.length - a.length)
+  .map((key) => (key === 'PLCCS' ? `P\\.?\\s?L\\.?\\s?C\\.?\\s?\\(\\s?C\\.?\\s?S\\.?\\s?\\)` : lettersPattern(key)))
+  .join('|');
+
+const statuteAbbreviationAlternation = Object.keys(STATUTE_ABBREVIATIONS)
+  .sort((a, b) => b.length - a.length)
+  .map(lettersPattern)
+  .join('|');
+
+const COURT_REPORT_REGEX = new RegExp(
+  `\\b(${COURT_REPORTERS.map(lettersPattern).join('|')})\\s+((?:19|20)\\d{2})\\s+(${COURT_ALIASES.map((c) => c.pattern).join('|')})\\s+(\\d{1,5})\\b`,
+  'gi'
+);
+
+const YEAR_REPORT_REGEX = new RegExp(`\\b((?:19|20)\\d{2})\\s+(${yearReporterAlternation})\\s+(?:\\(([A-Za-z.\\s]{2,20})\\)\\s+)?(\\d{1,5})\\b`, 'gi');
+
+/** Section number with optional letter suffix and subsections: 302, 302(b), 489-F, 25(1)(a) */
+const SECTION_NUMBER = `\\d{1,4}(?:-?[A-Z]{1,2})?(?:\\s?\\([0-9a-zA-Z]{1,4}\\))*`;
+const SECTION_LIST = `${SECTION_NUMBER}(?:\\s*(?:\\/|,|and|&)\\s*${SECTION_NUMBER})*`;
+
+const SECTION_ABBREVIATION_REGEX = new RegExp(
+  `\\b(?:u\\/s\\.?|Sections?|Ss?\\.)\\s*(${SECTION_LIST})\\s*,?\\s*(?:of\\s+(?:the\\s+)?)?(${statuteAbbreviationAlternation})(?![A-Za-z])`,
+  'gi'
+);
+
+const SECTION_NAMED_ACT_REGEX = new RegExp(
+  `\\b(?:u\\/s\\.?|[Ss]ections?|[Ss]s?\\.)\\s*(${SECTION_LIST})\\s+of\\s+(?:the\\s+)?` +
+    `((?:[A-Z][A-Za-z'\\-]*\\s+)(?:(?:[A-Z][A-Za-z'\\-]*|of|and|the|for|on|\\(\\w+\\))\\s+)*?(?:Act|Ordinance|Order|Code|Rules|Regulations))` +
+    `(?:,?\\s*((?:18|19|20)\\d{2}))?`,
+  'g'
+);
+
+const ARTICLE_REGEX = new RegExp(
+  `\\b(?:Articles?|Arts?\\.)\\s*(\\d{1,3}(?:-?[A-Z]{1,2})?(?:\\s?\\([0-9a-zA-Z]{1,4}\\))*(?:\\s*(?:,|and|&|\\/)\\s*\\d{1,3}(?:-?[A-Z]{1,2})?(?:\\s?\\([0-9a-zA-Z]{1,4}\\))*)*)`,
+  'gi'
+);
+
+/** "302 (b)" → "302(b)", "489 f" → "489-F" */
+function normalizeProvisionNumber(value: string): string {
+  return value
+    .replace(/\s+/g, '')
+    .replace(/^(\d+)-?([a-zA-Z]{1,2})(?=\(|$)/, (_m, num: string, suffix: string) => `${num}-${suffix.toUpperCase()}`);
+}
+
+function splitProvisionList(list: string): string[] {
+  return list
+    .split(/\s*(?:\/|,|\band\b|&)\s*/i)
+    .map((n) => n.trim())
+    .filter(Boolean)
+    .map(normalizeProvisionNumber);
+}
+
+function lettersOnly(value: string): string {
+  return value.replace(/[^A-Za-z]/g, '').toUpperCase();
+}
+
+function extractLawReports(text: string, out: ExtractedCitation[]): void {
+  for (const match of text.matchAll(COURT_REPORT_REGEX)) {
+    const [raw, reporter, year, court, page] = match;
+    const courtLabel = COURT_ALIASES.find((c) => new RegExp(`^(?:${c.pattern})$`, 'i').test(court.trim()))?.label;
+    if (!courtLabel) continue;
+    out.push({ type: 'law_report', normalized: `${lettersOnly(reporter)} ${year} ${courtLabel} ${page}`, raw });
+  }
+
+  for (const match of text.matchAll(YEAR_REPORT_REGEX)) {
+    const [raw, year, reporter, , page] = match;
+    const canonical = YEAR_REPORTERS[lettersOnly(reporter)];
+    if (!canonical) continue;
+    out.push({ type: 'law_report', normalized: `${year} ${canonical} ${page}`, raw });
+  }
+}
+
+function extractStatuteSections(text: string, out: ExtractedCitation[]): void {
+  for (const match of text.matchAll(SECTION_ABBREVIATION_REGEX)) {
+    const [raw, list, abbreviation] = match;
+    const statute = STATUTE_ABBREVIATIONS[lettersOnly(abbreviation)];
+    if (!statute) continue;
+    for (const section of splitProvisionList(list)) {
+      out.push({ type: 'statute_section', normalized: `Section ${section} ${statute.label}`, raw, target: statute.title });
+    }
+  }
+
+  for (const match of text.matchAll(SECTION_NAMED_ACT_REGEX)) {
+    const [raw, list, actName, year] = match;
+    const title = actName.replace(/\s+/g, ' ').trim();
+    if (/^constitution/i.test(title)) continue;
+    const label = year ? `${title} ${year}` : title;
+    for (const section of splitProvisionList(list)) {
+      out.push({ type: 'statute_section', normalized: `Section ${section} ${label}`, raw, target: title });
+    }
+  }
+}
+
+function extractConstitutionArticles(text: string, out: ExtractedCitation[]): void {
+  for (const match of text.matchAll(ARTICLE_REGEX)) {
+    const [raw, list] = match;
+    // "Article 5 of the Convention ..." refers to another instrument; only bare or Constitution articles are kept
+    const following = text.slice((match.index ?? 0) + raw.length, (match.index ?? 0) + raw.length + 60);
+    if (/^\s*of\s+(?!(?:the\s+)?Constitution)(?:the\s+)?[A-Z]/i.test(following)) continue;
+    for (const article of splitProvisionList(list)) {
+      out.push({ type: 'constitution_article', normalized: `Article ${article}`, raw, target: CONSTITUTION_TITLE });
+    }
+  }
+}
+
+/**
+ * Extract and normalise all citations in a piece of text (deduplicated by normalized form).
+ */
+export function extractCitations(text: string): ExtractedCitation[] {
+  if (!text) return [];
+  const found: ExtractedCitation[] = [];
+  extractLawReports(text, found);
+  extractStatuteSections(text, found);
+  extractConstitutionArticles(text, found);
+
+  const seen = new Set<string>();
+  return found.filter((c) => {
+    const key = `${c.type}:${c.normalized.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Parse a single reference typed by a user ("Article 199", "s. 302 PPC", "PLD 2019 SC 123").
+ * Returns null when the input is not a recognisable citation.
+ */
+export function parseCitation(input: string): ExtractedCitation | null {
+  return extractCitations(input)[0] ?? null;
+}
+
+/**
+ * The law report citation a judgment is itself reported as, taken from its heading (first ~600 characters).
+ */
+export function findReportedAs(text: string): string | undefined {
+  const heading = (text || '').slice(0, 600);
+  const found: ExtractedCitation[] = [];
+  extractLawReports(heading, found);
+  found.sort((a, b) => heading.indexOf(a.raw) - heading.indexOf(b.raw));
+  return found[0]?.normalized;
+}
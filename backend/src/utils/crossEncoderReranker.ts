@@ -0,0 +1,56 @@
+import axios from 'axios';
+
+const RERANKER_URL = process.env.RERANKER_URL || 'http://localhost:8002';
+const RERANKER_TIMEOUT_MS = parseInt(process.env.RERANKER_TIMEOUT_MS || '10000', 10);
+/** The model truncates pairs to RERANK_MAX_LENGTH tokens anyway; this only keeps requests small */
+const MAX_PASSAGE_CHARS = 3000;
+
+/** RERANKER=cross-encoder turns the relevance stage on by default (evaluation runs can switch it per run) */
+export const CROSS_ENCODER_ENABLED = (process.env.RERANKER || 'none').trim().toLowerCase() === 'cross-encoder';
+
+interface ScoredChunk {
+  content: string;
+  similarity: number;
+}
+
+export interface CrossEncoderResult<T> {
+  chunks: Array<T & { cross_encoder_score?: number; hybrid_score: number }>;
+  model: string;
+  durationMs: number;
+}
+
+/**
+ * Cross-encoder relevance reranking through the local rerank service (rerank-service/, CPU). Unlike the MMR
+ * Reranker, which only re-weights hybrid scores for diversity, the model reads each question/passage pair.
+ */
+export class CrossEncoderReranker {
+  /**
+   * Score the first `limit` chunks against the query and order them by that score, which replaces `similarity`
+   * (the hybrid score is kept as hybrid_score). Chunks past the limit follow with similarity 0.
+   * Throws when the service is unreachable or fails; callers keep the hybrid order then (and log it).
+   */
+  async rerank<T extends ScoredChunk>(query: string, chunks: T[], limit: number): Promise<CrossEncoderResult<T>> {
+    const scored = chunks.slice(0, limit);
+    const started = Date.now();
+    try {
+      const response = await axios.post(
+        `${RERANKER_URL}/rerank`,
+        { query, passages: scored.map((c) => c.content.slice(0, MAX_PASSAGE_CHARS)) },
+        { timeout: RERANKER_TIMEOUT_MS }
+      );
+      const data = response.data as { scores: number[]; model: string };
+      if (!Array.isArray(data.scores) || data.scores.length !== scored.length) {
+        throw new Error(`expected ${scored.length} scores, got ${data.scores?.length ?? 'none'}`);
+      }
+
+      const reranked = scored
+        .map((chunk, i) => ({ ...chunk, similarity: data.scores[i], cross_encoder_score: data.scores[i], hybrid_score: chunk.similarity }))
+        .sort((a, b) => b.cross_encoder_score - a.cross_encoder_score);
+      const rest = chunks.slice(limit).map((chunk) => ({ ...chunk, similarity: 0, hybrid_score: chunk.similarity }));
+      return { chunks: [...reranked, ...rest], model: data.model, durationMs: Date.now() - started };
+    } catch (error: any) {
+      const errorText = error.response?.data?.error || error.message;
+      throw new Error(`Rerank service failed after ${Date.now() - started} ms: ${errorText}`);
+    }
+  }
+}
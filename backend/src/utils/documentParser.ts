@@ -1,8 +1,12 @@
 import mammoth from 'mammoth';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import { isTextMeaningful, extractTextFromImage } from './ocrService';
+import { extractCitations, findReportedAs, ExtractedCitation } from './citationExtractor';
+import { StatuteChunker, StatutePage } from './statuteChunker';
+import { detectLanguage, dominantLanguage, normalizeText, TextLanguage } from './language';
+import { JudgmentMetadata } from './judgmentMetadata';
 import logger from './logger';
 
 export interface ParsedDocument {
@@ -11,6 +15,12 @@ export interface ParsedDocument {
   metadata: {
     pageCount?: number;
     title?: string;
+    /** Law report citation the document is itself reported as (judgments), e.g. "PLD 2019 SC 123" */
+    reportedAs?: string;
+    /** Dominant language of the document's chunks */
+    language?: TextLanguage;
+    /** Court, bench, parties, dates and outcome of judgments (set at ingestion for judgment categories) */
+    judgment?: JudgmentMetadata;
   };
 }
 
@@ -18,8 +28,17 @@ export interface ChunkWithMetadata {
   content: string;
   section_name?: string;
   page_number?: number;
+  citations?: ExtractedCitation[];
+  /** Structural path of statute chunks, outermost first, e.g. ["Part II", "Chapter 1", "Art. 25(2)"] */
+  hierarchy?: string[];
+  language?: TextLanguage;
 }
 
+/** Stage reported while a document is being parsed (used for ingestion job progress). */
+export type ParseStage = 'parsing' | 'ocr' | 'chunking';
+
+export type ParseProgressCallback = (progress: { stage: ParseStage; page: number; totalPages: number }) => void | Promise<void>;
+
 interface SectionBoundary {
   line_index: number;
   heading: string;
@@ -31,6 +50,19 @@ export class DocumentParser {
   private minChunkSize: number = 200;
   private fallbackChunkSize: number = 1000;
   private chunkOverlap: number = 200;
+  private statuteChunker = new StatuteChunker({ maxChunkSize: this.maxChunkSize, chunkOverlap: this.chunkOverlap });
+
+  /**
+   * Statute-aware chunking over the whole document (Part / Chapter / Section / Sub-section / Clause).
+   * Returns null when no statutory structure is detected, leaving the document to LLM section detection.
+   */
+  private structuralChunk(pages: StatutePage[]): ChunkWithMetadata[] | null {
+    const chunks = this.statuteChunker.chunk(pages);
+    if (chunks) {
+      logger.info('Statutory structure detected, skipping LLM section detection', { chunks: chunks.length });
+    }
+    return chunks;
+  }
 
   /**
    * LLM-based intelligent section detection
@@ -162,7 +194,7 @@ Rules:
     return chunks;
   }
 
-  async parsePDF(filePath: string): Promise<ParsedDocument> {
+  async parsePDF(filePath: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
     try {
       // Import pdfjs with proper Node.js compatibility
       const pdfjs = require('pdfjs-dist/build/pdf');
@@ -177,36 +209,39 @@ Rules:
       const loadingTask = pdfjs.getDocument({ data: uint8, standardFontDataUrl });
       const doc = await loadingTask.promise;
       
-      const allChunks: ChunkWithMetadata[] = [];
+      const pages: StatutePage[] = [];
       
       for (let i = 1; i <= doc.numPages; i++) {
+        await onProgress?.({ stage: 'parsing', page: i, totalPages: doc.numPages });
         const page = await doc.getPage(i);
         const content = await page.getTextContent();
         
         // FIXED: Preserve line structure using Y-coordinates
         let lastY = -1;
         const lines: string[] = [];
-        let currentLine = '';
+        let currentItems: any[] = [];
         
         content.items.forEach((item: any) => {
           const yPos = item.transform[5];
           
           // New line detected (Y position changed)
           if (lastY !== -1 && Math.abs(yPos - lastY) > 2) {
-            if (currentLine.trim()) {
-              lines.push(currentLine.trim());
+            const line = this.joinLineItems(currentItems);
+            if (line) {
+              lines.push(line);
             }
-            currentLine = item.str;
+            currentItems = [item];
           } else {
-            currentLine += (currentLine ? ' ' : '') + item.str;
+            currentItems.push(item);
           }
           
           lastY = yPos;
         });
         
         // Add last line
-        if (currentLine.trim()) {
-          lines.push(currentLine.trim());
+        const lastLine = this.joinLineItems(currentItems);
+        if (lastLine) {
+          lines.push(lastLine);
         }
         
         const pageText = lines.join('\n');
@@ -218,10 +253,12 @@ Rules:
 
         if (!isTextMeaningful(pageText)) {
           logger.info('Page has minimal text, attempting OCR', { page: i });
+          await onProgress?.({ stage: 'ocr', page: i, totalPages: doc.numPages });
+          let imagePath: string | undefined;
           try {
             // Lazy load pdfRenderer to avoid DOMMatrix errors at startup
             const { renderPageToImage } = await import('./pdfRenderer');
-            const imagePath = await renderPageToImage(filePath, i);
+            imagePath = await renderPageToImage(filePath, i);
             const ocrText = await extractTextFromImage(imagePath);
             if (ocrText.trim().length > 0) {
               finalText = ocrText;
@@ -232,11 +269,24 @@ Rules:
           } catch (ocrError) {
             logger.error('OCR failed for page', { page: i, error: ocrError });
             finalText = pageText;
+          } finally {
+            // The rendered page is a temporary image; the uploaded PDF stays
+            if (imagePath && fs.existsSync(imagePath)) fs.unlinkSync(imagePath);
           }
         }
 
-        const pageChunks = await this.intelligentChunk(finalText, i);
-        if (pageChunks.length > 0) allChunks.push(...pageChunks);
+        pages.push({ page: i, text: normalizeText(finalText) });
+      }
+
+      await onProgress?.({ stage: 'chunking', page: 1, totalPages: doc.numPages });
+      let allChunks = this.structuralChunk(pages);
+      if (!allChunks) {
+        allChunks = [];
+        for (const { page, text } of pages) {
+          await onProgress?.({ stage: 'chunking', page, totalPages: doc.numPages });
+          const pageChunks = await this.intelligentChunk(text, page);
+          if (pageChunks.length > 0) allChunks.push(...pageChunks);
+        }
       }
       
       const fullText = allChunks.map(c => c.content).join('\n\n');
@@ -254,29 +304,58 @@ Rules:
     }
   }
 
-  async parseDOCX(filePath: string): Promise<ParsedDocument> {
+  async parseDOCX(filePath: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
+    await onProgress?.({ stage: 'parsing', page: 0, totalPages: 1 });
     const result = await mammoth.extractRawText({ path: filePath });
-    
-    logger.info('DOCX: using LLM for section detection');
-    
+    return this.chunkPlainText(normalizeText(result.value), 'DOCX', onProgress);
+  }
+
+  /**
+   * Plain-text files (consolidated statutes generated by ConsolidationService)
+   */
+  async parseText(filePath: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
+    await onProgress?.({ stage: 'parsing', page: 0, totalPages: 1 });
+    return this.chunkPlainText(normalizeText(fs.readFileSync(filePath, 'utf-8')), 'TXT', onProgress);
+  }
+
+  /**
+   * Chunk text without page information (DOCX, TXT): pages are estimated at 3000 characters each
+   */
+  private async chunkPlainText(text: string, label: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
     const charsPerPage = 3000;
-    const estimatedPageCount = Math.ceil(result.value.length / charsPerPage);
-    
-    const allChunks: ChunkWithMetadata[] = [];
-    
-    for (let pageNum = 1; pageNum <= estimatedPageCount; pageNum++) {
-      const pageStart = (pageNum - 1) * charsPerPage;
-      const pageEnd = pageNum * charsPerPage;
-      const pageText = result.value.substring(pageStart, pageEnd);
-      
-      if (pageText.trim().length > 0) {
-        const pageChunks = await this.intelligentChunk(pageText, pageNum);
-        allChunks.push(...pageChunks);
+    const estimatedPageCount = Math.ceil(text.length / charsPerPage);
+
+    // Structural pass keeps lines whole; estimated page numbers come from each line's offset
+    const pages: StatutePage[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+      const page = Math.floor(offset / charsPerPage) + 1;
+      if (pages.length === 0 || pages[pages.length - 1].page !== page) pages.push({ page, text: '' });
+      pages[pages.length - 1].text += `${line}\n`;
+      offset += line.length + 1;
+    }
+
+    await onProgress?.({ stage: 'chunking', page: 1, totalPages: estimatedPageCount });
+    let allChunks = this.structuralChunk(pages);
+    if (!allChunks) {
+      logger.info(`${label}: using LLM for section detection`);
+      allChunks = [];
+
+      for (let pageNum = 1; pageNum <= estimatedPageCount; pageNum++) {
+        const pageStart = (pageNum - 1) * charsPerPage;
+        const pageEnd = pageNum * charsPerPage;
+        const pageText = text.substring(pageStart, pageEnd);
+        
+        if (pageText.trim().length > 0) {
+          await onProgress?.({ stage: 'chunking', page: pageNum, totalPages: estimatedPageCount });
+          const pageChunks = await this.intelligentChunk(pageText, pageNum);
+          allChunks.push(...pageChunks);
+        }
       }
     }
 
     const sectionsDetected = allChunks.filter(c => c.section_name).length;
-    logger.info('DOCX processing complete', { totalChunks: allChunks.length, sectionsDetected, estimatedPageCount });
+    logger.info(`${label} processing complete`, { totalChunks: allChunks.length, sectionsDetected, estimatedPageCount });
 
     const fullText = allChunks.map(c => c.content).join('\n\n');
 
@@ -287,13 +366,14 @@ Rules:
     };
   }
 
-  async parseImage(filePath: string, fileExtension: string): Promise<ParsedDocument> {
+  async parseImage(filePath: string, fileExtension: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
     try {
       logger.info('IMAGE: running OCR on image file');
+      await onProgress?.({ stage: 'ocr', page: 1, totalPages: 1 });
 
       // Extract text from image using OCR (pass extension so EasyOCR receives correct Content-Type)
       const { extractTextFromImage } = await import('./ocrService');
-      const ocrText = await extractTextFromImage(filePath, fileExtension);
+      const ocrText = normalizeText(await extractTextFromImage(filePath, fileExtension));
 
       if (!ocrText || ocrText.trim().length === 0) {
         logger.warn('OCR returned no text from image');
@@ -307,7 +387,8 @@ Rules:
       logger.info('OCR extracted text from image', { chars: ocrText.length });
 
       // Chunk the extracted text
-      const chunks = await this.intelligentChunk(ocrText, 1);
+      await onProgress?.({ stage: 'chunking', page: 1, totalPages: 1 });
+      const chunks = this.structuralChunk([{ page: 1, text: ocrText }]) ?? await this.intelligentChunk(ocrText, 1);
 
       const fullText = chunks.map(c => c.content).join('\n\n');
       const sectionsDetected = chunks.filter(c => c.section_name).length;
@@ -324,16 +405,71 @@ Rules:
     }
   }
 
-  async parse(filePath: string, fileType: string): Promise<ParsedDocument> {
+  /**
+   * @param onProgress - Optional callback invoked per page as parsing, OCR and chunking advance.
+   */
+  async parse(filePath: string, fileType: string, onProgress?: ParseProgressCallback): Promise<ParsedDocument> {
     const normalizedType = fileType.toLowerCase();
 
+    let parsed: ParsedDocument;
     if (normalizedType === 'pdf') {
-      return this.parsePDF(filePath);
+      parsed = await this.parsePDF(filePath, onProgress);
     } else if (normalizedType === 'docx') {
-      return this.parseDOCX(filePath);
+      parsed = await this.parseDOCX(filePath, onProgress);
+    } else if (normalizedType === 'txt') {
+      parsed = await this.parseText(filePath, onProgress);
     } else if (['jpg', 'jpeg', 'png', 'tiff', 'tif', 'webp'].includes(normalizedType)) {
-      return this.parseImage(filePath, normalizedType);
+      parsed = await this.parseImage(filePath, normalizedType, onProgress);
+    } else {
+      throw new Error(`Unsupported file type: ${fileType}`);
+    }
+    return this.attachLanguages(this.attachCitations(parsed));
+  }
+
+  /**
+   * Items of one PDF text line joined in reading order. pdf.js marks right-to-left runs with dir 'rtl';
+   * when most of a line is RTL (Urdu) and its items arrive in visual order, they are re-ordered right to left.
+   */
+  private joinLineItems(items: any[]): string {
+    const withText = items.filter((item) => item.str && item.str.trim());
+    const rtlCount = withText.filter((item) => item.dir === 'rtl').length;
+    const ordered = rtlCount > withText.length / 2
+      ? [...withText].sort((a, b) => b.transform[4] - a.transform[4])
+      : withText;
+    return ordered.map((item) => item.str).join(' ').trim();
+  }
+
+  /**
+   * Language tag per chunk ('en', 'ur' or 'mixed') and the document's dominant language
+   */
+  private attachLanguages(parsed: ParsedDocument): ParsedDocument {
+    for (const chunk of parsed.chunks) {
+      chunk.language = detectLanguage(chunk.content);
+    }
+    if (parsed.chunks.length > 0) {
+      parsed.metadata.language = dominantLanguage(parsed.chunks);
+    }
+    return parsed;
+  }
+
+  /**
+   * Citation extraction: per-chunk references (law reports, statute sections, Constitution articles)
+   * plus the report citation of the document itself, which lets other documents' citations link to it.
+   */
+  private attachCitations(parsed: ParsedDocument): ParsedDocument {
+    let citationCount = 0;
+    for (const chunk of parsed.chunks) {
+      const citations = extractCitations(chunk.content);
+      if (citations.length > 0) {
+        chunk.citations = citations;
+        citationCount += citations.length;
+      }
+    }
+    const reportedAs = findReportedAs(parsed.text);
+    if (reportedAs) {
+      parsed.metadata.reportedAs = reportedAs;
     }
-    throw new Error(`Unsupported file type: ${fileType}`);
+    logger.debug('Citations extracted', { citations: citationCount, reportedAs });
+    return parsed;
   }
 }
\ No newline at end of file
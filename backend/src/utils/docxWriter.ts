@@ -0,0 +1,216 @@
+import JSZip from 'jszip';
+import { ReportBlock, ReportDocument, formatReportDate } from './reportBuilder';
+
+/**
+ * Renders a ReportDocument to DOCX (WordprocessingML zipped with JSZip): title page, then the summary, findings and
+ * appendix with Word heading styles (so the navigation pane and a table of contents work), tables with repeating
+ * header rows, excerpts in a quote style and a "Page n of N" footer after the title page.
+ */
+
+/** A4 with 2 cm margins, in twentieths of a point */
+const PAGE = { width: 11906, height: 16838, margin: 1134 };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+const escapeXml = (text: string) =>
+  text
+    // Characters not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Runs for text, with line breaks for newlines */
+function runs(text: string, props = ''): string {
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return text
+    .split('\n')
+    .map((line, i) => `<w:r>${rPr}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('');
+}
+
+function paragraph(text: string, style?: string, props = '', pPr = ''): string {
+  const styleXml = style ? `<w:pStyle w:val="${style}"/>` : '';
+  return `<w:p><w:pPr>${styleXml}${pPr}</w:pPr>${runs(text, props)}</w:p>`;
+}
+
+function table(columns: Array<{ label: string; width: number }>, rows: string[][]): string {
+  const total = columns.reduce((sum, c) => sum + c.width, 0) || 1;
+  const widths = columns.map((c) => Math.floor((c.width / total) * TEXT_WIDTH));
+  const cell = (text: string, width: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="E2E8F0"/>' : ''}</w:tcPr>` +
+    `${paragraph(text ?? '', 'TableText', header ? '<w:b/>' : '')}</w:tc>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/>`;
+
+  return (
+    '<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/>' +
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+    '<w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${widths.map((w) => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>${columns.map((c, i) => cell(c.label, widths[i], true)).join('')}</w:tr>` +
+    rows.map((row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((text, i) => cell(text, widths[i], false)).join('')}</w:tr>`).join('') +
+    '</w:tbl>' +
+    // Word needs a paragraph between consecutive tables
+    paragraph('', undefined, '', '<w:spacing w:after="0"/>')
+  );
+}
+
+function block(b: ReportBlock): string {
+  switch (b.type) {
+    case 'paragraph':
+      return paragraph(b.text);
+    case 'subheading':
+      return paragraph(b.text, 'Heading2');
+    case 'list':
+      return b.items.map((item) => paragraph(item, 'ListBullet')).join('');
+    case 'excerpt':
+      return (
+        paragraph(b.label ? `${b.label}: ${b.citation}` : b.citation, 'ExcerptSource') +
+        paragraph(b.text || '(no text)', 'Excerpt')
+      );
+    case 'table':
+      return table(b.columns, b.rows);
+  }
+}
+
+function documentXml(report: ReportDocument, generatedAt: Date): string {
+  const body: string[] = [];
+
+  // Title page (its section has no footer: titlePg without a first-page footer)
+  body.push(paragraph('', undefined, '', '<w:spacing w:before="3600"/>'));
+  body.push(paragraph(report.title, 'Title'));
+  body.push(paragraph(report.subtitle, 'Subtitle'));
+  for (const [label, value] of report.details) {
+    body.push(
+      `<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="2600"/></w:tabs><w:ind w:left="2600" w:hanging="2600"/></w:pPr>` +
+        `${runs(label, '<w:b/><w:color w:val="4A5568"/>')}<w:r><w:tab/></w:r>${runs(value)}</w:p>`
+    );
+  }
+  body.push(
+    paragraph(`Prepared ${formatReportDate(generatedAt)}. Confidential: for internal compliance review.`, undefined, '<w:i/><w:color w:val="718096"/><w:sz w:val="18"/>', '<w:spacing w:before="2400"/>')
+  );
+  body.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+
+  body.push(paragraph('Executive summary', 'Heading1'));
+  body.push(...report.summary.map(block));
+  for (const section of report.findings) {
+    body.push(paragraph(section.heading, 'Heading1'));
+    body.push(...section.blocks.map(block));
+  }
+  report.appendix.forEach((section, i) => {
+    body.push(paragraph(`Appendix: ${section.heading}`, 'Heading1', '', i === 0 ? '<w:pageBreakBefore/>' : ''));
+    body.push(...section.blocks.map(block));
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>' +
+    body.join('') +
+    '<w:sectPr><w:footerReference w:type="default" r:id="rId2"/>' +
+    `<w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+    `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="567" w:footer="567" w:gutter="0"/>` +
+    '<w:titlePg/></w:sectPr></w:body></w:document>'
+  );
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/>' +
+  '<w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-GB"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:spacing w:after="160"/></w:pPr><w:rPr><w:b/><w:color w:val="1A202C"/><w:sz w:val="52"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="12" w:color="2D3748"/></w:pBdr><w:spacing w:after="480"/></w:pPr>' +
+  '<w:rPr><w:color w:val="4A5568"/><w:sz w:val="28"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="CBD5E0"/></w:pBdr>' +
+  '<w:spacing w:before="360" w:after="160"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="1A202C"/><w:sz w:val="32"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="23"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="ExcerptSource"><w:name w:val="Excerpt Source"/><w:basedOn w:val="Normal"/><w:next w:val="Excerpt"/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="120" w:after="40"/><w:ind w:left="284"/></w:pPr><w:rPr><w:b/><w:color w:val="4A5568"/><w:sz w:val="18"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Excerpt"><w:name w:val="Excerpt"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="A0AEC0"/></w:pBdr><w:ind w:left="284"/><w:spacing w:after="160"/></w:pPr>' +
+  '<w:rPr><w:i/><w:color w:val="2D3748"/><w:sz w:val="19"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:before="40" w:after="40" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="17"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:jc w:val="right"/><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="718096"/><w:sz w:val="16"/></w:rPr></w:style>' +
+  '</w:styles>';
+
+const NUMBERING_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>' +
+  '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>' +
+  '<w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>' +
+  '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>';
+
+function footerXml(title: string): string {
+  const field = (instruction: string) =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>` +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>';
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr>' +
+    `${runs(`${title}  ·  Page `)}${field('PAGE')}${runs(' of ')}${field('NUMPAGES')}</w:p></w:ftr>`
+  );
+}
+
+function coreXml(report: ReportDocument, generatedAt: Date): string {
+  const created = generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(report.title)}</dc:title><dc:subject>${escapeXml(report.subtitle)}</dc:subject><dc:creator>Legal RAG</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`
+  );
+}
+
+export async function renderReportDocx(report: ReportDocument, generatedAt: Date): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+      '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+      '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file('word/document.xml', documentXml(report, generatedAt));
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/numbering.xml', NUMBERING_XML);
+  zip.file('word/footer1.xml', footerXml(report.title));
+  zip.file('docProps/core.xml', coreXml(report, generatedAt));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -1,7 +1,7 @@
-import { embeddings, EMBEDDING_DIMENSIONS } from '../config/openai';
+import { embeddings, EMBEDDING_DIMENSIONS } from '../config/providers';
 import logger from './logger';
 
-/** Max texts per OpenAI embed request (stay under token/input limits) */
+/** Max texts per embed request (stay under token/input limits) */
 const BATCH_SIZE = 100;
 
 function validateEmbeddingDimension(vector: number[], index?: number): void {
@@ -9,7 +9,7 @@ function validateEmbeddingDimension(vector: number[], index?: number): void {
     const ctx = index !== undefined ? ` at index ${index}` : '';
     throw new Error(
       `Embedding dimension mismatch${ctx}: got ${vector.length}, expected ${EMBEDDING_DIMENSIONS}. ` +
-      'Ensure OpenAI config uses dimensions: 1536 and model text-embedding-3-small.'
+      'Set EMBEDDING_DIMENSIONS to the output size of EMBEDDING_MODEL.'
     );
   }
 }
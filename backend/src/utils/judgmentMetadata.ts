@@ -0,0 +1,274 @@
+/**
+ * Structured metadata of court judgments, extracted at ingestion.
+ *
+ * The heading and the closing paragraphs of a judgment are read by the LLM (court, bench, case number, parties,
+ * date of decision, disposition); each field falls back to patterns common in Pakistani judgments when the LLM
+ * call fails or returns nothing usable. Statutes invoked come from the citations found in the chunks.
+ */
+import { llm } from '../config/providers';
+import { ExtractedCitation } from './citationExtractor';
+import logger from './logger';
+
+export type Disposition = 'allowed' | 'partly_allowed' | 'dismissed' | 'remanded' | 'disposed_of' | 'withdrawn';
+
+export const DISPOSITIONS: Disposition[] = ['allowed', 'partly_allowed', 'dismissed', 'remanded', 'disposed_of', 'withdrawn'];
+
+export interface JudgmentMetadata {
+  court?: string;
+  /** Judges on the bench, e.g. ["Mian Saqib Nisar, CJ", "Ijaz ul Ahsan, J"] */
+  bench?: string[];
+  caseNumber?: string;
+  /** Appellants / petitioners and respondents */
+  parties?: { appellants: string[]; respondents: string[] };
+  /** YYYY-MM-DD */
+  decisionDate?: string;
+  /** Law report citation the judgment is reported as, e.g. "PLD 2019 SC 123" */
+  reportedAs?: string;
+  /** Titles of the statutes cited, most cited first */
+  statutes?: string[];
+  disposition?: Disposition;
+}
+
+/** Categories whose documents are judgments or court orders (default categories and custom ones naming a court) */
+const JUDGMENT_CATEGORY_PATTERN = /\b(judgments?|court|orders)\b/i;
+/** Same pattern for Postgres regular expressions (\m, \M: word boundaries) */
+export const JUDGMENT_CATEGORY_SQL_PATTERN = '\\m(judgments?|court|orders)\\M';
+
+/** Place of a court in the hierarchy, for ranking precedents (higher binds lower) */
+export type CourtLevel = 'supreme' | 'shariat' | 'high' | 'district' | 'unknown';
+
+export const COURT_LEVEL_RANK: Record<CourtLevel, number> = { supreme: 4, shariat: 3, high: 2, district: 1, unknown: 0 };
+
+const HEADING_CHARS = 3000;
+const CLOSING_CHARS = 2500;
+const MAX_BENCH = 15;
+const MAX_PARTIES = 10;
+const MAX_STATUTES = 20;
+
+/** Canonical court names, matched against the heading */
+const COURTS: Array<{ pattern: RegExp; name: string }> = [
+  { pattern: /supreme\s+court\s+of\s+azad\s+(?:jammu\s+(?:and|&)\s+)?kashmir/i, name: 'Supreme Court of Azad Jammu and Kashmir' },
+  { pattern: /high\s+court\s+of\s+azad\s+(?:jammu\s+(?:and|&)\s+)?kashmir/i, name: 'High Court of Azad Jammu and Kashmir' },
+  { pattern: /supreme\s+appellate\s+court\s+gilgit/i, name: 'Supreme Appellate Court Gilgit-Baltistan' },
+  { pattern: /(?:chief\s+court\s+gilgit|gilgit[-\s]baltistan\s+chief\s+court)/i, name: 'Gilgit-Baltistan Chief Court' },
+  { pattern: /supreme\s+court\s+of\s+pakistan/i, name: 'Supreme Court of Pakistan' },
+  { pattern: /federal\s+shariat\s+court/i, name: 'Federal Shariat Court' },
+  { pattern: /lahore\s+high\s+court/i, name: 'Lahore High Court' },
+  { pattern: /(?:high\s+court\s+of\s+sindh|sindh\s+high\s+court)/i, name: 'Sindh High Court' },
+  { pattern: /peshawar\s+high\s+court/i, name: 'Peshawar High Court' },
+  { pattern: /(?:high\s+court\s+of\s+balochistan|balochistan\s+high\s+court)/i, name: 'Balochistan High Court' },
+  { pattern: /islamabad\s+high\s+court/i, name: 'Islamabad High Court' },
+  { pattern: /court\s+of\s+(?:the\s+)?(?:additional\s+)?sessions\s+judge/i, name: 'Sessions Court' },
+  { pattern: /court\s+of\s+(?:the\s+)?(?:senior\s+)?civil\s+judge/i, name: 'Civil Court' },
+];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+export function isJudgmentCategory(category: string | null | undefined): boolean {
+  return !!category && JUDGMENT_CATEGORY_PATTERN.test(category);
+}
+
+/**
+ * Level of the court that gave a judgment, from its court name, else its category, else the reporter it is reported
+ * in ("PLD 2019 SC 123", "2021 SCMR 456"). The apex courts of AJK and Gilgit-Baltistan bind only within their
+ * territory and rank with the High Courts.
+ */
+export function courtLevelOf(court?: string | null, category?: string | null, reportedAs?: string | null): CourtLevel {
+  for (const text of [court, category]) {
+    if (!text) continue;
+    if (/supreme\s+court\s+of\s+azad|supreme\s+appellate\s+court|high\s+court|chief\s+court/i.test(text)) return 'high';
+    if (/supreme\s+court/i.test(text)) return 'supreme';
+    if (/shariat/i.test(text)) return 'shariat';
+    if (/sessions|civil\s+(judge|court)|district|magistrate|tribunal/i.test(text)) return 'district';
+  }
+  if (reportedAs) {
+    if (/\bSC\b|\bSCMR\b/.test(reportedAs)) return 'supreme';
+    if (/\bFSC\b/.test(reportedAs)) return 'shariat';
+    if (/\b(Lahore|Karachi|Peshawar|Quetta|Islamabad|AJK|GB|CLC|YLR|MLD|PCrLJ)\b/.test(reportedAs)) return 'high';
+  }
+  return 'unknown';
+}
+
+/** YYYY-MM-DD when the parts form a real date */
+function isoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 1900 || year > 2100 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+/** "12.03.2019", "12-03-2019", "12/3/2019" (day first), "12th March, 2019", "March 12, 2019", "2019-03-12" */
+export function parseJudgmentDate(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+  let m = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+  m = text.match(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/);
+  if (m) return isoDate(Number(m[3]), Number(m[2]), Number(m[1]));
+  m = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?(?:\s+day\s+of)?\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/);
+  if (m) {
+    const month = MONTHS.findIndex((name) => name.startsWith(m![2].slice(0, 3)));
+    if (month >= 0) return isoDate(Number(m[3]), month + 1, Number(m[1]));
+  }
+  m = text.match(/\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  if (m) {
+    const month = MONTHS.findIndex((name) => name.startsWith(m![1].slice(0, 3)));
+    if (month >= 0) return isoDate(Number(m[3]), month + 1, Number(m[2]));
+  }
+  return undefined;
+}
+
+function courtFrom(heading: string): string | undefined {
+  return COURTS.find((court) => court.pattern.test(heading))?.name;
+}
+
+/** Date of decision / announcement (the hearing date only when nothing else is given) */
+function decisionDateFrom(text: string): string | undefined {
+  const labelled = (label: string) => {
+    const m = text.match(new RegExp(`date\\s+of\\s+(?:${label})[^:\\n]{0,20}[:\\-–]?\\s*([^\\n]{6,40})`, 'i'));
+    return m ? parseJudgmentDate(m[1]) : undefined;
+  };
+  return labelled('decision|judgment|announcement|order') ?? labelled('hearing');
+}
+
+function caseNumberFrom(heading: string): string | undefined {
+  const m = heading.match(/\b((?:[A-Z][A-Za-z.()]*[ \t]+){0,5}No[s]?\.[ \t]*[A-Z]?-?\d[\w\-/]*(?:(?:\s*(?:,|&|and)\s*\d[\w\-/]*)*)(?:\s+of\s+(?:19|20)\d{2}|\/(?:19|20)\d{2})?)/);
+  return m ? m[1].replace(/\s+/g, ' ').trim() : undefined;
+}
+
+/** Judges listed after "Present:" / "Coram:" / "Before:" */
+function benchFrom(heading: string): string[] | undefined {
+  const m = heading.match(/\b(?:present|coram|before)\s*[:\-]\s*([\s\S]{0,500})/i);
+  if (!m) return undefined;
+  const judges = m[1]
+    .trim()
+    .split(/\n\s*\n/)[0]
+    .split(/\n|;|\band\b/)
+    .filter((line) => /\bjustice\b/i.test(line) || /[\s,](?:C\.?J|J)\.?\s*$/.test(line))
+    .map((line) => line.replace(/\s+/g, ' ').replace(/^[\s,.\-]*(?:hon'?ble\s+)?(?:mr\.?|mrs\.?|ms\.?|madam)?\s*(?:justice\s+)?/i, '').trim())
+    .filter(Boolean)
+    .slice(0, MAX_BENCH);
+  return judges.length > 0 ? judges : undefined;
+}
+
+/** "A versus B" / "A v. B" line of the heading */
+function partiesFrom(heading: string): JudgmentMetadata['parties'] | undefined {
+  const m = heading.match(/^\s*(.{3,150}?)\s+(?:versus|vs\.?|v\.)\s+(.{3,150}?)\s*$/im);
+  if (!m) return undefined;
+  const clean = (value: string) => value.replace(/\s*[.…]{2,}.*$/, '').replace(/\s+/g, ' ').trim();
+  return { appellants: [clean(m[1])], respondents: [clean(m[2])] };
+}
+
+/** Disposition in the closing paragraphs: the last outcome stated wins */
+function dispositionFrom(closing: string): Disposition | undefined {
+  const patterns: Array<{ disposition: Disposition; pattern: RegExp }> = [
+    { disposition: 'remanded', pattern: /\b(?:remanded|remitted|sent\s+back)\b/gi },
+    { disposition: 'partly_allowed', pattern: /\b(?:partly|partially)\s+(?:allowed|accepted)\b/gi },
+    { disposition: 'allowed', pattern: /\b(?:is|are|stands?|hereby|be)\s+(?:hereby\s+)?(?:allowed|accepted)\b/gi },
+    { disposition: 'dismissed', pattern: /\b(?:is|are|stands?|hereby|be)\s+(?:hereby\s+)?dismissed\b/gi },
+    { disposition: 'disposed_of', pattern: /\bdisposed\s+of\b/gi },
+    { disposition: 'withdrawn', pattern: /\b(?:withdrawn|not\s+pressed)\b/gi },
+  ];
+  let last: { disposition: Disposition; at: number } | undefined;
+  for (const { disposition, pattern } of patterns) {
+    for (const m of closing.matchAll(pattern)) {
+      if (!last || m.index! > last.at) last = { disposition, at: m.index! };
+    }
+  }
+  return last?.disposition;
+}
+
+/** Statute titles of the citations, most cited first */
+function statutesFrom(citations: ExtractedCitation[]): string[] | undefined {
+  const counts = new Map<string, number>();
+  for (const citation of citations) {
+    if (citation.type === 'law_report' || !citation.target) continue;
+    counts.set(citation.target, (counts.get(citation.target) ?? 0) + 1);
+  }
+  const statutes = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([title]) => title).slice(0, MAX_STATUTES);
+  return statutes.length > 0 ? statutes : undefined;
+}
+
+const stringList = (value: unknown, max: number): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0).map((v) => v.trim()).slice(0, max);
+  return list.length > 0 ? list : undefined;
+};
+
+const nonEmpty = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null' ? value.trim() : undefined;
+
+/**
+ * LLM reading of the heading and closing paragraphs; an empty object when the call or its JSON failed
+ */
+async function readWithLlm(heading: string, closing: string): Promise<Partial<JudgmentMetadata>> {
+  const prompt = `Extract the metadata of this Pakistani court judgment.
+
+HEADING:
+"""
+${heading}
+"""
+
+CLOSING PARAGRAPHS:
+"""
+${closing}
+"""
+
+Return ONLY a valid JSON object (null for anything not stated):
+{
+  "court": "full name of the court, e.g. Supreme Court of Pakistan, Lahore High Court",
+  "bench": ["judge names with their designation, e.g. Mian Saqib Nisar, CJ"],
+  "case_number": "e.g. Civil Appeal No. 1234 of 2018",
+  "appellants": ["appellant / petitioner names"],
+  "respondents": ["respondent names"],
+  "decision_date": "YYYY-MM-DD date of decision or announcement",
+  "disposition": "allowed" | "partly_allowed" | "dismissed" | "remanded" | "disposed_of" | "withdrawn"
+}`;
+
+  try {
+    const response = await llm.invoke(prompt);
+    const cleaned = response.content.toString().replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const parsed = JSON.parse(cleaned);
+    if (!parsed || typeof parsed !== 'object') return {};
+    const appellants = stringList(parsed.appellants, MAX_PARTIES);
+    const respondents = stringList(parsed.respondents, MAX_PARTIES);
+    return {
+      court: nonEmpty(parsed.court),
+      bench: stringList(parsed.bench, MAX_BENCH),
+      caseNumber: nonEmpty(parsed.case_number),
+      parties: appellants || respondents ? { appellants: appellants ?? [], respondents: respondents ?? [] } : undefined,
+      decisionDate: typeof parsed.decision_date === 'string' ? parseJudgmentDate(parsed.decision_date) : undefined,
+      disposition: DISPOSITIONS.includes(parsed.disposition) ? parsed.disposition : undefined,
+    };
+  } catch (error) {
+    logger.warn('LLM judgment metadata extraction failed, using patterns', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+/**
+ * Judgment metadata of a parsed document. Fields that could not be found are left out.
+ */
+export async function extractJudgmentMetadata(
+  text: string,
+  citations: ExtractedCitation[],
+  reportedAs?: string
+): Promise<JudgmentMetadata> {
+  const heading = text.slice(0, HEADING_CHARS);
+  const closing = text.length > HEADING_CHARS ? text.slice(-CLOSING_CHARS) : text;
+  const read = await readWithLlm(heading, closing);
+
+  const metadata: JudgmentMetadata = {
+    court: read.court ?? courtFrom(heading),
+    bench: read.bench ?? benchFrom(heading),
+    caseNumber: read.caseNumber ?? caseNumberFrom(heading),
+    parties: read.parties ?? partiesFrom(heading),
+    decisionDate: read.decisionDate ?? decisionDateFrom(heading) ?? decisionDateFrom(closing),
+    reportedAs,
+    statutes: statutesFrom(citations),
+    disposition: read.disposition ?? dispositionFrom(closing),
+  };
+  const found = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as JudgmentMetadata;
+  logger.debug('Judgment metadata extracted', { fields: Object.keys(found) });
+  return found;
+}
@@ -0,0 +1,93 @@
+/**
+ * Urdu / English language handling shared by ingestion and retrieval.
+ *
+ * - detectLanguage: per-text tag ('en', 'ur' or 'mixed') from the share of Arabic-script letters
+ * - normalizeText: RTL-safe clean-up of extracted text (presentation forms, bidi controls, Arabic vs Urdu letters, digits)
+ * - searchQueryText: query words for full-text search (BM25 over the stored tsvectors) that keep Urdu script
+ */
+
+export type TextLanguage = 'en' | 'ur' | 'mixed';
+
+/** Text search configuration created in initDb: english stemming for Latin words, Urdu words kept verbatim */
+export const FULL_TEXT_CONFIG = 'legal_bilingual';
+
+const ARABIC_SCRIPT_LETTER = /[\u0620-\u064A\u066E-\u06D3\u06D5\u06EE\u06EF\u06FA-\u06FF\u0750-\u077F]/g;
+const LATIN_LETTER = /[A-Za-z\u00C0-\u024F]/g;
+
+/** Share of Arabic-script letters at or above which text is tagged Urdu (below the lower bound: English) */
+const URDU_THRESHOLD = 0.8;
+const MIXED_THRESHOLD = 0.15;
+
+/** Bidi embedding/override/isolate marks and LRM/RLM (ZWNJ U+200C is kept: it is part of Urdu spelling) */
+const BIDI_CONTROLS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069\u061C]/g;
+/** Arabic presentation forms emitted by some PDF producers instead of base letters */
+const PRESENTATION_FORMS = /[\uFB50-\uFDFF\uFE70-\uFEFC]/g;
+const TATWEEL = /\u0640/g;
+/** Harakat and other combining marks, dropped for search only */
+const ARABIC_MARKS = /[\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+
+/** Urdu function words skipped as search terms (the English side is handled by the tsquery stop list) */
+const URDU_STOPWORDS = new Set([
+  'کا', 'کی', 'کے', 'کو', 'میں', 'سے', 'پر', 'نے', 'ہے', 'ہیں', 'تھا', 'تھی', 'تھے', 'اور', 'یا', 'کہ',
+  'یہ', 'وہ', 'اس', 'ان', 'جو', 'بھی', 'تو', 'ہو', 'گا', 'گی', 'گے', 'کیا', 'کیسے', 'کون', 'کب', 'کیوں',
+]);
+
+export function detectLanguage(text: string): TextLanguage {
+  const arabic = (text.match(ARABIC_SCRIPT_LETTER) || []).length;
+  const latin = (text.match(LATIN_LETTER) || []).length;
+  const total = arabic + latin;
+  if (total === 0) return 'en';
+  const share = arabic / total;
+  if (share >= URDU_THRESHOLD) return 'ur';
+  return share >= MIXED_THRESHOLD ? 'mixed' : 'en';
+}
+
+/** Language of a document from its chunks: the tag covering most of the text */
+export function dominantLanguage(parts: Array<{ content: string; language?: TextLanguage }>): TextLanguage {
+  const size: Record<TextLanguage, number> = { en: 0, ur: 0, mixed: 0 };
+  for (const part of parts) {
+    size[part.language ?? detectLanguage(part.content)] += part.content.length;
+  }
+  if (size.ur > 0 && size.en > 0 && size.mixed === 0 && Math.min(size.ur, size.en) / (size.ur + size.en) >= MIXED_THRESHOLD) {
+    return 'mixed';
+  }
+  return (Object.keys(size) as TextLanguage[]).reduce((best, lang) => (size[lang] > size[best] ? lang : best), 'en');
+}
+
+/**
+ * RTL-safe normalisation of extracted text. Keeps logical character order and line structure; only
+ * canonicalises characters so the same Urdu word always has the same code points:
+ * presentation forms → base letters, Arabic yeh/kaf → Urdu yeh/keheh, Arabic-Indic digits → ASCII
+ * (so "دفعہ ۳۰۲" matches "Section 302"), bidi controls, BOMs and tatweel removed.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(PRESENTATION_FORMS, (ch) => ch.normalize('NFKC'))
+    .normalize('NFC')
+    .replace(/\uFEFF/g, '')
+    .replace(BIDI_CONTROLS, '')
+    .replace(TATWEEL, '')
+    .replace(/\u064A/g, '\u06CC')
+    .replace(/\u0643/g, '\u06A9')
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+}
+
+/**
+ * Words of a query for full-text search, joined by spaces for to_tsvector(FULL_TEXT_CONFIG, …): normalised and
+ * lower-cased, diacritics and Urdu function words removed. Stemming is left to the text search configuration, so
+ * query words reduce to the same lexemes as the stored chunk vectors.
+ */
+export function searchQueryText(text: string): string {
+  return normalizeText(text)
+    .toLowerCase()
+    .replace(ARABIC_MARKS, '')
+    .replace(/\u200C/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((t) => {
+      if (/^[a-z0-9]/.test(t)) return t.length > 2;
+      return t.length > 1 && !URDU_STOPWORDS.has(t);
+    })
+    .join(' ');
+}
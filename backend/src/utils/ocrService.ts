@@ -6,6 +6,21 @@ import logger from './logger';
 const MIN_TEXT_LENGTH = parseInt(process.env.OCR_MIN_TEXT_LENGTH || '50', 10);
 const EASYOCR_URL = process.env.EASYOCR_URL || 'http://localhost:8001';
 
+/** OCR languages understood by the OCR service (EasyOCR codes) */
+export type OcrLanguage = 'en' | 'ur';
+
+/** Tesseract traineddata names for the fallback engine */
+const TESSERACT_LANGUAGES: Record<OcrLanguage, string> = {
+  en: 'eng',
+  ur: 'urd',
+};
+
+/** Default OCR languages (OCR_LANGUAGES, comma separated); English + Urdu covers bilingual gazettes and orders */
+export const DEFAULT_OCR_LANGUAGES: OcrLanguage[] = (process.env.OCR_LANGUAGES || 'en,ur')
+  .split(',')
+  .map((l) => l.trim().toLowerCase())
+  .filter((l): l is OcrLanguage => l in TESSERACT_LANGUAGES);
+
 /** Map file extension to MIME type for OCR service (must match ocr-service ALLOWED_MIME_TYPES) */
 const EXT_TO_MIME: Record<string, string> = {
   jpg: 'image/jpeg',
@@ -31,41 +46,38 @@ export const isTextMeaningful = (text: string): boolean => {
 };
 
 // Try EasyOCR first, fall back to Tesseract
-/** @param fileExtension - e.g. 'jpg', 'png'. Used to set Content-Type when sending to EasyOCR (required for image uploads from multer paths with no extension). */
+/**
+ * The image is left in place: it may be the uploaded original, which the document still points to (re-indexing,
+ * retries); callers remove temporary images they created.
+ * @param fileExtension - e.g. 'jpg', 'png'. Used to set Content-Type when sending to EasyOCR (required for image uploads from multer paths with no extension).
+ * @param languages - OCR languages to recognise (both engines); defaults to OCR_LANGUAGES.
+ */
 export const extractTextFromImage = async (
   imagePath: string,
-  fileExtension?: string
+  fileExtension?: string,
+  languages: OcrLanguage[] = DEFAULT_OCR_LANGUAGES
 ): Promise<string> => {
   const contentType = fileExtension ? EXT_TO_MIME[fileExtension.toLowerCase()] : undefined;
   try {
-    const easyOcrText = await extractWithEasyOCR(imagePath, contentType);
+    const easyOcrText = await extractWithEasyOCR(imagePath, contentType, languages);
     if (easyOcrText && easyOcrText.trim().length > 0) {
       logger.info('EasyOCR succeeded', { context: 'OCR' });
-      if (fs.existsSync(imagePath)) fs.unlinkSync(imagePath);
       return easyOcrText;
     }
   } catch (error: any) {
     logger.warn('EasyOCR unavailable, falling back to Tesseract', { error: error?.message ?? error });
   }
 
-  // Fallback to Tesseract (file still needed); cleanup after
-  const result = await extractWithTesseract(imagePath);
-  if (fs.existsSync(imagePath)) {
-    try {
-      fs.unlinkSync(imagePath);
-    } catch (e) {
-      logger.warn('OCR: failed to cleanup image', { error: e });
-    }
-  }
-  return result;
+  return extractWithTesseract(imagePath, languages);
 };
 
 const extractWithEasyOCR = async (
   imagePath: string,
-  contentType?: string
+  contentType: string | undefined,
+  languages: OcrLanguage[]
 ): Promise<string> => {
   try {
-    logger.info('Sending to EasyOCR', { imagePath, context: 'OCR' });
+    logger.info('Sending to EasyOCR', { imagePath, languages, context: 'OCR' });
 
     const FormData = require('form-data');
     const formData = new FormData();
@@ -76,6 +88,7 @@ const extractWithEasyOCR = async (
       filename: `image.${ext}`,
       contentType: mime,
     });
+    formData.append('languages', languages.join(','));
 
     const response = await axios.post(
       `${EASYOCR_URL}/ocr`,
@@ -98,12 +111,16 @@ const extractWithEasyOCR = async (
 };
 
 const extractWithTesseract = async (
-  imagePath: string
+  imagePath: string,
+  languages: OcrLanguage[]
 ): Promise<string> => {
   try {
-    logger.info('Running Tesseract fallback', { context: 'OCR' });
+    const tesseractLanguages = (languages.length > 0 ? languages : ['en' as OcrLanguage])
+      .map((l) => TESSERACT_LANGUAGES[l])
+      .join('+');
+    logger.info('Running Tesseract fallback', { languages: tesseractLanguages, context: 'OCR' });
     const Tesseract = await loadTesseract();
-    const result = await Tesseract.recognize(imagePath, 'eng', {
+    const result = await Tesseract.recognize(imagePath, tesseractLanguages, {
       logger: () => {} // Suppress verbose logging
     });
     const text = result.data.text || '';
@@ -0,0 +1,352 @@
+import zlib from 'zlib';
+import { ReportBlock, ReportDocument, formatReportDate } from './reportBuilder';
+
+/**
+ * Renders a ReportDocument to PDF with the standard Helvetica fonts (no font embedding, so no dependency).
+ * Text is WinAnsi-encoded: Latin script, typographic quotes and dashes print as-is; characters outside WinAnsi
+ * (e.g. Urdu) are replaced with "?". Layout: A4, title page, then flowing sections with wrapped tables and
+ * excerpts; every page after the title carries a "Page n of N" footer.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 60;
+const MARGIN_TOP = 64;
+const MARGIN_BOTTOM = 64;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN_X;
+
+type Font = 'F1' | 'F2' | 'F3';
+const FONT_NAMES: Record<Font, string> = { F1: 'Helvetica', F2: 'Helvetica-Bold', F3: 'Helvetica-Oblique' };
+
+// Advance widths (1/1000 em) of ASCII 32..126 from the standard Helvetica / Helvetica-Bold metrics (Oblique = regular)
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// WinAnsi codes 0x80-0x9F that differ from Latin-1, with their (regular) widths
+const WIN_ANSI: Record<string, [number, number]> = {
+  '€': [0x80, 556], '‚': [0x82, 222], 'ƒ': [0x83, 556], '„': [0x84, 333], '…': [0x85, 1000], '†': [0x86, 556],
+  '‡': [0x87, 556], 'ˆ': [0x88, 333], '‰': [0x89, 1000], 'Š': [0x8a, 667], '‹': [0x8b, 333], 'Œ': [0x8c, 1000],
+  'Ž': [0x8e, 611], '‘': [0x91, 222], '’': [0x92, 222], '“': [0x93, 333], '”': [0x94, 333], '•': [0x95, 350],
+  '–': [0x96, 556], '—': [0x97, 1000], '˜': [0x98, 333], '™': [0x99, 1000], 'š': [0x9a, 500], '›': [0x9b, 333],
+  'œ': [0x9c, 944], 'ž': [0x9e, 500], 'Ÿ': [0x9f, 667],
+};
+const SUBSTITUTES: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '−': '-', '✓': 'v' };
+
+/** Text as a string of WinAnsi byte values (one char per byte) */
+function encode(text: string): string {
+  let out = '';
+  for (const ch of text.replace(/[→←≥≤−✓]/g, (c) => SUBSTITUTES[c])) {
+    const code = ch.codePointAt(0)!;
+    if (WIN_ANSI[ch]) out += String.fromCharCode(WIN_ANSI[ch][0]);
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (ch === '\t') out += ' ';
+    else out += '?';
+  }
+  return out;
+}
+
+function charWidth(byte: number, font: Font): number {
+  if (byte >= 32 && byte <= 126) return (font === 'F2' ? HELVETICA_BOLD : HELVETICA)[byte - 32];
+  const special = Object.values(WIN_ANSI).find(([code]) => code === byte);
+  return special ? special[1] : 556;
+}
+
+/** Width in points of encoded text */
+function textWidth(encoded: string, font: Font, size: number): number {
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) width += charWidth(encoded.charCodeAt(i), font);
+  return (width * size) / 1000;
+}
+
+/** Wrap encoded text to lines no wider than `width`; newlines start new lines, overlong words are split */
+function wrap(text: string, font: Font, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of encode(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, font, size) > width) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const escapeString = (encoded: string) => encoded.replace(/[\\()]/g, (c) => `\\${c}`);
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/** Page-by-page layout: content stream operators and a cursor measured from the top of the page */
+class PdfLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor(private readonly title: string) {}
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = MARGIN_TOP;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /** Start a new page unless `height` more points fit */
+  ensure(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN_BOTTOM) this.newPage();
+  }
+
+  text(x: number, y: number, encoded: string, font: Font, size: number, gray = 0.12): void {
+    this.ops.push(`${gray} g BT /${font} ${size} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${escapeString(encoded)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.7, width = 0.5): void {
+    this.ops.push(`${gray} G ${width} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: number | null, stroke: number | null): void {
+    const box = `${num(x)} ${num(PAGE_HEIGHT - y - h)} ${num(w)} ${num(h)} re`;
+    if (fill !== null && stroke !== null) this.ops.push(`${fill} g ${stroke} G 0.5 w ${box} B`);
+    else if (fill !== null) this.ops.push(`${fill} g ${box} f`);
+    else if (stroke !== null) this.ops.push(`${stroke} G 0.5 w ${box} S`);
+  }
+
+  /** Wrapped text flowing across pages */
+  paragraph(text: string, font: Font = 'F1', size = 10, indent = 0, leading = size * 1.4, gray = 0.12): void {
+    for (const line of wrap(text, font, size, TEXT_WIDTH - indent)) {
+      this.ensure(leading);
+      this.text(MARGIN_X + indent, this.y + size, line, font, size, gray);
+      this.y += leading;
+    }
+  }
+
+  titlePage(report: ReportDocument, generatedAt: Date): void {
+    this.newPage();
+    this.y = PAGE_HEIGHT * 0.3;
+    for (const line of wrap(report.title, 'F2', 26, TEXT_WIDTH)) {
+      this.text(MARGIN_X, this.y + 26, line, 'F2', 26);
+      this.y += 34;
+    }
+    this.y += 4;
+    for (const line of wrap(report.subtitle, 'F1', 14, TEXT_WIDTH)) {
+      this.text(MARGIN_X, this.y + 14, line, 'F1', 14, 0.35);
+      this.y += 20;
+    }
+    this.y += 16;
+    this.line(MARGIN_X, this.y, PAGE_WIDTH - MARGIN_X, this.y, 0.2, 1.5);
+    this.y += 24;
+    for (const [label, value] of report.details) {
+      const lines = wrap(value, 'F1', 11, TEXT_WIDTH - 150).slice(0, 6);
+      this.text(MARGIN_X, this.y + 11, encode(label), 'F2', 11, 0.35);
+      lines.forEach((line, i) => this.text(MARGIN_X + 150, this.y + 11 + i * 15, line, 'F1', 11));
+      this.y += lines.length * 15 + 6;
+    }
+    this.text(MARGIN_X, PAGE_HEIGHT - MARGIN_BOTTOM, encode(`Prepared ${formatReportDate(generatedAt)}. Confidential: for internal compliance review.`), 'F3', 9, 0.45);
+  }
+
+  heading(text: string): void {
+    this.ensure(60);
+    this.y += 10;
+    for (const line of wrap(text, 'F2', 16, TEXT_WIDTH)) {
+      this.text(MARGIN_X, this.y + 16, line, 'F2', 16);
+      this.y += 22;
+    }
+    this.line(MARGIN_X, this.y, PAGE_WIDTH - MARGIN_X, this.y, 0.75, 0.75);
+    this.y += 12;
+  }
+
+  block(block: ReportBlock): void {
+    switch (block.type) {
+      case 'paragraph':
+        this.paragraph(block.text);
+        this.y += 6;
+        break;
+      case 'subheading':
+        this.ensure(40);
+        this.y += 6;
+        this.paragraph(block.text, 'F2', 11.5, 0, 16);
+        this.y += 2;
+        break;
+      case 'list':
+        for (const item of block.items) {
+          const lines = wrap(item, 'F1', 10, TEXT_WIDTH - 14);
+          lines.forEach((line, i) => {
+            this.ensure(14);
+            if (i === 0) this.text(MARGIN_X + 2, this.y + 10, encode('•'), 'F1', 10);
+            this.text(MARGIN_X + 14, this.y + 10, line, 'F1', 10);
+            this.y += 14;
+          });
+        }
+        this.y += 6;
+        break;
+      case 'excerpt': {
+        this.ensure(40);
+        const heading = block.label ? `${block.label}: ${block.citation}` : block.citation;
+        this.paragraph(heading, 'F2', 9, 12, 13, 0.35);
+        // A bar beside each line keeps the quote marked across page breaks
+        for (const line of wrap(block.text || '(no text)', 'F3', 9.5, TEXT_WIDTH - 12)) {
+          this.ensure(13.5);
+          this.line(MARGIN_X + 3, this.y, MARGIN_X + 3, this.y + 13.5, 0.65, 2);
+          this.text(MARGIN_X + 12, this.y + 9.5, line, 'F3', 9.5, 0.2);
+          this.y += 13.5;
+        }
+        this.y += 8;
+        break;
+      }
+      case 'table':
+        this.table(block.columns, block.rows);
+        break;
+    }
+  }
+
+  private table(columns: Array<{ label: string; width: number }>, rows: string[][]): void {
+    const total = columns.reduce((sum, c) => sum + c.width, 0) || 1;
+    const widths = columns.map((c) => (c.width / total) * TEXT_WIDTH);
+    const padding = 4;
+    const size = 8.5;
+    const leading = 11;
+    const maxLines = Math.floor((PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - 40) / leading);
+
+    const drawRow = (cells: string[], font: Font, fill: number | null) => {
+      const wrapped = cells.map((cell, i) => wrap(cell ?? '', font, size, widths[i] - 2 * padding).slice(0, maxLines));
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * leading + 2 * padding;
+      let x = MARGIN_X;
+      wrapped.forEach((lines, i) => {
+        this.rect(x, this.y, widths[i], height, fill, 0.75);
+        lines.forEach((line, j) => this.text(x + padding, this.y + padding + size + j * leading, line, font, size));
+        x += widths[i];
+      });
+      this.y += height;
+    };
+    const rowHeight = (cells: string[]) =>
+      Math.max(...cells.map((cell, i) => Math.min(wrap(cell ?? '', 'F1', size, widths[i] - 2 * padding).length, maxLines))) * leading + 2 * padding;
+    const header = columns.map((c) => c.label);
+
+    this.ensure(rowHeight(header) + (rows[0] ? rowHeight(rows[0]) : 0));
+    drawRow(header, 'F2', 0.93);
+    for (const row of rows) {
+      if (this.y + rowHeight(row) > PAGE_HEIGHT - MARGIN_BOTTOM) {
+        this.newPage();
+        drawRow(header, 'F2', 0.93);
+      }
+      drawRow(row, 'F1', null);
+    }
+    this.y += 10;
+  }
+
+  /** "Title · Page n of N" on every page after the title page */
+  footers(): void {
+    const total = this.pages.length;
+    this.pages.forEach((ops, i) => {
+      if (i === 0) return;
+      const label = encode(`${this.title}  ·  Page ${i + 1} of ${total}`);
+      const x = PAGE_WIDTH - MARGIN_X - textWidth(label, 'F1', 8);
+      ops.push(`0.45 g BT /F1 8 Tf ${num(x)} ${num(MARGIN_BOTTOM / 2)} Td (${escapeString(label)}) Tj ET`);
+    });
+  }
+}
+
+/** PDF text string for the document info dictionary (UTF-16BE, so any title survives) */
+function infoString(text: string): string {
+  const utf16 = Buffer.from(`\ufeff${text}`, 'utf16le').swap16();
+  return `<${utf16.toString('hex')}>`;
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+export function renderReportPdf(report: ReportDocument, generatedAt: Date): Buffer {
+  const layout = new PdfLayout(report.title);
+  layout.titlePage(report, generatedAt);
+
+  layout.newPage();
+  layout.heading('Executive summary');
+  report.summary.forEach((block) => layout.block(block));
+  for (const section of report.findings) {
+    layout.heading(section.heading);
+    section.blocks.forEach((block) => layout.block(block));
+  }
+  if (report.appendix.length > 0) {
+    layout.newPage();
+    for (const section of report.appendix) {
+      layout.heading(`Appendix: ${section.heading}`);
+      section.blocks.forEach((block) => layout.block(block));
+    }
+  }
+  layout.footers();
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page and its content stream per page
+  const objects: Buffer[] = [];
+  const pageCount = layout.pages.length;
+  const pageIds = layout.pages.map((_, i) => 7 + i * 2);
+  objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`));
+  for (const font of ['F1', 'F2', 'F3'] as Font[]) {
+    objects.push(Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`));
+  }
+  objects.push(
+    Buffer.from(
+      `<< /Title ${infoString(report.title)} /Subject ${infoString(report.subtitle)} /Producer (Legal RAG) /CreationDate (${pdfDate(generatedAt)}) >>`
+    )
+  );
+  layout.pages.forEach((ops, i) => {
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      )
+    );
+    const stream = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ])
+    );
+  });
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    parts.push(object);
+    length += object.length;
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(`${xref}\n`));
+  return Buffer.concat(parts);
+}
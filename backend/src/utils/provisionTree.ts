@@ -0,0 +1,248 @@
+import {
+  EXPLANATION_RE,
+  MARKER_RE,
+  MarkerKind,
+  PROVISO_RE,
+  UNIT_RE,
+  markerKind,
+  splitInlineMarkers,
+} from './statuteChunker';
+
+/**
+ * Section tree of a stored statute, rebuilt from its structural chunks (the hierarchy paths written by
+ * StatuteChunker, e.g. ["Part II", "Chapter 1", "S. 5(2)-(3)"]). Pieces of a split section are merged back
+ * into one provision, and its lines are parsed into sub-sections / clauses / sub-clauses again, so amendments
+ * can address "clause (b) of sub-section (2) of section 5".
+ */
+
+/** A stored chunk as read from the chunks table (in chunk_index order) */
+export interface StoredChunk {
+  content: string;
+  hierarchy?: string[] | null;
+  page_number?: number | null;
+}
+
+/** Sub-section, clause or sub-clause; provisos and Explanations after nested clauses have no marker */
+export interface ProvisionNode {
+  marker?: string;
+  lines: string[];
+  children: ProvisionNode[];
+  /** Amendment notes, e.g. "Substituted by Act XII of 2020" */
+  provenance: string[];
+}
+
+export interface Provision {
+  /** "S." for statute sections, "Art." for Constitution articles */
+  prefix: string;
+  /** "5", "302-A" */
+  number: string;
+  /** Enclosing Part / Chapter labels */
+  path: string[];
+  page: number | null;
+  /** First line: number and marginal note (and the text when the section has no sub-sections) */
+  heading: string;
+  /** Text before the first marker */
+  intro: string[];
+  blocks: ProvisionNode[];
+  provenance: string[];
+}
+
+/** Position of a node in its parent's children (or in provision.blocks) */
+export interface NodeLocation {
+  siblings: ProvisionNode[];
+  index: number;
+}
+
+const UNIT_REF_RE = /^(S\.|Art\.)\s+(\d{1,4}(?:-[A-Z]{1,2})?)/;
+
+/** "5A", "5-A" and "5a" all address the same section */
+export function normalizeUnitNumber(number: string): string {
+  return number.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/** Comparable form of a unit reference: "S. 5-A" → "S. 5A" */
+export const unitKey = (ref: string) => ref.replace(/\s+(\S+)$/, (_, number: string) => ` ${normalizeUnitNumber(number)}`);
+
+export const unitRef = (provision: Pick<Provision, 'prefix' | 'number'>) => `${provision.prefix} ${provision.number}`;
+
+/** Section / article a chunk belongs to ("S. 5", "Art. 25"), from the last element of its hierarchy path */
+export function chunkUnitRef(hierarchy?: string[] | null): string | null {
+  const ref = UNIT_REF_RE.exec(hierarchy?.[hierarchy.length - 1] ?? '');
+  return ref ? `${ref[1]} ${ref[2]}` : null;
+}
+
+/**
+ * Parse the lines after a provision's heading into its intro and marker tree
+ * (same nesting rules as StatuteChunker: a marker of an open kind closes everything nested below it).
+ */
+export function parseProvisionBody(lines: string[]): { intro: string[]; blocks: ProvisionNode[] } {
+  const intro: string[] = [];
+  const blocks: ProvisionNode[] = [];
+  let stack: ProvisionNode[] = [];
+  let kinds: MarkerKind[] = [];
+  let openLeaf: ProvisionNode | null = null;
+  let lastLetter: string | undefined;
+
+  for (const line of lines) {
+    const marker = MARKER_RE.exec(line)?.[1];
+    if (marker) {
+      const kind = markerKind(marker, lastLetter);
+      if (kind === 'letter') lastLetter = marker;
+      const node: ProvisionNode = { marker: `(${marker})`, lines: [line], children: [], provenance: [] };
+      const depth = kinds.indexOf(kind);
+      if (depth >= 0) {
+        stack = stack.slice(0, depth);
+        kinds = kinds.slice(0, depth);
+      }
+      (stack.length > 0 ? stack[stack.length - 1].children : blocks).push(node);
+      stack.push(node);
+      kinds.push(kind);
+      openLeaf = node;
+      continue;
+    }
+
+    if (stack.length === 0) {
+      intro.push(line);
+    } else if (PROVISO_RE.test(line) || EXPLANATION_RE.test(line)) {
+      const top = stack[0];
+      if (top.children.length > 0) {
+        const node: ProvisionNode = { lines: [line], children: [], provenance: [] };
+        top.children.push(node);
+        openLeaf = node;
+      } else {
+        top.lines.push(line);
+        openLeaf = top;
+      }
+      stack = [top];
+      kinds = kinds.slice(0, 1);
+    } else {
+      (openLeaf ?? stack[stack.length - 1]).lines.push(line);
+    }
+  }
+  return { intro, blocks };
+}
+
+/** Split text (e.g. a quoted provision from an amending Act) into lines, one per marker / proviso / Explanation */
+export function textLines(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => splitInlineMarkers(line.replace(/\s+/g, ' ').trim()));
+}
+
+/**
+ * Parse text that starts with one or more numbered provisions ("5A. Heading.— (1) ...") into provisions.
+ * Returns an empty list when the text does not start with a section / article number.
+ */
+export function parseProvisions(text: string, prefix: string, path: string[]): Provision[] {
+  const provisions: Provision[] = [];
+  let current: { provision: Provision; lines: string[] } | null = null;
+  const finish = () => {
+    if (!current) return;
+    Object.assign(current.provision, parseProvisionBody(current.lines));
+    provisions.push(current.provision);
+  };
+
+  for (const line of textLines(text)) {
+    const unit = UNIT_RE.exec(line);
+    if (unit) {
+      finish();
+      const number = `${unit[1]}${unit[2] ? `-${unit[2]}` : ''}`;
+      current = {
+        provision: { prefix, number, path, page: null, heading: line, intro: [], blocks: [], provenance: [] },
+        lines: [],
+      };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      return [];
+    }
+  }
+  finish();
+  return provisions;
+}
+
+/**
+ * Rebuild the provisions of a statute from its chunks. Chunks without a section / article in their hierarchy
+ * (preamble, schedules, LLM-chunked text) are skipped; a document chunked without structure yields no provisions.
+ */
+export function buildProvisions(chunks: StoredChunk[]): Provision[] {
+  const units = new Map<string, { provision: Provision; lines: string[]; seen: Set<string> }>();
+
+  for (const chunk of chunks) {
+    const ref = chunkUnitRef(chunk.hierarchy);
+    if (!ref) continue;
+
+    const key = unitKey(ref);
+    let unit = units.get(key);
+    if (!unit) {
+      const [prefix, number] = ref.split(' ');
+      unit = {
+        provision: {
+          prefix,
+          number,
+          path: (chunk.hierarchy ?? []).slice(0, -1),
+          page: chunk.page_number ?? null,
+          heading: '',
+          intro: [],
+          blocks: [],
+          provenance: [],
+        },
+        lines: [],
+        seen: new Set(),
+      };
+      units.set(key, unit);
+    }
+
+    const lines = chunk.content.split('\n').map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    // Later pieces of a split section repeat its heading (and the parent sub-section line)
+    let start = 0;
+    if (unit.lines.length > 0) {
+      while (start < lines.length && unit.seen.has(lines[start])) start++;
+    }
+    for (const line of lines.slice(start)) {
+      unit.lines.push(line);
+      unit.seen.add(line);
+    }
+  }
+
+  return [...units.values()].map(({ provision, lines }) => {
+    const [heading = '', ...body] = lines;
+    return { ...provision, heading, ...parseProvisionBody(body) };
+  });
+}
+
+/** Find the node addressed by a marker path (outermost first), e.g. ["(2)", "(b)"] */
+export function findNode(provision: Provision, path: string[]): NodeLocation | null {
+  let siblings = provision.blocks;
+  let found: NodeLocation | null = null;
+  for (const marker of path) {
+    const index = siblings.findIndex((node) => node.marker === marker);
+    if (index < 0) return null;
+    found = { siblings, index };
+    siblings = siblings[index].children;
+  }
+  return found;
+}
+
+export function nodeLines(node: ProvisionNode): string[] {
+  return [...node.lines, ...node.children.flatMap(nodeLines)];
+}
+
+/** Full text of a provision, one line per heading / marker / proviso */
+export function provisionLines(provision: Provision): string[] {
+  return [provision.heading, ...provision.intro, ...provision.blocks.flatMap(nodeLines)];
+}
+
+/** Amendment notes of a provision and its nodes, with the reference each note belongs to ("S. 5(2)(b)") */
+export function provisionNotes(provision: Provision): Array<{ ref: string; note: string }> {
+  const notes = provision.provenance.map((note) => ({ ref: unitRef(provision), note }));
+  const walk = (nodes: ProvisionNode[], ref: string) => {
+    for (const node of nodes) {
+      const nodeRef = `${ref}${node.marker ?? ''}`;
+      notes.push(...node.provenance.map((note) => ({ ref: nodeRef, note })));
+      walk(node.children, nodeRef);
+    }
+  };
+  walk(provision.blocks, unitRef(provision));
+  return notes;
+}
@@ -1,6 +1,7 @@
-import { llm } from '../config/openai';
+import { llm } from '../config/providers';
 import { pipelineLogger } from '../services/logger';
 import logger from './logger';
+import { TextLanguage } from './language';
 
 export class QueryRewriter {
   async rewrite(query: string): Promise<string[]> {
@@ -39,4 +40,31 @@ Return only the alternative queries, one per line, without numbering or explanat
       return [query];
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Translate a query between Urdu and English so it can match sources written in the other language.
+   * Returns null when translation fails (callers search with the original variants only).
+   */
+  async translate(query: string, target: Exclude<TextLanguage, 'mixed'>): Promise<string | null> {
+    const targetName = target === 'ur' ? 'Urdu (Urdu script)' : 'English';
+    const prompt = `Translate this legal query into ${targetName}. Keep statute names, section/article numbers and case citations (e.g. "PLD 2019 SC 123") unchanged.
+
+Query: "${query}"
+
+Return only the translated query.`;
+
+    try {
+      const response = await llm.invoke(prompt);
+      const translated = response.content.toString().trim().replace(/^"|"$/g, '');
+      pipelineLogger.debug('QUERY_TRANSLATED', 'Query translated for cross-lingual retrieval', {
+        originalQuery: query,
+        target,
+        translated,
+      });
+      return translated || null;
+    } catch (error) {
+      logger.error('Query translation error', { error });
+      return null;
+    }
+  }
+}
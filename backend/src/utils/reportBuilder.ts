@@ -0,0 +1,418 @@
+import { describeRedline } from './structuralDiff';
+
+/**
+ * Compliance report model: a format-neutral memo (title page, executive summary, findings, appendix) built from the
+ * structured results of conflict detection, gap analysis and version comparison. Rendered to PDF by pdfWriter and to
+ * DOCX by docxWriter.
+ */
+
+export type ReportType = 'conflicts' | 'gaps' | 'versions';
+
+export type ReportBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'subheading'; text: string }
+  | { type: 'list'; items: string[] }
+  /** Column widths are fractions of the text width */
+  | { type: 'table'; columns: Array<{ label: string; width: number }>; rows: string[][] }
+  /** Verbatim text from a document; citation names document, version, section and page */
+  | { type: 'excerpt'; label?: string; citation: string; text: string };
+
+export interface ReportSection {
+  heading: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string;
+  /** Title-page facts, e.g. ["Documents analysed", "Companies Act 2017, SECP Regulations"] */
+  details: Array<[string, string]>;
+  summary: ReportBlock[];
+  findings: ReportSection[];
+  appendix: ReportSection[];
+}
+
+/** Longer excerpts are cut (the full text is in the cited document) */
+const MAX_EXCERPT_CHARS = 1500;
+/** Version changes shown with their text per compared pair; the rest are listed in the change table only */
+const MAX_CHANGE_EXCERPTS = 40;
+
+const SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 0, important: 1, medium: 1, minor: 2, low: 2 };
+
+const excerpt = (text: string | undefined | null) => {
+  const clean = (text ?? '').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  return clean.length > MAX_EXCERPT_CHARS ? `${clean.slice(0, MAX_EXCERPT_CHARS - 1).trimEnd()}…` : clean;
+};
+
+/** "Companies Act 2017 v2, Section 5, p. 4" */
+function citation(parts: { name?: string | null; version?: string | number | null; section?: string | null; page?: number | null }): string {
+  return [
+    [parts.name || 'Unknown document', parts.version != null && parts.version !== '' ? `v${parts.version}` : null].filter(Boolean).join(' '),
+    parts.section && parts.section !== 'N/A' ? parts.section : null,
+    parts.page ? `p. ${parts.page}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+const capitalize = (s: string) => (s ? s.charAt(0).toUpperCase() + s.slice(1) : s);
+
+function countBy<T>(items: T[], key: (item: T) => string): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => (SEVERITY_ORDER[a[0]] ?? 9) - (SEVERITY_ORDER[b[0]] ?? 9));
+}
+
+/**
+ * Conflict detection results: ConflictAnalysisResult (document pair / query) or the category-pair result
+ * (all_conflicts, categories_analyzed)
+ */
+export function buildConflictReport(result: any, generatedAt: Date): ReportDocument {
+  const conflicts: any[] = [...(result.all_conflicts ?? result.conflicts ?? [])].sort(
+    (a, b) => (SEVERITY_ORDER[a.severity] ?? 9) - (SEVERITY_ORDER[b.severity] ?? 9)
+  );
+  const scope: string[] = result.categories_analyzed ?? result.documents_analyzed ?? [];
+  const bySeverity = countBy(conflicts, (c) => c.severity ?? 'low');
+
+  const summary: ReportBlock[] = [
+    {
+      type: 'paragraph',
+      text: conflicts.length === 0
+        ? `No conflicts were identified between ${scope.join(', ') || 'the documents analysed'}.`
+        : `${conflicts.length} conflict(s) were identified between ${scope.join(', ') || 'the documents analysed'}: ${bySeverity.map(([s, n]) => `${n} ${s}`).join(', ')} severity.`,
+    },
+  ];
+  if (result.summary) summary.push({ type: 'paragraph', text: result.summary });
+  const high = conflicts.filter((c) => c.severity === 'high');
+  if (high.length > 0) {
+    summary.push({ type: 'subheading', text: 'High-severity findings' });
+    summary.push({ type: 'list', items: high.slice(0, 10).map((c) => `${capitalize(c.conflict_type || 'Conflict')}: ${c.description}`) });
+  }
+
+  const findings: ReportSection[] = [];
+  if (conflicts.length > 0) {
+    findings.push({
+      heading: 'Findings overview',
+      blocks: [
+        {
+          type: 'table',
+          columns: [
+            { label: '#', width: 0.06 },
+            { label: 'Severity', width: 0.12 },
+            { label: 'Type', width: 0.17 },
+            { label: 'Description', width: 0.4 },
+            { label: 'Documents', width: 0.25 },
+          ],
+          rows: conflicts.map((c, i) => [
+            String(i + 1),
+            capitalize(c.severity ?? ''),
+            capitalize(c.conflict_type ?? ''),
+            c.description ?? '',
+            [c.document_a?.name, c.document_b?.name].filter(Boolean).join(' / '),
+          ]),
+        },
+      ],
+    });
+    findings.push({
+      heading: 'Findings in detail',
+      blocks: conflicts.flatMap((c, i): ReportBlock[] => [
+        { type: 'subheading', text: `${i + 1}. ${capitalize(c.conflict_type || 'Conflict')} (${c.severity ?? 'unrated'} severity)` },
+        { type: 'paragraph', text: c.description ?? '' },
+        {
+          type: 'excerpt',
+          label: 'Document A',
+          citation: citation({ name: c.document_a?.name, version: c.document_a?.version, section: c.document_a?.section, page: c.document_a?.page }),
+          text: excerpt(c.document_a?.excerpt),
+        },
+        {
+          type: 'excerpt',
+          label: 'Document B',
+          citation: citation({ name: c.document_b?.name, version: c.document_b?.version, section: c.document_b?.section, page: c.document_b?.page }),
+          text: excerpt(c.document_b?.excerpt),
+        },
+        ...(c.recommendation ? [{ type: 'paragraph' as const, text: `Recommendation: ${c.recommendation}` }] : []),
+      ]),
+    });
+  }
+
+  const method = result.analysis_metadata ?? {};
+  return {
+    title: 'Conflict Analysis Report',
+    subtitle: scope.join(' · ') || result.query || 'Policy conflict review',
+    details: [
+      ['Date', formatReportDate(generatedAt)],
+      ['Documents analysed', scope.join(', ') || '—'],
+      ...(result.query ? [['Request', result.query] as [string, string]] : []),
+      ['Conflicts found', String(conflicts.length)],
+    ],
+    summary,
+    findings,
+    appendix: [
+      {
+        heading: 'Method',
+        blocks: [
+          {
+            type: 'paragraph',
+            text: `${method.analysis_method || 'LLM-based semantic analysis'} of ${method.chunks_analyzed ?? 'the retrieved'} passages. ` +
+              `Overall confidence: ${method.confidence ?? result.confidence ?? '—'}%. Excerpts are quoted verbatim from the stored documents; ` +
+              'findings should be confirmed against the cited provisions before relying on them.',
+          },
+        ],
+      },
+      {
+        heading: 'Severity scale',
+        blocks: [
+          {
+            type: 'table',
+            columns: [{ label: 'Severity', width: 0.2 }, { label: 'Meaning', width: 0.8 }],
+            rows: [
+              ['High', 'Direct contradiction: complying with one provision breaches the other.'],
+              ['Medium', 'Inconsistent thresholds, timelines or scope that require a decision on which applies.'],
+              ['Low', 'Differences in wording or emphasis that may cause confusion.'],
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/** Gap analysis result (GapAnalysisService.analyzeGaps) */
+export function buildGapReport(result: any, generatedAt: Date): ReportDocument {
+  const gapsInB: any[] = result.gaps_in_b ?? [];
+  const gapsInA: any[] = result.gaps_in_a ?? [];
+  const gapTable = (gaps: any[]): ReportBlock => ({
+    type: 'table',
+    columns: [
+      { label: '#', width: 0.06 },
+      { label: 'Severity', width: 0.14 },
+      { label: 'Topic', width: 0.35 },
+      { label: 'Recommendation', width: 0.45 },
+    ],
+    rows: [...gaps]
+      .sort((a, b) => (SEVERITY_ORDER[a.severity] ?? 9) - (SEVERITY_ORDER[b.severity] ?? 9))
+      .map((g, i) => [String(i + 1), capitalize(g.severity ?? ''), g.topic ?? '', g.recommendation ?? '']),
+  });
+
+  return {
+    title: 'Gap Analysis Report',
+    subtitle: `${result.document_a} · ${result.document_b}`,
+    details: [
+      ['Date', formatReportDate(generatedAt)],
+      ['Document A', result.document_a],
+      ['Document B', result.document_b],
+      ['Critical gaps', String(result.critical_gaps ?? 0)],
+    ],
+    summary: [
+      {
+        type: 'paragraph',
+        text: `${result.document_b} covers ${Math.round(result.coverage_score_a ?? 0)}% of the topics of ${result.document_a}, ` +
+          `and ${result.document_a} covers ${Math.round(result.coverage_score_b ?? 0)}% of the topics of ${result.document_b}. ` +
+          `${gapsInB.length + gapsInA.length} gap(s) were identified, ${result.critical_gaps ?? 0} of them critical.`,
+      },
+      ...(result.llm_summary ? [{ type: 'paragraph' as const, text: result.llm_summary }] : []),
+    ],
+    findings: [
+      {
+        heading: `Covered in ${result.document_a}, missing in ${result.document_b}`,
+        blocks: gapsInB.length > 0 ? [gapTable(gapsInB)] : [{ type: 'paragraph', text: 'No gaps identified.' }],
+      },
+      {
+        heading: `Covered in ${result.document_b}, missing in ${result.document_a}`,
+        blocks: gapsInA.length > 0 ? [gapTable(gapsInA)] : [{ type: 'paragraph', text: 'No gaps identified.' }],
+      },
+    ],
+    appendix: [
+      {
+        heading: 'Topics covered by both documents',
+        blocks: [(result.common_topics ?? []).length > 0
+          ? { type: 'list', items: result.common_topics }
+          : { type: 'paragraph', text: 'None identified.' }],
+      },
+      {
+        heading: 'Method',
+        blocks: [
+          {
+            type: 'paragraph',
+            text: 'Topics were extracted from each document and matched by semantic similarity; a topic of one document with ' +
+              `no sufficiently similar topic in the other is reported as a gap. Confidence: ${result.confidence ?? '—'}%. ` +
+              'Coverage scores are the share of a document\'s topics found in the other.',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+interface ComparedPair {
+  label: string;
+  comparison: any;
+}
+
+/**
+ * Version comparison: compareAllVersions (comparisons of consecutive versions), processComparison (one comparison
+ * under `comparison`) or a bare comparison
+ */
+export function buildVersionReport(result: any, generatedAt: Date): ReportDocument {
+  const pairs: ComparedPair[] = Array.isArray(result.comparisons)
+    ? result.comparisons
+        .filter((c: any) => c.changes && !c.changes.error)
+        .map((c: any) => ({ label: `v${c.from_version} → v${c.to_version}`, comparison: c.changes }))
+    : [result.comparison ?? result].map((comparison: any) => ({
+        label: `v${comparison.version1?.version} → v${comparison.version2?.version}`,
+        comparison,
+      }));
+  const name = result.family ?? result.document_name ?? 'Document';
+
+  const summaryRows = pairs.map(({ label, comparison }) => {
+    const s = comparison.statistics ?? {};
+    return [
+      label,
+      String(s.chunks_added ?? 0),
+      String(s.chunks_removed ?? 0),
+      String(s.chunks_modified ?? 0),
+      String(s.sections_renumbered ?? 0),
+      `${(s.change_percentage ?? 0).toFixed(1)}%`,
+    ];
+  });
+
+  const findings: ReportSection[] = pairs.map(({ label, comparison }) => {
+    const changes: any[] = (comparison.changes ?? []).filter((c: any) => c.change_type !== 'unchanged' || c.moved);
+    const blocks: ReportBlock[] = [];
+    if (comparison.summary) blocks.push({ type: 'paragraph', text: comparison.summary });
+    if (changes.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'No changes detected.' });
+      return { heading: `${name}: ${label}`, blocks };
+    }
+
+    const v1 = comparison.version1?.version;
+    const v2 = comparison.version2?.version;
+    const sectionOf = (c: any) => c.section_name || c.new_ref || c.old_ref || 'Untitled section';
+    const notes = (c: any) => [c.renumbered && c.old_ref ? `renumbered from ${c.old_ref}` : null, c.moved ? 'moved' : null].filter(Boolean).join(', ');
+    blocks.push({
+      type: 'table',
+      columns: [
+        { label: 'Section', width: 0.4 },
+        { label: 'Change', width: 0.14 },
+        { label: 'Notes', width: 0.28 },
+        { label: 'Pages', width: 0.18 },
+      ],
+      rows: changes.map((c) => [
+        sectionOf(c),
+        capitalize(c.change_type),
+        notes(c),
+        [c.old_page ?? (c.change_type === 'removed' ? c.page_number : null), c.new_page ?? (c.change_type !== 'removed' ? c.page_number : null)]
+          .map((p) => (p ? `p. ${p}` : '—'))
+          .join(' → '),
+      ]),
+    });
+
+    for (const c of changes.filter((c) => c.change_type !== 'unchanged').slice(0, MAX_CHANGE_EXCERPTS)) {
+      blocks.push({ type: 'subheading', text: `${sectionOf(c)} (${c.change_type}${notes(c) ? `; ${notes(c)}` : ''})` });
+      const wording = c.redline ? describeRedline(c.redline, 8) : [];
+      if (wording.length > 0) blocks.push({ type: 'list', items: wording });
+      if (c.old_content && c.change_type !== 'added') {
+        blocks.push({
+          type: 'excerpt',
+          label: 'Before',
+          citation: citation({ name: comparison.version1?.filename ?? name, version: v1, section: c.old_ref, page: c.old_page ?? c.page_number }),
+          text: excerpt(c.old_content),
+        });
+      }
+      if (c.new_content && c.change_type !== 'removed') {
+        blocks.push({
+          type: 'excerpt',
+          label: 'After',
+          citation: citation({ name: comparison.version2?.filename ?? name, version: v2, section: c.new_ref, page: c.new_page ?? c.page_number }),
+          text: excerpt(c.new_content),
+        });
+      }
+    }
+    const omitted = changes.filter((c) => c.change_type !== 'unchanged').length - MAX_CHANGE_EXCERPTS;
+    if (omitted > 0) {
+      blocks.push({ type: 'paragraph', text: `${omitted} further change(s) are listed in the table above without their text.` });
+    }
+    return { heading: `${name}: ${label}`, blocks };
+  });
+
+  const versions: any[] = result.versions ?? [pairs[0]?.comparison.version1, pairs[0]?.comparison.version2].filter(Boolean);
+  const totals = pairs.reduce(
+    (sum, { comparison }) => {
+      const s = comparison.statistics ?? {};
+      return { added: sum.added + (s.chunks_added ?? 0), removed: sum.removed + (s.chunks_removed ?? 0), modified: sum.modified + (s.chunks_modified ?? 0) };
+    },
+    { added: 0, removed: 0, modified: 0 }
+  );
+
+  return {
+    title: 'Version Change Report',
+    subtitle: name,
+    details: [
+      ['Date', formatReportDate(generatedAt)],
+      ['Document', name],
+      ['Versions compared', pairs.map((p) => p.label).join(', ') || '—'],
+    ],
+    summary: [
+      {
+        type: 'paragraph',
+        text: `Across ${pairs.length} comparison(s), ${totals.added} section(s) were added, ${totals.removed} removed and ${totals.modified} modified.`,
+      },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Versions', width: 0.25 },
+          { label: 'Added', width: 0.13 },
+          { label: 'Removed', width: 0.13 },
+          { label: 'Modified', width: 0.13 },
+          { label: 'Renumbered', width: 0.16 },
+          { label: 'Change rate', width: 0.2 },
+        ],
+        rows: summaryRows,
+      },
+    ],
+    findings,
+    appendix: [
+      {
+        heading: 'Versions',
+        blocks: [
+          {
+            type: 'table',
+            columns: [{ label: 'Version', width: 0.15 }, { label: 'File', width: 0.6 }, { label: 'Date', width: 0.25 }],
+            rows: versions.map((v) => [
+              `v${v.version}`,
+              v.filename ?? '—',
+              v.date ?? (v.upload_date ? new Date(v.upload_date).toISOString().slice(0, 10) : '—'),
+            ]),
+          },
+        ],
+      },
+      {
+        heading: 'Method',
+        blocks: [
+          {
+            type: 'paragraph',
+            text: 'Sections of consecutive versions are aligned by section / article number, then by text similarity, so a ' +
+              'renumbered or moved section is reported as such rather than as a removal and an addition. Word-level changes ' +
+              'are listed for modified sections; excerpts are quoted from the stored text of each version.',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function buildReport(type: ReportType, data: any, generatedAt: Date): ReportDocument {
+  switch (type) {
+    case 'conflicts':
+      return buildConflictReport(data, generatedAt);
+    case 'gaps':
+      return buildGapReport(data, generatedAt);
+    case 'versions':
+      return buildVersionReport(data, generatedAt);
+  }
+}
+
+/** "19 October 2026" */
+export function formatReportDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
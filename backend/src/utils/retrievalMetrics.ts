@@ -0,0 +1,96 @@
+/**
+ * Ranking metrics for the retrieval evaluation harness (services/evaluationService).
+ *
+ * A golden question lists the sources a correct answer must come from. A retrieved chunk matches a source
+ * when it is from that document and, where the source names them, from that section and page.
+ */
+
+export interface ExpectedSource {
+  /** Document id (exact) or file name (case-insensitive, partial: "companies act" matches "Companies_Act_2017.pdf") */
+  document_id?: string;
+  document_name?: string;
+  /** e.g. "Art. 25" or "Section 302"; matched against the chunk's section path */
+  section?: string;
+  page?: number;
+}
+
+export interface RankedChunk {
+  document_id?: string | null;
+  document_name: string;
+  section_name?: string | null;
+  page_number?: number | null;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** "Art. 25" matches "Part II > Chapter 1 > Art. 25(2)" but not "Art. 250" */
+function sectionMatches(sectionName: string, expected: string): boolean {
+  const haystack = ` ${normalize(sectionName)} `;
+  const needle = normalize(expected);
+  return needle.length > 0 && haystack.includes(` ${needle} `);
+}
+
+export function matchesSource(chunk: RankedChunk, source: ExpectedSource): boolean {
+  if (source.document_id) {
+    if (chunk.document_id !== source.document_id) return false;
+  } else if (source.document_name) {
+    const expected = normalize(source.document_name);
+    if (!expected || !normalize(chunk.document_name).includes(expected)) return false;
+  }
+  if (source.section && !(chunk.section_name && sectionMatches(chunk.section_name, source.section))) return false;
+  if (source.page != null && chunk.page_number !== source.page) return false;
+  return true;
+}
+
+/** Whether a chunk matches any of the expected sources */
+export function isRelevant(chunk: RankedChunk, expected: ExpectedSource[]): boolean {
+  return expected.some((source) => matchesSource(chunk, source));
+}
+
+/** Share of expected sources matched by at least one of the top k chunks */
+export function recallAtK(ranked: RankedChunk[], expected: ExpectedSource[], k: number): number {
+  if (expected.length === 0) return 0;
+  const top = ranked.slice(0, k);
+  const found = expected.filter((source) => top.some((chunk) => matchesSource(chunk, source))).length;
+  return found / expected.length;
+}
+
+/** 1 / rank of the first relevant chunk (0 when none is retrieved) */
+export function reciprocalRank(ranked: RankedChunk[], expected: ExpectedSource[]): number {
+  const index = ranked.findIndex((chunk) => isRelevant(chunk, expected));
+  return index >= 0 ? 1 / (index + 1) : 0;
+}
+
+/**
+ * nDCG@k with binary gains. Only the first chunk matching each expected source earns a gain, so
+ * several chunks of the same section do not outscore retrieving every expected source.
+ */
+export function ndcgAtK(ranked: RankedChunk[], expected: ExpectedSource[], k: number): number {
+  if (expected.length === 0) return 0;
+  const credited = new Set<number>();
+  let dcg = 0;
+  ranked.slice(0, k).forEach((chunk, i) => {
+    const source = expected.findIndex((s, idx) => !credited.has(idx) && matchesSource(chunk, s));
+    if (source >= 0) {
+      credited.add(source);
+      dcg += 1 / Math.log2(i + 2);
+    }
+  });
+  let idcg = 0;
+  for (let i = 0; i < Math.min(expected.length, k); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+  return idcg > 0 ? dcg / idcg : 0;
+}
+
+/** Share of an answer's citations that point at an expected source (null when the answer cites nothing) */
+export function citationPrecision(cited: RankedChunk[], expected: ExpectedSource[]): number | null {
+  if (cited.length === 0) return null;
+  return cited.filter((chunk) => isRelevant(chunk, expected)).length / cited.length;
+}
+
+/** Mean of the defined values (null when there are none) */
+export function mean(values: Array<number | null | undefined>): number | null {
+  const defined = values.filter((v): v is number => typeof v === 'number' && !Number.isNaN(v));
+  return defined.length > 0 ? defined.reduce((sum, v) => sum + v, 0) / defined.length : null;
+}
@@ -0,0 +1,224 @@
+import { Disposition, DISPOSITIONS, JUDGMENT_CATEGORY_SQL_PATTERN } from './judgmentMetadata';
+
+/**
+ * Filters on judgment metadata (documents.metadata.judgment, extracted at ingestion), shared by retrieval and the
+ * document list. Apart from courts (also matched against the category), documents without judgment metadata never
+ * match them.
+ */
+export interface JudgmentFilters {
+  /** Only judgments: documents with judgment metadata or filed under a court / judgments category */
+  judgmentsOnly?: boolean;
+  /** Court names ("Supreme Court", "Lahore High Court"), matched against judgment metadata and category */
+  courts?: string[];
+  /** Judge names, matched against the bench */
+  judges?: string[];
+  /** Party names, matched against appellants and respondents */
+  parties?: string[];
+  dispositions?: Disposition[];
+  /** YYYY-MM-DD bounds on the date of decision */
+  decidedFrom?: string;
+  decidedTo?: string;
+}
+
+/**
+ * Structured filters for retrieval (QueryService.search / vectorSearch / BM25), set from the /query body
+ * (the chat filter bar) and from search_documents tool arguments.
+ */
+export interface SearchFilters extends JudgmentFilters {
+  categories?: string[];
+  /** Specific document versions (searched even when inactive) */
+  documentIds?: string[];
+  /** Document families; their active version unless version / asOfDate say otherwise */
+  familyIds?: string[];
+  /** Version number within each family instead of the active version */
+  version?: number;
+  /** YYYY-MM-DD: the version of each family that was in force on that date (see versionInForceSql) */
+  asOfDate?: string;
+  pageFrom?: number;
+  pageTo?: number;
+}
+
+const MAX_LIST = 50;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0).map((v) => v.trim());
+  return list.length > 0 ? list.slice(0, MAX_LIST) : undefined;
+}
+
+function isoDate(value: unknown): string | undefined {
+  return typeof value === 'string' && DATE_RE.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Keep only well-formed filter fields (input comes from request bodies and LLM tool arguments).
+ * Returns undefined when nothing is set.
+ */
+export function normalizeSearchFilters(raw: unknown): SearchFilters | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const input = raw as Record<string, unknown>;
+  const filters: SearchFilters = {
+    categories: stringList(input.categories),
+    documentIds: stringList(input.documentIds),
+    familyIds: stringList(input.familyIds),
+    version: positiveInt(input.version),
+    asOfDate: isoDate(input.asOfDate),
+    pageFrom: positiveInt(input.pageFrom),
+    pageTo: positiveInt(input.pageTo),
+    judgmentsOnly: input.judgmentsOnly === true ? true : undefined,
+    courts: stringList(input.courts),
+    judges: stringList(input.judges),
+    parties: stringList(input.parties),
+    dispositions: stringList(input.dispositions)?.filter((d): d is Disposition => DISPOSITIONS.includes(d as Disposition)),
+    decidedFrom: isoDate(input.decidedFrom),
+    decidedTo: isoDate(input.decidedTo),
+  };
+  if (filters.dispositions?.length === 0) filters.dispositions = undefined;
+  const defined = Object.fromEntries(Object.entries(filters).filter(([, v]) => v !== undefined)) as SearchFilters;
+  return Object.keys(defined).length > 0 ? defined : undefined;
+}
+
+/** Start of a version's effective window: its commencement date, or the upload date when none was recorded */
+const effectiveStart = (alias: string) => `COALESCE(${alias}.effective_from, ${alias}.upload_date::date)`;
+
+/**
+ * Columns in_force_from / in_force_to: the window in which `documents d` was in force, as YYYY-MM-DD strings.
+ * A window ends at the version's own effective_to (repeal) or when the next version of the family commences,
+ * whichever is earlier; in_force_to is NULL while the version is still in force.
+ */
+export const IN_FORCE_COLUMNS = `to_char(${effectiveStart('d')}, 'YYYY-MM-DD') AS in_force_from,
+  to_char(LEAST(d.effective_to, (
+    SELECT MIN(${effectiveStart('n')}) FROM documents n
+    WHERE n.family_id = d.family_id AND ${effectiveStart('n')} > ${effectiveStart('d')}
+  )), 'YYYY-MM-DD') AS in_force_to`;
+
+/**
+ * Condition selecting, per family, the version in force on a date (parameter placeholder): the latest version
+ * that had commenced by then, unless it was repealed (effective_to on or before the date).
+ */
+function versionInForceSql(date: string): string {
+  return `d.id IN (
+      SELECT DISTINCT ON (COALESCE(v.family_id, v.id)) v.id FROM documents v
+      WHERE v.admin_id = d.admin_id AND ${effectiveStart('v')} <= ${date}::date
+      ORDER BY COALESCE(v.family_id, v.id), ${effectiveStart('v')} DESC, v.version DESC
+    ) AND (d.effective_to IS NULL OR d.effective_to > ${date}::date)`;
+}
+
+function intersect(a?: string[], b?: string[]): string[] | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const lower = new Set(b.map((v) => v.toLowerCase()));
+  return a.filter((v) => lower.has(v.toLowerCase()));
+}
+
+/**
+ * Narrow a conversation scope (chat filter bar) with filters chosen by the agent for one search.
+ * Lists are intersected so a tool call cannot search outside the scope the user picked; scalar fields
+ * set by the user win.
+ */
+export function mergeSearchFilters(scope?: SearchFilters, extra?: SearchFilters): SearchFilters | undefined {
+  if (!scope) return extra;
+  if (!extra) return scope;
+  return {
+    categories: intersect(scope.categories, extra.categories),
+    documentIds: intersect(scope.documentIds, extra.documentIds),
+    familyIds: intersect(scope.familyIds, extra.familyIds),
+    version: scope.version ?? extra.version,
+    asOfDate: scope.asOfDate ?? extra.asOfDate,
+    pageFrom: scope.pageFrom ?? extra.pageFrom,
+    pageTo: scope.pageTo ?? extra.pageTo,
+    judgmentsOnly: scope.judgmentsOnly || extra.judgmentsOnly || undefined,
+    courts: intersect(scope.courts, extra.courts),
+    judges: intersect(scope.judges, extra.judges),
+    parties: intersect(scope.parties, extra.parties),
+    dispositions: intersect(scope.dispositions, extra.dispositions) as Disposition[] | undefined,
+    decidedFrom: scope.decidedFrom ?? extra.decidedFrom,
+    decidedTo: scope.decidedTo ?? extra.decidedTo,
+  };
+}
+
+/**
+ * SQL conditions for the filters on `documents d` / `chunks c`. Parameters are appended to `params`.
+ * Without a version, date or explicit document selection only active versions are searched.
+ */
+export function buildFilterSql(filters: SearchFilters | undefined, params: any[]): string {
+  const conditions: string[] = [];
+  const add = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters?.version != null) {
+    conditions.push(`d.version = ${add(filters.version)}`);
+  } else if (filters?.asOfDate) {
+    conditions.push(versionInForceSql(add(filters.asOfDate)));
+  } else if (!filters?.documentIds?.length) {
+    conditions.push('d.is_active = true');
+  }
+
+  if (filters?.categories) conditions.push(`d.category = ANY(${add(filters.categories)}::varchar[])`);
+  if (filters?.documentIds) conditions.push(`d.id = ANY(${add(filters.documentIds)}::varchar[])`);
+  if (filters?.familyIds) conditions.push(`d.family_id = ANY(${add(filters.familyIds)}::varchar[])`);
+  if (filters?.pageFrom != null) conditions.push(`c.page_number >= ${add(filters.pageFrom)}`);
+  if (filters?.pageTo != null) conditions.push(`c.page_number <= ${add(filters.pageTo)}`);
+  conditions.push(...judgmentFilterConditions(filters, add));
+
+  return conditions.join(' AND ');
+}
+
+/** "%value%" patterns for ILIKE, with LIKE wildcards in the value escaped */
+const likePatterns = (values: string[]) => values.map((value) => `%${value.replace(/[%_\\]/g, '\\$&')}%`);
+
+/**
+ * SQL conditions for judgment metadata filters on `documents d`; `add` appends a parameter and returns its placeholder
+ */
+export function judgmentFilterConditions(filters: JudgmentFilters | undefined, add: (value: any) => string): string[] {
+  const conditions: string[] = [];
+  const judgment = `d.metadata->'judgment'`;
+  const anyElement = (path: string, patterns: string) =>
+    `EXISTS (SELECT 1 FROM jsonb_array_elements_text(COALESCE(${path}, '[]'::jsonb)) AS e(value) WHERE e.value ILIKE ANY(${patterns}))`;
+
+  if (filters?.judgmentsOnly) {
+    conditions.push(`(d.metadata ? 'judgment' OR d.category ~* ${add(JUDGMENT_CATEGORY_SQL_PATTERN)})`);
+  }
+  if (filters?.courts) {
+    const patterns = add(likePatterns(filters.courts));
+    conditions.push(`(${judgment}->>'court' ILIKE ANY(${patterns}) OR d.category ILIKE ANY(${patterns}))`);
+  }
+  if (filters?.judges) conditions.push(anyElement(`${judgment}->'bench'`, add(likePatterns(filters.judges))));
+  if (filters?.parties) {
+    const patterns = add(likePatterns(filters.parties));
+    conditions.push(`(${anyElement(`${judgment}->'parties'->'appellants'`, patterns)} OR ${anyElement(`${judgment}->'parties'->'respondents'`, patterns)})`);
+  }
+  if (filters?.dispositions) conditions.push(`${judgment}->>'disposition' = ANY(${add(filters.dispositions)}::text[])`);
+  // ISO dates compare correctly as text
+  if (filters?.decidedFrom) conditions.push(`${judgment}->>'decisionDate' >= ${add(filters.decidedFrom)}`);
+  if (filters?.decidedTo) conditions.push(`${judgment}->>'decisionDate' <= ${add(filters.decidedTo)}`);
+  return conditions;
+}
+
+/** Short human-readable description of active filters (for logs and "nothing found" answers) */
+export function describeSearchFilters(filters?: SearchFilters): string {
+  if (!filters) return '';
+  const parts: string[] = [];
+  if (filters.categories) parts.push(`categories: ${filters.categories.join(', ')}`);
+  if (filters.familyIds || filters.documentIds) {
+    parts.push(`${(filters.familyIds?.length ?? 0) + (filters.documentIds?.length ?? 0)} selected document(s)`);
+  }
+  if (filters.version != null) parts.push(`version ${filters.version}`);
+  if (filters.asOfDate) parts.push(`as of ${filters.asOfDate}`);
+  if (filters.pageFrom != null || filters.pageTo != null) parts.push(`pages ${filters.pageFrom ?? 1}-${filters.pageTo ?? '…'}`);
+  if (filters.judgmentsOnly) parts.push('judgments only');
+  if (filters.courts) parts.push(`courts: ${filters.courts.join(', ')}`);
+  if (filters.judges) parts.push(`judges: ${filters.judges.join(', ')}`);
+  if (filters.parties) parts.push(`parties: ${filters.parties.join(', ')}`);
+  if (filters.dispositions) parts.push(`outcome: ${filters.dispositions.join(', ').replace(/_/g, ' ')}`);
+  if (filters.decidedFrom || filters.decidedTo) parts.push(`decided ${filters.decidedFrom ?? '…'} to ${filters.decidedTo ?? '…'}`);
+  return parts.join('; ');
+}
@@ -0,0 +1,382 @@
+import type { ChunkWithMetadata } from './documentParser';
+
+/**
+ * Deterministic structural chunking for statutes and the Constitution.
+ *
+ * Recognises PART / CHAPTER / SCHEDULE headings, numbered sections or articles ("25.", "302-A.", "Article 25."),
+ * sub-sections "(1)", clauses "(a)", sub-clauses "(i)", provisos ("Provided that") and Explanations,
+ * plus their Urdu forms (حصہ, باب, "دفعہ 302۔", "(الف)", "مگر شرط", "تشریح").
+ * A section is kept whole when it fits; otherwise it is split at sub-section (then clause) boundaries and every
+ * piece repeats the section heading, so a heading never ends up separated from its sub-clauses.
+ * Each chunk carries its hierarchical path, e.g. "Part II > Chapter 1 > Art. 25(2)".
+ */
+
+export interface StatutePage {
+  page: number;
+  text: string;
+}
+
+export interface StatuteChunkOptions {
+  maxChunkSize: number;
+  chunkOverlap: number;
+}
+
+export type MarkerKind = 'number' | 'letter' | 'roman';
+
+interface Line {
+  text: string;
+  page: number;
+}
+
+interface Block {
+  /** e.g. "(2)"; undefined for a proviso or Explanation following nested clauses */
+  marker?: string;
+  lines: Line[];
+  children: Block[];
+}
+
+interface TextSection {
+  path: string[];
+  /** Division heading lines ("PART II", "FUNDAMENTAL RIGHTS ..."), repeated on each piece */
+  heading: string[];
+  lines: Line[];
+}
+
+interface Unit {
+  ref: string;           // "Art. 25", "S. 302-A"
+  heading: Line;
+  path: string[];        // enclosing Part / Chapter / Schedule labels
+  intro: Line[];         // text before the first marker
+  blocks: Block[];       // top-level marker blocks (usually sub-sections)
+}
+
+const PART_RE = /^(?:PART|Part|حصہ)\s+([IVXLC]+|\d{1,2})\b(?!\s+of\b)\s*[.:\-–—]?\s*(.*)$/;
+const CHAPTER_RE = /^(?:CHAPTER|Chapter|باب)\s+([IVXLC]+|\d{1,2}[A-Z]?)\b(?!\s+of\b)\s*[.:\-–—]?\s*(.*)$/;
+const SCHEDULE_RE = /^((?:THE\s+)?(?:[A-Z]+\s+)?SCHEDULE)\b\s*[.:\-–—]?\s*(.*)$/;
+export const UNIT_RE = /^(?:(?:Section|Sec\.|Article|Art\.|دفعہ|آرٹیکل)\s+)?(\d{1,4})(?:-?([A-Z]{1,2}))?[.۔]\s*(.*)$/;
+export const MARKER_RE = /^\((\d{1,3}[A-Z]?|[a-z]{1,4}|[\u0621-\u06FF]{1,3})\)\s*/;
+/** "Equality of citizens.—", "Definitions.- In this Act,", "قتل عمد کی سزا۔—" */
+const MARGINAL_NOTE_RE = /^[^—–]{2,250}?[.:,۔،]\s*(?:[—–]|-\s|-$)/;
+export const PROVISO_RE = /^(?:Provided\s+(?:further|also|however)?\s*that\b|مگر\s+شرط)/i;
+export const EXPLANATION_RE = /^(?:Explanation(?:\s*[IVX\d]+)?\s*[.:\-–—]|تشریح)/;
+
+/** Units accepted before structure counts as detected */
+const MIN_UNITS_WITH_DIVISIONS = 3;
+const MIN_UNITS_WITHOUT_DIVISIONS = 5;
+
+/** Largest forward jump in section numbering treated as the next section without a marginal note (omitted sections leave gaps) */
+const MAX_UNIT_GAP = 15;
+
+/**
+ * Put sub-section / clause markers, provisos and Explanations that PDF extraction ran into one line on lines of their own.
+ * "25. Equality of citizens.—(1) All citizens ..." → "25. Equality of citizens.—" / "(1) All citizens ..."
+ */
+export function splitInlineMarkers(line: string): string[] {
+  return line
+    .replace(/([.:;,—–۔،؛]\s*[—–-]*\s*|;\s*(?:and|or)\s+)(?=\((?:\d{1,3}[A-Z]?|[a-z]{1,4}|[\u0621-\u06FF]{1,3})\)\s)/g, '$1\n')
+    .replace(/\s+(?=Provided\s+(?:further\s+|also\s+|however\s+)?that\b|مگر\s+شرط)/g, '\n')
+    .replace(/\s+(?=Explanation(?:\s*[IVX\d]+)?\s*[.:—–-]|تشریح)/g, '\n')
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+export function markerKind(marker: string, previousLetter?: string): MarkerKind {
+  if (/^\d/.test(marker)) return 'number';
+  if (/^[ivxlc]+$/.test(marker)) {
+    // "(i)" after "(h)" (or "(v)" after "(u)") is a clause letter, not a roman sub-clause
+    const followsLetter = marker.length === 1 && previousLetter && marker.charCodeAt(0) === previousLetter.charCodeAt(0) + 1;
+    return followsLetter ? 'letter' : 'roman';
+  }
+  return 'letter';
+}
+
+function blockText(block: Block): string[] {
+  return [...block.lines.map((l) => l.text), ...block.children.flatMap(blockText)];
+}
+
+function firstPage(block: Block): number | undefined {
+  return block.lines[0]?.page ?? block.children.map(firstPage).find((p) => p !== undefined);
+}
+
+function markerRange(blocks: Block[]): string {
+  const markers = blocks.map((b) => b.marker).filter((m): m is string => !!m);
+  if (markers.length === 0) return '';
+  return markers.length === 1 ? markers[0] : `${markers[0]}-${markers[markers.length - 1]}`;
+}
+
+export class StatuteChunker {
+  constructor(private options: StatuteChunkOptions) {}
+
+  /**
+   * Chunk a statute by its structure. Returns null when no statutory structure is detected,
+   * so the caller can fall back to LLM-based section detection.
+   */
+  chunk(pages: StatutePage[]): ChunkWithMetadata[] | null {
+    const lines: Line[] = pages.flatMap(({ page, text }) =>
+      text.split(/\n+/).flatMap((raw) => splitInlineMarkers(raw.trim())).map((t) => ({ text: t, page }))
+    );
+
+    const unitPrefix = this.detectUnitPrefix(lines);
+    // Document order: text outside any numbered provision (preamble, division intros) and the provisions themselves
+    const sections: Array<{ text: TextSection } | { unit: Unit }> = [];
+    let textSection: TextSection = { path: ['Preamble'], heading: [], lines: [] };
+    sections.push({ text: textSection });
+
+    let part: string | undefined;
+    let chapter: string | undefined;
+    let schedule: string | undefined;
+    let divisionCount = 0;
+    let unitCount = 0;
+    let markedUnitCount = 0;
+    let lastNumber: number | null = null;
+    let lastSuffix = '';
+    let current: Unit | null = null;
+
+    // Open marker blocks of the current provision, outermost first, with the marker kind of each depth
+    let stack: Block[] = [];
+    let kinds: MarkerKind[] = [];
+    let openLeaf: Block | null = null;
+    let lastLetter: string | undefined;
+
+    const currentPath = () => [part, chapter, schedule].filter((p): p is string => !!p);
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const division = this.matchDivision(line.text);
+      if (division) {
+        divisionCount++;
+        const heading = [line.text];
+        // A bare "PART II" is usually followed by its title on the next line
+        const next = lines[i + 1];
+        if (!division.title && next && next.text.length <= 80 && !UNIT_RE.test(next.text) && !this.matchDivision(next.text) && !MARKER_RE.test(next.text)) {
+          heading.push(next.text);
+          i++;
+        }
+        if (division.kind === 'part') {
+          part = division.label;
+          chapter = undefined;
+          schedule = undefined;
+        } else if (division.kind === 'chapter') {
+          chapter = division.label;
+          schedule = undefined;
+        } else {
+          part = undefined;
+          chapter = undefined;
+          schedule = division.label;
+        }
+        current = null;
+        textSection = { path: currentPath(), heading, lines: [] };
+        sections.push({ text: textSection });
+        continue;
+      }
+
+      const unitMatch = schedule ? null : UNIT_RE.exec(line.text);
+      if (unitMatch) {
+        const num = parseInt(unitMatch[1], 10);
+        const suffix = unitMatch[2] ?? '';
+        // A marginal note ("Equality of citizens.—") or an opening "(1)" marks a provision even after a large gap (extracts)
+        const headingLike = MARGINAL_NOTE_RE.test(unitMatch[3]) || /^\(1\)/.test(lines[i + 1]?.text ?? '');
+        const isNext = lastNumber === null
+          ? num <= 3 || headingLike
+          : (num > lastNumber && (num <= lastNumber + MAX_UNIT_GAP || headingLike)) || (num === lastNumber && suffix > lastSuffix);
+        if (isNext) {
+          lastNumber = num;
+          lastSuffix = suffix;
+          current = {
+            ref: `${unitPrefix} ${num}${suffix ? `-${suffix}` : ''}`,
+            heading: line,
+            path: currentPath(),
+            intro: [],
+            blocks: [],
+          };
+          sections.push({ unit: current });
+          unitCount++;
+          if (headingLike) markedUnitCount++;
+          stack = [];
+          kinds = [];
+          openLeaf = null;
+          lastLetter = undefined;
+          continue;
+        }
+      }
+
+      if (!current) {
+        textSection.lines.push(line);
+        continue;
+      }
+
+      const marker = MARKER_RE.exec(line.text)?.[1];
+      if (marker) {
+        const kind = markerKind(marker, lastLetter);
+        if (kind === 'letter') lastLetter = marker;
+        const block: Block = { marker: `(${marker})`, lines: [line], children: [] };
+        const depth = kinds.indexOf(kind);
+        if (depth >= 0) {
+          // Sibling of an open block: close everything nested below it
+          stack = stack.slice(0, depth);
+          kinds = kinds.slice(0, depth);
+        }
+        (stack.length > 0 ? stack[stack.length - 1].children : current.blocks).push(block);
+        stack.push(block);
+        kinds.push(kind);
+        openLeaf = block;
+        continue;
+      }
+
+      if (stack.length === 0) {
+        current.intro.push(line);
+      } else if (PROVISO_RE.test(line.text) || EXPLANATION_RE.test(line.text)) {
+        // Provisos and Explanations qualify the whole top-level block (usually the sub-section)
+        const top = stack[0];
+        const block: Block = { lines: [line], children: [] };
+        if (top.children.length > 0) {
+          top.children.push(block);
+          openLeaf = block;
+        } else {
+          top.lines.push(line);
+          openLeaf = top;
+        }
+        stack = [top];
+        kinds = kinds.slice(0, 1);
+      } else {
+        (openLeaf ?? stack[stack.length - 1]).lines.push(line);
+      }
+    }
+
+    // Without Parts/Chapters, numbered paragraphs only count as statutory when they carry marginal notes or sub-sections
+    const detected = divisionCount > 0
+      ? unitCount >= MIN_UNITS_WITH_DIVISIONS
+      : unitCount >= MIN_UNITS_WITHOUT_DIVISIONS && markedUnitCount >= MIN_UNITS_WITH_DIVISIONS;
+    if (!detected) return null;
+
+    const chunks: ChunkWithMetadata[] = [];
+    for (const section of sections) {
+      if ('unit' in section) {
+        chunks.push(...this.chunkUnit(section.unit));
+      } else if (section.text.lines.length > 0) {
+        const { path, heading, lines: body } = section.text;
+        chunks.push(...this.splitText(path.length ? path : ['Preamble'], heading, body.map((l) => l.text), body[0].page));
+      }
+    }
+    return chunks;
+  }
+
+  /** Constitution articles are cited as "Art.", statute sections as "S." */
+  private detectUnitPrefix(lines: Line[]): string {
+    const head = lines.slice(0, 60).map((l) => l.text).join(' ');
+    const articleLines = lines.filter((l) => /^Article\s+\d/.test(l.text)).length;
+    const sectionLines = lines.filter((l) => /^Section\s+\d/.test(l.text)).length;
+    return /\bConstitution\b/i.test(head) || articleLines > sectionLines ? 'Art.' : 'S.';
+  }
+
+  private matchDivision(text: string): { kind: 'part' | 'chapter' | 'schedule'; label: string; title: string } | null {
+    let m = PART_RE.exec(text);
+    if (m) return { kind: 'part', label: `Part ${m[1]}`, title: m[2].trim() };
+    m = CHAPTER_RE.exec(text);
+    if (m) return { kind: 'chapter', label: `Chapter ${m[1]}`, title: m[2].trim() };
+    m = SCHEDULE_RE.exec(text);
+    if (m) {
+      const label = m[1].replace(/^THE\s+/, '').toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+      return { kind: 'schedule', label, title: m[2].trim() };
+    }
+    return null;
+  }
+
+  private makeChunk(path: string[], content: string, page?: number): ChunkWithMetadata {
+    const hierarchyPath = path.join(' > ');
+    return {
+      content,
+      section_name: hierarchyPath.length > 255 ? `…${hierarchyPath.slice(-254)}` : hierarchyPath,
+      page_number: page,
+      hierarchy: path,
+    };
+  }
+
+  /**
+   * Whole unit when it fits; otherwise pack top-level blocks (sub-sections) into chunks,
+   * splitting an oversized block at its children (clauses), then by words.
+   */
+  private chunkUnit(unit: Unit): ChunkWithMetadata[] {
+    const heading = unit.heading.text;
+    const page = unit.heading.page;
+    const all = [heading, ...unit.intro.map((l) => l.text), ...unit.blocks.flatMap(blockText)].join('\n');
+    if (all.length <= this.options.maxChunkSize) {
+      return [this.makeChunk([...unit.path, unit.ref], all, page)];
+    }
+
+    const chunks: ChunkWithMetadata[] = [];
+    const introText = unit.intro.map((l) => l.text);
+    if (introText.length > 0 && unit.blocks.length === 0) {
+      return this.splitText([...unit.path, unit.ref], [heading], introText, page);
+    }
+    if (introText.length > 0) {
+      chunks.push(...this.splitText([...unit.path, unit.ref], [heading], introText, page));
+    }
+
+    chunks.push(...this.packBlocks(unit.path, unit.ref, heading, unit.blocks));
+    return chunks;
+  }
+
+  /** Greedily pack sibling blocks into chunks that each start with the unit heading (and parent marker line) */
+  private packBlocks(path: string[], ref: string, heading: string, blocks: Block[], parentLine?: string): ChunkWithMetadata[] {
+    const chunks: ChunkWithMetadata[] = [];
+    const prefix = parentLine ? [heading, parentLine] : [heading];
+    const prefixLength = prefix.join('\n').length;
+    let group: Block[] = [];
+    let groupLength = prefixLength;
+
+    const flush = () => {
+      if (group.length === 0) return;
+      const content = [...prefix, ...group.flatMap(blockText)].join('\n');
+      chunks.push(this.makeChunk([...path, `${ref}${markerRange(group)}`], content, firstPage(group[0])));
+      group = [];
+      groupLength = prefixLength;
+    };
+
+    for (const block of blocks) {
+      const text = blockText(block).join('\n');
+      if (prefixLength + text.length + 1 > this.options.maxChunkSize) {
+        flush();
+        const blockRef = `${ref}${block.marker ?? ''}`;
+        if (block.children.length > 0) {
+          const [ownFirst, ...ownRest] = block.lines.map((l) => l.text);
+          if (ownRest.length > 0) {
+            chunks.push(...this.splitText([...path, blockRef], [...prefix, ownFirst], ownRest, firstPage(block)));
+          }
+          chunks.push(...this.packBlocks(path, blockRef, heading, block.children, [...parentLine ? [parentLine] : [], ownFirst].join('\n')));
+        } else {
+          chunks.push(...this.splitText([...path, blockRef], prefix, block.lines.map((l) => l.text), firstPage(block)));
+        }
+        continue;
+      }
+      if (groupLength + text.length + 1 > this.options.maxChunkSize) flush();
+      group.push(block);
+      groupLength += text.length + 1;
+    }
+    flush();
+    return chunks;
+  }
+
+  /** Word-based split with overlap for text that has no further structure; every piece keeps the prefix lines */
+  private splitText(path: string[], prefix: string[], lines: string[], page?: number): ChunkWithMetadata[] {
+    const prefixText = prefix.join('\n');
+    const budget = Math.max(this.options.maxChunkSize - prefixText.length, 200);
+    const body = lines.join('\n');
+    if (body.length <= budget) {
+      return [this.makeChunk(path, prefixText ? `${prefixText}\n${body}` : body, page)];
+    }
+
+    const words = body.split(/\s+/);
+    const wordsPerChunk = Math.max(Math.floor(budget / 6), 20);
+    const overlapWords = Math.floor(this.options.chunkOverlap / 6);
+    const chunks: ChunkWithMetadata[] = [];
+    for (let i = 0; i < words.length; i += wordsPerChunk - overlapWords) {
+      const piece = words.slice(i, i + wordsPerChunk).join(' ');
+      chunks.push(this.makeChunk(path, prefixText ? `${prefixText}\n${piece}` : piece, page));
+      if (i + wordsPerChunk >= words.length) break;
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,414 @@
+import { StoredChunk, buildProvisions, chunkUnitRef, provisionLines, unitKey, unitRef } from './provisionTree';
+import { UNIT_RE } from './statuteChunker';
+
+/**
+ * Clause-aligned comparison of two versions of a document.
+ *
+ * Sections are aligned by identifier first (statute sections / articles rebuilt from the structural chunks,
+ * otherwise section names), then by text similarity for what is left, so an inserted section no longer shifts
+ * every later one. A text match under a different number is reported as renumbered (and as unchanged when only
+ * the number in its heading differs); matches whose relative
+ * order changed are reported as moved. Changed sections carry a side-by-side redline: rows of old / new line
+ * segments with word-level insertions and deletions.
+ */
+
+export interface DiffChunk extends StoredChunk {
+  chunk_index: number;
+  section_name?: string | null;
+}
+
+export interface RedlineSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** One row of the side-by-side view: old segments (equal / delete) on the left, new (equal / insert) on the right */
+export interface RedlineRow {
+  type: 'equal' | 'modified' | 'added' | 'removed';
+  old: RedlineSegment[] | null;
+  new: RedlineSegment[] | null;
+}
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionChange {
+  change_type: SectionChangeType;
+  /** "S. 5" / "Art. 25" for statutes, the section name otherwise */
+  old_ref: string | null;
+  new_ref: string | null;
+  /** Enclosing Part / Chapter of the section (new version's when matched) */
+  path: string[];
+  old_page: number | null;
+  new_page: number | null;
+  old_content?: string;
+  new_content?: string;
+  similarity_score?: number;
+  /** How the two versions of the section were paired */
+  matched_by: 'ref' | 'text' | null;
+  /** Matched by text under a different section number */
+  renumbered: boolean;
+  /** Its position relative to the other matched sections changed */
+  moved: boolean;
+  /** Side-by-side redline (modified sections only) */
+  redline?: RedlineRow[];
+}
+
+export interface StructuralDiff {
+  /** 'structural' when both versions have numbered sections / articles */
+  alignment: 'structural' | 'text';
+  changes: SectionChange[];
+}
+
+interface Section {
+  ref: string | null;
+  key: string | null;
+  path: string[];
+  page: number | null;
+  text: string;
+  /** Text without the section / article number in its heading: what is compared between versions */
+  body: string;
+  tokens: Set<string>;
+}
+
+/** Same identifier: still paired when the texts share this much (else the text match may be better) */
+const REF_MATCH_MIN = 0.3;
+/** Different identifiers: paired only when the texts are this similar */
+const TEXT_MATCH_MIN = 0.6;
+/** Lines of a changed block are redlined against each other above this similarity, else shown as removed + added */
+const LINE_PAIR_MIN = 0.3;
+/** LCS table size limit; larger inputs are shown as a whole deletion + insertion */
+const MAX_LCS_CELLS = 4_000_000;
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+const TOKEN_RE = /\s+|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+const wordSet = (text: string) => new Set((text.toLowerCase().match(WORD_RE) ?? []));
+
+/** Jaccard similarity of two word sets */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const word of small) if (large.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Sections of a version in document order: statute provisions (split chunks merged back) and, for other text,
+ * consecutive chunks sharing a section name. Chunks without a section name have no identifier.
+ */
+function sectionsOf(chunks: DiffChunk[]): { sections: Section[]; structural: boolean } {
+  const provisions = new Map(buildProvisions(chunks).map((p) => [unitKey(unitRef(p)), p]));
+  const sections: Section[] = [];
+  const seenKeys = new Map<string, number>();
+  let previousName: string | null | undefined;
+
+  for (const chunk of chunks) {
+    const unit = chunkUnitRef(chunk.hierarchy);
+    if (unit) {
+      const key = unitKey(unit);
+      const provision = provisions.get(key);
+      previousName = undefined;
+      if (!provision) continue;
+      provisions.delete(key);
+      const [heading, ...lines] = provisionLines(provision);
+      const text = [heading, ...lines].join('\n');
+      const body = [UNIT_RE.exec(heading)?.[3] ?? heading, ...lines].join('\n');
+      sections.push({ ref: unitRef(provision), key, path: provision.path, page: provision.page, text, body, tokens: wordSet(body) });
+      continue;
+    }
+
+    const name = chunk.section_name?.trim() || null;
+    const last = sections[sections.length - 1];
+    if (name && name === previousName && last) {
+      last.text = `${last.text}\n${chunk.content}`;
+      last.body = last.text;
+      last.tokens = wordSet(last.text);
+      continue;
+    }
+    previousName = name;
+    // A name used again later in the document gets an occurrence suffix so identifiers stay unique
+    let key = name?.toLowerCase() ?? null;
+    if (key) {
+      const occurrence = (seenKeys.get(key) ?? 0) + 1;
+      seenKeys.set(key, occurrence);
+      if (occurrence > 1) key = `${key} (${occurrence})`;
+    }
+    sections.push({ ref: name, key, path: [], page: chunk.page_number ?? null, text: chunk.content, body: chunk.content, tokens: wordSet(chunk.content) });
+  }
+  return { sections, structural: sections.some((s) => s.ref !== null && /^(?:S\.|Art\.) /.test(s.ref)) };
+}
+
+/** Longest common subsequence alignment as equal / delete / insert operations */
+function lcs<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<{ type: RedlineSegment['type']; a?: T; b?: T }> {
+  let start = 0;
+  while (start < a.length && start < b.length && equal(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equal(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((x, i) => ({ type: 'equal' as const, a: x, b: b[i] }));
+  const suffix = a.slice(endA).map((x, i) => ({ type: 'equal' as const, a: x, b: b[endB + i] }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((x) => ({ type: 'delete' as const, a: x })),
+      ...midB.map((y) => ({ type: 'insert' as const, b: y })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = equal(midA[i], midB[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: RedlineSegment['type']; a?: T; b?: T }> = [...prefix];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equal(midA[i], midB[j])) {
+      ops.push({ type: 'equal', a: midA[i++], b: midB[j++] });
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'delete', a: midA[i++] });
+    } else {
+      ops.push({ type: 'insert', b: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', a: midA[i++] });
+  while (j < m) ops.push({ type: 'insert', b: midB[j++] });
+  return [...ops, ...suffix];
+}
+
+/** Consecutive segments of one type merged */
+function pushSegment(segments: RedlineSegment[], type: RedlineSegment['type'], text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+}
+
+/** Word-level diff of two lines: segments for the old side and for the new side */
+function diffWords(oldLine: string, newLine: string): { old: RedlineSegment[]; new: RedlineSegment[] } {
+  const ops = lcs(oldLine.match(TOKEN_RE) ?? [], newLine.match(TOKEN_RE) ?? [], (x, y) => x === y);
+  const oldSegments: RedlineSegment[] = [];
+  const newSegments: RedlineSegment[] = [];
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      pushSegment(oldSegments, 'equal', op.a!);
+      pushSegment(newSegments, 'equal', op.b!);
+    } else if (op.type === 'delete') {
+      pushSegment(oldSegments, 'delete', op.a!);
+    } else {
+      pushSegment(newSegments, 'insert', op.b!);
+    }
+  }
+  return { old: oldSegments, new: newSegments };
+}
+
+/**
+ * Side-by-side redline of two texts: lines aligned by LCS; within a changed block, similar old and new lines
+ * are paired and diffed word by word, the rest are shown as removed / added rows.
+ */
+export function redline(oldText: string, newText: string): RedlineRow[] {
+  const oldLines = oldText.split('\n').filter((l) => l.trim());
+  const newLines = newText.split('\n').filter((l) => l.trim());
+  const rows: RedlineRow[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  const flush = () => {
+    let j = 0;
+    for (const oldLine of deleted) {
+      const pairAt = inserted.findIndex((line, k) => k >= j && similarity(wordSet(oldLine), wordSet(line)) >= LINE_PAIR_MIN);
+      if (pairAt < 0) {
+        rows.push({ type: 'removed', old: [{ type: 'delete', text: oldLine }], new: null });
+        continue;
+      }
+      for (; j < pairAt; j++) rows.push({ type: 'added', old: null, new: [{ type: 'insert', text: inserted[j] }] });
+      rows.push({ type: 'modified', ...diffWords(oldLine, inserted[j]) });
+      j++;
+    }
+    for (; j < inserted.length; j++) rows.push({ type: 'added', old: null, new: [{ type: 'insert', text: inserted[j] }] });
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of lcs(oldLines, newLines, (x, y) => normalize(x) === normalize(y))) {
+    if (op.type === 'delete') deleted.push(op.a!);
+    else if (op.type === 'insert') inserted.push(op.b!);
+    else {
+      flush();
+      rows.push({ type: 'equal', old: [{ type: 'equal', text: op.a! }], new: [{ type: 'equal', text: op.b! }] });
+    }
+  }
+  flush();
+  return rows;
+}
+
+/**
+ * Short description of a redline's word changes for chat output:
+ * "thirty days" → "sixty days"; + "or both"; − "with fine"
+ */
+export function describeRedline(rows: RedlineRow[], maxItems: number = 5): string[] {
+  const items: string[] = [];
+  for (const row of rows) {
+    if (row.type === 'added') items.push(`+ "${normalize(row.new![0].text)}"`);
+    else if (row.type === 'removed') items.push(`− "${normalize(row.old![0].text)}"`);
+    else if (row.type === 'modified') {
+      const removed = normalize(row.old!.filter((s) => s.type === 'delete').map((s) => s.text).join(' … '));
+      const added = normalize(row.new!.filter((s) => s.type === 'insert').map((s) => s.text).join(' … '));
+      if (removed && added) items.push(`"${removed}" → "${added}"`);
+      else if (added) items.push(`+ "${added}"`);
+      else if (removed) items.push(`− "${removed}"`);
+    }
+    if (items.length >= maxItems) break;
+  }
+  return items.map((item) => (item.length > 200 ? `${item.slice(0, 197)}…` : item));
+}
+
+/** Indices (into pairs) of the longest run of pairs whose new positions increase with their old positions */
+function inOrderPairs(newPositions: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(newPositions.length).fill(-1);
+  for (let i = 0; i < newPositions.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (newPositions[tails[mid]] < newPositions[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const keep = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) keep.add(i);
+  return keep;
+}
+
+/** Align the sections of two versions and describe each change */
+export function diffVersions(oldChunks: DiffChunk[], newChunks: DiffChunk[]): StructuralDiff {
+  const { sections: olds, structural: oldStructural } = sectionsOf(oldChunks);
+  const { sections: news, structural: newStructural } = sectionsOf(newChunks);
+
+  const matchOfOld = new Array<number>(olds.length).fill(-1);
+  const matchOfNew = new Array<number>(news.length).fill(-1);
+  const matchedBy = new Array<'ref' | 'text' | null>(olds.length).fill(null);
+  const pair = (i: number, j: number, by: 'ref' | 'text') => {
+    matchOfOld[i] = j;
+    matchOfNew[j] = i;
+    matchedBy[i] = by;
+  };
+  const newByKey = new Map<string, number>();
+  news.forEach((s, j) => s.key && newByKey.set(s.key, j));
+
+  // 1. Same identifier, and the text is still recognisably the same provision
+  olds.forEach((s, i) => {
+    const j = s.key ? newByKey.get(s.key) : undefined;
+    if (j !== undefined && similarity(s.tokens, news[j].tokens) >= REF_MATCH_MIN) pair(i, j, 'ref');
+  });
+
+  // 2. Text similarity among the rest, best pairs first (renumbered / moved / re-titled sections)
+  const candidates: Array<[number, number, number]> = [];
+  olds.forEach((s, i) => {
+    if (matchOfOld[i] >= 0) return;
+    news.forEach((t, j) => {
+      if (matchOfNew[j] >= 0) return;
+      const score = similarity(s.tokens, t.tokens);
+      if (score >= TEXT_MATCH_MIN) candidates.push([i, j, score]);
+    });
+  });
+  candidates.sort((x, y) => y[2] - x[2]);
+  for (const [i, j] of candidates) {
+    if (matchOfOld[i] < 0 && matchOfNew[j] < 0) pair(i, j, 'text');
+  }
+
+  // 3. Same identifier left on both sides: the section was rewritten
+  olds.forEach((s, i) => {
+    const j = s.key ? newByKey.get(s.key) : undefined;
+    if (matchOfOld[i] < 0 && j !== undefined && matchOfNew[j] < 0) pair(i, j, 'ref');
+  });
+
+  const matchedOld = olds.map((_, i) => i).filter((i) => matchOfOld[i] >= 0);
+  const inOrder = inOrderPairs(matchedOld.map((i) => matchOfOld[i]));
+  const moved = new Set(matchedOld.filter((_, k) => !inOrder.has(k)));
+
+  const removedChange = (s: Section): SectionChange => ({
+    change_type: 'removed',
+    old_ref: s.ref,
+    new_ref: null,
+    path: s.path,
+    old_page: s.page,
+    new_page: null,
+    old_content: s.text,
+    matched_by: null,
+    renumbered: false,
+    moved: false,
+  });
+
+  // Document order of the new version; removed sections appear where they stood in the old one
+  const changes: SectionChange[] = [];
+  let nextOld = 0;
+  const emitRemovedBefore = (limit: number) => {
+    for (; nextOld < limit; nextOld++) {
+      if (matchOfOld[nextOld] < 0) changes.push(removedChange(olds[nextOld]));
+    }
+  };
+
+  news.forEach((t, j) => {
+    const i = matchOfNew[j];
+    if (i < 0) {
+      changes.push({
+        change_type: 'added',
+        old_ref: null,
+        new_ref: t.ref,
+        path: t.path,
+        old_page: null,
+        new_page: t.page,
+        new_content: t.text,
+        matched_by: null,
+        renumbered: false,
+        moved: false,
+      });
+      return;
+    }
+    if (!moved.has(i)) emitRemovedBefore(i);
+
+    const s = olds[i];
+    const unchanged = normalize(s.body) === normalize(t.body);
+    const renumbered = matchedBy[i] === 'text' && s.key !== null && t.key !== null && s.key !== t.key;
+    changes.push({
+      change_type: unchanged ? 'unchanged' : 'modified',
+      old_ref: s.ref,
+      new_ref: t.ref,
+      path: t.path,
+      old_page: s.page,
+      new_page: t.page,
+      old_content: s.text,
+      new_content: t.text,
+      similarity_score: unchanged ? 1 : similarity(s.tokens, t.tokens),
+      matched_by: matchedBy[i],
+      renumbered,
+      moved: moved.has(i),
+      redline: unchanged ? undefined : redline(s.text, t.text),
+    });
+  });
+  emitRemovedBefore(olds.length);
+
+  return { alignment: oldStructural && newStructural ? 'structural' : 'text', changes };
+}
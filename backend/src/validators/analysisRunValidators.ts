@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+const name = z.string().trim().min(1).max(255);
+const version = z.number().int().positive();
+const runId = z.string({ message: "ID is required" }).uuid("Invalid ID format");
+
+/** Params schema for analysis run routes with :id */
+export const analysisRunIdParamSchema = z.object({
+  params: z.object({
+    id: runId,
+  }),
+});
+
+/** List runs, optionally of one type or of one analysis (the runs sharing a subject key) */
+export const listAnalysisRunsSchema = z.object({
+  query: z.object({
+    type: z.enum(["conflicts", "gaps", "versions"]).optional(),
+    subject: z.string().max(500).optional(),
+  }),
+});
+
+/** Body schema for running and storing an analysis */
+export const createAnalysisRunSchema = z.object({
+  body: z.discriminatedUnion("type", [
+    z
+      .object({
+        type: z.literal("conflicts"),
+        documents: z.array(name).min(2, "Choose at least two documents").max(10).optional(),
+        categories: z.array(name).min(2, "Choose at least two categories").max(10).optional(),
+        topic: z.string().trim().max(500).optional(),
+      })
+      .refine((b) => b.documents || b.categories, { message: "Provide documents or categories" }),
+    z.object({
+      type: z.literal("gaps"),
+      documentA: name,
+      documentB: name,
+      focusArea: z.string().trim().max(500).optional(),
+    }),
+    z
+      .object({
+        type: z.literal("versions"),
+        document: name,
+        fromVersion: version.optional(),
+        toVersion: version.optional(),
+      })
+      .refine((b) => (b.fromVersion === undefined) === (b.toVersion === undefined), {
+        message: "Give both versions, or neither to compare all versions",
+      }),
+  ]),
+});
+
+/** Download a run as a PDF (default) or DOCX report */
+export const analysisRunReportSchema = z.object({
+  params: z.object({
+    id: runId,
+  }),
+  query: z.object({
+    format: z.enum(["pdf", "docx"], { message: "Format must be pdf or docx" }).optional(),
+  }),
+});
+
+/** Earlier /reports API: same bodies as analysis runs, download with ?format */
+export const createReportSchema = createAnalysisRunSchema;
+export const downloadReportSchema = analysisRunReportSchema;
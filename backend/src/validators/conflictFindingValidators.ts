@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+const status = z.enum(["open", "acknowledged", "assigned", "resolved", "dismissed"]);
+const findingId = z.string({ message: "ID is required" }).uuid("Invalid ID format");
+
+/** Params schema for conflict finding routes with :id */
+export const conflictFindingIdParamSchema = z.object({
+  params: z.object({
+    id: findingId,
+  }),
+});
+
+/** List findings, optionally by status (comma-separated) and / or assignee ("me" for the current user) */
+export const listConflictFindingsSchema = z.object({
+  query: z.object({
+    status: z
+      .string()
+      .regex(/^(open|acknowledged|assigned|resolved|dismissed)(,(open|acknowledged|assigned|resolved|dismissed))*$/, "Invalid status")
+      .optional(),
+    assignee: z.union([z.literal("me"), z.string().regex(/^\d+$/, "Invalid assignee")]).optional(),
+  }),
+});
+
+/** Move a finding to another status; assigning needs an assignee, resolving and dismissing a justification */
+export const conflictFindingTransitionSchema = z.object({
+  params: z.object({
+    id: findingId,
+  }),
+  body: z
+    .object({
+      status,
+      assigneeId: z.number().int().positive().optional(),
+      justification: z.string().trim().max(5000).optional(),
+    })
+    .refine((b) => b.status !== "assigned" || b.assigneeId !== undefined, {
+      message: "assigneeId is required to assign a finding",
+    })
+    .refine((b) => (b.status !== "resolved" && b.status !== "dismissed") || !!b.justification, {
+      message: "A justification is required to resolve or dismiss a finding",
+    }),
+});
+
+/** Add a comment to a finding's thread */
+export const conflictFindingCommentSchema = z.object({
+  params: z.object({
+    id: findingId,
+  }),
+  body: z.object({
+    body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+  }),
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+const documentId = z.string({ message: "Document ID is required" }).uuid("Invalid document ID format");
+
+/** Params schema for consolidation routes with :id */
+export const consolidationIdParamSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "ID is required" }).uuid("Invalid ID format"),
+  }),
+});
+
+/** Body schema for consolidating a base statute with its amending Acts / Ordinances */
+export const createConsolidationSchema = z.object({
+  body: z.object({
+    baseDocumentId: documentId,
+    amendmentDocumentIds: z.array(documentId).min(1, "At least one amending document is required").max(50),
+    createVersion: z.boolean().optional(),
+    effectiveFrom: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+      .refine((value) => !isNaN(Date.parse(value)), "Invalid date")
+      .nullable()
+      .optional(),
+  }),
+});
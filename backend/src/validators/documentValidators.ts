@@ -6,3 +6,77 @@ export const documentIdParamSchema = z.object({
     id: z.string({ message: "Document ID is required" }).uuid("Invalid document ID format"),
   }),
 });
+
+/** Params schema for document family routes with :id */
+export const documentFamilyIdParamSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "Family ID is required" }).uuid("Invalid family ID format"),
+  }),
+});
+
+/** Body schema for creating a document family */
+export const createDocumentFamilySchema = z.object({
+  body: z.object({
+    name: z
+      .string({ message: "Family name is required" })
+      .trim()
+      .min(1, "Family name is required")
+      .max(255, "Family name must be at most 255 characters"),
+    category: z.string().trim().max(100, "Category must be at most 100 characters").optional(),
+  }),
+});
+
+/** Params + body schema for moving a document into another family */
+export const moveDocumentFamilySchema = z.object({
+  params: z.object({
+    id: z.string({ message: "Document ID is required" }).uuid("Invalid document ID format"),
+  }),
+  body: z.object({
+    familyId: z.string({ message: "Family ID is required" }).uuid("Invalid family ID format"),
+  }),
+});
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid date");
+
+/** Params + body schema for setting a version's effective dates (null clears a date) */
+export const effectiveDatesSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "Document ID is required" }).uuid("Invalid document ID format"),
+  }),
+  body: z
+    .object({
+      effectiveFrom: isoDate.nullable().optional(),
+      effectiveTo: isoDate.nullable().optional(),
+    })
+    .refine((body) => body.effectiveFrom !== undefined || body.effectiveTo !== undefined, {
+      message: "effectiveFrom or effectiveTo is required",
+    }),
+});
+
+/** Query schema for the document list: judgment metadata filters (single values; documents without metadata are left out) */
+export const listDocumentsSchema = z.object({
+  query: z.object({
+    court: z.string().trim().min(1).max(200).optional(),
+    judge: z.string().trim().min(1).max(200).optional(),
+    party: z.string().trim().min(1).max(200).optional(),
+    disposition: z.enum(["allowed", "partly_allowed", "dismissed", "remanded", "disposed_of", "withdrawn"]).optional(),
+    decidedFrom: isoDate.optional(),
+    decidedTo: isoDate.optional(),
+  }),
+});
+
+const versionNumber = z.string().regex(/^\d+$/, "Version must be a positive integer");
+
+/** Params + query schema for comparing two versions of a family (defaults: latest and the one before it) */
+export const compareFamilyVersionsSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "Family ID is required" }).uuid("Invalid family ID format"),
+  }),
+  query: z.object({
+    from: versionNumber.optional(),
+    to: versionNumber.optional(),
+  }),
+});
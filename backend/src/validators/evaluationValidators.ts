@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+const expectedSourceSchema = z
+  .object({
+    document_id: z.string().uuid("Invalid document ID format").optional(),
+    document_name: z.string().trim().min(1).max(255).optional(),
+    section: z.string().trim().min(1).max(255).optional(),
+    page: z.number().int().positive().optional(),
+  })
+  .refine((s) => s.document_id || s.document_name, { message: "Each expected source needs document_id or document_name" });
+
+const questionFields = {
+  question: z.string({ message: "Question is required" }).trim().min(1, "Question is required").max(2000),
+  expectedAnswer: z.string().max(10000).nullable().optional(),
+  expectedSources: z.array(expectedSourceSchema).min(1, "At least one expected source is required").max(50),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+};
+
+/** Params schema for evaluation routes with :id (questions, runs) */
+export const evalIdParamSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "ID is required" }).uuid("Invalid ID format"),
+  }),
+});
+
+/** Body schema for creating a golden question */
+export const createEvalQuestionSchema = z.object({
+  body: z.object(questionFields),
+});
+
+/** Params + body schema for updating a golden question (all fields optional) */
+export const updateEvalQuestionSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "ID is required" }).uuid("Invalid ID format"),
+  }),
+  body: z.object({
+    question: questionFields.question.optional(),
+    expectedAnswer: questionFields.expectedAnswer,
+    expectedSources: questionFields.expectedSources.optional(),
+    tags: questionFields.tags,
+  }),
+});
+
+/** Body schema for starting an evaluation run; config overrides QueryService retrieval parameters */
+export const startEvalRunSchema = z.object({
+  body: z.object({
+    label: z.string().trim().max(255).optional(),
+    k: z.number().int().min(1).max(50).optional(),
+    tag: z.string().trim().min(1).max(50).optional(),
+    generateAnswers: z.boolean().optional(),
+    config: z
+      .object({
+        vectorWeight: z.number().min(0).max(1).optional(),
+        keywordWeight: z.number().min(0).max(1).optional(),
+        minVectorSimilarity: z.number().min(0).max(1).optional(),
+        minKeywordScore: z.number().min(0).max(1).optional(),
+        searchTopK: z.number().int().min(1).max(100).optional(),
+        crossEncoder: z.boolean().optional(),
+        crossEncoderCandidates: z.number().int().min(1).max(100).optional(),
+        rerankTopK: z.number().int().min(1).max(30).optional(),
+        mmrLambda: z.number().min(0).max(1).optional(),
+        maxContextTokens: z.number().int().min(500).max(32000).optional(),
+      })
+      .strict()
+      .optional(),
+  }),
+});
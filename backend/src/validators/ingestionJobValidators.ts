@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+/** Params schema for ingestion job routes with :id (status, retry) */
+export const ingestionJobIdParamSchema = z.object({
+  params: z.object({
+    id: z.string({ message: "Job ID is required" }).uuid("Invalid job ID format"),
+  }),
+});
+
+/** Body schema for reindexing stored documents: at least one of documentIds, categories or all */
+export const reindexDocumentsSchema = z.object({
+  body: z
+    .object({
+      documentIds: z.array(z.string().uuid("Invalid document ID format")).max(1000).optional(),
+      categories: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+      all: z.boolean().optional(),
+    })
+    .refine((b) => b.all === true || (b.documentIds?.length ?? 0) > 0 || (b.categories?.length ?? 0) > 0, {
+      message: "Provide documentIds, categories or all: true",
+    }),
+});
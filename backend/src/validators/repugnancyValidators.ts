@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+/** Check an Act, ordinance, rules or SRO against the Constitution and the federal Acts that govern it */
+export const repugnancyCheckSchema = z.object({
+  body: z.object({
+    instrument: z.string().trim().min(1, "Instrument is required").max(500),
+    topic: z.string().trim().max(500).optional(),
+    against: z.array(z.string().trim().min(1).max(500)).max(10).optional(),
+  }),
+});
@@ -0,0 +1,446 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AppNav } from "@/app/components/AppNav";
+import { ClipboardCheck, FileDown, History, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { getAuthToken, AUTH_LOGIN_REDIRECT } from "@/app/utils/auth";
+import { api } from "@/app/utils/apiClient";
+import { parseAsUTC } from "@/app/utils/date";
+import { downloadAnalysisReport, type ReportFormat } from "@/app/utils/reports";
+
+type AnalysisType = "conflicts" | "gaps" | "versions";
+
+/** Matches a finding of GET /analysis-runs (see backend utils/analysisFindings) */
+type Finding = {
+  key: string;
+  group: string;
+  title: string;
+  severity: string | null;
+  detail: string | null;
+};
+
+type FindingChanges = { new_findings: string[]; resolved_findings: Finding[]; unchanged: number };
+
+type RunDocument = { id: string; filename: string; version: number | null; family_id: string | null };
+
+type AnalysisRun = {
+  id: string;
+  analysis_type: AnalysisType;
+  title: string;
+  subject_key: string;
+  request: {
+    documents?: string[];
+    categories?: string[];
+    topic?: string;
+    documentA?: string;
+    documentB?: string;
+    focusArea?: string;
+    document?: string;
+    fromVersion?: number;
+    toVersion?: number;
+  };
+  documents: RunDocument[];
+  findings: Finding[];
+  finding_changes: FindingChanges | null;
+  previous_run_id: string | null;
+  model: string | null;
+  created_at: string;
+};
+
+const TYPE_LABEL: Record<AnalysisType, string> = {
+  conflicts: "Conflicts",
+  gaps: "Gap analysis",
+  versions: "Version changes",
+};
+
+const SEVERITY_BADGE: Record<string, string> = {
+  high: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  critical: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  removed: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  medium: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  important: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  modified: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  added: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+};
+const DEFAULT_BADGE = "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300";
+
+function formatDateTime(value: string): string {
+  return value
+    ? parseAsUTC(value).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })
+    : "—";
+}
+
+/** "Companies Act vs SECP Regulations on filing deadlines" */
+function describeRequest(run: AnalysisRun): string {
+  const r = run.request;
+  switch (run.analysis_type) {
+    case "conflicts":
+      return `${(r.categories?.length ? r.categories : r.documents ?? []).join(" vs ")}${r.topic ? ` on ${r.topic}` : ""}`;
+    case "gaps":
+      return `${r.documentA} vs ${r.documentB}${r.focusArea ? ` (${r.focusArea})` : ""}`;
+    case "versions":
+      return `${r.document}: ${r.fromVersion !== undefined ? `v${r.fromVersion} → v${r.toVersion}` : "all versions"}`;
+  }
+}
+
+function ChangeChips({ changes }: { changes: FindingChanges | null }) {
+  if (!changes) return null;
+  return (
+    <>
+      {changes.new_findings.length > 0 && (
+        <span className="rounded-full px-2 py-0.5 text-xs font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+          {changes.new_findings.length} new
+        </span>
+      )}
+      {changes.resolved_findings.length > 0 && (
+        <span className="rounded-full px-2 py-0.5 text-xs font-medium bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300">
+          {changes.resolved_findings.length} resolved
+        </span>
+      )}
+    </>
+  );
+}
+
+function FindingRow({ finding, status }: { finding: Finding; status: "new" | "resolved" | null }) {
+  return (
+    <li className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-3">
+      <div className="flex flex-wrap items-center gap-2 mb-1">
+        {finding.severity && (
+          <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${SEVERITY_BADGE[finding.severity] ?? DEFAULT_BADGE}`}>
+            {finding.severity}
+          </span>
+        )}
+        {status === "new" && (
+          <span className="rounded-full px-2 py-0.5 text-xs font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+            New since last run
+          </span>
+        )}
+        {status === "resolved" && (
+          <span className="rounded-full px-2 py-0.5 text-xs font-medium bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300">
+            Resolved
+          </span>
+        )}
+      </div>
+      <p className={`text-sm ${status === "resolved" ? "line-through text-slate-500 dark:text-slate-400" : "text-slate-800 dark:text-slate-200"}`}>
+        {finding.title}
+      </p>
+      {finding.detail && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{finding.detail}</p>}
+    </li>
+  );
+}
+
+function AnalysesContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [typeFilter, setTypeFilter] = useState<AnalysisType | "">("");
+  const [selectedId, setSelectedId] = useState(searchParams.get("run") ?? "");
+  const [detail, setDetail] = useState<{ run: AnalysisRun; history: AnalysisRun[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [rerunning, setRerunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async (type: AnalysisType | "") => {
+    try {
+      const response = await api.get<{ runs?: AnalysisRun[] }>(`/analysis-runs${type ? `?type=${type}` : ""}`);
+      if (response.success && response.data?.runs) {
+        setRuns(response.data.runs);
+        setSelectedId((current) => current || response.data?.runs?.[0]?.id || "");
+      } else {
+        setError(response.message ?? "Failed to load analyses.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load analyses. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!getAuthToken()) {
+      router.replace(AUTH_LOGIN_REDIRECT);
+      return;
+    }
+    fetchRuns(typeFilter);
+  }, [router, fetchRuns, typeFilter]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    router.replace(`/analyses?run=${selectedId}`, { scroll: false });
+    (async () => {
+      setDetailLoading(true);
+      try {
+        const response = await api.get<{ run?: AnalysisRun; history?: AnalysisRun[] }>(`/analysis-runs/${selectedId}`);
+        if (response.success && response.data?.run) {
+          setDetail({ run: response.data.run, history: response.data.history ?? [] });
+          setError(null);
+        } else {
+          setDetail(null);
+          setError(response.message ?? "Failed to load the analysis.");
+        }
+      } catch (err) {
+        console.error(err);
+        setDetail(null);
+        setError("Failed to load the analysis. Please try again.");
+      } finally {
+        setDetailLoading(false);
+      }
+    })();
+  }, [selectedId, router]);
+
+  const rerun = async (run: AnalysisRun) => {
+    setRerunning(true);
+    try {
+      const response = await api.post<{ run?: AnalysisRun }>(`/analysis-runs/${run.id}/rerun`);
+      if (response.success && response.data?.run) {
+        const next = response.data.run;
+        toast.success(
+          next.finding_changes
+            ? `Re-run complete: ${next.finding_changes.new_findings.length} new, ${next.finding_changes.resolved_findings.length} resolved`
+            : "Re-run complete"
+        );
+        setRuns((prev) => [next, ...prev]);
+        setSelectedId(next.id);
+      } else {
+        toast.error(response.message ?? "Re-run failed");
+      }
+    } catch {
+      toast.error("Re-run failed");
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const download = async (run: AnalysisRun, format: ReportFormat) => {
+    try {
+      await downloadAnalysisReport(run.id, run.title, format);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not download report");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+      </div>
+    );
+  }
+
+  const run = detail?.run;
+  const newKeys = new Set(run?.finding_changes?.new_findings ?? []);
+  const previous = detail?.history.find((h) => h.id === run?.previous_run_id);
+  const buttonClass =
+    "inline-flex items-center gap-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors";
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-white">
+      <AppNav />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <ClipboardCheck className="w-7 h-7 text-blue-600 dark:text-blue-400" />
+              Analyses
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              Conflict, gap and version analyses from chat, with their findings. Re-run one after uploading a new version
+              to see which findings are new and which were resolved.
+            </p>
+          </div>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as AnalysisType | "")}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Analysis type"
+          >
+            <option value="">All analyses</option>
+            {(Object.keys(TYPE_LABEL) as AnalysisType[]).map((type) => (
+              <option key={type} value={type}>
+                {TYPE_LABEL[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 px-4 py-3 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {runs.length === 0 ? (
+          <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-10 text-center text-slate-600 dark:text-slate-400">
+            No analyses yet. Ask the assistant to check two documents for conflicts or gaps, or to compare versions.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[20rem_1fr] gap-6 items-start">
+            <ul className="space-y-2 lg:sticky lg:top-6 lg:max-h-[calc(100vh-3rem)] lg:overflow-y-auto">
+              {runs.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(item.id)}
+                    className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                      item.id === selectedId
+                        ? "border-blue-400 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                        : "border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 hover:border-blue-300 dark:hover:border-blue-700"
+                    }`}
+                  >
+                    <p className="text-xs font-medium text-blue-600 dark:text-blue-400">{TYPE_LABEL[item.analysis_type]}</p>
+                    <p className="text-sm font-medium text-slate-800 dark:text-slate-200 line-clamp-2">{describeRequest(item)}</p>
+                    <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                      <span>{formatDateTime(item.created_at)}</span>
+                      <span>· {item.findings.length} finding(s)</span>
+                      <ChangeChips changes={item.finding_changes} />
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <section className="min-w-0">
+              {detailLoading && !run ? (
+                <div className="flex justify-center py-20">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600 dark:text-blue-400" />
+                </div>
+              ) : run ? (
+                <div className="space-y-6">
+                  <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-5">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-blue-600 dark:text-blue-400">{TYPE_LABEL[run.analysis_type]}</p>
+                        <h2 className="text-xl font-semibold">{describeRequest(run)}</h2>
+                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                          {formatDateTime(run.created_at)}
+                          {run.model ? ` · ${run.model}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <button type="button" onClick={() => rerun(run)} disabled={rerunning} className={buttonClass}>
+                          {rerunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                          Re-run
+                        </button>
+                        {(["pdf", "docx"] as const).map((format) => (
+                          <button key={format} type="button" onClick={() => download(run, format)} className={buttonClass}>
+                            <FileDown className="w-4 h-4" />
+                            {format.toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {run.documents.length > 0 && (
+                      <div className="mt-4">
+                        <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 mb-1.5">Documents analysed</p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {run.documents.map((doc) => (
+                            <span
+                              key={doc.id}
+                              className="rounded-md bg-slate-100 dark:bg-slate-800 px-2 py-1 text-xs text-slate-700 dark:text-slate-300"
+                            >
+                              {doc.filename}
+                              {doc.version != null ? ` (v${doc.version})` : ""}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Since the previous run</h3>
+                    {run.finding_changes ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                          Compared with the run of {previous ? formatDateTime(previous.created_at) : "an earlier date"}:{" "}
+                          {run.finding_changes.new_findings.length} new, {run.finding_changes.resolved_findings.length} resolved,{" "}
+                          {run.finding_changes.unchanged} still present.
+                        </p>
+                        {run.finding_changes.resolved_findings.length > 0 && (
+                          <ul className="space-y-2">
+                            {run.finding_changes.resolved_findings.map((finding) => (
+                              <FindingRow key={finding.key} finding={finding} status="resolved" />
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">This is the first run of this analysis.</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Findings ({run.findings.length})
+                    </h3>
+                    {run.findings.length === 0 ? (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">No findings.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {run.findings.map((finding) => (
+                          <FindingRow
+                            key={finding.key}
+                            finding={finding}
+                            status={run.finding_changes && newKeys.has(finding.key) ? "new" : null}
+                          />
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {detail && detail.history.length > 1 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-1.5">
+                        <History className="w-4 h-4" />
+                        History of this analysis
+                      </h3>
+                      <ul className="space-y-1.5">
+                        {detail.history.map((item) => (
+                          <li key={item.id}>
+                            <button
+                              type="button"
+                              onClick={() => setSelectedId(item.id)}
+                              disabled={item.id === run.id}
+                              className="w-full flex flex-wrap items-center gap-2 rounded-lg px-3 py-2 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-800 disabled:bg-blue-50 dark:disabled:bg-blue-900/20"
+                            >
+                              <span className="text-slate-700 dark:text-slate-300">{formatDateTime(item.created_at)}</span>
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {item.findings.length} finding(s)
+                                {item.documents.length > 0 &&
+                                  ` · ${item.documents.map((d) => (d.version != null ? `v${d.version}` : d.filename)).join(", ")}`}
+                              </span>
+                              <ChangeChips changes={item.finding_changes} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              ) : null}
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function AnalysesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+          <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+        </div>
+      }
+    >
+      <AnalysesContent />
+    </Suspense>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
-import { Scale } from "lucide-react";
-import type { Message, AssistantMessage, Citation } from "../types";
+import { Scale, FileDown } from "lucide-react";
+import type { Message, AssistantMessage, Citation, ReportLink } from "../types";
 import { isAssistantMessage } from "../types";
 import { getFriendlyMessage } from "@/app/utils/getFriendlyMessage";
+import type { ReportFormat } from "@/app/utils/reports";
 
 function stripCitationNumbers(text: string): string {
   return text.replace(/\s*\[\d+\](?:\[\d+\])*/g, "").trim();
@@ -17,6 +19,8 @@ export interface ChatMessageProps {
   streamingContent?: string;
   /** Called when user clicks a citation to open the cited document */
   onCitationClick?: (citation: Citation) => void;
+  /** Called when user downloads a compliance report saved for this answer */
+  onReportDownload?: (report: ReportLink, format: ReportFormat) => void;
 }
 
 /** Single message bubble: user, or assistant (thinking | streaming | complete | error) */
@@ -25,13 +29,14 @@ export function ChatMessage({
   isPending = false,
   streamingContent = "",
   onCitationClick,
+  onReportDownload,
 }: ChatMessageProps) {
   if (message.role === "user") {
     return (
       <div className="flex flex-col items-end">
         <div className="flex flex-row-reverse items-start gap-2 max-w-[85%]">
           <div className="rounded-2xl px-4 py-3 bg-blue-600 text-white">
-            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+            <p dir="auto" className="text-sm whitespace-pre-wrap">{message.content}</p>
           </div>
         </div>
       </div>
@@ -64,13 +69,13 @@ export function ChatMessage({
             </div>
           )}
           {showStreaming && (
-            <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 transition-opacity duration-200">
+            <div dir="auto" className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 transition-opacity duration-200">
               <ReactMarkdown>{stripCitationNumbers(streamingContent)}</ReactMarkdown>
             </div>
           )}
           {!showError && !showThinking && !showStreaming && (
             <>
-              <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-ul:my-1 prose-li:my-0">
+              <div dir="auto" className="prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-ul:my-1 prose-li:my-0">
                 <ReactMarkdown>{stripCitationNumbers(assistant.content)}</ReactMarkdown>
               </div>
               {assistant.confidence !== undefined &&
@@ -90,6 +95,45 @@ export function ChatMessage({
           )}
         </div>
       </div>
+      {isAssistantMessage(assistant) &&
+        !showError &&
+        !showThinking &&
+        !showStreaming &&
+        assistant.reports &&
+        assistant.reports.length > 0 && (
+          <div className="mt-1.5 ml-1 w-[85%] max-w-[85%] rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/80 px-3 py-3">
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2">
+              Compliance Report
+            </p>
+            <ul className="space-y-2">
+              {assistant.reports.map((r: ReportLink) => (
+                <li
+                  key={r.id}
+                  className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/60 p-2.5 text-xs"
+                >
+                  <FileDown className="h-4 w-4 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+                  <Link
+                    href={`/analyses?run=${r.id}`}
+                    className="min-w-0 flex-1 truncate font-medium text-slate-800 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                    title={`${r.title}: view findings, history and re-run`}
+                  >
+                    {r.title}
+                  </Link>
+                  {(["pdf", "docx"] as const).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => onReportDownload?.(r, format)}
+                      className="flex-shrink-0 rounded-md border border-slate-200 dark:border-slate-600 px-2 py-1 font-semibold uppercase text-blue-600 dark:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700/60 hover:border-blue-300 dark:hover:border-blue-600 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       {isAssistantMessage(assistant) &&
         !showError &&
         !showThinking &&
@@ -120,7 +164,7 @@ export function ChatMessage({
                         </p>
                       )}
                       {c.content && (
-                        <p className="text-slate-500 dark:text-slate-400 mt-1 italic line-clamp-2">
+                        <p dir="auto" className="text-slate-500 dark:text-slate-400 mt-1 italic line-clamp-2">
                           &quot;
                           {typeof c.content === "string"
                             ? c.content.length > 120
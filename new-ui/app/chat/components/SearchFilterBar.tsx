@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarDays, FileText, Filter, Folder, Gavel, X } from "lucide-react";
+import { api } from "@/app/utils/apiClient";
+import { DISPOSITION_LABELS, type Disposition } from "@/app/utils/judgment";
+import type { SearchFilters } from "../types";
+
+type CategoryItem = { id: number | string; name: string };
+type DocumentFamily = { id: string; name: string; category: string | null; version_count: number };
+
+type Props = {
+  value: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+};
+
+const chipClass =
+  "inline-flex items-center gap-1 rounded-full border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/30 px-2.5 py-1 text-xs font-medium text-blue-700 dark:text-blue-300";
+const pickerClass =
+  "rounded-full border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2.5 py-1 text-xs text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
+/** Drop a value from a filter list; the list is removed once empty */
+function without<T extends string>(list: T[] | undefined, value: T): T[] | undefined {
+  const next = (list ?? []).filter((v) => v !== value);
+  return next.length > 0 ? next : undefined;
+}
+
+/** True when any filter is set; an empty scope is sent as no filters */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Boolean(
+    filters.categories?.length ||
+      filters.familyIds?.length ||
+      filters.asOfDate ||
+      filters.dispositions?.length ||
+      filters.decidedFrom ||
+      filters.decidedTo
+  );
+}
+
+/** Chip bar above the chat input: restricts the agent's document searches by category, document, as-of date and judgment outcome / decision date */
+export function SearchFilterBar({ value, onChange, disabled = false }: Props) {
+  const [categories, setCategories] = useState<CategoryItem[]>([]);
+  const [families, setFamilies] = useState<DocumentFamily[]>([]);
+
+  useEffect(() => {
+    api.get<{ categories?: CategoryItem[] }>("/categories").then((response) => {
+      if (response.success && response.data?.categories) setCategories(response.data.categories);
+    }).catch(() => setCategories([]));
+    api.get<{ families?: DocumentFamily[] }>("/document-families").then((response) => {
+      if (response.success && response.data?.families) {
+        setFamilies(response.data.families.filter((f) => f.version_count > 0));
+      }
+    }).catch(() => setFamilies([]));
+  }, []);
+
+  const familyName = (id: string) => families.find((f) => f.id === id)?.name ?? "Document";
+  const hasFilters = hasSearchFilters(value);
+
+  const addCategory = (name: string) => {
+    if (!name || value.categories?.includes(name)) return;
+    onChange({ ...value, categories: [...(value.categories ?? []), name] });
+  };
+  const addFamily = (id: string) => {
+    if (!id || value.familyIds?.includes(id)) return;
+    onChange({ ...value, familyIds: [...(value.familyIds ?? []), id] });
+  };
+  const addDisposition = (disposition: Disposition | "") => {
+    if (!disposition || value.dispositions?.includes(disposition)) return;
+    onChange({ ...value, dispositions: [...(value.dispositions ?? []), disposition] });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 max-w-3xl mx-auto mb-2" data-tour="chat-filters">
+      <span className="inline-flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+        <Filter className="w-3.5 h-3.5" aria-hidden />
+        Search in
+      </span>
+
+      {!hasFilters && <span className="text-xs text-slate-500 dark:text-slate-400">all active documents</span>}
+
+      {value.categories?.map((name) => (
+        <span key={`category-${name}`} className={chipClass}>
+          <Folder className="w-3 h-3" aria-hidden />
+          {name}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, categories: without(value.categories, name) })}
+            className="hover:text-blue-900 dark:hover:text-blue-100"
+            aria-label={`Remove category ${name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {value.familyIds?.map((id) => (
+        <span key={`family-${id}`} className={chipClass}>
+          <FileText className="w-3 h-3" aria-hidden />
+          {familyName(id)}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, familyIds: without(value.familyIds, id) })}
+            className="hover:text-blue-900 dark:hover:text-blue-100"
+            aria-label={`Remove document ${familyName(id)}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {value.asOfDate && (
+        <span className={chipClass}>
+          <CalendarDays className="w-3 h-3" aria-hidden />
+          As of {value.asOfDate}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, asOfDate: undefined })}
+            className="hover:text-blue-900 dark:hover:text-blue-100"
+            aria-label="Remove date filter"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      )}
+
+      {value.dispositions?.map((disposition) => (
+        <span key={`disposition-${disposition}`} className={chipClass}>
+          <Gavel className="w-3 h-3" aria-hidden />
+          {DISPOSITION_LABELS[disposition]}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, dispositions: without(value.dispositions, disposition) })}
+            className="hover:text-blue-900 dark:hover:text-blue-100"
+            aria-label={`Remove outcome ${DISPOSITION_LABELS[disposition]}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {(value.decidedFrom || value.decidedTo) && (
+        <span className={chipClass}>
+          <Gavel className="w-3 h-3" aria-hidden />
+          Decided {value.decidedFrom ?? "…"} – {value.decidedTo ?? "…"}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, decidedFrom: undefined, decidedTo: undefined })}
+            className="hover:text-blue-900 dark:hover:text-blue-100"
+            aria-label="Remove decision date filter"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      )}
+
+      <select
+        value=""
+        disabled={disabled || categories.length === 0}
+        onChange={(e) => addCategory(e.target.value)}
+        className={pickerClass}
+        aria-label="Add category filter"
+      >
+        <option value="">+ Category</option>
+        {categories
+          .filter((c) => !value.categories?.includes(c.name))
+          .map((c) => (
+            <option key={c.id} value={c.name}>{c.name}</option>
+          ))}
+      </select>
+
+      <select
+        value=""
+        disabled={disabled || families.length === 0}
+        onChange={(e) => addFamily(e.target.value)}
+        className={pickerClass}
+        aria-label="Add document filter"
+      >
+        <option value="">+ Document</option>
+        {families
+          .filter((f) => !value.familyIds?.includes(f.id))
+          .map((f) => (
+            <option key={f.id} value={f.id}>{f.name}</option>
+          ))}
+      </select>
+
+      {!value.asOfDate && (
+        <input
+          type="date"
+          disabled={disabled}
+          onChange={(e) => e.target.value && onChange({ ...value, asOfDate: e.target.value })}
+          className={pickerClass}
+          aria-label="Search versions in force on date"
+          title="Search the versions in force on this date"
+        />
+      )}
+
+      <select
+        value=""
+        disabled={disabled}
+        onChange={(e) => addDisposition(e.target.value as Disposition | "")}
+        className={pickerClass}
+        aria-label="Add judgment outcome filter"
+      >
+        <option value="">+ Outcome</option>
+        {(Object.keys(DISPOSITION_LABELS) as Disposition[])
+          .filter((d) => !value.dispositions?.includes(d))
+          .map((d) => (
+            <option key={d} value={d}>{DISPOSITION_LABELS[d]}</option>
+          ))}
+      </select>
+
+      {!value.decidedFrom && (
+        <input
+          type="date"
+          disabled={disabled}
+          max={value.decidedTo}
+          onChange={(e) => e.target.value && onChange({ ...value, decidedFrom: e.target.value })}
+          className={pickerClass}
+          aria-label="Judgments decided on or after"
+          title="Judgments decided on or after this date"
+        />
+      )}
+
+      {!value.decidedTo && (
+        <input
+          type="date"
+          disabled={disabled}
+          min={value.decidedFrom}
+          onChange={(e) => e.target.value && onChange({ ...value, decidedTo: e.target.value })}
+          className={pickerClass}
+          aria-label="Judgments decided on or before"
+          title="Judgments decided on or before this date"
+        />
+      )}
+
+      {hasFilters && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange({})}
+          className="text-xs text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 underline"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useRef, useState } from "react";
-import type { Message, AssistantMessage, StreamEvent, StreamAnswer, Citation } from "../types";
+import type { Message, AssistantMessage, StreamEvent, StreamAnswer, Citation, ReportLink, SearchFilters } from "../types";
 
 const NO_RESPONSE_MESSAGE = "No response from server";
 
@@ -24,7 +24,8 @@ export interface UseStreamChatOptions {
     role: "user" | "assistant",
     content: string,
     citations?: Citation[],
-    confidence?: number
+    confidence?: number,
+    reports?: ReportLink[]
   ) => Promise<void>;
   toast: { error: (msg: string) => void };
 }
@@ -34,7 +35,8 @@ export interface UseStreamChatResult {
     query: string,
     convId: string,
     isFirstMessage: boolean,
-    conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>
+    conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>,
+    filters?: SearchFilters
   ) => Promise<void>;
   isStreaming: boolean;
   /** Content streaming in for the current pending message (show in same bubble) */
@@ -70,7 +72,8 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
       query: string,
       convId: string,
       isFirstMessage: boolean,
-      conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>
+      conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>,
+      filters?: SearchFilters
     ) => {
       const token = getToken();
       if (!token) {
@@ -106,6 +109,7 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
 
       let finalAnswer: StreamAnswer | null = null;
       let lastStreamedContent = "";
+      let streamedCitations: Citation[] | undefined;
 
       try {
         const res = await fetch(`${getApiBase()}/query/agent-stream`, {
@@ -114,7 +118,7 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
             "Content-Type": "application/json",
             Authorization: `Bearer ${token}`,
           },
-          body: JSON.stringify({ query, conversationHistory: history, conversationId: convId }),
+          body: JSON.stringify({ query, conversationHistory: history, conversationId: convId, filters }),
           signal: abortRef.current.signal,
         });
 
@@ -147,6 +151,11 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
               try {
                 const json = JSON.parse(chunk.slice(6)) as StreamEvent;
                 if (json.type === "log") {
+                  // Tokens streamed before a tool run were not the final answer
+                  if (lastStreamedContent) {
+                    lastStreamedContent = "";
+                    setStreamingContent("");
+                  }
                   const entry = getLogEntry(json);
                   if (entry) {
                     setMessages((prev) => {
@@ -162,6 +171,18 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
                       return next;
                     });
                   }
+                } else if (json.type === "delta" && json.delta) {
+                  lastStreamedContent += json.delta;
+                  setStreamingContent(lastStreamedContent);
+                } else if (json.type === "citations" && json.citations) {
+                  streamedCitations = json.citations;
+                  setMessages((prev) =>
+                    prev.map((m) =>
+                      m.id === pendingId && m.role === "assistant"
+                        ? { ...m, citations: streamedCitations }
+                        : m
+                    )
+                  );
                 } else if (json.type === "answer" && json.answer) {
                   finalAnswer = json.answer;
                   if (json.answer.answer) {
@@ -203,8 +224,9 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
         );
         const hasContent = displayContent.trim().length > 0;
         const contentToSave = hasContent ? displayContent : NO_RESPONSE_MESSAGE;
-        const finalCitations = finalAnswer?.citations ?? [];
+        const finalCitations = finalAnswer?.citations ?? streamedCitations ?? [];
         const confidence = finalAnswer?.confidence;
+        const reports = finalAnswer?.reports;
 
         setMessages((prev) =>
           prev.map((m) =>
@@ -215,6 +237,7 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
                   content: hasContent ? displayContent : NO_RESPONSE_MESSAGE,
                   citations: finalCitations.length ? finalCitations : undefined,
                   confidence,
+                  reports,
                   streaming: false,
                   logs: undefined,
                 }
@@ -223,7 +246,7 @@ export function useStreamChat(options: UseStreamChatOptions): UseStreamChatResul
         );
         setPendingMessageId(null);
         setStreamingContent("");
-        await saveMessage(convId, "assistant", contentToSave, finalCitations, confidence);
+        await saveMessage(convId, "assistant", contentToSave, finalCitations, confidence, reports);
       } catch (err) {
         if ((err as Error).name === "AbortError") {
           setMessages((prev) => prev.filter((m) => m.id !== pendingId));
@@ -5,12 +5,14 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { getAuthToken, getAuthTokenForApi, getApiBase, getAuthUser, clearAuth, getLoginRedirectForRole } from "@/app/utils/auth";
 import { api } from "@/app/utils/apiClient";
 import { parseAsUTC } from "@/app/utils/date";
+import { downloadAnalysisReport, type ReportFormat } from "@/app/utils/reports";
 import { AppNav } from "@/app/components/AppNav";
 import { PageTour } from "@/app/components/PageTour";
 import { ConversationList, type ConversationItem } from "./components/ConversationList";
 import { ChatMessage } from "./components/ChatMessage";
+import { SearchFilterBar, hasSearchFilters } from "./components/SearchFilterBar";
 import { useStreamChat } from "./hooks/useStreamChat";
-import type { Message, Citation } from "./types";
+import type { Message, Citation, ReportLink, SearchFilters } from "./types";
 import {
   Scale,
   Send,
@@ -32,6 +34,7 @@ function ChatContent() {
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
   const [userName, setUserName] = useState("Your Name");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   /** When we just created this conversation, skip load so we don't overwrite the first message + pending reply. */
@@ -141,7 +144,7 @@ function ChatContent() {
             id?: string;
             role: string;
             content: string;
-            metadata?: { citations?: Citation[]; confidence?: number };
+            metadata?: { citations?: Citation[]; confidence?: number; reports?: ReportLink[] };
             citations?: Citation[];
           }[];
         };
@@ -165,6 +168,7 @@ function ChatContent() {
           content,
           citations: m.metadata?.citations ?? m.citations,
           confidence: m.metadata?.confidence,
+          reports: m.metadata?.reports,
         };
       });
       setMessages(msgs);
@@ -195,13 +199,14 @@ function ChatContent() {
     role: "user" | "assistant",
     content: string,
     citations?: Citation[],
-    confidence?: number
+    confidence?: number,
+    reports?: ReportLink[]
   ) {
     try {
       await api.post(`/conversations/${convId}/messages`, {
         role,
         content,
-        metadata: { citations, confidence },
+        metadata: { citations, confidence, reports },
       });
     } catch {
       toast.error("Could not save message");
@@ -260,6 +265,14 @@ function ChatContent() {
     }
   }
 
+  async function handleReportDownload(report: ReportLink, format: ReportFormat) {
+    try {
+      await downloadAnalysisReport(report.id, report.title, format);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not download report");
+    }
+  }
+
   async function deleteConversation(convId: string) {
     try {
       const response = await api.delete(`/conversations/${convId}`);
@@ -326,7 +339,7 @@ function ChatContent() {
     }
 
     setInput("");
-    await runStream(query, convId, isFirstMessage, messages);
+    await runStream(query, convId, isFirstMessage, messages, hasSearchFilters(filters) ? filters : undefined);
   }
 
   useEffect(() => {
@@ -433,6 +446,7 @@ function ChatContent() {
                         isPending={msg.id === pendingMessageId}
                         streamingContent={msg.id === pendingMessageId ? streamingContent : undefined}
                         onCitationClick={handleCitationClick}
+                        onReportDownload={handleReportDownload}
                       />
                     </div>
                   ))}
@@ -442,9 +456,11 @@ function ChatContent() {
             </div>
 
             <form onSubmit={handleSubmit} className="p-4 border-t border-slate-200 dark:border-slate-800 flex-shrink-0" data-tour="chat-input">
+              <SearchFilterBar value={filters} onChange={setFilters} disabled={isStreaming} />
               <div className="flex gap-2 max-w-3xl mx-auto">
                 <input
                   type="text"
+                  dir="auto"
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   placeholder="Ask about legal or compliance..."
@@ -1,3 +1,5 @@
+import type { Disposition } from "@/app/utils/judgment";
+
 /** Citation from RAG/agent response */
 export type Citation = {
   document_id?: string | null;
@@ -8,6 +10,27 @@ export type Citation = {
   [key: string]: unknown;
 };
 
+/** Search scope sent with each query (chat filter bar); omitted fields are not filtered on */
+export interface SearchFilters {
+  categories?: string[];
+  /** Document families (their active version unless asOfDate is set) */
+  familyIds?: string[];
+  /** YYYY-MM-DD: search the versions that were current on this date */
+  asOfDate?: string;
+  /** Judgment metadata filters (see utils/judgment) */
+  dispositions?: Disposition[];
+  /** YYYY-MM-DD decision date range */
+  decidedFrom?: string;
+  decidedTo?: string;
+}
+
+/** Analysis run stored for an answer's conflict / gap / version analysis (downloadable as a PDF or DOCX report) */
+export interface ReportLink {
+  id: string;
+  type: "conflicts" | "gaps" | "versions";
+  title: string;
+}
+
 /** Log entry from stream (stage or message) */
 export type LogEntry = string;
 
@@ -38,6 +61,7 @@ export interface AssistantMessage {
   error?: string;
   citations?: Citation[];
   confidence?: number;
+  reports?: ReportLink[];
 }
 
 export type Message = UserMessage | AssistantMessage;
@@ -51,11 +75,18 @@ export interface StreamAnswer {
   answer?: string;
   citations?: Citation[];
   confidence?: number;
+  reports?: ReportLink[];
 }
 
-/** Stream event types (discriminated union) */
+/**
+ * Stream event types (discriminated union).
+ * `delta` carries answer tokens as they are generated; a `log` after deltas means the streamed text
+ * belonged to an intermediate turn (tools are running) and is discarded. `answer` is authoritative.
+ */
 export type StreamEvent =
   | { type: "log"; log?: { stage?: string; message?: string } }
+  | { type: "delta"; delta?: string }
+  | { type: "citations"; citations?: Citation[] }
   | { type: "answer"; answer?: StreamAnswer }
   | { type: "complete" }
   | { type: "error"; error?: string };
@@ -13,6 +13,8 @@ import {
   FileText,
   UserPlus,
   FolderTree,
+  ClipboardCheck,
+  ShieldAlert,
   Moon,
   Sun,
   LogOut,
@@ -26,6 +28,8 @@ const navLinks: { href: string; label: string; icon: typeof LayoutDashboard; adm
   { href: "/chat", label: "Chat", icon: MessageSquare },
   { href: "/upload", label: "Upload", icon: Upload, adminOnly: true },
   { href: "/documents", label: "Documents", icon: FileText },
+  { href: "/analyses", label: "Analyses", icon: ClipboardCheck },
+  { href: "/conflicts", label: "Conflicts", icon: ShieldAlert },
   { href: "/categories", label: "Categories", icon: FolderTree, adminOnly: true },
   { href: "/admin", label: "Add Employee", icon: UserPlus, adminOnly: true },
 ];
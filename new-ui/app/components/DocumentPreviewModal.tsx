@@ -1,9 +1,16 @@
 "use client";
 
 import { useEffect, useCallback, useState } from "react";
-import { X, ExternalLink, Download, Loader2, FileText } from "lucide-react";
+import { X, ExternalLink, Download, Loader2, FileText, Gavel } from "lucide-react";
 import { getApiBase, getAuthTokenForApi } from "@/app/utils/auth";
 import { parseAsUTC } from "@/app/utils/date";
+import {
+  DISPOSITION_LABELS,
+  DISPOSITION_STYLES,
+  formatDecisionDate,
+  hasJudgmentMetadata,
+  type JudgmentMetadata,
+} from "@/app/utils/judgment";
 
 export type DocumentItem = {
   id: string;
@@ -12,6 +19,8 @@ export type DocumentItem = {
   version: string;
   upload_date: string;
   is_latest: boolean;
+  /** Extracted for court judgments */
+  judgment?: JudgmentMetadata | null;
 };
 
 type PreviewKind = "pdf" | "word" | "other";
@@ -25,15 +34,18 @@ function getPreviewKind(filename: string): PreviewKind {
 
 type Props = {
   document: DocumentItem;
+  /** Open the PDF at this page (1-based) */
+  page?: number | null;
   onClose: () => void;
 };
 
-export function DocumentPreviewModal({ document: doc, onClose }: Props) {
+export function DocumentPreviewModal({ document: doc, page, onClose }: Props) {
   const [blobUrl, setBlobUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const kind = getPreviewKind(doc.name);
+  const pageFragment = page && page > 0 ? `#page=${page}` : "";
 
   const fetchBlob = useCallback(async () => {
     const token = getAuthTokenForApi();
@@ -98,7 +110,7 @@ export function DocumentPreviewModal({ document: doc, onClose }: Props) {
 
   const openInNewTab = () => {
     if (blobUrl) {
-      window.open(blobUrl, "_blank", "noopener,noreferrer");
+      window.open(`${blobUrl}${pageFragment}`, "_blank", "noopener,noreferrer");
     } else {
       const token = getAuthTokenForApi();
       if (token) {
@@ -149,6 +161,7 @@ export function DocumentPreviewModal({ document: doc, onClose }: Props) {
         year: "numeric",
       })
     : "—";
+  const judgment = hasJudgmentMetadata(doc.judgment) ? doc.judgment : null;
 
   return (
     <div
@@ -180,6 +193,7 @@ export function DocumentPreviewModal({ document: doc, onClose }: Props) {
               </span>
               <span>v{doc.version}</span>
               <span>{uploadDateFormatted}</span>
+              {page && page > 0 && <span>Page {page}</span>}
             </div>
           </div>
         </div>
@@ -213,6 +227,48 @@ export function DocumentPreviewModal({ document: doc, onClose }: Props) {
         </div>
       </header>
 
+      {/* Judgment details */}
+      {judgment && (
+        <section className="flex-shrink-0 px-4 py-3 bg-slate-50 dark:bg-slate-900/80 border-b border-slate-200 dark:border-slate-700 text-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-slate-700 dark:text-slate-300">
+            <span className="inline-flex items-center gap-1.5 font-medium">
+              <Gavel className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+              {judgment.court ?? "Judgment"}
+            </span>
+            {judgment.caseNumber && <span>{judgment.caseNumber}</span>}
+            {judgment.decisionDate && <span>Decided {formatDecisionDate(judgment.decisionDate)}</span>}
+            {judgment.reportedAs && <span className="font-mono text-xs">{judgment.reportedAs}</span>}
+            {judgment.disposition && (
+              <span className={`inline-block text-xs font-medium px-2 py-0.5 rounded ${DISPOSITION_STYLES[judgment.disposition]}`}>
+                {DISPOSITION_LABELS[judgment.disposition]}
+              </span>
+            )}
+          </div>
+          <dl className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+            {judgment.parties && (judgment.parties.appellants.length > 0 || judgment.parties.respondents.length > 0) && (
+              <div>
+                <dt className="inline font-medium text-slate-500 dark:text-slate-400">Parties: </dt>
+                <dd className="inline">
+                  {judgment.parties.appellants.join(", ") || "—"} v. {judgment.parties.respondents.join(", ") || "—"}
+                </dd>
+              </div>
+            )}
+            {judgment.bench && judgment.bench.length > 0 && (
+              <div>
+                <dt className="inline font-medium text-slate-500 dark:text-slate-400">Bench: </dt>
+                <dd className="inline">{judgment.bench.join(", ")}</dd>
+              </div>
+            )}
+            {judgment.statutes && judgment.statutes.length > 0 && (
+              <div>
+                <dt className="inline font-medium text-slate-500 dark:text-slate-400">Statutes: </dt>
+                <dd className="inline">{judgment.statutes.join("; ")}</dd>
+              </div>
+            )}
+          </dl>
+        </section>
+      )}
+
       {/* Content area: calc(100vh - header) */}
       <div
         className="flex-1 min-h-0 flex items-center justify-center bg-slate-100 dark:bg-slate-950 p-4"
@@ -242,7 +298,7 @@ export function DocumentPreviewModal({ document: doc, onClose }: Props) {
         {!loading && !error && kind === "pdf" && blobUrl && (
           <div className="w-full h-full flex flex-col rounded-lg overflow-hidden bg-white shadow-lg">
             <iframe
-              src={blobUrl}
+              src={`${blobUrl}${pageFragment}`}
               title={doc.name}
               className="flex-1 w-full min-h-0 rounded-lg border-0"
               style={{ minHeight: "calc(100vh - 56px - 2rem)" }}
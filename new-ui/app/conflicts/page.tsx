@@ -0,0 +1,476 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AppNav } from "@/app/components/AppNav";
+import { Loader2, MessageSquare, ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { getAuthToken, AUTH_LOGIN_REDIRECT } from "@/app/utils/auth";
+import { api } from "@/app/utils/apiClient";
+import { parseAsUTC } from "@/app/utils/date";
+
+type FindingStatus = "open" | "acknowledged" | "assigned" | "resolved" | "dismissed";
+
+type FindingSide = { name: string; section?: string | null; page?: number | null; excerpt: string };
+
+/** Matches GET /conflict-findings */
+type ConflictFinding = {
+  id: string;
+  status: FindingStatus;
+  severity: string;
+  conflict_type: string;
+  description: string;
+  recommendation: string | null;
+  document_a: FindingSide;
+  document_b: FindingSide;
+  assigned_to: number | null;
+  assignee_name: string | null;
+  resolution_note: string | null;
+  detection_count: number;
+  last_detected_at: string;
+  status_changed_at: string;
+  comment_count?: number;
+};
+
+type Comment = { id: number; author_name: string | null; body: string; created_at: string };
+type AuditEntry = { id: number; action: string; actor_id: number | null; metadata: Record<string, unknown>; created_at: string };
+type Assignee = { id: number; name: string; email: string; role: string };
+
+const STATUSES: FindingStatus[] = ["open", "acknowledged", "assigned", "resolved", "dismissed"];
+
+const STATUS_BADGE: Record<FindingStatus, string> = {
+  open: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  acknowledged: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  assigned: "bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300",
+  resolved: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+  dismissed: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300",
+};
+
+const SEVERITY_TEXT: Record<string, string> = {
+  high: "text-red-600 dark:text-red-400",
+  medium: "text-amber-600 dark:text-amber-400",
+  low: "text-slate-500 dark:text-slate-400",
+};
+
+/** Audit actions of the triage trail, as shown in the history */
+const ACTION_LABEL: Record<string, string> = {
+  CONFLICT_DETECTED: "Detected",
+  CONFLICT_ACKNOWLEDGED: "Acknowledged",
+  CONFLICT_ASSIGNED: "Assigned",
+  CONFLICT_RESOLVED: "Resolved",
+  CONFLICT_DISMISSED: "Dismissed",
+  CONFLICT_REOPENED: "Re-opened",
+};
+
+function formatDateTime(value: string): string {
+  return value
+    ? parseAsUTC(value).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })
+    : "—";
+}
+
+function SideCard({ side }: { side: FindingSide }) {
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 p-3 min-w-0">
+      <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{side.name}</p>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        {[side.section, side.page ? `p. ${side.page}` : null].filter(Boolean).join(" · ") || "Section not identified"}
+      </p>
+      {side.excerpt && (
+        <p dir="auto" className="mt-2 text-xs italic text-slate-600 dark:text-slate-300 whitespace-pre-wrap">
+          &quot;{side.excerpt}&quot;
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ConflictsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [findings, setFindings] = useState<ConflictFinding[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [statusFilter, setStatusFilter] = useState<FindingStatus | "active">("active");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState(searchParams.get("finding") ?? "");
+  const [detail, setDetail] = useState<{ finding: ConflictFinding; comments: Comment[]; history: AuditEntry[] } | null>(null);
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [assigneeId, setAssigneeId] = useState("");
+  const [justification, setJustification] = useState("");
+  const [comment, setComment] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchFindings = useCallback(async () => {
+    const params = new URLSearchParams({
+      status: statusFilter === "active" ? "open,acknowledged,assigned" : statusFilter,
+    });
+    if (mineOnly) params.set("assignee", "me");
+    try {
+      const response = await api.get<{ findings?: ConflictFinding[]; counts?: Record<string, number> }>(
+        `/conflict-findings?${params}`
+      );
+      if (response.success && response.data) {
+        setFindings(response.data.findings ?? []);
+        setCounts(response.data.counts ?? {});
+      } else {
+        toast.error(response.message ?? "Failed to load conflict findings");
+      }
+    } catch {
+      toast.error("Failed to load conflict findings");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, mineOnly]);
+
+  const fetchDetail = useCallback(async (id: string) => {
+    try {
+      const response = await api.get<{ finding?: ConflictFinding; comments?: Comment[]; history?: AuditEntry[] }>(
+        `/conflict-findings/${id}`
+      );
+      if (response.success && response.data?.finding) {
+        setDetail({ finding: response.data.finding, comments: response.data.comments ?? [], history: response.data.history ?? [] });
+      } else {
+        setDetail(null);
+        toast.error(response.message ?? "Failed to load the finding");
+      }
+    } catch {
+      setDetail(null);
+      toast.error("Failed to load the finding");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!getAuthToken()) {
+      router.replace(AUTH_LOGIN_REDIRECT);
+      return;
+    }
+    fetchFindings();
+  }, [router, fetchFindings]);
+
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    (async () => {
+      const response = await api.get<{ assignees?: Assignee[] }>("/conflict-findings/assignees");
+      if (response.success) setAssignees(response.data?.assignees ?? []);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    router.replace(`/conflicts?finding=${selectedId}`, { scroll: false });
+    fetchDetail(selectedId);
+  }, [selectedId, router, fetchDetail]);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setJustification("");
+    setAssigneeId("");
+  };
+
+  const transition = async (status: FindingStatus) => {
+    if (!detail) return;
+    if ((status === "resolved" || status === "dismissed") && !justification.trim()) {
+      toast.error(`Explain why the conflict is ${status}`);
+      return;
+    }
+    if (status === "assigned" && !assigneeId) {
+      toast.error("Choose who to assign the finding to");
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await api.post<{ finding?: ConflictFinding }>(`/conflict-findings/${detail.finding.id}/transition`, {
+        status,
+        ...(status === "assigned" ? { assigneeId: Number(assigneeId) } : {}),
+        ...(justification.trim() ? { justification: justification.trim() } : {}),
+      });
+      if (response.success) {
+        setJustification("");
+        setAssigneeId("");
+        await Promise.all([fetchDetail(detail.finding.id), fetchFindings()]);
+      } else {
+        toast.error(response.message ?? "Could not update the finding");
+      }
+    } catch {
+      toast.error("Could not update the finding");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addComment = async () => {
+    if (!detail || !comment.trim()) return;
+    setSaving(true);
+    try {
+      const response = await api.post<{ comment?: Comment }>(`/conflict-findings/${detail.finding.id}/comments`, {
+        body: comment.trim(),
+      });
+      if (response.success && response.data?.comment) {
+        const added = response.data.comment;
+        setDetail((prev) => (prev ? { ...prev, comments: [...prev.comments, added] } : prev));
+        setComment("");
+      } else {
+        toast.error(response.message ?? "Could not add the comment");
+      }
+    } catch {
+      toast.error("Could not add the comment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+      </div>
+    );
+  }
+
+  const finding = detail?.finding;
+  const userName = (id: number | null) => (id ? assignees.find((a) => a.id === id)?.name ?? `User #${id}` : "System");
+  const fieldClass =
+    "w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const buttonClass =
+    "inline-flex items-center gap-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors";
+  const tabClass = (active: boolean) =>
+    `rounded-full px-3 py-1.5 text-sm font-medium transition-colors ${
+      active
+        ? "bg-blue-600 text-white"
+        : "bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-white">
+      <AppNav />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+            <ShieldAlert className="w-7 h-7 text-blue-600 dark:text-blue-400" />
+            Conflict Triage
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400">
+            Conflicts found by conflict analyses. Acknowledge, assign, then resolve or dismiss each one with a
+            justification; a dismissed conflict is only raised again if the quoted text changes.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <button type="button" onClick={() => setStatusFilter("active")} className={tabClass(statusFilter === "active")}>
+            Needs action ({(counts.open ?? 0) + (counts.acknowledged ?? 0) + (counts.assigned ?? 0)})
+          </button>
+          {STATUSES.map((status) => (
+            <button key={status} type="button" onClick={() => setStatusFilter(status)} className={`${tabClass(statusFilter === status)} capitalize`}>
+              {status} ({counts[status] ?? 0})
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} className="rounded" />
+            Assigned to me
+          </label>
+        </div>
+
+        {findings.length === 0 ? (
+          <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-10 text-center text-slate-600 dark:text-slate-400">
+            No conflict findings here. Findings appear when a conflict analysis is run from the chat or the Analyses page.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6 items-start">
+            <ul className="space-y-2 lg:sticky lg:top-6 lg:max-h-[calc(100vh-3rem)] lg:overflow-y-auto">
+              {findings.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => select(item.id)}
+                    className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                      item.id === selectedId
+                        ? "border-blue-400 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                        : "border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 hover:border-blue-300 dark:hover:border-blue-700"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_BADGE[item.status]}`}>
+                        {item.status}
+                      </span>
+                      <span className={`text-xs font-semibold uppercase ${SEVERITY_TEXT[item.severity] ?? SEVERITY_TEXT.low}`}>
+                        {item.severity}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-800 dark:text-slate-200 line-clamp-2">{item.description}</p>
+                    <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                      <span className="truncate max-w-full">
+                        {item.document_a.name} ↔ {item.document_b.name}
+                      </span>
+                      {item.assignee_name && <span>· {item.assignee_name}</span>}
+                      {(item.comment_count ?? 0) > 0 && (
+                        <span className="inline-flex items-center gap-0.5">
+                          · <MessageSquare className="w-3 h-3" /> {item.comment_count}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <section className="min-w-0">
+              {finding && detail ? (
+                <div className="space-y-6">
+                  <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-5 space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_BADGE[finding.status]}`}>
+                        {finding.status}
+                        {finding.status === "assigned" && finding.assignee_name ? ` to ${finding.assignee_name}` : ""}
+                      </span>
+                      <span className={`text-xs font-semibold uppercase ${SEVERITY_TEXT[finding.severity] ?? SEVERITY_TEXT.low}`}>
+                        {finding.severity} · {finding.conflict_type}
+                      </span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        Detected {finding.detection_count}× · last {formatDateTime(finding.last_detected_at)}
+                      </span>
+                    </div>
+                    <p className="text-base text-slate-800 dark:text-slate-200">{finding.description}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <SideCard side={finding.document_a} />
+                      <SideCard side={finding.document_b} />
+                    </div>
+                    {finding.recommendation && (
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        <span className="font-semibold">Recommendation:</span> {finding.recommendation}
+                      </p>
+                    )}
+                    {finding.resolution_note && (
+                      <p className="rounded-lg bg-slate-50 dark:bg-slate-800/50 px-3 py-2 text-sm text-slate-700 dark:text-slate-300">
+                        <span className="font-semibold capitalize">{finding.status}:</span> {finding.resolution_note}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-5 space-y-3">
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Triage</h3>
+                    {finding.status === "resolved" || finding.status === "dismissed" ? (
+                      <button type="button" disabled={saving} onClick={() => transition("open")} className={buttonClass}>
+                        Re-open
+                      </button>
+                    ) : (
+                      <>
+                        <div className="flex flex-wrap items-center gap-2">
+                          {finding.status === "open" && (
+                            <button type="button" disabled={saving} onClick={() => transition("acknowledged")} className={buttonClass}>
+                              Acknowledge
+                            </button>
+                          )}
+                          <select
+                            value={assigneeId}
+                            onChange={(e) => setAssigneeId(e.target.value)}
+                            className={`${fieldClass} w-auto`}
+                            aria-label="Assignee"
+                          >
+                            <option value="">Assign to…</option>
+                            {assignees.map((a) => (
+                              <option key={a.id} value={a.id}>
+                                {a.name}
+                                {a.role === "admin" ? " (admin)" : ""}
+                              </option>
+                            ))}
+                          </select>
+                          <button type="button" disabled={saving || !assigneeId} onClick={() => transition("assigned")} className={buttonClass}>
+                            Assign
+                          </button>
+                        </div>
+                        <textarea
+                          value={justification}
+                          onChange={(e) => setJustification(e.target.value)}
+                          rows={2}
+                          placeholder="Justification (required to resolve or dismiss)"
+                          className={fieldClass}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <button type="button" disabled={saving} onClick={() => transition("resolved")} className={buttonClass}>
+                            Resolve
+                          </button>
+                          <button type="button" disabled={saving} onClick={() => transition("dismissed")} className={buttonClass}>
+                            Dismiss
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">
+                      Comments ({detail.comments.length})
+                    </h3>
+                    <ul className="space-y-2 mb-3">
+                      {detail.comments.map((c) => (
+                        <li key={c.id} className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-3">
+                          <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                            {c.author_name ?? "Former user"} · {formatDateTime(c.created_at)}
+                          </p>
+                          <p dir="auto" className="text-sm text-slate-800 dark:text-slate-200 whitespace-pre-wrap">
+                            {c.body}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2 items-start">
+                      <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        rows={2}
+                        placeholder="Add a comment"
+                        className={fieldClass}
+                      />
+                      <button type="button" disabled={saving || !comment.trim()} onClick={addComment} className={buttonClass}>
+                        Post
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">History</h3>
+                    <ul className="space-y-1.5 text-sm">
+                      {detail.history.map((entry) => (
+                        <li key={entry.id} className="flex flex-wrap gap-x-2 text-slate-600 dark:text-slate-400">
+                          <span className="text-slate-500">{formatDateTime(entry.created_at)}</span>
+                          <span className="font-medium text-slate-800 dark:text-slate-200">
+                            {ACTION_LABEL[entry.action] ?? entry.action}
+                          </span>
+                          {entry.action === "CONFLICT_ASSIGNED" && typeof entry.metadata.assigned_to === "number" && (
+                            <span>to {userName(entry.metadata.assigned_to)}</span>
+                          )}
+                          <span>by {userName(entry.actor_id)}</span>
+                          {entry.metadata.reason === "excerpts_changed" && <span>(quoted text changed)</span>}
+                          {typeof entry.metadata.justification === "string" && (
+                            <span className="basis-full text-slate-500 dark:text-slate-400">“{entry.metadata.justification}”</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600 dark:text-slate-400">Select a finding to triage it.</p>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function ConflictsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+          <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+        </div>
+      }
+    >
+      <ConflictsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,514 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AppNav } from "@/app/components/AppNav";
+import { ArrowLeft, ChevronDown, ChevronUp, FileText, GitCompare, Loader2 } from "lucide-react";
+import { getAuthToken, AUTH_LOGIN_REDIRECT } from "@/app/utils/auth";
+import { api } from "@/app/utils/apiClient";
+import { parseAsUTC } from "@/app/utils/date";
+import { DocumentPreviewModal, type DocumentItem } from "@/app/components/DocumentPreviewModal";
+
+/** Matches GET /document-families */
+type Family = { id: string; name: string; category: string | null; version_count: number };
+
+type FamilyVersion = { id: string; filename: string; version: number; upload_date: string; is_active: boolean };
+
+type ChangeType = "added" | "removed" | "modified" | "unchanged";
+
+type RedlineSegment = { type: "equal" | "insert" | "delete"; text: string };
+
+/** One aligned line: old segments on the left, new on the right (null = no counterpart) */
+type RedlineRow = {
+  type: "equal" | "modified" | "added" | "removed";
+  old: RedlineSegment[] | null;
+  new: RedlineSegment[] | null;
+};
+
+/** Matches a change of GET /document-families/:id/compare (see backend utils/structuralDiff) */
+type SectionChange = {
+  change_type: ChangeType;
+  section_name: string | null;
+  old_ref: string | null;
+  new_ref: string | null;
+  path: string[];
+  old_page: number | null;
+  new_page: number | null;
+  old_content?: string;
+  new_content?: string;
+  similarity_score?: number;
+  renumbered: boolean;
+  moved: boolean;
+  redline?: RedlineRow[];
+};
+
+type ComparedVersion = { id: string; version: number; filename: string; upload_date: string };
+
+type Comparison = {
+  family: { id: string; name: string; category: string | null };
+  version1: ComparedVersion;
+  version2: ComparedVersion;
+  statistics: {
+    chunks_added: number;
+    chunks_removed: number;
+    chunks_modified: number;
+    chunks_unchanged: number;
+    sections_renumbered?: number;
+    sections_moved?: number;
+    alignment?: "structural" | "text";
+  };
+  changes: SectionChange[];
+  summary: string;
+};
+
+const CHANGE_STYLE: Record<ChangeType, { label: string; dot: string; badge: string; border: string }> = {
+  added: {
+    label: "Added",
+    dot: "bg-emerald-500",
+    badge: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+    border: "border-emerald-200 dark:border-emerald-800",
+  },
+  removed: {
+    label: "Removed",
+    dot: "bg-red-500",
+    badge: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+    border: "border-red-200 dark:border-red-800",
+  },
+  modified: {
+    label: "Modified",
+    dot: "bg-amber-500",
+    badge: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+    border: "border-amber-200 dark:border-amber-800",
+  },
+  unchanged: {
+    label: "Unchanged",
+    dot: "bg-slate-400",
+    badge: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400",
+    border: "border-slate-200 dark:border-slate-800",
+  },
+};
+
+const SEGMENT_CLASS: Record<RedlineSegment["type"], string> = {
+  equal: "",
+  delete: "bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 line-through decoration-red-500/70",
+  insert: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200",
+};
+
+/** "S. 6 (was S. 5)" / "Definitions" */
+function changeLabel(change: SectionChange): string {
+  const ref = change.new_ref ?? change.old_ref ?? "Untitled section";
+  return change.renumbered && change.old_ref ? `${ref} (was ${change.old_ref})` : ref;
+}
+
+/** Side-by-side rows for a change: the redline, or the whole section on one side */
+function changeRows(change: SectionChange): RedlineRow[] {
+  if (change.redline) return change.redline;
+  const lines = (text?: string) => (text ?? "").split("\n").filter((line) => line.trim());
+  if (change.change_type === "added") {
+    return lines(change.new_content).map((text) => ({ type: "added", old: null, new: [{ type: "insert", text }] }));
+  }
+  if (change.change_type === "removed") {
+    return lines(change.old_content).map((text) => ({ type: "removed", old: [{ type: "delete", text }], new: null }));
+  }
+  return lines(change.new_content).map((text) => ({ type: "equal", old: [{ type: "equal", text }], new: [{ type: "equal", text }] }));
+}
+
+function RedlineCell({ segments, side }: { segments: RedlineSegment[] | null; side: "old" | "new" }) {
+  if (!segments) {
+    return <div className="bg-slate-50 dark:bg-slate-950/60" aria-hidden />;
+  }
+  return (
+    <div className={`px-3 py-1.5 whitespace-pre-wrap break-words ${side === "old" ? "" : "border-l border-slate-200 dark:border-slate-800"}`}>
+      {segments.map((segment, i) => (
+        <span key={i} className={SEGMENT_CLASS[segment.type]}>
+          {segment.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function formatDate(value: string): string {
+  return value
+    ? parseAsUTC(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+    : "—";
+}
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [familyId, setFamilyId] = useState(searchParams.get("family") ?? "");
+  const [versions, setVersions] = useState<FamilyVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState(searchParams.get("from") ?? "");
+  const [toVersion, setToVersion] = useState(searchParams.get("to") ?? "");
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ document: DocumentItem; page: number | null } | null>(null);
+
+  useEffect(() => {
+    if (!getAuthToken()) {
+      router.replace(AUTH_LOGIN_REDIRECT);
+      return;
+    }
+    (async () => {
+      try {
+        const response = await api.get<{ families?: Family[] }>("/document-families");
+        if (response.success && response.data?.families) {
+          setFamilies(response.data.families.filter((f) => f.version_count > 1));
+        } else {
+          setError(response.message ?? "Failed to load documents.");
+        }
+      } catch (err) {
+        console.error(err);
+        setError("Failed to load documents. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [router]);
+
+  // Versions of the selected document; keep the requested pair when it exists, else the newest (or requested) version vs. the one before it
+  useEffect(() => {
+    if (!familyId) return;
+    (async () => {
+      const response = await api.get<{ versions?: FamilyVersion[] }>(`/document-families/${familyId}`);
+      if (!response.success || !response.data?.versions) {
+        setError(response.message ?? "Failed to load versions.");
+        setVersions([]);
+        return;
+      }
+      const list = response.data.versions;
+      const has = (v: string) => list.some((item) => String(item.version) === v);
+      // The first version is compared with the second
+      const requested = list.findIndex((item) => String(item.version) === toVersion);
+      const toIndex = requested >= 0 ? Math.max(requested, 1) : list.length - 1;
+      setVersions(list);
+      setToVersion(String(list[toIndex]?.version ?? ""));
+      setFromVersion(has(fromVersion) ? fromVersion : String(list[Math.max(toIndex - 1, 0)]?.version ?? ""));
+    })();
+  }, [familyId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (!familyId || !fromVersion || !toVersion || versions.length === 0) return;
+    router.replace(`/documents/compare?family=${familyId}&from=${fromVersion}&to=${toVersion}`, { scroll: false });
+    if (fromVersion === toVersion) {
+      setComparison(null);
+      setError("Choose two different versions to compare.");
+      return;
+    }
+    (async () => {
+      setComparing(true);
+      setError(null);
+      setActiveIndex(null);
+      try {
+        const response = await api.get<{ comparison?: Comparison }>(
+          `/document-families/${familyId}/compare?from=${fromVersion}&to=${toVersion}`
+        );
+        if (response.success && response.data?.comparison) {
+          setComparison(response.data.comparison);
+        } else {
+          setComparison(null);
+          setError(response.message ?? "Failed to compare versions.");
+        }
+      } catch (err) {
+        console.error(err);
+        setComparison(null);
+        setError("Failed to compare versions. Please try again.");
+      } finally {
+        setComparing(false);
+      }
+    })();
+  }, [familyId, fromVersion, toVersion, versions.length, router]);
+
+  // Keep each change's position in the full list so anchors stay stable when unchanged sections are hidden
+  const visible = useMemo(
+    () =>
+      (comparison?.changes ?? [])
+        .map((change, index) => ({ change, index }))
+        .filter(({ change }) => showUnchanged || change.change_type !== "unchanged" || change.moved),
+    [comparison, showUnchanged]
+  );
+  const changed = visible.filter(({ change }) => change.change_type !== "unchanged" || change.moved);
+
+  const jumpTo = (index: number) => {
+    setActiveIndex(index);
+    document.getElementById(`change-${index}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const step = (direction: 1 | -1) => {
+    if (changed.length === 0) return;
+    const position = changed.findIndex(({ index }) => index === activeIndex);
+    const next = position < 0 ? (direction === 1 ? 0 : changed.length - 1) : (position + direction + changed.length) % changed.length;
+    jumpTo(changed[next].index);
+  };
+
+  const openPreview = (version: ComparedVersion, page: number | null) => {
+    setPreview({
+      document: {
+        id: version.id,
+        name: version.filename,
+        type: comparison?.family.category ?? "other",
+        version: String(version.version),
+        upload_date: version.upload_date,
+        is_latest: versions.some((v) => v.id === version.id && v.is_active),
+      },
+      page,
+    });
+  };
+
+  const pageLink = (version: ComparedVersion, page: number | null) => (
+    <button
+      type="button"
+      onClick={() => openPreview(version, page)}
+      className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+      title={`Open v${version.version}${page ? ` at page ${page}` : ""}`}
+    >
+      <FileText className="w-3.5 h-3.5" />
+      {page ? `p. ${page}` : "Open"}
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+      </div>
+    );
+  }
+
+  const stats = comparison?.statistics;
+  const selectClass =
+    "rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-white">
+      <AppNav />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <Link
+          href="/documents"
+          className="inline-flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Document Library
+        </Link>
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <GitCompare className="w-7 h-7 text-blue-600 dark:text-blue-400" />
+              Compare Versions
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              Sections are matched by number first, then by text, so renumbered and moved sections are shown as such.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={familyId}
+              onChange={(e) => {
+                setComparison(null);
+                setVersions([]);
+                setFromVersion("");
+                setToVersion("");
+                setFamilyId(e.target.value);
+              }}
+              className={selectClass}
+              aria-label="Document"
+            >
+              <option value="">Select a document…</option>
+              {families.map((family) => (
+                <option key={family.id} value={family.id}>
+                  {family.name} ({family.version_count} versions)
+                </option>
+              ))}
+            </select>
+            <select value={fromVersion} onChange={(e) => setFromVersion(e.target.value)} className={selectClass} aria-label="Old version" disabled={versions.length === 0}>
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>
+                  v{v.version} · {v.filename}
+                </option>
+              ))}
+            </select>
+            <span className="text-slate-400">→</span>
+            <select value={toVersion} onChange={(e) => setToVersion(e.target.value)} className={selectClass} aria-label="New version" disabled={versions.length === 0}>
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>
+                  v{v.version} · {v.filename}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 px-4 py-3 text-sm border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        {!familyId && families.length === 0 && !error && (
+          <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-12 text-center">
+            <GitCompare className="w-12 h-12 text-slate-400 dark:text-slate-500 mx-auto mb-4" />
+            <p className="text-lg font-medium text-slate-700 dark:text-slate-300">No document has more than one version yet</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Upload a new version of a document to compare it with the previous one.</p>
+          </div>
+        )}
+
+        {comparing && (
+          <div className="flex items-center justify-center gap-3 py-16 text-slate-600 dark:text-slate-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            Comparing versions…
+          </div>
+        )}
+
+        {!comparing && comparison && stats && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+              <span className={`px-2.5 py-1 rounded-lg font-medium ${CHANGE_STYLE.added.badge}`}>{stats.chunks_added} added</span>
+              <span className={`px-2.5 py-1 rounded-lg font-medium ${CHANGE_STYLE.removed.badge}`}>{stats.chunks_removed} removed</span>
+              <span className={`px-2.5 py-1 rounded-lg font-medium ${CHANGE_STYLE.modified.badge}`}>{stats.chunks_modified} modified</span>
+              {!!stats.sections_renumbered && (
+                <span className="px-2.5 py-1 rounded-lg font-medium bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300">
+                  {stats.sections_renumbered} renumbered
+                </span>
+              )}
+              {!!stats.sections_moved && (
+                <span className="px-2.5 py-1 rounded-lg font-medium bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+                  {stats.sections_moved} moved
+                </span>
+              )}
+              <span className="text-slate-500 dark:text-slate-400">
+                {stats.chunks_unchanged} unchanged
+                {stats.alignment === "text" && " · matched by text (no numbered sections detected)"}
+              </span>
+              <label className="ml-auto inline-flex items-center gap-2 text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="rounded" />
+                Show unchanged sections
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-[16rem_minmax(0,1fr)] gap-6 items-start">
+              {/* Change list */}
+              <aside className="lg:sticky lg:top-20 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 overflow-hidden">
+                <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 dark:border-slate-800">
+                  <span className="text-sm font-semibold">Changes ({changed.length})</span>
+                  <div className="flex gap-1">
+                    <button type="button" onClick={() => step(-1)} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-800" aria-label="Previous change">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => step(1)} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-800" aria-label="Next change">
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <nav className="max-h-[calc(100vh-10rem)] overflow-y-auto py-1">
+                  {visible.length === 0 && <p className="px-3 py-4 text-sm text-slate-500 dark:text-slate-400">No differences.</p>}
+                  {visible.map(({ change, index }) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => jumpTo(index)}
+                      className={`w-full flex items-start gap-2 px-3 py-1.5 text-left text-sm transition-colors ${
+                        activeIndex === index
+                          ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                          : "hover:bg-slate-50 dark:hover:bg-slate-800/50 text-slate-700 dark:text-slate-300"
+                      }`}
+                    >
+                      <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${CHANGE_STYLE[change.change_type].dot}`} />
+                      <span className="min-w-0">
+                        <span className="block truncate">{changeLabel(change)}</span>
+                        {(change.moved || change.path.length > 0) && (
+                          <span className="block truncate text-xs text-slate-500 dark:text-slate-400">
+                            {[change.moved ? "moved" : null, change.path.join(" › ") || null].filter(Boolean).join(" · ")}
+                          </span>
+                        )}
+                      </span>
+                    </button>
+                  ))}
+                </nav>
+              </aside>
+
+              {/* Two-pane redline: both panes share each row, so they scroll together and stay aligned */}
+              <section className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 overflow-hidden">
+                <div className="sticky top-14 z-10 grid grid-cols-2 text-sm font-semibold bg-slate-100 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+                  {[comparison.version1, comparison.version2].map((version, i) => (
+                    <div key={version.id} className={`flex items-center justify-between gap-2 px-3 py-2 ${i === 1 ? "border-l border-slate-200 dark:border-slate-700" : ""}`}>
+                      <span className="truncate" title={version.filename}>
+                        v{version.version} · {version.filename}
+                        <span className="ml-2 font-normal text-xs text-slate-500 dark:text-slate-400">{formatDate(version.upload_date)}</span>
+                      </span>
+                      {pageLink(version, null)}
+                    </div>
+                  ))}
+                </div>
+
+                {visible.map(({ change, index }) => {
+                  const style = CHANGE_STYLE[change.change_type];
+                  return (
+                    <article
+                      key={index}
+                      id={`change-${index}`}
+                      className={`scroll-mt-28 border-b last:border-b-0 ${style.border} ${activeIndex === index ? "ring-2 ring-inset ring-blue-400" : ""}`}
+                    >
+                      <header className="grid grid-cols-2 text-sm bg-slate-50 dark:bg-slate-950/40">
+                        <div className="flex items-center justify-between gap-2 px-3 py-2">
+                          <span className="font-medium truncate">{change.old_ref ?? "—"}</span>
+                          {change.change_type !== "added" && pageLink(comparison.version1, change.old_page)}
+                        </div>
+                        <div className="flex items-center justify-between gap-2 px-3 py-2 border-l border-slate-200 dark:border-slate-800">
+                          <span className="flex items-center gap-2 min-w-0">
+                            <span className="font-medium truncate">{change.new_ref ?? "—"}</span>
+                            <span className={`text-xs px-2 py-0.5 rounded ${style.badge}`}>{style.label}</span>
+                            {change.renumbered && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300">Renumbered</span>
+                            )}
+                            {change.moved && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">Moved</span>
+                            )}
+                          </span>
+                          {change.change_type !== "removed" && pageLink(comparison.version2, change.new_page)}
+                        </div>
+                      </header>
+                      <div className="text-sm leading-relaxed text-slate-700 dark:text-slate-300">
+                        {changeRows(change).map((row, i) => (
+                          <div key={i} className="grid grid-cols-2">
+                            <RedlineCell segments={row.old} side="old" />
+                            <RedlineCell segments={row.new} side="new" />
+                          </div>
+                        ))}
+                      </div>
+                    </article>
+                  );
+                })}
+              </section>
+            </div>
+          </>
+        )}
+      </main>
+
+      {preview && (
+        <DocumentPreviewModal document={preview.document} page={preview.page} onClose={() => setPreview(null)} />
+      )}
+    </div>
+  );
+}
+
+export default function CompareVersionsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex items-center justify-center">
+          <Loader2 className="w-10 h-10 animate-spin text-blue-600 dark:text-blue-400" />
+        </div>
+      }
+    >
+      <CompareContent />
+    </Suspense>
+  );
+}
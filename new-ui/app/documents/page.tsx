@@ -12,23 +12,41 @@ import {
   Loader2,
   ToggleLeft,
   ToggleRight,
+  CalendarDays,
+  GitCompare,
+  Gavel,
 } from "lucide-react";
 import { getAuthToken, isAdminUser, AUTH_LOGIN_REDIRECT } from "@/app/utils/auth";
 import { api } from "@/app/utils/apiClient";
 import { parseAsUTC } from "@/app/utils/date";
+import {
+  DISPOSITION_LABELS,
+  DISPOSITION_STYLES,
+  formatDecisionDate,
+  hasJudgmentMetadata,
+  type Disposition,
+  type JudgmentMetadata,
+} from "@/app/utils/judgment";
 import { DocumentPreviewModal } from "@/app/components/DocumentPreviewModal";
 import { PageTour } from "@/app/components/PageTour";
 
 type DocType = "contract" | "regulation" | "case_law" | "policy" | "guideline" | "other";
 
-/** Matches backend list: id, filename, category, version, is_active, upload_date */
+/** Matches backend list: id, filename, category, version, is_active, upload_date, family_name, effective dates, judgment */
 type DocumentItem = {
   id: string;
   name: string;
+  family: string;
+  family_id: string | null;
   type: string;
   version: string;
   upload_date: string;
   is_latest: boolean;
+  effective_from: string;
+  effective_to: string;
+  in_force_from: string | null;
+  in_force_to: string | null;
+  judgment: JudgmentMetadata | null;
 };
 
 type ApiDocument = {
@@ -38,18 +56,68 @@ type ApiDocument = {
   version?: string | number;
   is_active?: boolean;
   upload_date?: string;
+  family_id?: string | null;
+  family_name?: string | null;
+  effective_from?: string | null;
+  effective_to?: string | null;
+  in_force_from?: string | null;
+  in_force_to?: string | null;
+  judgment?: JudgmentMetadata | null;
 };
 function mapDocFromApi(doc: ApiDocument): DocumentItem {
   return {
     id: doc.id,
     name: doc.filename ?? "Document",
+    family: doc.family_name ?? doc.filename ?? "Document",
+    family_id: doc.family_id ?? null,
     type: doc.category ?? "other",
     version: doc.version != null ? String(doc.version) : "—",
     upload_date: doc.upload_date ?? "",
     is_latest: doc.is_active ?? false,
+    effective_from: doc.effective_from ?? "",
+    effective_to: doc.effective_to ?? "",
+    in_force_from: doc.in_force_from ?? null,
+    in_force_to: doc.in_force_to ?? null,
+    judgment: hasJudgmentMetadata(doc.judgment) ? doc.judgment : null,
   };
 }
 
+/** Judgment filters sent to GET /documents as query params */
+type JudgmentFilterForm = {
+  court: string;
+  judge: string;
+  party: string;
+  disposition: "" | Disposition;
+  decidedFrom: string;
+  decidedTo: string;
+};
+
+const EMPTY_JUDGMENT_FILTERS: JudgmentFilterForm = {
+  court: "",
+  judge: "",
+  party: "",
+  disposition: "",
+  decidedFrom: "",
+  decidedTo: "",
+};
+
+function judgmentQuery(filters: JudgmentFilterForm): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** "Mar 1, 2019 – Jun 30, 2021" / "Since Mar 1, 2019" (dates are YYYY-MM-DD) */
+function formatInForce(from: string | null, to: string | null): string {
+  const format = (day: string) =>
+    new Date(`${day}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  if (!from) return "—";
+  return to ? `${format(from)} – ${format(to)}` : `Since ${format(from)}`;
+}
+
 type TabId = "all" | "latest" | "outdated";
 
 const DEFAULT_TYPE_CONFIG = {
@@ -116,6 +184,12 @@ export default function DocumentsPage() {
   const [deleteTarget, setDeleteTarget] = useState<DocumentItem | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [previewDocument, setPreviewDocument] = useState<DocumentItem | null>(null);
+  const [datesTarget, setDatesTarget] = useState<DocumentItem | null>(null);
+  const [datesForm, setDatesForm] = useState({ effectiveFrom: "", effectiveTo: "" });
+  const [savingDates, setSavingDates] = useState(false);
+  const [judgmentForm, setJudgmentForm] = useState<JudgmentFilterForm>(EMPTY_JUDGMENT_FILTERS);
+  const [judgmentFilters, setJudgmentFilters] = useState<JudgmentFilterForm>(EMPTY_JUDGMENT_FILTERS);
+  const [courtOptions, setCourtOptions] = useState<string[]>([]);
 
   useEffect(() => {
     setIsAdmin(isAdminUser());
@@ -132,9 +206,13 @@ export default function DocumentsPage() {
     setLoading(true);
     setError(null);
     try {
-      const response = await api.get<{ documents?: ApiDocument[] }>("/documents");
+      const response = await api.get<{ documents?: ApiDocument[] }>(`/documents${judgmentQuery(judgmentFilters)}`);
       if (response.success && response.data?.documents != null) {
-        setDocuments(response.data.documents.map((d: ApiDocument) => mapDocFromApi(d)));
+        const items = response.data.documents.map((d: ApiDocument) => mapDocFromApi(d));
+        setDocuments(items);
+        // Courts seen so far; options only grow so a filtered list keeps the others selectable
+        const courts = items.map((d) => d.judgment?.court).filter((c): c is string => !!c);
+        setCourtOptions((prev) => [...new Set([...prev, ...courts])].sort());
       } else {
         setError(response.message ?? "Failed to load documents.");
         setDocuments([]);
@@ -154,7 +232,9 @@ export default function DocumentsPage() {
       return;
     }
     fetchDocuments();
-  }, [router]);
+  }, [router, judgmentFilters]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const judgmentFiltersActive = Object.values(judgmentFilters).some((value) => value !== "");
 
   const filtered = documents.filter((doc) => {
     if (activeTab === "latest") return doc.is_latest;
@@ -163,6 +243,8 @@ export default function DocumentsPage() {
   });
 
   const latestCount = documents.filter((d) => d.is_latest).length;
+  const hasOtherVersions = (doc: DocumentItem) =>
+    !!doc.family_id && documents.some((d) => d.family_id === doc.family_id && d.id !== doc.id);
 
   const handleToggleActive = async (doc: DocumentItem) => {
     if (!isAdmin) return;
@@ -183,6 +265,34 @@ export default function DocumentsPage() {
     }
   };
 
+  const openDatesEditor = (doc: DocumentItem) => {
+    setDatesForm({ effectiveFrom: doc.effective_from, effectiveTo: doc.effective_to });
+    setDatesTarget(doc);
+  };
+
+  const handleSaveDates = async () => {
+    if (!datesTarget) return;
+    setSavingDates(true);
+    try {
+      const response = await api.put(`/documents/${datesTarget.id}/effective-dates`, {
+        effectiveFrom: datesForm.effectiveFrom || null,
+        effectiveTo: datesForm.effectiveTo || null,
+      });
+      if (response.success) {
+        setDatesTarget(null);
+        await fetchDocuments();
+        setSuccessMessage("Effective dates updated.");
+      } else {
+        setError(response.message ?? "Failed to update effective dates.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Failed to update effective dates.");
+    } finally {
+      setSavingDates(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteTarget) return;
     setDeleting(deleteTarget.id);
@@ -289,12 +399,122 @@ export default function DocumentsPage() {
           ))}
         </div>
 
+        {/* Judgment filters — shown once any judgment has extracted metadata */}
+        {(courtOptions.length > 0 || judgmentFiltersActive) && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setJudgmentFilters(judgmentForm);
+            }}
+            className="mb-6 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-4"
+          >
+            <div className="flex items-center gap-2 mb-3 text-sm font-medium text-slate-700 dark:text-slate-300">
+              <Gavel className="w-4 h-4" />
+              Judgments
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Court
+                <select
+                  value={judgmentForm.court}
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, court: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any court</option>
+                  {courtOptions.map((court) => (
+                    <option key={court} value={court}>
+                      {court}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Judge
+                <input
+                  type="text"
+                  value={judgmentForm.judge}
+                  placeholder="e.g. Mansoor Ali Shah"
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, judge: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Party
+                <input
+                  type="text"
+                  value={judgmentForm.party}
+                  placeholder="Appellant or respondent"
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, party: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Disposition
+                <select
+                  value={judgmentForm.disposition}
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, disposition: e.target.value as JudgmentFilterForm["disposition"] }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any outcome</option>
+                  {(Object.keys(DISPOSITION_LABELS) as Disposition[]).map((disposition) => (
+                    <option key={disposition} value={disposition}>
+                      {DISPOSITION_LABELS[disposition]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Decided from
+                <input
+                  type="date"
+                  value={judgmentForm.decidedFrom}
+                  max={judgmentForm.decidedTo || undefined}
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, decidedFrom: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block text-xs text-slate-500 dark:text-slate-400">
+                Decided to
+                <input
+                  type="date"
+                  value={judgmentForm.decidedTo}
+                  min={judgmentForm.decidedFrom || undefined}
+                  onChange={(e) => setJudgmentForm((prev) => ({ ...prev, decidedTo: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              {judgmentFiltersActive && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setJudgmentForm(EMPTY_JUDGMENT_FILTERS);
+                    setJudgmentFilters(EMPTY_JUDGMENT_FILTERS);
+                  }}
+                  className="px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 font-medium"
+                >
+                  Clear
+                </button>
+              )}
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium"
+              >
+                Apply
+              </button>
+            </div>
+          </form>
+        )}
+
         {filtered.length === 0 ? (
           <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-12 text-center">
             <FileText className="w-12 h-12 text-slate-400 dark:text-slate-500 mx-auto mb-4" />
             <p className="text-lg font-medium text-slate-700 dark:text-slate-300">No documents found</p>
             <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-              {activeTab === "all"
+              {judgmentFiltersActive
+                ? "No judgments match these filters."
+                : activeTab === "all"
                 ? "Upload a document to get started."
                 : "No documents match this filter."}
             </p>
@@ -368,14 +588,94 @@ export default function DocumentsPage() {
                             : "—"}
                         </dd>
                       </div>
+                      <div className="flex justify-between items-center gap-2">
+                        <dt className="text-slate-500 dark:text-slate-400">Document</dt>
+                        <dd className="text-slate-700 dark:text-slate-300 font-medium truncate" title={doc.family}>
+                          {doc.family}
+                        </dd>
+                      </div>
                       <div className="flex justify-between items-center gap-2">
                         <dt className="text-slate-500 dark:text-slate-400">Version</dt>
                         <dd className="text-slate-700 dark:text-slate-300 font-medium">
                           v{doc.version}
                         </dd>
                       </div>
+                      <div className="flex justify-between items-center gap-2">
+                        <dt className="text-slate-500 dark:text-slate-400">In force</dt>
+                        <dd className="text-slate-700 dark:text-slate-300 font-medium text-right">
+                          {formatInForce(doc.in_force_from, doc.in_force_to)}
+                        </dd>
+                      </div>
+                      {doc.judgment?.court && (
+                        <div className="flex justify-between items-center gap-2">
+                          <dt className="text-slate-500 dark:text-slate-400">Court</dt>
+                          <dd className="text-slate-700 dark:text-slate-300 font-medium truncate" title={doc.judgment.court}>
+                            {doc.judgment.court}
+                          </dd>
+                        </div>
+                      )}
+                      {doc.judgment?.caseNumber && (
+                        <div className="flex justify-between items-center gap-2">
+                          <dt className="text-slate-500 dark:text-slate-400">Case</dt>
+                          <dd className="text-slate-700 dark:text-slate-300 font-medium truncate" title={doc.judgment.caseNumber}>
+                            {doc.judgment.caseNumber}
+                          </dd>
+                        </div>
+                      )}
+                      {doc.judgment?.decisionDate && (
+                        <div className="flex justify-between items-center gap-2">
+                          <dt className="text-slate-500 dark:text-slate-400">Decided</dt>
+                          <dd className="text-slate-700 dark:text-slate-300 font-medium">
+                            {formatDecisionDate(doc.judgment.decisionDate)}
+                          </dd>
+                        </div>
+                      )}
+                      {doc.judgment?.disposition && (
+                        <div className="flex justify-between items-center gap-2">
+                          <dt className="text-slate-500 dark:text-slate-400">Outcome</dt>
+                          <dd>
+                            <span className={`inline-block text-xs font-medium px-2 py-0.5 rounded ${DISPOSITION_STYLES[doc.judgment.disposition]}`}>
+                              {DISPOSITION_LABELS[doc.judgment.disposition]}
+                            </span>
+                          </dd>
+                        </div>
+                      )}
                     </dl>
 
+                    {/* Compare with the previous version (or the next, for the first version) */}
+                    {hasOtherVersions(doc) && (
+                      <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            router.push(`/documents/compare?family=${doc.family_id}&to=${doc.version}`);
+                          }}
+                          className="flex items-center gap-2 w-full text-left text-sm text-slate-600 dark:text-slate-300 rounded-lg py-2 px-3 transition-colors hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                        >
+                          <GitCompare className="w-4 h-4 flex-shrink-0" />
+                          Compare versions
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Effective dates — admin only */}
+                    {isAdminUser() && (
+                      <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openDatesEditor(doc);
+                          }}
+                          className="flex items-center gap-2 w-full text-left text-sm text-slate-600 dark:text-slate-300 rounded-lg py-2 px-3 transition-colors hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                        >
+                          <CalendarDays className="w-4 h-4 flex-shrink-0" />
+                          Effective dates
+                        </button>
+                      </div>
+                    )}
+
                     {/* Active / Inactive — admin only */}
                     {isAdminUser() && (
                       <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
@@ -442,6 +742,57 @@ export default function DocumentsPage() {
         />
       )}
 
+      {/* Effective dates editor */}
+      {datesTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+          <div className="bg-white dark:bg-slate-900 rounded-xl shadow-xl border border-slate-200 dark:border-slate-800 w-full max-w-sm p-6">
+            <h2 className="text-lg font-semibold mb-1">Effective dates</h2>
+            <p className="text-slate-600 dark:text-slate-400 text-sm mb-4">
+              {datesTarget.family} v{datesTarget.version}. Leave commencement empty to use the upload date; a version stays in force until the next version commences unless it was repealed earlier.
+            </p>
+            <div className="space-y-3 mb-6">
+              <label className="block text-sm text-slate-700 dark:text-slate-300">
+                Commencement
+                <input
+                  type="date"
+                  value={datesForm.effectiveFrom}
+                  onChange={(e) => setDatesForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block text-sm text-slate-700 dark:text-slate-300">
+                Repealed on
+                <input
+                  type="date"
+                  value={datesForm.effectiveTo}
+                  min={datesForm.effectiveFrom || undefined}
+                  onChange={(e) => setDatesForm((prev) => ({ ...prev, effectiveTo: e.target.value }))}
+                  className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDatesTarget(null)}
+                disabled={savingDates}
+                className="flex-1 px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 font-medium disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveDates}
+                disabled={savingDates}
+                className="flex-1 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+              >
+                {savingDates ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete confirmation */}
       {deleteTarget && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
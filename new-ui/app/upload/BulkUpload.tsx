@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { FolderArchive, FileSpreadsheet, Loader2, CheckCircle, AlertCircle, MinusCircle } from "lucide-react";
+import { api } from "@/app/utils/apiClient";
+
+type BulkUploadResult = {
+  file: string;
+  category?: string;
+  categorySource?: "manifest" | "folder" | "default";
+  status: "queued" | "skipped";
+  jobId?: string;
+  reason?: string;
+};
+
+type BulkUploadResponse = {
+  summary: { total: number; queued: number; skipped: number };
+  results: BulkUploadResult[];
+};
+
+type BulkUploadProps = {
+  categories: string[];
+};
+
+const CATEGORY_SOURCE_LABELS: Record<NonNullable<BulkUploadResult["categorySource"]>, string> = {
+  manifest: "manifest",
+  folder: "folder name",
+  default: "fallback",
+};
+
+export function BulkUpload({ categories }: BulkUploadProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [fallbackCategory, setFallbackCategory] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<BulkUploadResponse | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) {
+      setErrorMessage("Please select files or a ZIP archive.");
+      return;
+    }
+
+    setSubmitting(true);
+    setErrorMessage(null);
+    setReport(null);
+
+    const formData = new FormData();
+    files.forEach((f) => formData.append("files", f));
+    if (manifest) formData.append("manifest", manifest);
+    if (fallbackCategory) formData.append("category", fallbackCategory);
+
+    try {
+      const response = await api.postFormData<BulkUploadResponse>("/upload/bulk", formData);
+      if (response.success && response.data) {
+        setReport(response.data);
+        setFiles([]);
+        setManifest(null);
+        const inputs = ["bulk-files-input", "bulk-manifest-input"].map((id) => document.getElementById(id) as HTMLInputElement | null);
+        inputs.forEach((input) => {
+          if (input) input.value = "";
+        });
+      } else {
+        setErrorMessage(response.message ?? "Bulk upload failed. Please try again.");
+      }
+    } catch (err) {
+      setErrorMessage("Bulk upload failed. Please try again.");
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 space-y-6">
+        <div>
+          <label htmlFor="bulk-files-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+            Files or ZIP archives
+          </label>
+          <label className="flex items-center justify-center gap-2 px-4 py-6 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 hover:border-blue-500 dark:hover:border-blue-500 bg-slate-50 dark:bg-slate-800/50 cursor-pointer transition-colors">
+            <FolderArchive className="w-6 h-6 text-slate-500 dark:text-slate-400" />
+            <span className="text-sm text-slate-600 dark:text-slate-400">
+              {files.length ? `${files.length} file${files.length === 1 ? "" : "s"} selected` : "Choose documents or ZIP"}
+            </span>
+            <input
+              id="bulk-files-input"
+              type="file"
+              multiple
+              accept=".pdf,.docx,.jpg,.jpeg,.png,.tiff,.webp,.zip"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              className="hidden"
+            />
+          </label>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Inside a ZIP, folders named after a category (e.g. &quot;Provincial Legislation - Acts&quot;) set the category of the files they contain.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="bulk-manifest-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+            Manifest <span className="text-slate-400">(optional)</span>
+          </label>
+          <label className="flex items-center gap-2 px-3 py-2.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 cursor-pointer">
+            <FileSpreadsheet className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+            <span className="text-sm text-slate-600 dark:text-slate-400">{manifest ? manifest.name : "Choose CSV or JSON"}</span>
+            <input
+              id="bulk-manifest-input"
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => setManifest(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+          </label>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            CSV with <code>file,category</code> columns or JSON <code>{"{ \"file.pdf\": \"Category\" }"}</code>. A manifest.csv/manifest.json at the root of the ZIP is also used.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="bulk-fallback-category" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+            Fallback category <span className="text-slate-400">(optional)</span>
+          </label>
+          <select
+            id="bulk-fallback-category"
+            value={fallbackCategory}
+            onChange={(e) => setFallbackCategory(e.target.value)}
+            className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">None — skip files without a category</option>
+            {categories.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="flex items-center gap-2 rounded-lg px-4 py-3 text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>{errorMessage}</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-800 text-sm">
+            <span className="font-medium">{report.summary.queued}</span> of {report.summary.total} files queued for ingestion
+            {report.summary.skipped > 0 && <span className="text-amber-600 dark:text-amber-400"> · {report.summary.skipped} skipped</span>}
+          </div>
+          <ul className="divide-y divide-slate-200 dark:divide-slate-800 max-h-96 overflow-y-auto">
+            {report.results.map((result, index) => (
+              <li key={`${result.file}-${index}`} className="flex items-start gap-3 px-4 py-2.5 text-sm">
+                {result.status === "queued" ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-emerald-600 dark:text-emerald-400" />
+                ) : (
+                  <MinusCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600 dark:text-amber-400" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate">{result.file}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {result.status === "queued"
+                      ? `${result.category}${result.categorySource ? ` (from ${CATEGORY_SOURCE_LABELS[result.categorySource]})` : ""}`
+                      : result.reason}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-70 disabled:cursor-not-allowed text-white font-medium"
+      >
+        {submitting ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Uploading…
+          </>
+        ) : (
+          <>
+            <FolderArchive className="w-5 h-5" />
+            Upload all
+          </>
+        )}
+      </button>
+    </form>
+  );
+}
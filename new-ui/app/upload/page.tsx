@@ -4,9 +4,10 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { AppNav } from "@/app/components/AppNav";
 import { PageTour } from "@/app/components/PageTour";
-import { Upload, FileText, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload, FileText, Loader2, CheckCircle, AlertCircle, RotateCcw } from "lucide-react";
 import { getAuthToken, isAdminUser, AUTH_LOGIN_REDIRECT } from "@/app/utils/auth";
 import { api } from "@/app/utils/apiClient";
+import { BulkUpload } from "@/app/upload/BulkUpload";
 
 /** Fallback when API fails or before load; matches backend default_categories seed. */
 const DEFAULT_CATEGORY_NAMES = [
@@ -30,17 +31,61 @@ const DEFAULT_CATEGORY_NAMES = [
 ];
 
 type CategoryItem = { id: number | string; name: string; type: "default" | "custom" };
-type SubmitState = "idle" | "loading" | "success" | "error";
+type DocumentFamily = { id: string; name: string; category: string | null; version_count: number; latest_version: number | null };
+type SubmitState = "idle" | "loading" | "processing" | "success" | "error";
+
+type IngestionJobStatus = "queued" | "parsing" | "ocr" | "chunking" | "embedding" | "stored" | "failed";
+type IngestionJob = {
+  id: string;
+  filename?: string;
+  status: IngestionJobStatus;
+  progress: number;
+  current_page?: number | null;
+  total_pages?: number | null;
+  chunks_total?: number | null;
+  chunks_embedded?: number | null;
+  error?: string | null;
+  document_id?: string | null;
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const JOB_STAGE_LABELS: Record<IngestionJobStatus, string> = {
+  queued: "Queued",
+  parsing: "Parsing",
+  ocr: "Running OCR",
+  chunking: "Chunking",
+  embedding: "Embedding",
+  stored: "Stored",
+  failed: "Failed",
+};
+
+function jobDetail(job: IngestionJob): string {
+  if ((job.status === "parsing" || job.status === "ocr") && job.total_pages) {
+    return `page ${job.current_page ?? 0} of ${job.total_pages}`;
+  }
+  if (job.status === "embedding" && job.chunks_total) {
+    return `${job.chunks_embedded ?? 0} of ${job.chunks_total} chunks`;
+  }
+  return "";
+}
 
 export default function UploadPage() {
   const router = useRouter();
   const [file, setFile] = useState<File | null>(null);
   const [categories, setCategories] = useState<CategoryItem[]>([]);
   const [category, setCategory] = useState<string>(DEFAULT_CATEGORY_NAMES[0]);
-  const [title, setTitle] = useState("");
+  const [familyMode, setFamilyMode] = useState<"new" | "existing">("new");
+  const [familyName, setFamilyName] = useState("");
+  const [families, setFamilies] = useState<DocumentFamily[]>([]);
+  const [familyId, setFamilyId] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [effectiveTo, setEffectiveTo] = useState("");
   const [submitState, setSubmitState] = useState<SubmitState>("idle");
   const [message, setMessage] = useState("");
   const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [job, setJob] = useState<IngestionJob | null>(null);
+  const [mode, setMode] = useState<"single" | "bulk">("single");
 
   useEffect(() => {
     if (!getAuthToken()) {
@@ -71,6 +116,55 @@ export default function UploadPage() {
     });
   }, []);
 
+  // Existing documents (families) a new version can be uploaded to; refreshed after each ingestion
+  useEffect(() => {
+    if (!getAuthToken() || !isAdminUser()) return;
+    if (submitState !== "idle" && submitState !== "success") return;
+    api.get<{ families?: DocumentFamily[] }>("/document-families").then((response) => {
+      if (response.success && response.data?.families) {
+        setFamilies(response.data.families.filter((f) => f.version_count > 0));
+      }
+    }).catch(() => setFamilies([]));
+  }, [submitState]);
+
+  const handleFamilyChange = (id: string) => {
+    setFamilyId(id);
+    const family = families.find((f) => f.id === id);
+    if (family?.category) setCategory(family.category);
+  };
+
+  // Poll the ingestion job until it is stored or failed
+  const jobId = job?.id;
+  useEffect(() => {
+    if (!jobId || submitState !== "processing") return;
+    const timer = setInterval(async () => {
+      const response = await api.get<{ job: IngestionJob }>(`/ingestion-jobs/${jobId}`);
+      const latest = response.success ? response.data?.job : undefined;
+      if (!latest) return;
+      setJob(latest);
+      if (latest.status === "stored") {
+        setSubmitState("success");
+        setMessage(`"${latest.filename ?? "Document"}" ingested successfully.`);
+      } else if (latest.status === "failed") {
+        setSubmitState("error");
+        setMessage(latest.error ?? "Ingestion failed.");
+      }
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, submitState]);
+
+  const handleRetry = async () => {
+    if (!job) return;
+    const response = await api.post<{ job: IngestionJob }>(`/ingestion-jobs/${job.id}/retry`);
+    if (response.success && response.data?.job) {
+      setJob(response.data.job);
+      setSubmitState("processing");
+      setMessage("");
+    } else {
+      setMessage(response.message ?? "Retry failed. Please try again.");
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const chosen = e.target.files?.[0];
     setFile(chosen ?? null);
@@ -84,21 +178,37 @@ export default function UploadPage() {
       setMessage("Please select a file.");
       return;
     }
+    if (familyMode === "existing" && !familyId) {
+      setSubmitState("error");
+      setMessage("Please choose the document this file is a new version of.");
+      return;
+    }
 
     setSubmitState("loading");
     setMessage("");
+    setJob(null);
 
     const formData = new FormData();
     formData.append("file", file);
     formData.append("category", category);
+    if (familyMode === "existing") {
+      formData.append("familyId", familyId);
+    } else if (familyName.trim()) {
+      formData.append("familyName", familyName.trim());
+    }
+    if (effectiveFrom) formData.append("effectiveFrom", effectiveFrom);
+    if (effectiveTo) formData.append("effectiveTo", effectiveTo);
 
     try {
-      const response = await api.postFormData<{ documentId?: string }>("/upload", formData);
-      if (response.success) {
-        setSubmitState("success");
-        setMessage(response.message ?? `"${file.name}" uploaded successfully.`);
+      const response = await api.postFormData<{ jobId: string; status: IngestionJobStatus }>("/upload", formData);
+      if (response.success && response.data?.jobId) {
+        setJob({ id: response.data.jobId, filename: file.name, status: response.data.status, progress: 0 });
+        setSubmitState("processing");
         setFile(null);
-        setTitle("");
+        setFamilyName("");
+        setFamilyId("");
+        setEffectiveFrom("");
+        setEffectiveTo("");
         setCategory(categories[0]?.name ?? DEFAULT_CATEGORY_NAMES[0]);
       } else {
         setSubmitState("error");
@@ -140,7 +250,7 @@ export default function UploadPage() {
       route: "/upload",
       popover: {
         title: "Upload",
-        description: "Click to upload your document. A new version will be created if one already exists in this category.",
+        description: "Click to upload your document. It becomes a new document, or the next version of the document you picked.",
         side: "top" as const,
         align: "center" as const,
       },
@@ -154,108 +264,229 @@ export default function UploadPage() {
       <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
         <h1 className="text-3xl font-bold mb-2">Upload Document</h1>
         <p className="text-slate-600 dark:text-slate-400 mb-8">
-          Add a PDF or DOCX file and choose a category. Version is assigned automatically per category. Admin only.
+          Add a PDF or DOCX file as a new document or as a new version of an existing one. Version is assigned automatically per document. Admin only.
         </p>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 space-y-6">
-            <div>
-              <label htmlFor="file-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                File
-              </label>
-              <div className="flex items-center gap-3">
-                <label className="flex-1 flex items-center justify-center gap-2 px-4 py-6 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 hover:border-blue-500 dark:hover:border-blue-500 bg-slate-50 dark:bg-slate-800/50 cursor-pointer transition-colors" data-tour="upload-file">
-                  <Upload className="w-6 h-6 text-slate-500 dark:text-slate-400" />
-                  <span className="text-sm text-slate-600 dark:text-slate-400">
-                    {file ? file.name : "Choose PDF or DOCX"}
-                  </span>
-                  <input
-                    id="file-input"
-                    type="file"
-                    accept=".pdf,.docx"
-                    onChange={handleFileChange}
-                    className="hidden"
-                  />
+        <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-1 mb-6">
+          {(["single", "bulk"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                mode === m
+                  ? "bg-blue-600 text-white"
+                  : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+              }`}
+            >
+              {m === "single" ? "Single file" : "Bulk / ZIP"}
+            </button>
+          ))}
+        </div>
+
+        {mode === "bulk" ? (
+          <BulkUpload
+            categories={categories.length ? categories.map((c) => c.name) : DEFAULT_CATEGORY_NAMES}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 space-y-6">
+              <div>
+                <label htmlFor="file-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  File
                 </label>
+                <div className="flex items-center gap-3">
+                  <label className="flex-1 flex items-center justify-center gap-2 px-4 py-6 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 hover:border-blue-500 dark:hover:border-blue-500 bg-slate-50 dark:bg-slate-800/50 cursor-pointer transition-colors" data-tour="upload-file">
+                    <Upload className="w-6 h-6 text-slate-500 dark:text-slate-400" />
+                    <span className="text-sm text-slate-600 dark:text-slate-400">
+                      {file ? file.name : "Choose PDF or DOCX"}
+                    </span>
+                    <input
+                      id="file-input"
+                      type="file"
+                      accept=".pdf,.docx"
+                      onChange={handleFileChange}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  Accepted: .pdf, .docx
+                </p>
               </div>
-              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                Accepted: .pdf, .docx
-              </p>
-            </div>
 
-            <div data-tour="upload-category">
-              <label htmlFor="document-category" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                Category
-              </label>
-              <select
-                id="document-category"
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                disabled={categoriesLoading}
-                className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
-              >
-                {(categories.length ? categories : DEFAULT_CATEGORY_NAMES.map((name, i) => ({ id: i, name, type: "default" as const }))).map((cat, index) => (
-                  <option key={`${cat.type}-${cat.id ?? cat.name}-${index}`} value={cat.name}>
-                    {cat.name} {cat.type === "custom" ? "(custom)" : ""}
-                  </option>
-                ))}
-              </select>
-              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                From your visible default and custom categories. Manage in Categories.
-              </p>
-            </div>
+              <div data-tour="upload-category">
+                <label htmlFor="document-category" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Category
+                </label>
+                <select
+                  id="document-category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  disabled={categoriesLoading}
+                  className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                >
+                  {(categories.length ? categories : DEFAULT_CATEGORY_NAMES.map((name, i) => ({ id: i, name, type: "default" as const }))).map((cat, index) => (
+                    <option key={`${cat.type}-${cat.id ?? cat.name}-${index}`} value={cat.name}>
+                      {cat.name} {cat.type === "custom" ? "(custom)" : ""}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  From your visible default and custom categories. Manage in Categories.
+                </p>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Document</span>
+                <div className="flex gap-4 mb-3 text-sm">
+                  <label className="inline-flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="family-mode"
+                      checked={familyMode === "new"}
+                      onChange={() => setFamilyMode("new")}
+                    />
+                    New document
+                  </label>
+                  <label className="inline-flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="family-mode"
+                      checked={familyMode === "existing"}
+                      onChange={() => setFamilyMode("existing")}
+                      disabled={families.length === 0}
+                    />
+                    New version of existing document
+                  </label>
+                </div>
+                {familyMode === "new" ? (
+                  <>
+                    <input
+                      id="family-name"
+                      type="text"
+                      value={familyName}
+                      onChange={(e) => setFamilyName(e.target.value)}
+                      placeholder="e.g. Companies Act 2017"
+                      className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      Optional. Defaults to the file name.
+                    </p>
+                  </>
+                ) : (
+                  <select
+                    id="family-id"
+                    value={familyId}
+                    onChange={(e) => handleFamilyChange(e.target.value)}
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Choose a document…</option>
+                    {families.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.name} (v{f.latest_version ?? 0})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
 
-            <div>
-              <label htmlFor="title" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                Title <span className="text-slate-400">(optional)</span>
-              </label>
-              <input
-                id="title"
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="e.g. Q4 Compliance Policy"
-                className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+              <div>
+                <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">In force</span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="block text-xs text-slate-500 dark:text-slate-400">
+                    From (commencement)
+                    <input
+                      id="effective-from"
+                      type="date"
+                      value={effectiveFrom}
+                      onChange={(e) => setEffectiveFrom(e.target.value)}
+                      className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                  <label className="block text-xs text-slate-500 dark:text-slate-400">
+                    Until (repeal)
+                    <input
+                      id="effective-to"
+                      type="date"
+                      value={effectiveTo}
+                      min={effectiveFrom || undefined}
+                      onChange={(e) => setEffectiveTo(e.target.value)}
+                      className="mt-1 w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2.5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                </div>
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  Optional. Used for &quot;as of date&quot; questions; defaults to the upload date. A version stays in force until the next version commences.
+                </p>
+              </div>
             </div>
-          </div>
 
-          {(submitState === "success" || submitState === "error") && message && (
-            <div
-              className={`flex items-center gap-2 rounded-lg px-4 py-3 text-sm ${
-                submitState === "success"
-                  ? "bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-800"
-                  : "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
-              }`}
+            {job && (submitState === "processing" || job.status === "failed") && (
+              <div className="rounded-lg border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 px-4 py-3 text-sm">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <span className="font-medium truncate">{job.filename ?? "Document"}</span>
+                  <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                    {JOB_STAGE_LABELS[job.status]}
+                    {jobDetail(job) ? ` · ${jobDetail(job)}` : ""}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${job.status === "failed" ? "bg-red-500" : "bg-blue-600"}`}
+                    style={{ width: `${Math.min(100, Math.max(0, job.progress))}%` }}
+                  />
+                </div>
+                {job.status === "failed" && (
+                  <button
+                    type="button"
+                    onClick={handleRetry}
+                    className="mt-3 inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Retry from last completed stage
+                  </button>
+                )}
+              </div>
+            )}
+
+            {(submitState === "success" || submitState === "error") && message && (
+              <div
+                className={`flex items-center gap-2 rounded-lg px-4 py-3 text-sm ${
+                  submitState === "success"
+                    ? "bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-800"
+                    : "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
+                }`}
+              >
+                {submitState === "success" ? (
+                  <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                )}
+                <span>{message}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitState === "loading" || submitState === "processing"}
+              data-tour="upload-submit"
+              className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-70 disabled:cursor-not-allowed text-white font-medium"
             >
-              {submitState === "success" ? (
-                <CheckCircle className="w-5 h-5 flex-shrink-0" />
+              {submitState === "loading" || submitState === "processing" ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  {submitState === "loading" ? "Uploading…" : "Processing…"}
+                </>
               ) : (
-                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <>
+                  <FileText className="w-5 h-5" />
+                  Submit
+                </>
               )}
-              <span>{message}</span>
-            </div>
-          )}
-
-          <button
-            type="submit"
-            disabled={submitState === "loading"}
-            data-tour="upload-submit"
-            className="w-full sm:w-auto inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-70 disabled:cursor-not-allowed text-white font-medium"
-          >
-            {submitState === "loading" ? (
-              <>
-                <Loader2 className="w-5 h-5 animate-spin" />
-                Uploading…
-              </>
-            ) : (
-              <>
-                <FileText className="w-5 h-5" />
-                Submit
-              </>
-            )}
-          </button>
-        </form>
+            </button>
+          </form>
+        )}
       </main>
     </div>
   );
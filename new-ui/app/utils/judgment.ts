@@ -0,0 +1,43 @@
+/** Judgment metadata extracted at ingestion (documents.metadata.judgment); every field may be missing */
+export type JudgmentMetadata = {
+  court?: string;
+  bench?: string[];
+  caseNumber?: string;
+  parties?: { appellants: string[]; respondents: string[] };
+  /** YYYY-MM-DD */
+  decisionDate?: string;
+  reportedAs?: string;
+  statutes?: string[];
+  disposition?: Disposition;
+};
+
+export type Disposition = "allowed" | "partly_allowed" | "dismissed" | "remanded" | "disposed_of" | "withdrawn";
+
+export const DISPOSITION_LABELS: Record<Disposition, string> = {
+  allowed: "Allowed",
+  partly_allowed: "Partly allowed",
+  dismissed: "Dismissed",
+  remanded: "Remanded",
+  disposed_of: "Disposed of",
+  withdrawn: "Withdrawn",
+};
+
+export const DISPOSITION_STYLES: Record<Disposition, string> = {
+  allowed: "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300",
+  partly_allowed: "bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300",
+  dismissed: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  remanded: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300",
+  disposed_of: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300",
+  withdrawn: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300",
+};
+
+/** "Mar 12, 2019" for a YYYY-MM-DD decision date */
+export function formatDecisionDate(day: string | undefined): string {
+  if (!day) return "—";
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+/** True when anything was extracted */
+export function hasJudgmentMetadata(judgment: JudgmentMetadata | null | undefined): judgment is JudgmentMetadata {
+  return !!judgment && Object.keys(judgment).length > 0;
+}
@@ -0,0 +1,22 @@
+import { getApiBase, getAuthTokenForApi } from "@/app/utils/auth";
+
+export type ReportFormat = "pdf" | "docx";
+
+/**
+ * Download a stored analysis run (conflicts, gaps, version changes) as a PDF or DOCX compliance report.
+ * Throws an Error with a user-facing message.
+ */
+export async function downloadAnalysisReport(runId: string, title: string, format: ReportFormat): Promise<void> {
+  const token = getAuthTokenForApi();
+  if (!token) throw new Error("Please sign in to download the report");
+  const res = await fetch(`${getApiBase()}/analysis-runs/${runId}/report?format=${format}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error(res.status === 404 ? "Report not found" : "Could not download report");
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${title.replace(/[\\/:*?"<>|]+/g, " ").trim() || "report"}.${format}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 30000);
+}
@@ -1,4 +1,4 @@
-from fastapi import FastAPI, File, UploadFile, HTTPException
+from fastapi import FastAPI, File, Form, UploadFile, HTTPException
 from fastapi.responses import JSONResponse
 import easyocr
 from PIL import Image, ImageEnhance
@@ -6,11 +6,30 @@ import cv2
 import numpy as np
 import io
 import os
+import re
 
 app = FastAPI()
 
-# Initialize EasyOCR reader once at startup
-reader = easyocr.Reader(['en'], gpu=False)
+# Languages a request may ask for; Urdu shares EasyOCR's Arabic-script model and can be combined with English
+SUPPORTED_LANGUAGES = {'en', 'ur'}
+DEFAULT_LANGUAGES = [
+    lang.strip() for lang in os.getenv('OCR_LANGUAGES', 'en,ur').split(',')
+    if lang.strip() in SUPPORTED_LANGUAGES
+] or ['en']
+
+# EasyOCR readers are expensive to build: one per language combination, the default one at startup
+readers = {}
+
+def get_reader(languages):
+    key = tuple(sorted(set(languages)))
+    if key not in readers:
+        readers[key] = easyocr.Reader(list(key), gpu=False)
+    return readers[key]
+
+get_reader(DEFAULT_LANGUAGES)
+
+ARABIC_SCRIPT = re.compile('[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]')
+LATIN = re.compile('[A-Za-z]')
 
 # Configuration from environment variables
 OCR_CONFIDENCE_THRESHOLD = float(os.getenv('OCR_CONFIDENCE_THRESHOLD', '0.3'))
@@ -46,6 +65,52 @@ def preprocess_image(image: Image.Image) -> np.ndarray:
     rgb = cv2.cvtColor(binary, cv2.COLOR_GRAY2RGB)
     return rgb
 
+def parse_languages(value):
+    if not value:
+        return DEFAULT_LANGUAGES
+    languages = [lang.strip().lower() for lang in value.split(',') if lang.strip()]
+    unsupported = [lang for lang in languages if lang not in SUPPORTED_LANGUAGES]
+    if unsupported or not languages:
+        raise HTTPException(
+            status_code=400,
+            detail=f'Unsupported OCR language(s): {unsupported}. Allowed: {sorted(SUPPORTED_LANGUAGES)}'
+        )
+    return languages
+
+def is_rtl(text):
+    return len(ARABIC_SCRIPT.findall(text)) > len(LATIN.findall(text))
+
+def order_lines(results):
+    """
+    Group EasyOCR boxes into lines (top to bottom). Words of a right-to-left line are
+    ordered right to left so Urdu text comes out in logical (reading) order.
+    """
+    boxes = []
+    for (bbox, text, confidence) in results:
+        xs = [p[0] for p in bbox]
+        ys = [p[1] for p in bbox]
+        boxes.append({
+            'text': text,
+            'confidence': confidence,
+            'x': min(xs),
+            'y': (min(ys) + max(ys)) / 2,
+            'height': max(ys) - min(ys),
+        })
+    boxes.sort(key=lambda b: b['y'])
+
+    lines = []
+    for box in boxes:
+        if lines and abs(box['y'] - lines[-1][-1]['y']) <= max(box['height'], lines[-1][-1]['height']) / 2:
+            lines[-1].append(box)
+        else:
+            lines.append([box])
+
+    ordered = []
+    for line in lines:
+        rtl = is_rtl(' '.join(b['text'] for b in line))
+        ordered.append(sorted(line, key=lambda b: b['x'], reverse=rtl))
+    return ordered
+
 @app.get('/health')
 def health():
     return { 'status': 'ok', 'engine': 'EasyOCR' }
@@ -56,12 +121,15 @@ def test():
         'status': 'ok',
         'engine': 'EasyOCR',
         'gpu': False,
-        'languages': ['en']
+        'languages': DEFAULT_LANGUAGES,
+        'supported_languages': sorted(SUPPORTED_LANGUAGES)
     }
 
 @app.post('/ocr')
-async def extract_text(file: UploadFile = File(...)):
+async def extract_text(file: UploadFile = File(...), languages: str = Form(None)):
     try:
+        requested_languages = parse_languages(languages)
+
         # Validate file type
         if file.content_type not in ALLOWED_MIME_TYPES:
             raise HTTPException(
@@ -93,23 +161,28 @@ async def extract_text(file: UploadFile = File(...)):
         processed = preprocess_image(image)
 
         # EasyOCR returns list of (bbox, text, confidence)
-        results = reader.readtext(processed)
+        results = get_reader(requested_languages).readtext(processed)
 
         extracted = []
-        for (bbox, text, confidence) in results:
-            if confidence > OCR_CONFIDENCE_THRESHOLD:
+        line_texts = []
+        for line in order_lines(results):
+            words = [b for b in line if b['confidence'] > OCR_CONFIDENCE_THRESHOLD]
+            for b in words:
                 extracted.append({
-                    'text': text,
-                    'confidence': round(confidence, 3)
+                    'text': b['text'],
+                    'confidence': round(b['confidence'], 3)
                 })
+            if words:
+                line_texts.append(' '.join(b['text'] for b in words))
 
-        full_text = ' '.join([e['text'] for e in extracted])
+        full_text = '\n'.join(line_texts)
 
         return JSONResponse({
             'success': True,
             'text': full_text,
             'words': extracted,
-            'word_count': len(extracted)
+            'word_count': len(extracted),
+            'languages': requested_languages
         })
 
     except Exception as e:
@@ -0,0 +1,65 @@
+from fastapi import FastAPI
+from fastapi.responses import JSONResponse
+from pydantic import BaseModel
+from sentence_transformers import CrossEncoder
+import torch
+import numpy as np
+import os
+import time
+
+app = FastAPI()
+
+# Multilingual MS MARCO cross-encoder by default: scores English and Urdu passages against a question in either
+RERANK_MODEL = os.getenv('RERANK_MODEL', 'cross-encoder/mmarco-mMiniLMv2-L12-H384-v1')
+RERANK_MAX_LENGTH = int(os.getenv('RERANK_MAX_LENGTH', '512'))
+RERANK_BATCH_SIZE = int(os.getenv('RERANK_BATCH_SIZE', '16'))
+MAX_PASSAGES = int(os.getenv('RERANK_MAX_PASSAGES', '100'))
+
+torch.set_num_threads(int(os.getenv('RERANK_THREADS', str(os.cpu_count() or 1))))
+
+# Loaded once at startup (CPU); query/passage pairs longer than max_length tokens are truncated
+model = CrossEncoder(RERANK_MODEL, max_length=RERANK_MAX_LENGTH, device='cpu')
+
+class RerankRequest(BaseModel):
+    query: str
+    passages: list[str]
+
+@app.get('/health')
+def health():
+    return { 'status': 'ok', 'model': RERANK_MODEL }
+
+@app.post('/rerank')
+def rerank(request: RerankRequest):
+    if not request.query.strip():
+        return JSONResponse(status_code=400, content={ 'success': False, 'error': 'Empty query' })
+    if len(request.passages) > MAX_PASSAGES:
+        return JSONResponse(
+            status_code=413,
+            content={ 'success': False, 'error': f'Too many passages. Max: {MAX_PASSAGES}' }
+        )
+    if not request.passages:
+        return { 'success': True, 'scores': [], 'model': RERANK_MODEL, 'duration_ms': 0 }
+
+    try:
+        started = time.perf_counter()
+        # Raw logits, turned into 0-1 relevance here so the result does not depend on the library's default activation
+        logits = model.predict(
+            [(request.query, passage) for passage in request.passages],
+            batch_size=RERANK_BATCH_SIZE,
+            activation_fct=torch.nn.Identity(),
+            convert_to_numpy=True,
+        )
+        scores = 1 / (1 + np.exp(-np.asarray(logits, dtype=np.float64)))
+        return {
+            'success': True,
+            'scores': [round(float(s), 6) for s in scores],
+            'model': RERANK_MODEL,
+            'duration_ms': round((time.perf_counter() - started) * 1000, 1),
+        }
+    except Exception as e:
+        print(f'[RERANK ERROR] {str(e)}')
+        return JSONResponse(status_code=500, content={ 'success': False, 'error': str(e) })
+
+if __name__ == '__main__':
+    import uvicorn
+    uvicorn.run(app, host='0.0.0.0', port=int(os.getenv('PORT', '8002')))